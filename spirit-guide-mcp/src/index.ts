@@ -34,7 +34,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       {
         name: 'get_exorcist_stats',
         description:
-          'Get statistics about scanned files and classifications from The Digital Exorcist. Query information about ghosts (old files), demons (large files), zombies (duplicates), and overall file management statistics.',
+          'Get statistics about scanned files and classifications from The Digital Exorcist. Query information about ghosts (old files), demons (large files), zombies (duplicates), and overall file management statistics, and whether the hash chain of the graveyard log verifies.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -8,6 +8,7 @@
 import { promises as fs } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
+import { createHash } from 'crypto';
 
 // Monster types matching the main application
 export enum MonsterType {
@@ -21,6 +22,9 @@ export enum ActionType {
   Banish = 'banish',
   Resurrect = 'resurrect',
   Restore = 'restore',
+  Purge = 'purge',
+  Missing = 'missing',
+  Compact = 'compact',
 }
 
 // Log entry structure
@@ -32,6 +36,20 @@ export interface LogEntry {
   graveyardPath?: string;
   classifications: MonsterType[];
   fileSize: number;
+  /** Bytes the entry takes in the graveyard, when stored compressed */
+  storedSize?: number;
+  /** Hash of the entry logged before this one, when the app's hash chain is on */
+  prevHash?: string;
+  /** SHA-256 of this entry, prevHash included, without the hash itself */
+  hash?: string;
+}
+
+// Whether the hash chain of the log checks out, as the app's verification reports it
+export interface LogIntegrity {
+  status: 'verified' | 'broken' | 'unchained';
+  chainedCount: number;
+  /** Position (from 0) and path of the first entry that fails the check */
+  brokenAt?: { index: number; filePath: string; detail: string };
 }
 
 // Statistics structure
@@ -42,57 +60,220 @@ export interface MCPStatistics {
   zombieCount: number;
   totalSize: number;
   graveyardSize: number;
+  /** Bytes the graveyard actually takes on disk; less than graveyardSize when archived compressed */
+  graveyardStoredSize: number;
   banishedCount: number;
   restoredCount: number;
   ghostSize: number;
   demonSize: number;
   zombieSize: number;
+  /** Hash chain check of the log; set by getStatistics */
+  logIntegrity?: LogIntegrity;
 }
 
 
 /**
- * Finds the graveyard log file path
+ * Electron's default userData directory for The Digital Exorcist
+ */
+function defaultUserDataPath(): string {
+  const appName = 'digital-exorcist';
+  if (process.platform === 'win32') {
+    return join(process.env.APPDATA || join(homedir(), 'AppData', 'Roaming'), appName);
+  }
+  if (process.platform === 'darwin') {
+    return join(homedir(), 'Library', 'Application Support', appName);
+  }
+  return join(process.env.XDG_CONFIG_HOME || join(homedir(), '.config'), appName);
+}
+
+/**
+ * Finds the app's data root: the DIGITAL_EXORCIST_DATA_DIR override, the
+ * root configured in userData/data-location.json, or userData itself
+ */
+async function findDataRoot(): Promise<string> {
+  if (process.env.DIGITAL_EXORCIST_DATA_DIR) {
+    return process.env.DIGITAL_EXORCIST_DATA_DIR;
+  }
+
+  const userData = defaultUserDataPath();
+  try {
+    const content = await fs.readFile(join(userData, 'data-location.json'), 'utf-8');
+    const { dataRoot } = JSON.parse(content);
+    if (typeof dataRoot === 'string' && dataRoot) {
+      return dataRoot;
+    }
+  } catch {
+    // No configured data root
+  }
+  return userData;
+}
+
+/**
+ * Finds the folder holding the graveyard log
  * Searches in common locations for The Digital Exorcist data
  */
-async function findLogFilePath(): Promise<string | null> {
-  const possiblePaths = [
-    // Current working directory
-    join(process.cwd(), '.digital-exorcist', 'graveyard-log.json'),
+async function findLogDir(): Promise<string | null> {
+  const possibleDirs = [
+    // The app's data root
+    join(await findDataRoot(), '.digital-exorcist'),
+    // Current working directory (versions before the data root was configurable)
+    join(process.cwd(), '.digital-exorcist'),
     // Home directory
-    join(homedir(), '.digital-exorcist', 'graveyard-log.json'),
+    join(homedir(), '.digital-exorcist'),
     // Parent directory (for when running from spirit-guide-mcp folder)
-    join(process.cwd(), '..', '.digital-exorcist', 'graveyard-log.json'),
+    join(process.cwd(), '..', '.digital-exorcist'),
   ];
 
-  for (const logPath of possiblePaths) {
+  for (const logDir of possibleDirs) {
+    for (const name of ['graveyard-log.jsonl', 'graveyard-log.json']) {
+      try {
+        await fs.access(join(logDir, name));
+        return logDir;
+      } catch {
+        // Path doesn't exist, try next
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Parses a JSONL log segment, skipping partial or corrupted lines
+ */
+function parseLogSegment(content: string): LogEntry[] {
+  const entries: LogEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
     try {
-      await fs.access(logPath);
-      return logPath;
+      entries.push(JSON.parse(line));
     } catch {
-      // Path doesn't exist, try next
+      // Partial line from an interrupted write
     }
   }
+  return entries;
+}
 
-  return null;
+/**
+ * Lists rotated log segments, oldest first
+ */
+async function listRotatedSegments(logDir: string): Promise<string[]> {
+  return (await fs.readdir(logDir).catch(() => [] as string[]))
+    .map(name => ({ name, match: /^graveyard-log\.(\d+)\.jsonl$/.exec(name) }))
+    .filter(({ match }) => match)
+    .sort((a, b) => Number(a.match![1]) - Number(b.match![1]))
+    .map(({ name }) => name);
 }
 
 /**
- * Reads log entries from the graveyard log file
+ * Reads log entries from the graveyard log
+ * The log is graveyard-log.jsonl plus rotated graveyard-log.<n>.jsonl
+ * segments; a graveyard-log.json the app has not migrated yet is read first.
+ * The app replaces files atomically and skips partial lines, but it may
+ * rotate or compact the log while the segments are being read, so the read
+ * is repeated until the set of segments stayed the same throughout.
  */
 async function readLogEntries(): Promise<LogEntry[]> {
-  const logPath = await findLogFilePath();
+  const logDir = await findLogDir();
 
-  if (!logPath) {
+  if (!logDir) {
     return [];
   }
 
-  try {
-    const content = await fs.readFile(logPath, 'utf-8');
-    const log = JSON.parse(content);
-    return log.entries || [];
-  } catch {
-    return [];
+  let entries: LogEntry[] = [];
+  for (let attempt = 0; attempt < 5; attempt++) {
+    entries = [];
+    try {
+      const log = JSON.parse(await fs.readFile(join(logDir, 'graveyard-log.json'), 'utf-8'));
+      entries.push(...(log.entries || []));
+    } catch {
+      // Already migrated, or never written
+    }
+
+    const rotated = await listRotatedSegments(logDir);
+    for (const name of [...rotated, 'graveyard-log.jsonl']) {
+      try {
+        entries.push(...parseLogSegment(await fs.readFile(join(logDir, name), 'utf-8')));
+      } catch {
+        // Segment removed while reading
+      }
+    }
+
+    if ((await listRotatedSegments(logDir)).join('\n') === rotated.join('\n')) {
+      break;
+    }
+  }
+  return entries;
+}
+
+/**
+ * Serializes a value as JSON with sorted keys and undefined fields left out,
+ * exactly as the app does before hashing
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const fields = Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function hashLogEntry(entry: LogEntry): string {
+  const fields: Partial<LogEntry> = { ...entry };
+  delete fields.hash;
+  return createHash('sha256').update(canonicalJson(fields)).digest('hex');
+}
+
+/**
+ * Checks the log's hash chain the way the app does: once the chain has
+ * started, every entry must hash to its stored hash and link to the entry
+ * before it (the first chained entry links to 64 zeros if nothing precedes it)
+ */
+export function verifyLogChain(entries: LogEntry[]): LogIntegrity {
+  let previous: LogEntry | undefined;
+  let chainedCount = 0;
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    const broken = (detail: string): LogIntegrity =>
+      ({ status: 'broken', chainedCount, brokenAt: { index: i, filePath: entry.filePath, detail } });
+
+    if (entry.hash === undefined && entry.prevHash === undefined) {
+      if (chainedCount > 0) return broken('logged after the chain started, but carries no hashes');
+      previous = entry;
+      continue;
+    }
+    if (entry.hash !== hashLogEntry(entry)) {
+      return broken('changed after it was logged');
+    }
+    const expected = previous ? previous.hash ?? hashLogEntry(previous) : '0'.repeat(64);
+    if (entry.prevHash !== expected) {
+      return broken('does not link to the entry before it');
+    }
+
+    chainedCount++;
+    previous = entry;
   }
+
+  return { status: chainedCount > 0 ? 'verified' : 'unchained', chainedCount };
+}
+
+/**
+ * Stored size a restore or purge takes out of the graveyard
+ */
+function takeStoredSize(storedSizes: Map<string, number>, entry: LogEntry): number {
+  if (entry.action === ActionType.Resurrect) return 0;
+  const stored = entry.graveyardPath !== undefined ? storedSizes.get(entry.graveyardPath) : undefined;
+  if (stored === undefined) return entry.fileSize || 0;
+  storedSizes.delete(entry.graveyardPath!);
+  return stored;
 }
 
 /**
@@ -106,6 +287,7 @@ export function calculateStatistics(entries: LogEntry[]): MCPStatistics {
     zombieCount: 0,
     totalSize: 0,
     graveyardSize: 0,
+    graveyardStoredSize: 0,
     banishedCount: 0,
     restoredCount: 0,
     ghostSize: 0,
@@ -113,6 +295,9 @@ export function calculateStatistics(entries: LogEntry[]): MCPStatistics {
     zombieSize: 0,
   };
 
+  // Stored size of each entry in the graveyard, so leaving entries give back what they took
+  const storedSizes = new Map<string, number>();
+
   for (const entry of entries) {
     const fileSize = entry.fileSize || 0;
     const classifications = entry.classifications || [];
@@ -120,6 +305,11 @@ export function calculateStatistics(entries: LogEntry[]): MCPStatistics {
     if (entry.action === ActionType.Banish) {
       stats.banishedCount++;
       stats.graveyardSize += fileSize;
+      const storedSize = entry.storedSize ?? fileSize;
+      stats.graveyardStoredSize += storedSize;
+      if (entry.graveyardPath) {
+        storedSizes.set(entry.graveyardPath, storedSize);
+      }
 
       // Count by classification type (each classification counted once per occurrence)
       // Size is counted once per file that has that classification (not per occurrence)
@@ -156,6 +346,11 @@ export function calculateStatistics(entries: LogEntry[]): MCPStatistics {
       stats.restoredCount++;
       // Subtract from graveyard size when restored
       stats.graveyardSize = Math.max(0, stats.graveyardSize - fileSize);
+      stats.graveyardStoredSize = Math.max(0, stats.graveyardStoredSize - takeStoredSize(storedSizes, entry));
+    } else if (entry.action === ActionType.Purge || entry.action === ActionType.Missing) {
+      // Permanently deleted by the retention reaper, or found gone by a graveyard audit
+      stats.graveyardSize = Math.max(0, stats.graveyardSize - fileSize);
+      stats.graveyardStoredSize = Math.max(0, stats.graveyardStoredSize - takeStoredSize(storedSizes, entry));
     }
 
     stats.totalFiles++;
@@ -170,7 +365,7 @@ export function calculateStatistics(entries: LogEntry[]): MCPStatistics {
  */
 export async function getStatistics(): Promise<MCPStatistics> {
   const entries = await readLogEntries();
-  return calculateStatistics(entries);
+  return { ...calculateStatistics(entries), logIntegrity: verifyLogChain(entries) };
 }
 
 
@@ -189,8 +384,25 @@ function formatBytes(bytes: number): string {
  * Formats statistics into a thematic Spirit Guide response
  */
 export function formatSpiritGuideResponse(stats: MCPStatistics, query: string): string {
-  const lowerQuery = query.toLowerCase();
+  const response = formatTopicResponse(stats, query.toLowerCase());
+  return stats.logIntegrity ? `${response}\n\n${formatIntegrityLine(stats.logIntegrity)}` : response;
+}
+
+/**
+ * States whether the log's hash chain verifies
+ */
+function formatIntegrityLine(integrity: LogIntegrity): string {
+  switch (integrity.status) {
+    case 'verified':
+      return `🔏 Log integrity: verified (${integrity.chainedCount} hash-chained entr${integrity.chainedCount !== 1 ? 'ies' : 'y'})`;
+    case 'broken':
+      return `⚠️ Log integrity: BROKEN at entry ${integrity.brokenAt!.index + 1} (${integrity.brokenAt!.filePath}): ${integrity.brokenAt!.detail}`;
+    default:
+      return '🔓 Log integrity: not verifiable (the hash chain is off)';
+  }
+}
 
+function formatTopicResponse(stats: MCPStatistics, lowerQuery: string): string {
   // Check for specific queries about monster types
   if (lowerQuery.includes('ghost')) {
     return formatGhostResponse(stats);
@@ -257,7 +469,8 @@ function formatBanishmentResponse(stats: MCPStatistics): string {
 Your exorcism efforts have been ${stats.banishedCount > 10 ? 'legendary' : stats.banishedCount > 0 ? 'valiant' : 'dormant'}!
 
 Total entities banished to the graveyard: ${stats.banishedCount}
-Space reclaimed from the mortal realm: ${formatBytes(stats.graveyardSize)}
+Entities resting in the graveyard: ${formatBytes(stats.graveyardSize)}
+Space actually reclaimed on disk: ${formatBytes(stats.graveyardSize - stats.graveyardStoredSize)}
 
 ${stats.banishedCount > 0
     ? 'The graveyard grows with each victory. Your digital realm becomes cleaner.'
@@ -282,7 +495,7 @@ Total space consumed by supernatural entities:
 - 😈 Demons (large files): ${formatBytes(stats.demonSize)}
 - 🧟 Zombies (duplicates): ${formatBytes(stats.zombieSize)}
 
-Current graveyard occupancy: ${formatBytes(stats.graveyardSize)}
+Current graveyard occupancy: ${formatBytes(stats.graveyardStoredSize)} on disk, holding ${formatBytes(stats.graveyardSize)}
 
 ${stats.totalSize > 0
     ? `The spirits have touched ${formatBytes(stats.totalSize)} of your realm in total.`
@@ -302,7 +515,7 @@ Greetings, Digital Exorcist! Here is the state of your supernatural realm:
 **Exorcism Statistics:**
 - Total banishments: ${stats.banishedCount}
 - Resurrections granted: ${stats.restoredCount}
-- Graveyard size: ${formatBytes(stats.graveyardSize)}
+- Graveyard size: ${formatBytes(stats.graveyardSize)} (${formatBytes(stats.graveyardStoredSize)} on disk)
 
 **Storage Impact:**
 - Ghost realm: ${formatBytes(stats.ghostSize)}
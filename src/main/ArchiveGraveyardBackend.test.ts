@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { spawnSync } from 'child_process';
+import { gunzipSync } from 'zlib';
+import { Graveyard } from './Graveyard';
+import { FileOperations } from './FileOperations';
+
+describe('ArchiveGraveyardBackend', () => {
+  let testDir: string;
+  let dataRoot: string;
+  let scanRoot: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `digital-exorcist-archive-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+    dataRoot = join(testDir, 'data');
+    scanRoot = join(testDir, 'scan');
+    await fs.mkdir(scanRoot, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function listFiles(dir: string): Promise<string[]> {
+    const entries = await fs.readdir(dir, { recursive: true, withFileTypes: true }).catch(() => []);
+    return entries.filter(entry => entry.isFile()).map(entry => entry.name).sort();
+  }
+
+  it('compresses banished files and restores them byte for byte', async () => {
+    const graveyard = new Graveyard(dataRoot, { backend: 'archive' });
+    const fileOps = new FileOperations(scanRoot, dataRoot, undefined, undefined, graveyard);
+    const filePath = join(scanRoot, 'logs', 'huge.log');
+    const content = 'the same haunted line, over and over\n'.repeat(5000);
+    await fs.mkdir(join(scanRoot, 'logs'));
+    await fs.writeFile(filePath, content);
+    await fs.chmod(filePath, 0o640);
+
+    const banished = await fileOps.banishFile(filePath);
+
+    expect(banished.success).toBe(true);
+    await expect(fs.lstat(filePath)).rejects.toThrow();
+    const stats = await graveyard.stat(banished.graveyardPath);
+    expect(stats.size).toBe(content.length);
+    expect(stats.storedSize).toBeLessThan(content.length / 10);
+
+    const restored = await fileOps.restoreFile(banished.graveyardPath, filePath);
+
+    expect(restored.success).toBe(true);
+    expect(await fs.readFile(filePath, 'utf-8')).toBe(content);
+    expect((await fs.stat(filePath)).mode & 0o777).toBe(0o640);
+    // The last entry out takes its chunk with it
+    expect(await listFiles(join(dataRoot, 'graveyard_archive'))).toEqual([]);
+    expect(await graveyard.manifest.getEntries()).toEqual([]);
+  });
+
+  it('writes chunks that are plain tar.gz and rolls over to a new chunk when full', async () => {
+    const graveyard = new Graveyard(dataRoot, { backend: 'archive', archiveChunkLimit: 1 });
+    for (const name of ['a.txt', 'b.txt']) {
+      await fs.writeFile(join(scanRoot, name), `contents of ${name}`);
+      await graveyard.bury({ originalPath: join(scanRoot, name), scanRoot, sessionId: 'session-test' });
+    }
+
+    const chunkDir = join(dataRoot, 'graveyard_archive', 'session-test');
+    expect(await listFiles(chunkDir)).toEqual(['chunk-0001.tar.gz', 'chunk-0002.tar.gz']);
+
+    const tar = gunzipSync(await fs.readFile(join(chunkDir, 'chunk-0001.tar.gz')));
+    expect(tar.subarray(0, 100).toString('utf-8').replace(/\0+$/, '')).toBe(join('session-test', 'a.txt'));
+    expect(tar.subarray(257, 262).toString('ascii')).toBe('ustar');
+    expect(tar.subarray(512, 512 + 'contents of a.txt'.length).toString('utf-8')).toBe('contents of a.txt');
+  });
+
+  it('extracts a single entry and refuses one whose checksum does not match', async () => {
+    const graveyard = new Graveyard(dataRoot, { backend: 'archive' });
+    const paths: string[] = [];
+    for (const name of ['one.txt', 'two.txt', 'three.txt']) {
+      await fs.writeFile(join(scanRoot, name), `I am ${name}`);
+      paths.push(await graveyard.bury({ originalPath: join(scanRoot, name), scanRoot, sessionId: 'session-test' }));
+    }
+
+    await graveyard.exhume(paths[1], join(scanRoot, 'two.txt'));
+    expect(await fs.readFile(join(scanRoot, 'two.txt'), 'utf-8')).toBe('I am two.txt');
+    await expect(fs.lstat(join(scanRoot, 'one.txt'))).rejects.toThrow();
+
+    const indexPath = join(dataRoot, '.digital-exorcist', 'graveyard-archive-index.json');
+    const index = JSON.parse(await fs.readFile(indexPath, 'utf-8'));
+    index.entries[0].sha256 = '0'.repeat(64);
+    await fs.writeFile(indexPath, JSON.stringify(index));
+
+    await expect(graveyard.exhume(paths[0], join(scanRoot, 'one.txt'))).rejects.toThrow('Checksum mismatch');
+    await expect(fs.lstat(join(scanRoot, 'one.txt'))).rejects.toThrow();
+    expect(await graveyard.exists(paths[0])).toBe(true);
+    expect((await graveyard.stat(paths[2])).size).toBe('I am three.txt'.length);
+  });
+
+  it('banishes a directory holding only empty directories and restores the whole tree', async () => {
+    const graveyard = new Graveyard(dataRoot, { backend: 'archive' });
+    const fileOps = new FileOperations(scanRoot, dataRoot, undefined, undefined, graveyard);
+    const wraith = join(scanRoot, 'unzipped');
+    await fs.mkdir(join(wraith, 'docs', 'old'), { recursive: true });
+    await fs.mkdir(join(wraith, 'images'));
+
+    const banished = await fileOps.banishFile(wraith);
+
+    expect(banished.success).toBe(true);
+    await expect(fs.lstat(wraith)).rejects.toThrow();
+    const [session] = await fs.readdir(join(dataRoot, 'graveyard_archive'));
+    const [chunk] = await fs.readdir(join(dataRoot, 'graveyard_archive', session));
+    // The directory and the three nested in it, one header each
+    const tar = gunzipSync(await fs.readFile(join(dataRoot, 'graveyard_archive', session, chunk)));
+    expect(tar.length).toBe(4 * 512);
+
+    expect((await fileOps.restoreFile(banished.graveyardPath, wraith)).success).toBe(true);
+    const restored = await fs.readdir(wraith, { recursive: true });
+    expect(restored.sort()).toEqual(['docs', join('docs', 'old'), 'images']);
+  });
+
+  it('keeps long multibyte member names and link targets whole for standard tar', async () => {
+    const graveyard = new Graveyard(dataRoot, { backend: 'archive' });
+    // Over 200 characters, with a last segment too long for the ustar name field
+    const relativeDir = join('Gespenster-ä'.repeat(8), 'ñandú-ß'.repeat(6));
+    const fileName = `${'ß'.repeat(60)}.txt`;
+    const filePath = join(scanRoot, relativeDir, fileName);
+    const linkPath = join(scanRoot, relativeDir, 'link');
+    const linkTarget = join(scanRoot, relativeDir, fileName);
+    await fs.mkdir(join(scanRoot, relativeDir), { recursive: true });
+    await fs.writeFile(filePath, 'über lange Namen');
+    await fs.symlink(linkTarget, linkPath);
+    expect(join(relativeDir, fileName).length).toBeGreaterThan(200);
+
+    const graveyardPath = await graveyard.bury({ originalPath: filePath, scanRoot, sessionId: 'session-test' });
+    const linkGraveyardPath = await graveyard.bury({ originalPath: linkPath, scanRoot, sessionId: 'session-test' });
+
+    const chunk = join(dataRoot, 'graveyard_archive', 'session-test', 'chunk-0001.tar.gz');
+    const listed = spawnSync('tar', ['--quoting-style=literal', '-tzf', chunk], { encoding: 'utf-8' });
+    expect(listed.status).toBe(0);
+    expect(listed.stdout.trim().split('\n')).toEqual([
+      ['session-test', relativeDir, fileName].join('/'),
+      ['session-test', relativeDir, 'link'].join('/')
+    ]);
+    const extractDir = join(testDir, 'extracted');
+    await fs.mkdir(extractDir);
+    expect(spawnSync('tar', ['-xzf', chunk, '-C', extractDir]).status).toBe(0);
+    expect(await fs.readFile(join(extractDir, 'session-test', relativeDir, fileName), 'utf-8')).toBe('über lange Namen');
+    expect(await fs.readlink(join(extractDir, 'session-test', relativeDir, 'link'))).toBe(linkTarget);
+
+    await graveyard.exhume(graveyardPath, filePath);
+    await graveyard.exhume(linkGraveyardPath, linkPath);
+    expect(await fs.readFile(filePath, 'utf-8')).toBe('über lange Namen');
+    expect(await fs.readlink(linkPath)).toBe(linkTarget);
+  });
+});
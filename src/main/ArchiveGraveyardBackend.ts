@@ -0,0 +1,529 @@
+import { promises as fs, createReadStream, createWriteStream } from 'fs';
+import { join, dirname, basename, relative, sep } from 'path';
+import { createHash } from 'crypto';
+import { createGzip, createGunzip } from 'zlib';
+import { pipeline } from 'stream/promises';
+import { GraveyardManifest } from './GraveyardManifest';
+import {
+  GraveyardBackend,
+  GraveyardEntryStats,
+  GraveyardOrphan,
+  AdoptionRecord,
+  BuryRequest,
+  isEmptyDirectory,
+  listNestedDirectories
+} from './GraveyardBackend';
+import { FileLock, writeFileAtomic } from './FileLock';
+
+/** Chunks stop taking new entries once they reach this size */
+export const ARCHIVE_CHUNK_LIMIT = 256 * 1024 * 1024;
+
+const TAR_BLOCK = 512;
+
+/**
+ * Where an archived entry lives and how to check it
+ */
+export interface ArchiveIndexEntry {
+  /** Virtual graveyard path the entry is known by */
+  graveyardPath: string;
+  /** Chunk file, relative to the archive folder */
+  chunk: string;
+  /** Byte offset of the entry's gzip member in the chunk */
+  offset: number;
+  /** Compressed length of the gzip member */
+  length: number;
+  /** Original size in bytes */
+  size: number;
+  /** SHA-256 of the original content, checked on extraction */
+  sha256: string;
+  type: 'file' | 'directory' | 'symlink';
+  mode: number;
+  mtimeMs: number;
+  linkTarget?: string;
+  /** Empty directories nested in a directory entry, relative to it */
+  directories?: string[];
+}
+
+/**
+ * Writes an octal tar header field, or base-256 for values too large for octal
+ */
+function writeNumber(header: Buffer, value: number, offset: number, length: number): void {
+  const octal = Math.floor(value).toString(8);
+  if (octal.length < length) {
+    header.write(octal.padStart(length - 1, '0'), offset, length - 1, 'ascii');
+    return;
+  }
+  // GNU base-256: high bit set, big-endian binary
+  let remaining = BigInt(Math.floor(value));
+  for (let i = offset + length - 1; i > offset; i--) {
+    header[i] = Number(remaining & 0xffn);
+    remaining >>= 8n;
+  }
+  header[offset] = 0x80;
+}
+
+/**
+ * Cuts a string to at most `max` UTF-8 bytes without splitting a character
+ */
+function truncateUtf8(value: string, max: number): Buffer {
+  const bytes = Buffer.from(value, 'utf-8');
+  if (bytes.length <= max) return bytes;
+  let end = max;
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+  return bytes.subarray(0, end);
+}
+
+/**
+ * Splits a member name into ustar prefix and name fields, if it fits them
+ */
+function splitUstarName(name: string): { prefix: Buffer; name: Buffer } | undefined {
+  const bytes = Buffer.from(name, 'utf-8');
+  if (bytes.length <= 100) return { prefix: Buffer.alloc(0), name: bytes };
+  // The prefix ends at a slash that is left out, and holds at most 155 bytes
+  for (let slash = bytes.indexOf(0x2f, 1); slash !== -1 && slash <= 155; slash = bytes.indexOf(0x2f, slash + 1)) {
+    if (bytes.length - slash - 1 <= 100) {
+      return { prefix: bytes.subarray(0, slash), name: bytes.subarray(slash + 1) };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Formats one PAX extended header record; its length counts itself
+ */
+function paxRecord(key: string, value: string): Buffer {
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = Buffer.byteLength(body, 'utf-8');
+  let length = bodyLength + 1;
+  while (String(length).length + bodyLength !== length) length++;
+  return Buffer.from(`${length}${body}`, 'utf-8');
+}
+
+/**
+ * Fills in one ustar header block
+ */
+function writeHeader(
+  fields: { name: Buffer; prefix?: Buffer; linkTarget?: Buffer; typeflag: string; size: number },
+  entry: Pick<ArchiveIndexEntry, 'mode' | 'mtimeMs'>
+): Buffer {
+  const header = Buffer.alloc(TAR_BLOCK);
+  fields.name.copy(header, 0, 0, 100);
+  writeNumber(header, entry.mode & 0o7777, 100, 8);
+  writeNumber(header, 0, 108, 8);
+  writeNumber(header, 0, 116, 8);
+  writeNumber(header, fields.size, 124, 12);
+  writeNumber(header, entry.mtimeMs / 1000, 136, 12);
+  header.write(fields.typeflag, 156, 1, 'ascii');
+  fields.linkTarget?.copy(header, 157, 0, 100);
+  header.write('ustar\0', 257, 6, 'ascii');
+  header.write('00', 263, 2, 'ascii');
+  fields.prefix?.copy(header, 345, 0, 155);
+
+  // Checksum is computed with its own field read as spaces
+  header.fill(' ', 148, 156);
+  let checksum = 0;
+  for (const byte of header) checksum += byte;
+  header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148, 8, 'ascii');
+  return header;
+}
+
+/**
+ * Builds the tar header for one entry
+ * Names up to 100 bytes go in the name field and longer ones are split over
+ * the prefix and name fields. Names and link targets that still do not fit
+ * get a PAX extended header, which carries them in full.
+ * @param name - Member name
+ * @param entry - Type, size, mode and times of the entry
+ * @returns The ustar header, preceded by a PAX extended header when needed
+ */
+export function createTarHeader(
+  name: string,
+  entry: Pick<ArchiveIndexEntry, 'type' | 'size' | 'mode' | 'mtimeMs' | 'linkTarget'>
+): Buffer {
+  const ustarName = splitUstarName(name);
+  const linkTarget = entry.linkTarget ? Buffer.from(entry.linkTarget, 'utf-8') : undefined;
+  const header = writeHeader({
+    name: ustarName?.name ?? truncateUtf8(name, 100),
+    prefix: ustarName?.prefix,
+    linkTarget: linkTarget && linkTarget.length > 100 ? truncateUtf8(entry.linkTarget!, 100) : linkTarget,
+    typeflag: entry.type === 'directory' ? '5' : entry.type === 'symlink' ? '2' : '0',
+    size: entry.type === 'file' ? entry.size : 0
+  }, entry);
+
+  const records: Buffer[] = [];
+  if (!ustarName) records.push(paxRecord('path', name));
+  if (linkTarget && linkTarget.length > 100) records.push(paxRecord('linkpath', entry.linkTarget!));
+  if (records.length === 0) return header;
+
+  const pax = Buffer.concat(records);
+  const paxHeader = writeHeader({
+    name: truncateUtf8(`PaxHeader/${basename(name)}`, 100),
+    typeflag: 'x',
+    size: pax.length
+  }, entry);
+  const padding = (TAR_BLOCK - (pax.length % TAR_BLOCK)) % TAR_BLOCK;
+  return Buffer.concat([paxHeader, pax, Buffer.alloc(padding), header]);
+}
+
+/**
+ * Works out how many bytes of tar headers come before an entry's content
+ * @param data - Start of the entry, including any PAX extended header
+ * @returns Header length, or undefined when more data is needed to tell
+ */
+function tarHeaderLength(data: Buffer): number | undefined {
+  let offset = 0;
+  while (data.length >= offset + TAR_BLOCK) {
+    if (data[offset + 156] !== 0x78) return offset + TAR_BLOCK;
+    // A PAX extended header: its records, padded to a block, then the next header
+    const size = parseInt(data.subarray(offset + 124, offset + 136).toString('ascii').replace(/\0.*$/, '').trim(), 8);
+    offset += TAR_BLOCK + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+  }
+  return undefined;
+}
+
+/**
+ * ArchiveGraveyardBackend - Compressed cold storage for the graveyard
+ *
+ * Each entry is written as its own gzip member holding a single tar entry
+ * and appended to a chunk under graveyard_archive/<session>/, so every chunk
+ * is a valid .tar.gz that standard tools can list and extract, while the
+ * index lets one entry be extracted without reading the rest. Entries are
+ * known by a virtual graveyard path in the folder graveyard's layout.
+ *
+ * Restored or deleted entries leave dead space in their chunk until every
+ * entry in it is gone, when the chunk is deleted.
+ *
+ * The index is changed under graveyard-archive-index.lock and replaced
+ * atomically, so several app instances can share the archive.
+ */
+export class ArchiveGraveyardBackend implements GraveyardBackend {
+  readonly id = 'archive' as const;
+  readonly checksContent = true;
+  private readonly archiveRoot: string;
+  private readonly indexDir: string;
+  private readonly indexFilePath: string;
+  private readonly manifest: GraveyardManifest;
+  private readonly chunkLimit: number;
+  private readonly lock: FileLock;
+  /** Serializes chunk appends and index updates */
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param baseDir - Data root holding graveyard_archive and .digital-exorcist
+   * @param manifest - Manifest entries are recorded in
+   * @param chunkLimit - Size at which a new chunk is started
+   */
+  constructor(baseDir: string, manifest: GraveyardManifest, chunkLimit: number = ARCHIVE_CHUNK_LIMIT) {
+    this.archiveRoot = join(baseDir, 'graveyard_archive');
+    this.indexDir = join(baseDir, '.digital-exorcist');
+    this.indexFilePath = join(this.indexDir, 'graveyard-archive-index.json');
+    this.manifest = manifest;
+    this.chunkLimit = chunkLimit;
+    this.lock = new FileLock(join(this.indexDir, 'graveyard-archive-index.lock'));
+  }
+
+  async bury(request: BuryRequest): Promise<string> {
+    const stats = await fs.lstat(request.originalPath);
+    const type = stats.isSymbolicLink() ? 'symlink' : stats.isDirectory() ? 'directory' : 'file';
+    if (type === 'directory' && !(await isEmptyDirectory(request.originalPath))) {
+      throw new Error(`Only empty directories can be archived: ${request.originalPath}`);
+    }
+    const linkTarget = type === 'symlink' ? await fs.readlink(request.originalPath) : undefined;
+    const directories = type === 'directory' ? await listNestedDirectories(request.originalPath) : [];
+
+    // Virtual path in the folder layout, unique across the manifest
+    const { graveyardPath } = await this.manifest.reserve({
+      graveyardRoot: this.archiveRoot,
+      sessionId: request.sessionId,
+      scanRoot: request.scanRoot,
+      originalPath: request.originalPath,
+      backend: this.id,
+      metadata: request.metadata
+    });
+
+    try {
+      await this.serialize(async () => {
+        const chunk = await this.pickChunk(request.sessionId);
+        const chunkPath = join(this.archiveRoot, chunk);
+        const offset = await fs.stat(chunkPath).then(s => s.size, () => 0);
+        const entry: ArchiveIndexEntry = {
+          graveyardPath,
+          chunk,
+          offset,
+          length: 0,
+          size: type === 'file' ? stats.size : 0,
+          sha256: '',
+          type,
+          mode: stats.mode,
+          mtimeMs: stats.mtimeMs,
+          linkTarget,
+          ...(directories.length > 0 ? { directories } : {})
+        };
+
+        try {
+          await fs.mkdir(dirname(chunkPath), { recursive: true });
+          const { length, sha256 } = await this.appendMember(chunkPath, request.originalPath, entry);
+          entry.length = length;
+          entry.sha256 = sha256;
+          await this.writeIndex([...await this.readIndex(), entry]);
+        } catch (error) {
+          // Cut off whatever part of the member was written
+          await fs.truncate(chunkPath, offset).catch(() => undefined);
+          throw error;
+        }
+      });
+    } catch (error) {
+      await this.manifest.remove(graveyardPath);
+      throw error;
+    }
+
+    // Only remove the original once it is safely in the archive
+    await fs.rm(request.originalPath, { recursive: true, force: true });
+    return graveyardPath;
+  }
+
+  async exhume(graveyardPath: string, destination: string): Promise<void> {
+    const entry = await this.findEntry(graveyardPath);
+    await fs.mkdir(dirname(destination), { recursive: true });
+
+    if (entry.type === 'directory') {
+      await fs.mkdir(destination, { mode: entry.mode & 0o7777 });
+      for (const directory of entry.directories ?? []) {
+        await fs.mkdir(join(destination, directory), { recursive: true });
+      }
+    } else if (entry.type === 'symlink') {
+      await fs.symlink(entry.linkTarget || '', destination);
+    } else {
+      await this.extractFile(entry, destination);
+    }
+
+    await this.forget(graveyardPath);
+  }
+
+  async destroy(graveyardPath: string): Promise<void> {
+    await this.forget(graveyardPath);
+  }
+
+  async stat(graveyardPath: string): Promise<GraveyardEntryStats> {
+    const entry = await this.findEntry(graveyardPath);
+    if (!(await this.hasChunk(entry))) {
+      throw new Error(`Archive chunk ${entry.chunk} is missing`);
+    }
+    return {
+      size: entry.size,
+      storedSize: entry.length,
+      isDirectory: entry.type === 'directory',
+      linkTarget: entry.linkTarget
+    };
+  }
+
+  /**
+   * Lists archived entries the manifest has no record of
+   * Chunks whose index entries are gone cannot be listed without the index.
+   */
+  async findOrphans(): Promise<GraveyardOrphan[]> {
+    await this.pending;
+    const known = new Set((await this.manifest.getEntries()).map(entry => entry.graveyardPath));
+    const unknown = (await this.readIndex()).filter(entry => !known.has(entry.graveyardPath));
+    const stored: ArchiveIndexEntry[] = [];
+    for (const entry of unknown) {
+      // An entry whose chunk is gone has nothing left to adopt
+      if (await this.hasChunk(entry)) stored.push(entry);
+    }
+    return stored
+      .map(entry => {
+        const [sessionId, ...rest] = relative(this.archiveRoot, entry.graveyardPath).split(sep);
+        return {
+          backend: this.id,
+          graveyardPath: entry.graveyardPath,
+          sessionId,
+          relativePath: rest.join(sep) || sessionId,
+          size: entry.length
+        };
+      });
+  }
+
+  async adopt(orphan: GraveyardOrphan, record: AdoptionRecord): Promise<string> {
+    await this.findEntry(orphan.graveyardPath);
+    await this.manifest.add({
+      ...record,
+      graveyardPath: orphan.graveyardPath,
+      banishedAt: new Date().toISOString(),
+      backend: this.id
+    });
+    return orphan.graveyardPath;
+  }
+
+  /**
+   * Picks the session's newest chunk, or starts a new one when it is full
+   */
+  private async pickChunk(sessionId: string): Promise<string> {
+    const chunks = (await this.readIndex())
+      .map(entry => entry.chunk)
+      .filter(chunk => dirname(chunk) === sessionId)
+      .sort();
+    const latest = chunks[chunks.length - 1];
+    if (latest) {
+      const size = await fs.stat(join(this.archiveRoot, latest)).then(s => s.size, () => 0);
+      if (size < this.chunkLimit) return latest;
+    }
+    const number = latest ? parseInt(basename(latest).replace(/\D/g, ''), 10) + 1 : 1;
+    return join(sessionId, `chunk-${String(number).padStart(4, '0')}.tar.gz`);
+  }
+
+  /**
+   * Appends one gzip member holding the tar entry for a path
+   * @returns Compressed length and checksum of the original content
+   */
+  private async appendMember(
+    chunkPath: string,
+    sourcePath: string,
+    entry: ArchiveIndexEntry
+  ): Promise<{ length: number; sha256: string }> {
+    const hash = createHash('sha256');
+    const name = relative(this.archiveRoot, entry.graveyardPath);
+    const expectedSize = entry.size;
+
+    async function* tarEntry() {
+      yield createTarHeader(name, entry);
+      // Nested empty directories go in the same member, so tar tools see the whole tree
+      for (const directory of entry.directories ?? []) {
+        yield createTarHeader(`${name}/${directory.split(sep).join('/')}`, { ...entry, linkTarget: undefined });
+      }
+      if (entry.type !== 'file') return;
+
+      let read = 0;
+      for await (const chunk of createReadStream(sourcePath)) {
+        const data = chunk as Buffer;
+        read += data.length;
+        if (read > expectedSize) break;
+        hash.update(data);
+        yield data;
+      }
+      if (read !== expectedSize) {
+        throw new Error(`File changed while being archived: ${sourcePath}`);
+      }
+      const padding = (TAR_BLOCK - (expectedSize % TAR_BLOCK)) % TAR_BLOCK;
+      if (padding) yield Buffer.alloc(padding);
+    }
+
+    const out = createWriteStream(chunkPath, { flags: 'a' });
+    await pipeline(tarEntry, createGzip(), out);
+    return { length: out.bytesWritten, sha256: hash.digest('hex') };
+  }
+
+  /**
+   * Extracts a file entry, verifying its checksum before it reaches the destination
+   */
+  private async extractFile(entry: ArchiveIndexEntry, destination: string): Promise<void> {
+    const hash = createHash('sha256');
+    const tempPath = `${destination}.exorcist-restore`;
+
+    async function* fileContent(source: AsyncIterable<Buffer>) {
+      let head: Buffer | undefined = Buffer.alloc(0);
+      let remaining = entry.size;
+      for await (const chunk of source) {
+        let data = chunk;
+        if (head) {
+          // Headers are skipped once their full length is known
+          head = Buffer.concat([head, data]);
+          const headerLength = tarHeaderLength(head);
+          if (headerLength === undefined || head.length < headerLength) continue;
+          data = head.subarray(headerLength);
+          head = undefined;
+        }
+        if (remaining <= 0 || data.length === 0) continue;
+        data = data.subarray(0, remaining);
+        remaining -= data.length;
+        hash.update(data);
+        yield data;
+      }
+    }
+
+    try {
+      await pipeline(
+        createReadStream(join(this.archiveRoot, entry.chunk), {
+          start: entry.offset,
+          end: entry.offset + entry.length - 1
+        }),
+        createGunzip(),
+        fileContent,
+        createWriteStream(tempPath, { flags: 'wx', mode: entry.mode & 0o777 })
+      );
+
+      if (hash.digest('hex') !== entry.sha256) {
+        throw new Error(`Checksum mismatch in graveyard archive for ${entry.graveyardPath}`);
+      }
+      await fs.chmod(tempPath, entry.mode & 0o7777);
+      const mtime = new Date(entry.mtimeMs);
+      await fs.utimes(tempPath, mtime, mtime);
+      await fs.rename(tempPath, destination);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Drops an entry from the index and manifest, deleting its chunk once nothing else is in it
+   */
+  private async forget(graveyardPath: string): Promise<void> {
+    await this.serialize(async () => {
+      const index = await this.readIndex();
+      const entry = index.find(candidate => candidate.graveyardPath === graveyardPath);
+      const remaining = index.filter(candidate => candidate.graveyardPath !== graveyardPath);
+      await this.writeIndex(remaining);
+
+      if (entry && !remaining.some(candidate => candidate.chunk === entry.chunk)) {
+        await fs.rm(join(this.archiveRoot, entry.chunk), { force: true });
+        await fs.rmdir(dirname(join(this.archiveRoot, entry.chunk))).catch(() => undefined);
+      }
+    });
+    await this.manifest.remove(graveyardPath);
+  }
+
+  private async findEntry(graveyardPath: string): Promise<ArchiveIndexEntry> {
+    await this.pending;
+    const entry = (await this.readIndex()).find(candidate => candidate.graveyardPath === graveyardPath);
+    if (!entry) {
+      throw new Error(`Not in the graveyard archive: ${graveyardPath}`);
+    }
+    return entry;
+  }
+
+  private async hasChunk(entry: ArchiveIndexEntry): Promise<boolean> {
+    return fs.lstat(join(this.archiveRoot, entry.chunk)).then(() => true, () => false);
+  }
+
+  /**
+   * Runs a task under the index lock, after every earlier task in this process has finished
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(async () => {
+      await fs.mkdir(this.indexDir, { recursive: true });
+      return this.lock.run(task);
+    });
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Reads the archive index; a missing file counts as empty
+   * A corrupted index is an error rather than empty, since chunks cannot be
+   * read without it and writing over it would lose every entry.
+   */
+  private async readIndex(): Promise<ArchiveIndexEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.indexFilePath, 'utf-8');
+    } catch {
+      return [];
+    }
+    const data = JSON.parse(content);
+    return Array.isArray(data.entries) ? data.entries : [];
+  }
+
+  private async writeIndex(entries: ArchiveIndexEntry[]): Promise<void> {
+    await writeFileAtomic(this.indexFilePath, JSON.stringify({ entries }, null, 2));
+  }
+}
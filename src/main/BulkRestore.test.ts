@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Graveyard } from './Graveyard';
+import { FileOperations } from './FileOperations';
+import { GraveyardLog } from './GraveyardLog';
+import { BulkRestorer } from './BulkRestore';
+import { ActionType, BulkRestoreProgress, MonsterType } from '../shared/types';
+
+describe('BulkRestorer', () => {
+  let testDir: string;
+  let dataRoot: string;
+  let scanRoot: string;
+  let graveyard: Graveyard;
+  let graveyardLog: GraveyardLog;
+  let restorer: BulkRestorer;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `digital-exorcist-bulk-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+    dataRoot = join(testDir, 'data');
+    scanRoot = join(testDir, 'scan');
+    await fs.mkdir(join(scanRoot, 'photos', '2019'), { recursive: true });
+    graveyard = new Graveyard(dataRoot);
+    graveyardLog = new GraveyardLog(dataRoot);
+    restorer = new BulkRestorer(graveyardLog, graveyard, new FileOperations(scanRoot, dataRoot, graveyardLog, undefined, graveyard));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function banish(sessionId: string, relativePath: string, classification: MonsterType): Promise<string> {
+    const filePath = join(scanRoot, relativePath);
+    await fs.writeFile(filePath, `contents of ${relativePath}`);
+    const fileOps = new FileOperations(scanRoot, dataRoot, graveyardLog, undefined, graveyard, sessionId);
+    return (await fileOps.banishFile(filePath, [classification])).graveyardPath;
+  }
+
+  it('recovers a whole session into a review folder with its layout', async () => {
+    await banish('session-a', join('photos', '2019', 'beach.jpg'), MonsterType.Ghost);
+    await banish('session-a', 'notes.txt', MonsterType.Zombie);
+    const other = await banish('session-b', 'keep-buried.txt', MonsterType.Ghost);
+    const reviewDir = join(testDir, 'review');
+    const progress: BulkRestoreProgress[] = [];
+
+    const result = await restorer.restore({ selection: { sessionId: 'session-a' }, targetDir: reviewDir }, p => progress.push(p));
+
+    expect(result).toMatchObject({ success: true, restoredCount: 2, skippedCount: 0, errors: [] });
+    expect(await fs.readFile(join(reviewDir, 'photos', '2019', 'beach.jpg'), 'utf-8')).toBe(`contents of ${join('photos', '2019', 'beach.jpg')}`);
+    expect(await fs.readFile(join(reviewDir, 'notes.txt'), 'utf-8')).toBe('contents of notes.txt');
+    // Nothing goes back to the original locations
+    await expect(fs.lstat(join(scanRoot, 'notes.txt'))).rejects.toThrow();
+    expect(progress.map(p => `${p.current}/${p.total}`)).toEqual(['1/2', '2/2']);
+    expect(await graveyard.exists(other)).toBe(true);
+  });
+
+  it('selects by classification and banish date', async () => {
+    const ghost = await banish('session-a', 'old.txt', MonsterType.Ghost);
+    const zombie = await banish('session-a', 'copy.txt', MonsterType.Zombie);
+
+    expect((await restorer.select({ classification: MonsterType.Zombie })).map(item => item.graveyardPath)).toEqual([zombie]);
+    expect(await restorer.select({ startDate: new Date(Date.now() + 60_000).toISOString() })).toEqual([]);
+    expect(await restorer.select({})).toEqual([]);
+
+    const result = await restorer.restore({ selection: { graveyardPaths: [ghost], endDate: new Date().toISOString() } });
+    expect(result.restored).toEqual([{ graveyardPath: ghost, restoredPath: join(scanRoot, 'old.txt') }]);
+  });
+
+  it('includes entries banished before the manifest, which only the log knows about', async () => {
+    const manifested = await banish('session-a', 'new.txt', MonsterType.Ghost);
+    const logOnly = async (name: string): Promise<string> => {
+      const graveyardPath = join(dataRoot, 'graveyard_trash', 'legacy', name);
+      await graveyardLog.appendEntry({
+        timestamp: new Date(Date.now() - 60_000).toISOString(),
+        action: ActionType.Banish,
+        filePath: join(scanRoot, name),
+        originalPath: join(scanRoot, name),
+        graveyardPath,
+        fileSize: 6,
+        sessionId: 'session-a',
+        classifications: [MonsterType.Ghost]
+      });
+      return graveyardPath;
+    };
+    const legacy = await logOnly('legacy.txt');
+    await fs.mkdir(join(dataRoot, 'graveyard_trash', 'legacy'), { recursive: true });
+    await fs.writeFile(legacy, 'legacy');
+    // Logged as banished, but gone from the graveyard since
+    await logOnly('vanished.txt');
+
+    expect((await restorer.select({ sessionId: 'session-a' })).map(item => item.graveyardPath)).toEqual([legacy, manifested]);
+    expect((await restorer.select({ classification: MonsterType.Ghost })).map(item => item.graveyardPath)).toEqual([legacy, manifested]);
+
+    const result = await restorer.restore({ selection: { graveyardPaths: [legacy] } });
+    expect(result).toMatchObject({ success: true, restoredCount: 1 });
+    expect(await fs.readFile(join(scanRoot, 'legacy.txt'), 'utf-8')).toBe('legacy');
+  });
+
+  it('applies the conflict strategy to each entry and carries on past failures', async () => {
+    const first = await banish('session-a', 'first.txt', MonsterType.Ghost);
+    const second = await banish('session-a', 'second.txt', MonsterType.Ghost);
+    await fs.writeFile(join(scanRoot, 'first.txt'), 'came back on its own');
+
+    const failed = await restorer.restore({ selection: { sessionId: 'session-a' } });
+    expect(failed.success).toBe(false);
+    expect(failed.errors).toEqual([{ path: join(scanRoot, 'first.txt'), error: expect.stringContaining('Conflict') }]);
+    expect(failed.restored).toEqual([{ graveyardPath: second, restoredPath: join(scanRoot, 'second.txt') }]);
+
+    const skipped = await restorer.restore({ selection: { graveyardPaths: [first] }, strategy: 'skip' });
+    expect(skipped).toMatchObject({ success: true, restoredCount: 0, skippedCount: 1 });
+  });
+});
@@ -0,0 +1,168 @@
+import { join, dirname } from 'path';
+import {
+  ActionType,
+  BulkRestoreSelection,
+  BulkRestoreRequest,
+  BulkRestoreProgress,
+  BulkRestoreResult,
+  MonsterType
+} from '../shared/types';
+import { GraveyardLog } from './GraveyardLog';
+import { Graveyard } from './Graveyard';
+import { FileOperations } from './FileOperations';
+import { graveyardRelativePath } from './GraveyardManifest';
+import { getLogHoldings } from './GraveyardAudit';
+
+/**
+ * A graveyard entry picked for a bulk restore
+ */
+export interface BulkRestoreItem {
+  graveyardPath: string;
+  originalPath: string;
+  /** Scan root the entry was banished under; its layout below it is kept in a target folder */
+  scanRoot: string;
+}
+
+/**
+ * A graveyard entry with the fields a selection filters on
+ */
+interface BulkRestoreCandidate extends BulkRestoreItem {
+  sessionId?: string;
+  banishedAt: string;
+}
+
+/**
+ * BulkRestorer - Restores many graveyard entries at once, optionally into another folder
+ *
+ * Entries are picked by graveyard path, session, banish date and
+ * classification (classifications come from the log). The manifest is
+ * searched along with entries banished before it existed, which only the
+ * log knows about. With a
+ * target folder each entry keeps its layout below the scan root it was
+ * banished from, so a whole session can be recovered into a fresh folder
+ * for review. Every entry goes through FileOperations.restoreFile, so
+ * conflicts, logging and content checks work as for a single restore.
+ */
+export class BulkRestorer {
+  private readonly graveyardLog: GraveyardLog;
+  private readonly graveyard: Graveyard;
+  private readonly fileOps: FileOperations;
+
+  /**
+   * @param graveyardLog - Log the banish classifications are read from
+   * @param graveyard - Graveyard holding the entries
+   * @param fileOps - Restores each entry and banishes anything an overwrite displaces
+   */
+  constructor(graveyardLog: GraveyardLog, graveyard: Graveyard, fileOps: FileOperations) {
+    this.graveyardLog = graveyardLog;
+    this.graveyard = graveyard;
+    this.fileOps = fileOps;
+  }
+
+  /**
+   * Finds the graveyard entries matching a selection
+   * @param selection - Criteria; an empty selection matches nothing rather than everything
+   * @returns Matching entries in banish order
+   */
+  async select(selection: BulkRestoreSelection): Promise<BulkRestoreItem[]> {
+    const { graveyardPaths, sessionId, startDate, endDate, classification } = selection;
+    if (!graveyardPaths && !sessionId && !startDate && !endDate && !classification) {
+      return [];
+    }
+
+    const wanted = graveyardPaths ? new Set(graveyardPaths) : undefined;
+    const start = startDate ? new Date(startDate).getTime() : -Infinity;
+    const end = endDate ? new Date(endDate).getTime() : Infinity;
+    const classifications = classification ? await this.getClassifications() : undefined;
+
+    const candidates = await this.getCandidates();
+    return candidates
+      .filter(entry => {
+        const banishedAt = new Date(entry.banishedAt).getTime();
+        return (!wanted || wanted.has(entry.graveyardPath)) &&
+          (!sessionId || entry.sessionId === sessionId) &&
+          banishedAt >= start && banishedAt <= end &&
+          (!classifications || classifications.get(entry.graveyardPath)?.includes(classification!));
+      })
+      .map(({ graveyardPath, originalPath, scanRoot }) => ({ graveyardPath, originalPath, scanRoot }));
+  }
+
+  /**
+   * Restores every entry matching a selection
+   * One entry failing does not stop the rest; each failure is reported.
+   * @param request - Selection, optional target folder and conflict strategy
+   * @param onProgress - Called before each entry is restored
+   * @returns Counts, where each entry went, and per-entry errors
+   */
+  async restore(
+    request: BulkRestoreRequest,
+    onProgress?: (progress: BulkRestoreProgress) => void
+  ): Promise<BulkRestoreResult> {
+    const items = await this.select(request.selection);
+    const result: BulkRestoreResult = { success: true, restoredCount: 0, skippedCount: 0, restored: [], errors: [] };
+
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i];
+      const targetPath = request.targetDir
+        ? join(request.targetDir, graveyardRelativePath(item.scanRoot, item.originalPath))
+        : item.originalPath;
+      onProgress?.({ current: i + 1, total: items.length, currentPath: targetPath });
+
+      const restored = await this.fileOps.restoreFile(item.graveyardPath, item.originalPath, request.strategy, targetPath);
+      if (!restored.success) {
+        result.errors.push({ path: item.originalPath, error: restored.error || 'Unknown error during restore' });
+      } else if (restored.skipped) {
+        result.skippedCount++;
+      } else {
+        result.restoredCount++;
+        result.restored.push({ graveyardPath: item.graveyardPath, restoredPath: restored.restoredPath });
+      }
+    }
+
+    result.success = result.errors.length === 0;
+    return result;
+  }
+
+  /**
+   * Lists what is in the graveyard now, in banish order
+   * Manifest entries come first-hand; entries only the log knows about are
+   * taken from it, as long as they are still in the graveyard.
+   */
+  private async getCandidates(): Promise<BulkRestoreCandidate[]> {
+    const byPath = new Map<string, BulkRestoreCandidate>();
+    for (const entry of await this.graveyard.manifest.getEntries()) {
+      const { graveyardPath, originalPath, scanRoot, sessionId, banishedAt } = entry;
+      byPath.set(graveyardPath, { graveyardPath, originalPath, scanRoot, sessionId, banishedAt });
+    }
+
+    const logHoldings = getLogHoldings(await this.graveyardLog.getEntriesInOrder());
+    for (const [graveyardPath, entry] of logHoldings) {
+      if (byPath.has(graveyardPath) || !(await this.graveyard.exists(graveyardPath))) continue;
+      const originalPath = entry.originalPath || entry.filePath;
+      byPath.set(graveyardPath, {
+        graveyardPath,
+        originalPath,
+        // Without a recorded scan root, the entry's own folder keeps its name in a target folder
+        scanRoot: entry.scanRoot ?? dirname(originalPath),
+        sessionId: entry.sessionId,
+        banishedAt: entry.timestamp
+      });
+    }
+
+    return [...byPath.values()].sort((a, b) =>
+      new Date(a.banishedAt).getTime() - new Date(b.banishedAt).getTime()
+    );
+  }
+
+  /**
+   * Maps graveyard paths to the classifications they were banished with
+   */
+  private async getClassifications(): Promise<Map<string, MonsterType[]>> {
+    const entries = await this.graveyardLog.getEntries({ actionType: ActionType.Banish });
+    return new Map(
+      entries
+        .filter(entry => entry.graveyardPath && entry.classifications)
+        .map(entry => [entry.graveyardPath!, entry.classifications!])
+    );
+  }
+}
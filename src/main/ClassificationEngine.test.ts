@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ClassificationEngine, CLASSIFICATION_PRIORITY } from './ClassificationEngine';
+import { FileClassifier } from './FileClassifier';
+import { SwiftPurgeScanner } from './SwiftPurgeScanner';
+import { FileScanResult, MonsterType, DEFAULT_CLASSIFICATION_CONFIG } from '../shared/types';
+
+describe('ClassificationEngine', () => {
+  const engine = new ClassificationEngine();
+  const now = new Date('2025-06-01T00:00:00Z');
+  const old = new Date('2020-01-01T00:00:00Z');
+  const recent = new Date('2025-05-20T00:00:00Z');
+
+  it('keeps the newest copy of a duplicate group as primary', () => {
+    const files: FileScanResult[] = [
+      { path: '/a/old-copy.txt', size: 10, lastModified: old, hash: 'h' },
+      { path: '/a/new-copy.txt', size: 10, lastModified: recent, hash: 'h' }
+    ];
+
+    const classified = engine.classify(files, new Set(), now);
+
+    expect(classified).toHaveLength(1);
+    expect(classified[0]).toMatchObject({
+      path: '/a/old-copy.txt',
+      classifications: [MonsterType.Zombie, MonsterType.Ghost],
+      primaryClassification: MonsterType.Zombie,
+      duplicateOf: '/a/new-copy.txt',
+      duplicateGroup: 'h'
+    });
+  });
+
+  it('prefers a whitelisted copy as primary and never classifies it', () => {
+    const files: FileScanResult[] = [
+      { path: '/keep.txt', size: 10, lastModified: old, hash: 'h' },
+      { path: '/copy.txt', size: 10, lastModified: recent, hash: 'h' }
+    ];
+
+    const classified = engine.classify(files, new Set(['/keep.txt']), now);
+
+    expect(classified.map(f => f.path)).toEqual(['/copy.txt']);
+    expect(classified[0].duplicateOf).toBe('/keep.txt');
+  });
+
+  it('lets a whitelisted original protect its duplicates the same way in Swift and Interactive mode', async () => {
+    const dir = join(tmpdir(), `digital-exorcist-engine-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+    await fs.mkdir(dir, { recursive: true });
+    try {
+      const original = join(dir, 'original.txt');
+      const copy = join(dir, 'copy.txt');
+      await fs.writeFile(original, 'the same words');
+      await fs.writeFile(copy, 'the same words');
+      // The copy is newer, so only the whitelist makes the original the one to keep
+      const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+      await fs.utimes(original, yesterday, yesterday);
+      const whitelist = new Set([original]);
+
+      const files = await Promise.all([original, copy].map(async path => {
+        const stats = await fs.stat(path);
+        return { path, size: stats.size, lastModified: stats.mtime };
+      }));
+      const interactive = await new FileClassifier().classifyFiles(files, whitelist);
+      const swift = await new SwiftPurgeScanner(whitelist).scan(dir);
+
+      expect(interactive.map(f => [f.path, f.primaryClassification, f.duplicateOf])).toEqual([[copy, MonsterType.Zombie, original]]);
+      expect(swift.files.map(f => [f.path, f.classification, f.duplicateOf])).toEqual([[copy, MonsterType.Zombie, original]]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('never classifies hard links to the primary as zombies', () => {
+    const files: FileScanResult[] = [
+      { path: '/a/report.txt', size: 10, lastModified: recent, hash: 'h', dev: 1, ino: 42, nlink: 2 },
+      { path: '/b/report-link.txt', size: 10, lastModified: recent, hash: 'h', dev: 1, ino: 42, nlink: 2 },
+      { path: '/c/report-copy.txt', size: 10, lastModified: old, hash: 'h', dev: 1, ino: 43, nlink: 1 }
+    ];
+
+    const zombies = engine.classify(files, new Set(), now)
+      .filter(f => f.classifications.includes(MonsterType.Zombie));
+
+    expect(zombies.map(f => f.path)).toEqual(['/c/report-copy.txt']);
+    expect(zombies[0].duplicateOf).toBe('/a/report.txt');
+  });
+
+  it('ranks a large duplicate as a demon first', () => {
+    const size = DEFAULT_CLASSIFICATION_CONFIG.demonSizeBytes + 1;
+    const files: FileScanResult[] = [
+      { path: '/big-1.bin', size, lastModified: recent, hash: 'h' },
+      { path: '/big-2.bin', size, lastModified: old, hash: 'h' }
+    ];
+
+    const [primary, zombie] = engine.classify(files, new Set(), now);
+
+    expect(primary.classifications).toEqual([MonsterType.Demon]);
+    expect(zombie.classifications).toEqual([MonsterType.Demon, MonsterType.Zombie, MonsterType.Ghost]);
+    expect(zombie.primaryClassification).toBe(MonsterType.Demon);
+  });
+
+  /**
+   * **Feature: classification-engine, Property 1: One survivor per duplicate group**
+   *
+   * For any set of files, every duplicate group has exactly one copy that is
+   * not a Zombie, every Zombie points at that copy, and the primary
+   * classification is the first of the classifications in priority order.
+   */
+  it('spares exactly one copy per duplicate group and orders classifications by priority', () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(
+          fc.record({
+            path: fc.string({ minLength: 1 }),
+            size: fc.nat({ max: 2000 }),
+            lastModified: fc.date({ min: old, max: now }),
+            hash: fc.option(fc.constantFrom('h1', 'h2', 'h3'), { nil: undefined })
+          }),
+          { selector: file => file.path, maxLength: 20 }
+        ),
+        (files) => {
+          const classified = engine.classify(files, new Set(), now);
+          const byPath = new Map(classified.map(f => [f.path, f]));
+
+          for (const hash of ['h1', 'h2', 'h3']) {
+            // Empty files are wraiths and never form duplicate groups
+            const group = files.filter(f => f.hash === hash && f.size > 0);
+            if (group.length < 2) continue;
+
+            const survivors = group.filter(f => !byPath.get(f.path)?.classifications.includes(MonsterType.Zombie));
+            expect(survivors).toHaveLength(1);
+            for (const file of group) {
+              const zombie = byPath.get(file.path);
+              if (zombie?.classifications.includes(MonsterType.Zombie)) {
+                expect(zombie.duplicateOf).toBe(survivors[0].path);
+              }
+            }
+          }
+
+          for (const file of classified) {
+            const ordered = CLASSIFICATION_PRIORITY.filter(type => file.classifications.includes(type));
+            expect(file.classifications).toEqual(ordered);
+            expect(file.primaryClassification).toBe(file.classifications[0]);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,176 @@
+import {
+  FileScanResult,
+  MonsterType,
+  ClassificationConfig,
+  CustomMonsterDefinition,
+  DEFAULT_CLASSIFICATION_CONFIG
+} from '../shared/types';
+import { isGhostFile, isDemonFile } from './classificationRules';
+import { CompiledMonsterRules } from './MonsterRules';
+import { inodeKey } from '../shared/hardLinks';
+
+/**
+ * Order used to pick the primary classification: DEMON > ZOMBIE > WRAITH > PHANTOM > GHOST
+ */
+export const CLASSIFICATION_PRIORITY: readonly MonsterType[] = [
+  MonsterType.Demon,
+  MonsterType.Zombie,
+  MonsterType.Wraith,
+  MonsterType.Phantom,
+  MonsterType.Ghost
+];
+
+/**
+ * Classification outcome for one file
+ */
+export interface ClassificationOutcome {
+  /** Every built-in classification that applies, in priority order */
+  classifications: MonsterType[];
+  /** The highest-priority built-in classification; unset for custom-only matches */
+  primaryClassification?: MonsterType;
+  /** For zombies, the path of the copy that is kept */
+  duplicateOf?: string;
+  /** For zombies, the content hash shared with the kept copy */
+  duplicateGroup?: string;
+  /** Custom monster types from monster rules */
+  customClassifications?: CustomMonsterDefinition[];
+}
+
+/**
+ * ClassificationEngine - Single source of classification semantics
+ *
+ * Used by FileClassifier and SwiftPurgeScanner so every flow classifies a
+ * folder the same way:
+ * - Ghost and Demon follow the thresholds of the active profile.
+ * - Zero-byte files and empty directories are Wraiths. Empty files are never
+ *   duplicates of each other, and empty directories get no other classification.
+ * - Broken symbolic links (files with a linkTarget) are Phantoms and nothing else.
+ * - In each duplicate group one primary copy is kept and is not a Zombie;
+ *   every other copy is a Zombie with duplicateOf pointing at the primary.
+ *   A whitelisted copy is preferred as primary, then the newest, then the
+ *   shortest path. Hard links to the primary share its data, so they are
+ *   not Zombies, and a group made only of hard links is not a duplicate group.
+ * - A file can carry several classifications; the primary one follows
+ *   CLASSIFICATION_PRIORITY.
+ * - Custom monster rules add customClassifications on top; a file that only
+ *   matches custom rules is returned with no built-in classification.
+ */
+export class ClassificationEngine {
+  private readonly config: ClassificationConfig;
+  private readonly rules: CompiledMonsterRules;
+
+  /**
+   * @param config - Ghost/Demon thresholds
+   * @param rules - Custom monster rules, none by default
+   */
+  constructor(
+    config: ClassificationConfig = DEFAULT_CLASSIFICATION_CONFIG,
+    rules: CompiledMonsterRules = new CompiledMonsterRules()
+  ) {
+    this.config = config;
+    this.rules = rules;
+  }
+
+  /**
+   * Classifies a set of files
+   * @param files - Scanned files; files without a hash never count as duplicates
+   * @param whitelist - Paths that are never classified (but still count as copies)
+   * @param now - Reference time for age thresholds
+   * @param scanRoot - Root the files were scanned under, which custom path globs are relative to
+   * @returns The files that received at least one classification, with their outcome
+   */
+  classify<T extends FileScanResult>(
+    files: T[],
+    whitelist: Set<string> = new Set(),
+    now: Date = new Date(),
+    scanRoot?: string
+  ): Array<T & ClassificationOutcome> {
+    const primaries = this.findPrimaries(files, whitelist);
+    const classified: Array<T & ClassificationOutcome> = [];
+
+    for (const file of files) {
+      if (whitelist.has(file.path)) {
+        continue;
+      }
+
+      if (file.isDirectory) {
+        classified.push({ ...file, classifications: [MonsterType.Wraith], primaryClassification: MonsterType.Wraith });
+        continue;
+      }
+
+      if (file.linkTarget !== undefined) {
+        classified.push({ ...file, classifications: [MonsterType.Phantom], primaryClassification: MonsterType.Phantom });
+        continue;
+      }
+
+      const found = new Set<MonsterType>();
+      let duplicateOf: string | undefined;
+
+      if (file.size === 0) {
+        found.add(MonsterType.Wraith);
+      }
+
+      if (isGhostFile(file.lastModified, this.config, now)) {
+        found.add(MonsterType.Ghost);
+      }
+
+      if (isDemonFile(file.path, file.size, file.lastModified, this.config, now)) {
+        found.add(MonsterType.Demon);
+      }
+
+      const primary = file.hash ? primaries.get(file.hash) : undefined;
+      if (primary && inodeKey(primary) !== inodeKey(file)) {
+        found.add(MonsterType.Zombie);
+        duplicateOf = primary.path;
+      }
+
+      const classifications = CLASSIFICATION_PRIORITY.filter(type => found.has(type));
+      const customClassifications = this.rules.evaluate(file, duplicateOf !== undefined, now, scanRoot);
+      if (classifications.length === 0 && customClassifications.length === 0) {
+        continue;
+      }
+
+      classified.push({
+        ...file,
+        classifications,
+        primaryClassification: classifications[0],
+        duplicateOf,
+        duplicateGroup: duplicateOf ? file.hash : undefined,
+        customClassifications: customClassifications.length > 0 ? customClassifications : undefined
+      });
+    }
+
+    return classified;
+  }
+
+  /**
+   * Picks the primary copy of every duplicate group
+   * @returns Map from content hash to the primary file, only for groups with two or more distinct inodes
+   */
+  private findPrimaries(files: FileScanResult[], whitelist: Set<string>): Map<string, FileScanResult> {
+    const groups = new Map<string, FileScanResult[]>();
+    for (const file of files) {
+      if (file.hash && file.size > 0 && !file.isDirectory && file.linkTarget === undefined) {
+        const group = groups.get(file.hash) || [];
+        group.push(file);
+        groups.set(file.hash, group);
+      }
+    }
+
+    const primaries = new Map<string, FileScanResult>();
+    for (const [hash, group] of groups) {
+      if (new Set(group.map(inodeKey)).size < 2) continue;
+
+      const sorted = [...group].sort((a, b) => {
+        const whitelistDiff = Number(whitelist.has(b.path)) - Number(whitelist.has(a.path));
+        if (whitelistDiff !== 0) return whitelistDiff;
+        const timeDiff = b.lastModified.getTime() - a.lastModified.getTime();
+        if (timeDiff !== 0) return timeDiff;
+        return a.path.length - b.path.length || a.path.localeCompare(b.path);
+      });
+      primaries.set(hash, sorted[0]);
+    }
+
+    return primaries;
+  }
+}
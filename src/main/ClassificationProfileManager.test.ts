@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ClassificationProfileManager, DEFAULT_PROFILE_NAME } from './ClassificationProfileManager';
+import { FileClassifier } from './FileClassifier';
+import { SwiftPurgeScanner } from './SwiftPurgeScanner';
+import { isDemonFile, isGhostFile } from './classificationRules';
+import { DEFAULT_CLASSIFICATION_CONFIG, MonsterType, ClassificationConfig } from '../shared/types';
+
+describe('ClassificationProfileManager', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `digital-exorcist-profiles-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const downloads: ClassificationConfig = {
+    ghostAgeMonths: 1,
+    demonSizeBytes: 100,
+    demonExtensions: ['.zip'],
+    demonExtAgeMonths: 0
+  };
+
+  it('starts with the Default profile and persists saved profiles', async () => {
+    const manager = new ClassificationProfileManager(testDir);
+    await manager.load();
+    expect(manager.getAll().profiles).toEqual([{ name: DEFAULT_PROFILE_NAME, config: DEFAULT_CLASSIFICATION_CONFIG }]);
+
+    await manager.saveProfile({ name: 'Downloads', config: downloads });
+    await manager.assignTarget(join(testDir, 'Downloads'), 'Downloads');
+
+    const reloaded = new ClassificationProfileManager(testDir);
+    await reloaded.load();
+    expect(reloaded.getAll().profiles.map(p => p.name)).toEqual([DEFAULT_PROFILE_NAME, 'Downloads']);
+    expect(reloaded.getConfigForTarget(join(testDir, 'Downloads'))).toEqual(downloads);
+  });
+
+  it('uses the closest assigned ancestor and falls back to the default profile', async () => {
+    const manager = new ClassificationProfileManager(testDir);
+    await manager.load();
+    await manager.saveProfile({ name: 'Downloads', config: downloads });
+    await manager.saveProfile({ name: 'Photo archive', config: { ...downloads, ghostAgeMonths: 120 } });
+    await manager.assignTarget('/home/user', 'Downloads');
+    await manager.assignTarget('/home/user/Pictures', 'Photo archive');
+
+    expect(manager.getProfileForTarget('/home/user/Pictures/2019').name).toBe('Photo archive');
+    expect(manager.getProfileForTarget('/home/user/Documents').name).toBe('Downloads');
+    expect(manager.getProfileForTarget('/home/username').name).toBe(DEFAULT_PROFILE_NAME);
+    expect(manager.getProfileForTarget(null).name).toBe(DEFAULT_PROFILE_NAME);
+  });
+
+  it('drops assignments of deleted profiles and protects the Default profile', async () => {
+    const manager = new ClassificationProfileManager(testDir);
+    await manager.load();
+    await manager.saveProfile({ name: 'Downloads', config: downloads });
+    await manager.assignTarget('/downloads', 'Downloads');
+    await manager.setDefaultProfile('Downloads');
+
+    const state = await manager.deleteProfile('Downloads');
+
+    expect(state.targetProfiles).toEqual({});
+    expect(state.defaultProfile).toBe(DEFAULT_PROFILE_NAME);
+    await expect(manager.deleteProfile(DEFAULT_PROFILE_NAME)).rejects.toThrow();
+    await expect(manager.assignTarget('/x', 'Missing')).rejects.toThrow();
+  });
+
+  it('replaces malformed config fields with defaults', async () => {
+    const manager = new ClassificationProfileManager(testDir);
+    await manager.load();
+
+    const state = await manager.saveProfile({
+      name: ' Odd ',
+      config: { ghostAgeMonths: -1, demonSizeBytes: NaN, demonExtensions: ['ISO', '.iso', ''], demonExtAgeMonths: 2 }
+    });
+
+    expect(state.profiles.find(p => p.name === 'Odd')!.config).toEqual({
+      ghostAgeMonths: DEFAULT_CLASSIFICATION_CONFIG.ghostAgeMonths,
+      demonSizeBytes: DEFAULT_CLASSIFICATION_CONFIG.demonSizeBytes,
+      demonExtensions: ['.iso'],
+      demonExtAgeMonths: 2
+    });
+  });
+
+  /**
+   * **Feature: classification-profiles, Property 1: Both classifiers share one config**
+   *
+   * For any config and file, FileClassifier and SwiftPurgeScanner agree on
+   * whether the file is a Demon, and otherwise on whether it is a Ghost.
+   */
+  it('makes FileClassifier and SwiftPurgeScanner agree for any config', async () => {
+    const now = Date.now();
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.record({
+          ghostAgeMonths: fc.integer({ min: 0, max: 24 }),
+          demonSizeBytes: fc.integer({ min: 0, max: 1000 }),
+          demonExtensions: fc.subarray(['.zip', '.iso', '.txt']),
+          demonExtAgeMonths: fc.integer({ min: 0, max: 24 })
+        }),
+        fc.constantFrom('a.zip', 'b.iso', 'c.txt', 'd.log'),
+        fc.integer({ min: 0, max: 2000 }),
+        fc.integer({ min: 1, max: 1000 }),
+        async (config, name, size, ageDays) => {
+          const dir = join(testDir, `case-${Math.random().toString(36).substring(7)}`);
+          await fs.mkdir(dir);
+          const filePath = join(dir, name);
+          await fs.writeFile(filePath, Buffer.alloc(size));
+          const mtime = new Date(now - ageDays * 24 * 60 * 60 * 1000);
+          await fs.utimes(filePath, mtime, mtime);
+          const lastModified = (await fs.stat(filePath)).mtime;
+
+          const [classified] = await new FileClassifier({ classificationConfig: config })
+            .classifyFiles([{ path: filePath, size, lastModified }], new Set(), false);
+          const swift = await new SwiftPurgeScanner(new Set(), { classificationConfig: config }).scan(dir);
+
+          const demon = isDemonFile(filePath, size, lastModified, config);
+          const ghost = isGhostFile(lastModified, config);
+
+          expect(classified?.classifications.includes(MonsterType.Demon) ?? false).toBe(demon);
+          expect(classified?.classifications.includes(MonsterType.Ghost) ?? false).toBe(ghost);
+          const wraith = size === 0;
+          expect(swift.files[0]?.classification ?? null).toBe(demon ? 'demon' : wraith ? 'wraith' : ghost ? 'ghost' : null);
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+});
@@ -0,0 +1,228 @@
+import { promises as fs } from 'fs';
+import { join, resolve, sep } from 'path';
+import {
+  ClassificationConfig,
+  ClassificationProfile,
+  ClassificationProfiles,
+  DEFAULT_CLASSIFICATION_CONFIG
+} from '../shared/types';
+import { normalizeClassificationConfig } from './classificationRules';
+
+/**
+ * Name of the built-in profile that always exists
+ */
+export const DEFAULT_PROFILE_NAME = 'Default';
+
+export class ClassificationProfileManager {
+  private readonly profilesFilePath: string;
+  private readonly profilesDir: string;
+  private state: ClassificationProfiles;
+
+  constructor(baseDir: string = '.') {
+    this.profilesDir = join(baseDir, '.digital-exorcist');
+    this.profilesFilePath = join(this.profilesDir, 'classification-profiles.json');
+    this.state = this.normalize(null);
+  }
+
+  /**
+   * Loads profiles from disk on startup
+   * Creates a new profiles file if it doesn't exist
+   */
+  async load(): Promise<void> {
+    try {
+      // Ensure directory exists
+      await fs.mkdir(this.profilesDir, { recursive: true });
+
+      // Try to read the profiles file
+      try {
+        const content = await fs.readFile(this.profilesFilePath, 'utf-8');
+        this.state = this.normalize(JSON.parse(content));
+      } catch (error) {
+        // File doesn't exist or is corrupted, create new one
+        await this.save();
+      }
+    } catch (error) {
+      console.error('Error loading classification profiles:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Saves the current profiles to disk
+   */
+  private async save(): Promise<void> {
+    try {
+      await fs.writeFile(this.profilesFilePath, JSON.stringify(this.state, null, 2), 'utf-8');
+    } catch (error) {
+      console.error('Error saving classification profiles:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Drops malformed profiles and mappings, and guarantees the Default profile exists
+   */
+  private normalize(data: Partial<ClassificationProfiles> | null): ClassificationProfiles {
+    const profiles: ClassificationProfile[] = [];
+    const seen = new Set<string>();
+
+    for (const profile of Array.isArray(data?.profiles) ? data!.profiles : []) {
+      const name = typeof profile?.name === 'string' ? profile.name.trim() : '';
+      if (!name || seen.has(name)) continue;
+      seen.add(name);
+      profiles.push({ name, config: normalizeClassificationConfig(profile.config, DEFAULT_CLASSIFICATION_CONFIG) });
+    }
+
+    if (!seen.has(DEFAULT_PROFILE_NAME)) {
+      profiles.unshift({
+        name: DEFAULT_PROFILE_NAME,
+        config: normalizeClassificationConfig(null, DEFAULT_CLASSIFICATION_CONFIG)
+      });
+      seen.add(DEFAULT_PROFILE_NAME);
+    }
+
+    const targetProfiles: Record<string, string> = {};
+    for (const [target, name] of Object.entries(data?.targetProfiles ?? {})) {
+      if (typeof name === 'string' && seen.has(name)) {
+        targetProfiles[resolve(target)] = name;
+      }
+    }
+
+    const defaultProfile = typeof data?.defaultProfile === 'string' && seen.has(data.defaultProfile)
+      ? data.defaultProfile
+      : DEFAULT_PROFILE_NAME;
+
+    return { profiles, defaultProfile, targetProfiles };
+  }
+
+  /**
+   * Gets a copy of all profiles and target assignments
+   * @returns The current profiles state
+   */
+  getAll(): ClassificationProfiles {
+    return {
+      profiles: this.state.profiles.map(profile => ({
+        name: profile.name,
+        config: { ...profile.config, demonExtensions: [...profile.config.demonExtensions] }
+      })),
+      defaultProfile: this.state.defaultProfile,
+      targetProfiles: { ...this.state.targetProfiles }
+    };
+  }
+
+  /**
+   * Creates or replaces a profile
+   * @param profile - Profile to save; invalid config fields fall back to defaults
+   * @returns The updated profiles state
+   */
+  async saveProfile(profile: ClassificationProfile): Promise<ClassificationProfiles> {
+    const name = typeof profile?.name === 'string' ? profile.name.trim() : '';
+    if (!name) {
+      throw new Error('Profile name is required');
+    }
+
+    const config = normalizeClassificationConfig(profile.config, DEFAULT_CLASSIFICATION_CONFIG);
+    const index = this.state.profiles.findIndex(existing => existing.name === name);
+    if (index >= 0) {
+      this.state.profiles[index] = { name, config };
+    } else {
+      this.state.profiles.push({ name, config });
+    }
+
+    await this.save();
+    return this.getAll();
+  }
+
+  /**
+   * Deletes a profile; targets assigned to it fall back to the default profile
+   * @param name - Profile to delete
+   * @returns The updated profiles state
+   */
+  async deleteProfile(name: string): Promise<ClassificationProfiles> {
+    if (name === DEFAULT_PROFILE_NAME) {
+      throw new Error(`The ${DEFAULT_PROFILE_NAME} profile cannot be deleted`);
+    }
+
+    this.state.profiles = this.state.profiles.filter(profile => profile.name !== name);
+    for (const [target, profileName] of Object.entries(this.state.targetProfiles)) {
+      if (profileName === name) {
+        delete this.state.targetProfiles[target];
+      }
+    }
+    if (this.state.defaultProfile === name) {
+      this.state.defaultProfile = DEFAULT_PROFILE_NAME;
+    }
+
+    await this.save();
+    return this.getAll();
+  }
+
+  /**
+   * Sets the profile used for targets without an assignment
+   * @param name - Existing profile name
+   * @returns The updated profiles state
+   */
+  async setDefaultProfile(name: string): Promise<ClassificationProfiles> {
+    this.requireProfile(name);
+    this.state.defaultProfile = name;
+    await this.save();
+    return this.getAll();
+  }
+
+  /**
+   * Assigns a profile to a scan target, or removes the assignment
+   * @param targetPath - Directory the profile applies to (including subdirectories)
+   * @param name - Existing profile name, or null to clear the assignment
+   * @returns The updated profiles state
+   */
+  async assignTarget(targetPath: string, name: string | null): Promise<ClassificationProfiles> {
+    const target = resolve(targetPath);
+    if (name === null) {
+      delete this.state.targetProfiles[target];
+    } else {
+      this.requireProfile(name);
+      this.state.targetProfiles[target] = name;
+    }
+
+    await this.save();
+    return this.getAll();
+  }
+
+  /**
+   * Gets the profile that applies to a scan target
+   * The closest assigned ancestor wins; otherwise the default profile is used
+   * @param targetPath - Directory being scanned
+   * @returns The matching profile
+   */
+  getProfileForTarget(targetPath: string | null): ClassificationProfile {
+    let best: { target: string; name: string } | null = null;
+
+    if (targetPath) {
+      const target = resolve(targetPath);
+      for (const [assigned, name] of Object.entries(this.state.targetProfiles)) {
+        const covers = target === assigned || target.startsWith(assigned.endsWith(sep) ? assigned : assigned + sep);
+        if (covers && (!best || assigned.length > best.target.length)) {
+          best = { target: assigned, name };
+        }
+      }
+    }
+
+    const name = best?.name ?? this.state.defaultProfile;
+    return this.getAll().profiles.find(profile => profile.name === name)!;
+  }
+
+  /**
+   * Gets the classification thresholds that apply to a scan target
+   * @param targetPath - Directory being scanned
+   * @returns The config of the matching profile
+   */
+  getConfigForTarget(targetPath: string | null): ClassificationConfig {
+    return this.getProfileForTarget(targetPath).config;
+  }
+
+  private requireProfile(name: string): void {
+    if (!this.state.profiles.some(profile => profile.name === name)) {
+      throw new Error(`Unknown classification profile: ${name}`);
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createHash } from 'crypto';
+import { Graveyard } from './Graveyard';
+import { ContentStoreGraveyardBackend } from './ContentStoreGraveyardBackend';
+
+describe('ContentStoreGraveyardBackend', () => {
+  let testDir: string;
+  let dataRoot: string;
+  let scanRoot: string;
+  let graveyard: Graveyard;
+  let store: ContentStoreGraveyardBackend;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `digital-exorcist-store-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+    dataRoot = join(testDir, 'data');
+    scanRoot = join(testDir, 'scan');
+    await fs.mkdir(scanRoot, { recursive: true });
+    graveyard = new Graveyard(dataRoot, { backend: 'content-store' });
+    // A second view of the same store, to inspect reference counts
+    store = new ContentStoreGraveyardBackend(dataRoot, graveyard.manifest);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  const sha256 = (content: string) => createHash('sha256').update(content).digest('hex');
+
+  it('keeps identical zombies once and re-creates each original path on restore', async () => {
+    const content = 'brains '.repeat(1000);
+    const paths: string[] = [];
+    for (let i = 0; i < 5; i++) {
+      const filePath = join(scanRoot, `copy-${i}.txt`);
+      await fs.writeFile(filePath, content);
+      await fs.utimes(filePath, new Date(2020, 0, 1), new Date(2021, 5, 15));
+      paths.push(await graveyard.bury({ originalPath: filePath, scanRoot, sessionId: 'session-test', contentHash: sha256(content) }));
+    }
+
+    expect(await store.getBlobs()).toEqual({ [sha256(content)]: { size: content.length, refs: 5 } });
+    const entry = await graveyard.manifest.lookup(paths[0]);
+    expect(entry?.content).toMatchObject({ type: 'file', sha256: sha256(content), size: content.length });
+    expect(entry?.sessionId).toBe('session-test');
+
+    for (let i = 0; i < 5; i++) {
+      await graveyard.exhume(paths[i], join(scanRoot, `copy-${i}.txt`));
+    }
+
+    for (let i = 0; i < 5; i++) {
+      const filePath = join(scanRoot, `copy-${i}.txt`);
+      expect(await fs.readFile(filePath, 'utf-8')).toBe(content);
+      expect((await fs.stat(filePath)).mtime.getTime()).toBe(new Date(2021, 5, 15).getTime());
+    }
+    expect(await store.getBlobs()).toEqual({});
+    await expect(fs.readdir(join(dataRoot, 'graveyard_store', 'blobs', sha256(content).slice(0, 2)))).resolves.toEqual([]);
+  });
+
+  it('stores a file under its real hash when the scan hash is stale', async () => {
+    await fs.writeFile(join(scanRoot, 'original.txt'), 'old content');
+    await graveyard.bury({ originalPath: join(scanRoot, 'original.txt'), scanRoot, sessionId: 'session-test' });
+
+    // Scanned as a copy of original.txt, then edited before the purge
+    await fs.writeFile(join(scanRoot, 'edited.txt'), 'new content');
+    const edited = await graveyard.bury({
+      originalPath: join(scanRoot, 'edited.txt'),
+      scanRoot,
+      sessionId: 'session-test',
+      contentHash: sha256('old content')
+    });
+
+    expect(Object.keys(await store.getBlobs()).sort()).toEqual([sha256('new content'), sha256('old content')].sort());
+    await graveyard.exhume(edited, join(scanRoot, 'edited.txt'));
+    expect(await fs.readFile(join(scanRoot, 'edited.txt'), 'utf-8')).toBe('new content');
+  });
+
+  it('frees a shared blob only when its last entry is destroyed', async () => {
+    const paths: string[] = [];
+    for (const name of ['a.bin', 'b.bin']) {
+      await fs.writeFile(join(scanRoot, name), 'same bytes');
+      paths.push(await graveyard.bury({ originalPath: join(scanRoot, name), scanRoot, sessionId: 'session-test' }));
+    }
+    const blobPath = join(dataRoot, 'graveyard_store', 'blobs', sha256('same bytes').slice(0, 2), sha256('same bytes'));
+
+    expect((await graveyard.stat(paths[0])).storedSize).toBe(5);
+    await graveyard.destroy(paths[0]);
+    expect(await fs.readFile(blobPath, 'utf-8')).toBe('same bytes');
+    expect((await graveyard.stat(paths[1])).storedSize).toBe(10);
+
+    await graveyard.destroy(paths[1]);
+    await expect(fs.lstat(blobPath)).rejects.toThrow();
+    expect(await graveyard.manifest.getEntries()).toEqual([]);
+  });
+
+  it('stores a directory holding only empty directories and restores the whole tree', async () => {
+    const wraith = join(scanRoot, 'unzipped');
+    await fs.mkdir(join(wraith, 'docs', 'old'), { recursive: true });
+    await fs.mkdir(join(wraith, 'images'));
+
+    const graveyardPath = await graveyard.bury({ originalPath: wraith, scanRoot, sessionId: 'session-test' });
+
+    await expect(fs.lstat(wraith)).rejects.toThrow();
+    expect(await store.getBlobs()).toEqual({});
+    await graveyard.exhume(graveyardPath, wraith);
+    expect((await fs.readdir(wraith, { recursive: true })).sort()).toEqual(['docs', join('docs', 'old'), 'images']);
+  });
+
+  it('keeps reference counts right when several instances store at once', async () => {
+    const content = 'shared by everyone';
+    // Each Graveyard stands in for a separate app process sharing the data root
+    const graveyards = [graveyard, new Graveyard(dataRoot, { backend: 'content-store' }), new Graveyard(dataRoot, { backend: 'content-store' })];
+    await Promise.all(graveyards.map(async (instance, i) => {
+      const filePath = join(scanRoot, `copy-${i}.txt`);
+      await fs.writeFile(filePath, content);
+      return instance.bury({ originalPath: filePath, scanRoot, sessionId: `session-${i}` });
+    }));
+
+    expect(await store.getBlobs()).toEqual({ [sha256(content)]: { size: content.length, refs: 3 } });
+    expect(await graveyard.manifest.getEntries()).toHaveLength(3);
+    expect((await fs.readdir(join(dataRoot, '.digital-exorcist'))).filter(name => name.endsWith('.tmp') || name.endsWith('.lock'))).toEqual([]);
+  });
+});
@@ -0,0 +1,372 @@
+import { promises as fs, createReadStream, createWriteStream } from 'fs';
+import { join, dirname, basename } from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { pipeline } from 'stream/promises';
+import { GraveyardManifest, StoredContent } from './GraveyardManifest';
+import {
+  GraveyardBackend,
+  GraveyardEntryStats,
+  GraveyardOrphan,
+  AdoptionRecord,
+  BuryRequest,
+  listStoredFiles,
+  isEmptyDirectory,
+  listNestedDirectories
+} from './GraveyardBackend';
+import { FileLock, writeFileAtomic } from './FileLock';
+
+/**
+ * A stored blob and how many graveyard entries share it
+ */
+export interface BlobRecord {
+  size: number;
+  refs: number;
+}
+
+/**
+ * Streams a file to an optional destination while hashing it
+ * @returns SHA-256 of what was read
+ */
+async function hashCopy(source: string, destination?: string): Promise<string> {
+  const hash = createHash('sha256');
+  async function* hashed(chunks: AsyncIterable<Buffer>) {
+    for await (const chunk of chunks) {
+      hash.update(chunk);
+      yield chunk;
+    }
+  }
+
+  if (destination) {
+    await pipeline(createReadStream(source), hashed, createWriteStream(destination, { flags: 'wx' }));
+  } else {
+    for await (const chunk of createReadStream(source)) {
+      hash.update(chunk as Buffer);
+    }
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * ContentStoreGraveyardBackend - A content-addressed graveyard that keeps identical files once
+ *
+ * File content goes to graveyard_store/blobs/<first two hex digits>/<sha256>
+ * and is reference-counted in .digital-exorcist/graveyard-store.json; the
+ * manifest entry for each banished path records its hash alongside the
+ * metadata the Graveyard captures, so restoring re-creates the original
+ * file from the shared blob. A blob is deleted when its last entry is
+ * restored or reaped. Empty directories and links have no content and live
+ * in the manifest alone.
+ *
+ * Reference counts change under graveyard-store.lock and the index is
+ * replaced atomically, so several app instances can share the store.
+ */
+export class ContentStoreGraveyardBackend implements GraveyardBackend {
+  readonly id = 'content-store' as const;
+  readonly checksContent = true;
+  private readonly storeRoot: string;
+  private readonly indexDir: string;
+  private readonly indexFilePath: string;
+  private readonly manifest: GraveyardManifest;
+  private readonly lock: FileLock;
+  /** Serializes blob reference changes */
+  private pending: Promise<unknown> = Promise.resolve();
+
+  /**
+   * @param baseDir - Data root holding graveyard_store and .digital-exorcist
+   * @param manifest - Manifest entries are recorded in
+   */
+  constructor(baseDir: string, manifest: GraveyardManifest) {
+    this.storeRoot = join(baseDir, 'graveyard_store');
+    this.indexDir = join(baseDir, '.digital-exorcist');
+    this.indexFilePath = join(this.indexDir, 'graveyard-store.json');
+    this.manifest = manifest;
+    this.lock = new FileLock(join(this.indexDir, 'graveyard-store.lock'));
+  }
+
+  async bury(request: BuryRequest): Promise<string> {
+    const stats = await fs.lstat(request.originalPath);
+    const type = stats.isSymbolicLink() ? 'symlink' : stats.isDirectory() ? 'directory' : 'file';
+    if (type === 'directory' && !(await isEmptyDirectory(request.originalPath))) {
+      throw new Error(`Only empty directories can be stored: ${request.originalPath}`);
+    }
+
+    const content: StoredContent = {
+      type,
+      size: type === 'file' ? stats.size : 0,
+      linkTarget: type === 'symlink' ? await fs.readlink(request.originalPath) : undefined
+    };
+    if (type === 'directory') {
+      const directories = await listNestedDirectories(request.originalPath);
+      if (directories.length > 0) content.directories = directories;
+    }
+    if (type === 'file') {
+      content.sha256 = await this.storeBlob(request.originalPath, request.contentHash);
+    }
+
+    let graveyardPath: string;
+    try {
+      ({ graveyardPath } = await this.manifest.reserve({
+        graveyardRoot: join(this.storeRoot, 'entries'),
+        sessionId: request.sessionId,
+        scanRoot: request.scanRoot,
+        originalPath: request.originalPath,
+        backend: this.id,
+        content,
+        metadata: request.metadata
+      }));
+    } catch (error) {
+      if (content.sha256) await this.release(content.sha256);
+      throw error;
+    }
+
+    // Only remove the original once its content is safely in the store
+    await fs.rm(request.originalPath, { recursive: true, force: true });
+    return graveyardPath;
+  }
+
+  async exhume(graveyardPath: string, destination: string): Promise<void> {
+    const content = await this.contentOf(graveyardPath);
+    await fs.mkdir(dirname(destination), { recursive: true });
+
+    if (content.type === 'directory') {
+      await fs.mkdir(destination);
+      for (const directory of content.directories ?? []) {
+        await fs.mkdir(join(destination, directory), { recursive: true });
+      }
+    } else if (content.type === 'symlink') {
+      await fs.symlink(content.linkTarget || '', destination);
+    } else {
+      await this.materialize(content, destination);
+      await this.release(content.sha256!);
+    }
+
+    await this.manifest.remove(graveyardPath);
+  }
+
+  async destroy(graveyardPath: string): Promise<void> {
+    const content = await this.contentOf(graveyardPath).catch(() => undefined);
+    if (content?.sha256) {
+      await this.release(content.sha256);
+    }
+    await this.manifest.remove(graveyardPath);
+  }
+
+  /**
+   * Stored size is the entry's share of its blob, for display; the blob itself
+   * says what deleting the entry can free
+   */
+  async stat(graveyardPath: string): Promise<GraveyardEntryStats> {
+    const content = await this.contentOf(graveyardPath);
+    let storedSize = 0;
+    let shared: GraveyardEntryStats['blob'];
+    if (content.sha256) {
+      if (!(await this.hasBlobFile(content.sha256))) {
+        throw new Error(`Blob ${content.sha256} is missing from the content store`);
+      }
+      await this.pending;
+      const blob = (await this.readIndex())[content.sha256];
+      storedSize = blob ? Math.round(blob.size / Math.max(blob.refs, 1)) : 0;
+      shared = blob ? { sha256: content.sha256, size: blob.size, refs: blob.refs } : undefined;
+    }
+    return {
+      size: content.size,
+      storedSize,
+      blob: shared,
+      isDirectory: content.type === 'directory',
+      linkTarget: content.linkTarget
+    };
+  }
+
+  /**
+   * Lists blobs that no manifest entry refers to
+   * Their content is intact but nothing would ever restore or free them.
+   */
+  async findOrphans(): Promise<GraveyardOrphan[]> {
+    await this.pending;
+    const referenced = new Set(
+      (await this.manifest.getEntries()).map(entry => entry.content?.sha256).filter(Boolean)
+    );
+    const orphans: GraveyardOrphan[] = [];
+
+    for (const relativePath of await listStoredFiles(join(this.storeRoot, 'blobs'))) {
+      const sha256 = basename(relativePath);
+      if (referenced.has(sha256)) continue;
+
+      const graveyardPath = this.blobPath(sha256);
+      orphans.push({
+        backend: this.id,
+        graveyardPath,
+        relativePath: sha256,
+        size: (await fs.lstat(graveyardPath)).size,
+        sha256
+      });
+    }
+    return orphans;
+  }
+
+  /**
+   * Records a new entry for an orphaned blob and sets its reference count to match the manifest
+   */
+  async adopt(orphan: GraveyardOrphan, record: AdoptionRecord): Promise<string> {
+    const sha256 = orphan.sha256!;
+    const graveyardPath = join(this.storeRoot, 'entries', record.sessionId, sha256);
+    await this.manifest.add({
+      ...record,
+      graveyardPath,
+      banishedAt: new Date().toISOString(),
+      backend: this.id,
+      content: { type: 'file', sha256, size: orphan.size }
+    });
+
+    await this.serialize(async () => {
+      const refs = (await this.manifest.getEntries()).filter(entry => entry.content?.sha256 === sha256).length;
+      const index = await this.readIndex();
+      index[sha256] = { size: orphan.size, refs };
+      await this.writeIndex(index);
+    });
+    return graveyardPath;
+  }
+
+  /**
+   * Gets every blob and its reference count
+   */
+  async getBlobs(): Promise<Record<string, BlobRecord>> {
+    await this.pending;
+    return this.readIndex();
+  }
+
+  private blobPath(sha256: string): string {
+    return join(this.storeRoot, 'blobs', sha256.slice(0, 2), sha256);
+  }
+
+  /**
+   * Adds a reference to the blob for a file's content, storing the content if it is new
+   * A scan hash for content already in the store is checked by re-reading
+   * the file, so a file changed since the scan is never matched to the old blob.
+   * @returns SHA-256 of the content
+   */
+  private async storeBlob(sourcePath: string, contentHash?: string): Promise<string> {
+    if (contentHash && await this.hasBlob(contentHash) && await hashCopy(sourcePath) === contentHash) {
+      await this.addReference(contentHash, async () => {
+        throw new Error(`Blob ${contentHash} disappeared from the content store`);
+      });
+      return contentHash;
+    }
+
+    const tempDir = join(this.storeRoot, 'tmp');
+    await fs.mkdir(tempDir, { recursive: true });
+    const tempPath = join(tempDir, randomBytes(8).toString('hex'));
+    try {
+      const sha256 = await hashCopy(sourcePath, tempPath);
+      await this.addReference(sha256, async () => {
+        await fs.mkdir(dirname(this.blobPath(sha256)), { recursive: true });
+        await fs.rename(tempPath, this.blobPath(sha256));
+        // Blobs are shared; nothing should write to them in place
+        await fs.chmod(this.blobPath(sha256), 0o444);
+        return (await fs.stat(this.blobPath(sha256))).size;
+      });
+      return sha256;
+    } finally {
+      await fs.rm(tempPath, { force: true });
+    }
+  }
+
+  /**
+   * Counts one more reference to a blob, creating it first when it is not stored yet
+   */
+  private async addReference(sha256: string, create: () => Promise<number>): Promise<void> {
+    await this.serialize(async () => {
+      const index = await this.readIndex();
+      const blob = index[sha256];
+      if (blob && await this.hasBlobFile(sha256)) {
+        blob.refs++;
+      } else {
+        index[sha256] = { size: await create(), refs: 1 };
+      }
+      await this.writeIndex(index);
+    });
+  }
+
+  /**
+   * Drops one reference to a blob, deleting it with the last one
+   */
+  private async release(sha256: string): Promise<void> {
+    await this.serialize(async () => {
+      const index = await this.readIndex();
+      const blob = index[sha256];
+      if (!blob) return;
+
+      if (--blob.refs <= 0) {
+        delete index[sha256];
+        await fs.rm(this.blobPath(sha256), { force: true });
+      }
+      await this.writeIndex(index);
+    });
+  }
+
+  /**
+   * Writes a blob's content to a path, checking the hash
+   * The Graveyard re-applies mode and times afterwards.
+   */
+  private async materialize(content: StoredContent, destination: string): Promise<void> {
+    const tempPath = `${destination}.exorcist-restore`;
+    try {
+      const sha256 = await hashCopy(this.blobPath(content.sha256!), tempPath);
+      if (sha256 !== content.sha256) {
+        throw new Error(`Checksum mismatch in content store for blob ${content.sha256}`);
+      }
+      await fs.rename(tempPath, destination);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  private async contentOf(graveyardPath: string): Promise<StoredContent> {
+    const entry = await this.manifest.lookup(graveyardPath);
+    if (!entry?.content) {
+      throw new Error(`Not in the content store: ${graveyardPath}`);
+    }
+    return entry.content;
+  }
+
+  private async hasBlob(sha256: string): Promise<boolean> {
+    await this.pending;
+    return Boolean((await this.readIndex())[sha256]) && this.hasBlobFile(sha256);
+  }
+
+  private async hasBlobFile(sha256: string): Promise<boolean> {
+    return fs.lstat(this.blobPath(sha256)).then(() => true, () => false);
+  }
+
+  /**
+   * Runs a task under the index lock, after every earlier task in this process has finished
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(async () => {
+      await fs.mkdir(this.indexDir, { recursive: true });
+      return this.lock.run(task);
+    });
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Reads the blob index; a missing file counts as empty
+   * A corrupted index is an error, since writing over it would lose every reference count.
+   */
+  private async readIndex(): Promise<Record<string, BlobRecord>> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.indexFilePath, 'utf-8');
+    } catch {
+      return {};
+    }
+    const data = JSON.parse(content);
+    return data.blobs && typeof data.blobs === 'object' ? data.blobs : {};
+  }
+
+  private async writeIndex(blobs: Record<string, BlobRecord>): Promise<void> {
+    await writeFileAtomic(this.indexFilePath, JSON.stringify({ blobs }, null, 2));
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { DataPaths, DATA_ROOT_ENV } from './DataPaths';
+
+describe('DataPaths', () => {
+  let testDir: string;
+  let userData: string;
+  let legacyDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `digital-exorcist-data-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+    userData = join(testDir, 'userData');
+    legacyDir = join(testDir, 'cwd');
+    await fs.mkdir(legacyDir, { recursive: true });
+    delete process.env[DATA_ROOT_ENV];
+  });
+
+  afterEach(async () => {
+    delete process.env[DATA_ROOT_ENV];
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('defaults to userData, then a configured root, then the environment override', async () => {
+    const dataPaths = new DataPaths(userData);
+    expect(await dataPaths.resolve()).toEqual({ dataRoot: userData, source: 'default' });
+
+    const configured = join(testDir, 'configured');
+    await dataPaths.setDataRoot(configured);
+    expect(await dataPaths.resolve()).toEqual({ dataRoot: configured, source: 'configured' });
+
+    process.env[DATA_ROOT_ENV] = join(testDir, 'from-env');
+    expect((await dataPaths.resolve()).source).toBe('env');
+
+    delete process.env[DATA_ROOT_ENV];
+    await dataPaths.setDataRoot(null);
+    expect((await dataPaths.resolve()).source).toBe('default');
+    await expect(dataPaths.setDataRoot('relative/dir')).rejects.toThrow('absolute');
+  });
+
+  it('falls back to userData when the chosen root cannot be created', async () => {
+    const blocker = join(testDir, 'a-file');
+    await fs.mkdir(testDir, { recursive: true });
+    await fs.writeFile(blocker, 'not a directory');
+    process.env[DATA_ROOT_ENV] = join(blocker, 'data');
+    const dataPaths = new DataPaths(userData);
+
+    const resolved = await dataPaths.resolveUsable();
+
+    expect(resolved).toMatchObject({ dataRoot: userData, source: 'default' });
+    expect(resolved.error).toContain(join(blocker, 'data'));
+    delete process.env[DATA_ROOT_ENV];
+    expect(await dataPaths.resolveUsable()).toEqual({ dataRoot: userData, source: 'default' });
+  });
+
+  it('moves a cwd-based graveyard and rewrites recorded graveyard paths', async () => {
+    await fs.mkdir(join(legacyDir, '.digital-exorcist'), { recursive: true });
+    await fs.mkdir(join(legacyDir, 'graveyard_trash', 'docs'), { recursive: true });
+    await fs.writeFile(join(legacyDir, 'graveyard_trash', 'docs', 'old.txt'), 'banished');
+    await fs.writeFile(join(legacyDir, '.digital-exorcist', 'graveyard-log.json'), JSON.stringify({
+      entries: [
+        { action: 'banish', filePath: '/home/docs/old.txt', graveyardPath: join('graveyard_trash', 'docs', 'old.txt') },
+        { action: 'resurrect', filePath: '/home/docs/kept.txt' }
+      ]
+    }));
+    await fs.writeFile(join(legacyDir, '.digital-exorcist', 'whitelist.json'), JSON.stringify({ files: ['/a'] }));
+    const dataPaths = new DataPaths(userData);
+
+    const result = await dataPaths.migrateLegacyData(legacyDir, userData);
+
+    expect(result.moved).toHaveLength(3);
+    expect(await fs.readFile(join(userData, 'graveyard_trash', 'docs', 'old.txt'), 'utf-8')).toBe('banished');
+    const log = JSON.parse(await fs.readFile(join(userData, '.digital-exorcist', 'graveyard-log.json'), 'utf-8'));
+    expect(log.entries[0].graveyardPath).toBe(join(userData, 'graveyard_trash', 'docs', 'old.txt'));
+    expect(log.entries[1].graveyardPath).toBeUndefined();
+
+    // Runs once per data root
+    await fs.mkdir(join(legacyDir, 'graveyard_trash'), { recursive: true });
+    expect(await dataPaths.migrateLegacyData(legacyDir, userData)).toEqual({ moved: [], skipped: [] });
+  });
+
+  it('keeps data already in the data root', async () => {
+    await fs.mkdir(join(legacyDir, '.digital-exorcist'), { recursive: true });
+    await fs.mkdir(join(userData, '.digital-exorcist'), { recursive: true });
+    await fs.writeFile(join(legacyDir, '.digital-exorcist', 'settings.json'), '{"scanConcurrency": 2}');
+    await fs.writeFile(join(userData, '.digital-exorcist', 'settings.json'), '{"scanConcurrency": 8}');
+
+    const result = await new DataPaths(userData).migrateLegacyData(legacyDir, userData);
+
+    expect(result.skipped).toEqual([join(legacyDir, '.digital-exorcist', 'settings.json')]);
+    expect(await fs.readFile(join(userData, '.digital-exorcist', 'settings.json'), 'utf-8')).toBe('{"scanConcurrency": 8}');
+  });
+});
@@ -0,0 +1,222 @@
+import { promises as fs } from 'fs';
+import { join, resolve, relative, isAbsolute, sep } from 'path';
+import { DataRootSource } from '../shared/types';
+import { movePath } from './GraveyardBackend';
+
+/**
+ * Environment variable that overrides the data root, e.g. for portable installs
+ */
+export const DATA_ROOT_ENV = 'DIGITAL_EXORCIST_DATA_DIR';
+
+/** File in userData that points at a configured data root */
+const LOCATION_FILE = 'data-location.json';
+/** State folder and graveyard folder, both kept directly under the data root */
+const STATE_DIR = '.digital-exorcist';
+const GRAVEYARD_DIR = 'graveyard_trash';
+/** State files whose entries record graveyard paths */
+const GRAVEYARD_PATH_FILES = ['graveyard-log.json', 'graveyard-manifest.json'];
+
+/**
+ * Outcome of moving data from the old working-directory location
+ */
+export interface DataMigrationResult {
+  /** Paths that were moved into the data root */
+  moved: string[];
+  /** Paths left in place because the data root already had them */
+  skipped: string[];
+}
+
+async function exists(path: string): Promise<boolean> {
+  return fs.lstat(path).then(() => true, () => false);
+}
+
+/**
+ * DataPaths - Decides where logs, whitelist, settings and the graveyard live
+ *
+ * The data root is, in order: the DIGITAL_EXORCIST_DATA_DIR environment
+ * variable, a root configured through setDataRoot, or Electron's userData
+ * directory. A changed root takes effect on the next launch.
+ */
+export class DataPaths {
+  private readonly userDataPath: string;
+  private readonly locationFilePath: string;
+
+  /**
+   * @param userDataPath - Electron's userData directory, also the default data root
+   */
+  constructor(userDataPath: string) {
+    this.userDataPath = userDataPath;
+    this.locationFilePath = join(userDataPath, LOCATION_FILE);
+  }
+
+  /**
+   * Gets the data root used when nothing else is configured
+   */
+  getDefaultRoot(): string {
+    return this.userDataPath;
+  }
+
+  /**
+   * Works out which data root to use
+   * @returns The data root and where it came from
+   */
+  async resolve(): Promise<{ dataRoot: string; source: DataRootSource }> {
+    const fromEnv = process.env[DATA_ROOT_ENV];
+    if (fromEnv) {
+      return { dataRoot: resolve(fromEnv), source: 'env' };
+    }
+
+    try {
+      const content = await fs.readFile(this.locationFilePath, 'utf-8');
+      const data = JSON.parse(content);
+      if (typeof data.dataRoot === 'string' && isAbsolute(data.dataRoot)) {
+        return { dataRoot: data.dataRoot, source: 'configured' };
+      }
+    } catch {
+      // No configured root, or an unreadable one - fall back to the default
+    }
+
+    return { dataRoot: this.userDataPath, source: 'default' };
+  }
+
+  /**
+   * Works out which data root to start with, making sure its state folder can be created
+   * A root that cannot be used gives way to the default, so the app still opens.
+   * @returns The data root, where it came from, and why the chosen one was passed over
+   */
+  async resolveUsable(): Promise<{ dataRoot: string; source: DataRootSource; error?: string }> {
+    let chosen: string | undefined;
+    try {
+      const resolved = await this.resolve();
+      chosen = resolved.dataRoot;
+      await fs.mkdir(join(resolved.dataRoot, STATE_DIR), { recursive: true });
+      return resolved;
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        dataRoot: this.userDataPath,
+        source: 'default',
+        error: chosen ? `Cannot use the data root ${chosen}: ${reason}` : `Cannot work out the data root: ${reason}`
+      };
+    }
+  }
+
+  /**
+   * Configures the data root for the next launch
+   * @param dataRoot - Absolute directory to use, or null for the default
+   * @returns The data root the next launch will use
+   */
+  async setDataRoot(dataRoot: string | null): Promise<{ dataRoot: string; source: DataRootSource }> {
+    if (dataRoot === null) {
+      await fs.rm(this.locationFilePath, { force: true });
+    } else {
+      if (!isAbsolute(dataRoot)) {
+        throw new Error(`Data root must be an absolute path: ${dataRoot}`);
+      }
+      // Fail now rather than on the next launch if the directory cannot be created
+      await fs.mkdir(dataRoot, { recursive: true });
+      await fs.mkdir(this.userDataPath, { recursive: true });
+      await fs.writeFile(this.locationFilePath, JSON.stringify({ dataRoot }, null, 2), 'utf-8');
+    }
+    return this.resolve();
+  }
+
+  /**
+   * Moves a .digital-exorcist folder and graveyard_trash from the old
+   * working-directory location into the data root, once per data root
+   *
+   * Anything the data root already has is left in place. Graveyard paths in
+   * the log and manifest are rewritten to where the files now live; paths
+   * that were not moved are made absolute so they no longer depend on the
+   * working directory.
+   * @param legacyDir - Directory the app used to keep its data in
+   * @param dataRoot - Data root to migrate into
+   * @returns What was moved and what was skipped
+   */
+  async migrateLegacyData(legacyDir: string, dataRoot: string): Promise<DataMigrationResult> {
+    const result: DataMigrationResult = { moved: [], skipped: [] };
+    const markerPath = join(dataRoot, STATE_DIR, 'migration.json');
+
+    if (resolve(legacyDir) === resolve(dataRoot) || await exists(markerPath)) {
+      return result;
+    }
+
+    await fs.mkdir(join(dataRoot, STATE_DIR), { recursive: true });
+
+    // State files move one by one so files already in the data root win
+    const legacyStateDir = join(legacyDir, STATE_DIR);
+    const stateFiles = await fs.readdir(legacyStateDir).catch(() => [] as string[]);
+    for (const name of stateFiles) {
+      await this.moveIfFree(join(legacyStateDir, name), join(dataRoot, STATE_DIR, name), result);
+    }
+
+    // The graveyard moves whole when possible, otherwise entry by entry
+    const legacyGraveyard = join(legacyDir, GRAVEYARD_DIR);
+    const graveyard = join(dataRoot, GRAVEYARD_DIR);
+    if (await exists(legacyGraveyard)) {
+      if (!(await exists(graveyard))) {
+        await this.moveIfFree(legacyGraveyard, graveyard, result);
+      } else {
+        for (const name of await fs.readdir(legacyGraveyard)) {
+          await this.moveIfFree(join(legacyGraveyard, name), join(graveyard, name), result);
+        }
+      }
+    }
+
+    for (const name of GRAVEYARD_PATH_FILES) {
+      await this.rewriteGraveyardPaths(join(dataRoot, STATE_DIR, name), legacyDir, legacyGraveyard, graveyard);
+    }
+
+    await fs.writeFile(markerPath, JSON.stringify({
+      migratedFrom: resolve(legacyDir),
+      migratedAt: new Date().toISOString(),
+      ...result
+    }, null, 2), 'utf-8');
+
+    return result;
+  }
+
+  private async moveIfFree(source: string, destination: string, result: DataMigrationResult): Promise<void> {
+    if (await exists(destination)) {
+      result.skipped.push(source);
+      return;
+    }
+    await movePath(source, destination);
+    result.moved.push(source);
+  }
+
+  /**
+   * Points graveyardPath fields of a JSON state file at the migrated graveyard
+   */
+  private async rewriteGraveyardPaths(
+    filePath: string,
+    legacyDir: string,
+    legacyGraveyard: string,
+    graveyard: string
+  ): Promise<void> {
+    let data: { entries?: Array<{ graveyardPath?: string }> };
+    try {
+      data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch {
+      return;
+    }
+    if (!Array.isArray(data.entries)) return;
+
+    for (const entry of data.entries) {
+      if (!entry || typeof entry.graveyardPath !== 'string' || !entry.graveyardPath) continue;
+
+      // Relative paths were relative to the old working directory
+      const legacyPath = resolve(legacyDir, entry.graveyardPath);
+      const inside = relative(legacyGraveyard, legacyPath);
+      const migratedPath = inside && !inside.startsWith(`..${sep}`) && inside !== '..' && !isAbsolute(inside)
+        ? join(graveyard, inside)
+        : undefined;
+
+      entry.graveyardPath = migratedPath && !(await exists(legacyPath)) && await exists(migratedPath)
+        ? migratedPath
+        : legacyPath;
+    }
+
+    await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
+  }
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { DuplicateDetector, PARTIAL_HASH_BYTES } from './DuplicateDetector';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('DuplicateDetector', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `digital-exorcist-dupes-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function writeFiles(contents: Buffer[]): Promise<Array<{ path: string; size: number }>> {
+    const files: Array<{ path: string; size: number }> = [];
+    for (let i = 0; i < contents.length; i++) {
+      const filePath = join(testDir, `file-${i}.bin`);
+      await fs.writeFile(filePath, contents[i]);
+      files.push({ path: filePath, size: contents[i].length });
+    }
+    return files;
+  }
+
+  it('never reads files with a unique size', async () => {
+    const files = await writeFiles([Buffer.alloc(10, 1), Buffer.alloc(20, 1), Buffer.alloc(30, 1)]);
+    const detector = new DuplicateDetector();
+
+    const hashes = await detector.findDuplicates(files);
+
+    expect(hashes.size).toBe(0);
+    expect(detector.getBytesRead()).toBe(0);
+  });
+
+  it('reads only the head and tail of large files whose partial hashes differ', async () => {
+    const size = PARTIAL_HASH_BYTES * 8;
+    const a = Buffer.alloc(size, 0);
+    const b = Buffer.alloc(size, 0);
+    b[0] = 1;
+    const files = await writeFiles([a, b]);
+    const detector = new DuplicateDetector();
+
+    const hashes = await detector.findDuplicates(files);
+
+    expect(hashes.size).toBe(0);
+    expect(detector.getBytesRead()).toBe(PARTIAL_HASH_BYTES * 4);
+  });
+
+  it('full-hashes large files that match on size and partial hash', async () => {
+    const size = PARTIAL_HASH_BYTES * 4;
+    const a = Buffer.alloc(size, 7);
+    const b = Buffer.alloc(size, 7);
+    const c = Buffer.alloc(size, 7);
+    c[size / 2] = 0; // Same head and tail, different middle
+    const files = await writeFiles([a, b, c]);
+    const detector = new DuplicateDetector();
+
+    const hashes = await detector.findDuplicates(files);
+
+    expect(hashes.get(files[0].path)).toBe(await detector.computeHash(files[0].path));
+    expect(hashes.get(files[0].path)).toBe(hashes.get(files[1].path));
+    expect(hashes.get(files[2].path)).not.toBe(hashes.get(files[0].path));
+  });
+
+  it('hashes hard links once and never treats them as duplicates of each other', async () => {
+    const [original] = await writeFiles([Buffer.alloc(100, 3)]);
+    const linkPath = join(testDir, 'hard-link.bin');
+    await fs.link(original.path, linkPath);
+    const withStats = async (path: string) => {
+      const { size, dev, ino } = await fs.stat(path);
+      return { path, size, dev, ino };
+    };
+    const detector = new DuplicateDetector();
+
+    const linksOnly = await detector.findDuplicates([await withStats(original.path), await withStats(linkPath)]);
+
+    expect(linksOnly.size).toBe(0);
+    expect(detector.getBytesRead()).toBe(0);
+
+    const copyPath = join(testDir, 'copy.bin');
+    await fs.writeFile(copyPath, Buffer.alloc(100, 3));
+    const hashes = await detector.findDuplicates([
+      await withStats(original.path),
+      await withStats(linkPath),
+      await withStats(copyPath)
+    ]);
+
+    expect(hashes.get(linkPath)).toBe(hashes.get(original.path));
+    expect(hashes.get(copyPath)).toBe(hashes.get(original.path));
+    expect(detector.getBytesRead()).toBe(200);
+  });
+
+  /**
+   * **Feature: staged-duplicate-detection, Property 1: Same zombies as full hashing**
+   *
+   * For any set of files, two non-empty files receive the same hash from the
+   * staged pipeline exactly when their full contents are identical. Empty
+   * files are never hashed.
+   */
+  it('groups files exactly like full-content hashing', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.uint8Array({ minLength: 0, maxLength: 64 }), { minLength: 1, maxLength: 8 }),
+        async (contents) => {
+          await fs.rm(testDir, { recursive: true, force: true });
+          await fs.mkdir(testDir, { recursive: true });
+          const files = await writeFiles(contents.map(c => Buffer.from(c)));
+          const detector = new DuplicateDetector();
+
+          const hashes = await detector.findDuplicates(files);
+
+          for (let i = 0; i < files.length; i++) {
+            const hasTwin = contents[i].length > 0 && contents.some((c, j) => j !== i && Buffer.from(c).equals(Buffer.from(contents[i])));
+            expect(hashes.has(files[i].path)).toBe(hasTwin);
+            for (let j = 0; j < files.length; j++) {
+              if (i !== j && hashes.has(files[i].path) && hashes.has(files[j].path)) {
+                const same = Buffer.from(contents[i]).equals(Buffer.from(contents[j]));
+                expect(hashes.get(files[i].path) === hashes.get(files[j].path)).toBe(same);
+              }
+            }
+          }
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
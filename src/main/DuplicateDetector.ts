@@ -0,0 +1,262 @@
+import { ScanWorkerPool, ScanCancelledError } from './ScanWorkerPool';
+import { HashTaskResult } from './scanTasks';
+import { ScanIndex, IndexedFile } from './ScanIndex';
+import { inodeKey } from '../shared/hardLinks';
+
+export { PARTIAL_HASH_BYTES } from './scanTasks';
+
+/**
+ * Minimal file description needed for duplicate detection
+ */
+export interface HashCandidate {
+  path: string;
+  size: number;
+  /** Needed, together with ino, to reuse hashes from a scan index */
+  lastModified?: Date;
+  ino?: number;
+  /** Device number; paths with the same dev and ino are hard links, not duplicates */
+  dev?: number;
+}
+
+/**
+ * Number of hashes served from the scan index versus computed from disk
+ */
+export interface CacheStats {
+  cacheHits: number;
+  cacheMisses: number;
+}
+
+/**
+ * Progress callback for the hashing stages
+ * @param hashed - Number of files hashed so far in the current stage
+ * @param currentPath - File that was just hashed
+ * @param stage - 'partial' for head/tail hashing, 'full' for full-content hashing
+ */
+export type HashProgressCallback = (hashed: number, currentPath: string, stage: 'partial' | 'full') => void;
+
+/**
+ * DuplicateDetector - Staged duplicate detection pipeline
+ *
+ * 1. Group files by exact size; a file with a unique size cannot be a duplicate.
+ *    Empty files are skipped: they are Wraiths, not copies of each other.
+ *    Hard links are collapsed first: only one path per inode is hashed, and
+ *    its other links receive the same hash afterwards.
+ * 2. For size collisions, hash the first and last 64 KB only.
+ * 3. Full-hash only the files whose size and partial hash still collide.
+ *
+ * Only files that survive every stage receive a full SHA-256 hash, and the
+ * detector keeps a running count of bytes read from disk. Hashing runs on
+ * the given worker pool, up to the pool's concurrency limit. When a scan
+ * index is given, hashes of unchanged files are taken from it instead.
+ */
+export class DuplicateDetector {
+  private readonly pool: ScanWorkerPool;
+  private readonly index?: ScanIndex;
+  private bytesRead = 0;
+  private cacheHits = 0;
+  private cacheMisses = 0;
+  private cancelled = false;
+
+  /**
+   * @param pool - Pool to hash on; defaults to a single in-process runner
+   * @param index - Optional persistent index to read and record hashes
+   */
+  constructor(pool?: ScanWorkerPool, index?: ScanIndex) {
+    this.pool = pool ?? new ScanWorkerPool({ concurrency: 1, workerScript: null });
+    this.index = index;
+  }
+
+  /**
+   * Gets the number of bytes read from disk since the detector was created
+   */
+  getBytesRead(): number {
+    return this.bytesRead;
+  }
+
+  /**
+   * Gets how many hashes came from the scan index and how many were computed
+   */
+  getCacheStats(): CacheStats {
+    return { cacheHits: this.cacheHits, cacheMisses: this.cacheMisses };
+  }
+
+  /**
+   * Stops any further hashing; pending stages resolve with what they have
+   */
+  cancel(): void {
+    this.cancelled = true;
+  }
+
+  /**
+   * Computes the SHA-256 hash of a whole file
+   * @param filePath - Path to the file to hash
+   * @returns Promise resolving to the hex-encoded hash string
+   */
+  async computeHash(filePath: string): Promise<string> {
+    const result = await this.pool.hashFile(filePath);
+    this.bytesRead += result.bytesRead;
+    return result.hash;
+  }
+
+  /**
+   * Computes a SHA-256 hash over the first and last 64 KB of a file.
+   * Files no larger than two windows are read whole, so the result is the full hash.
+   * @param filePath - Path to the file to hash
+   * @param size - File size in bytes
+   * @returns The hex-encoded hash and whether it covers the entire file
+   */
+  async computePartialHash(filePath: string, size: number): Promise<{ hash: string; complete: boolean }> {
+    const result: HashTaskResult = await this.pool.partialHashFile(filePath, size);
+    this.bytesRead += result.bytesRead;
+    return { hash: result.hash, complete: result.complete };
+  }
+
+  /**
+   * Runs the staged pipeline over a set of files
+   * @param files - Files to check for duplicate content
+   * @param onProgress - Optional progress callback
+   * @returns Map from file path to full content hash, only for files that have a duplicate candidate
+   */
+  async findDuplicates(files: HashCandidate[], onProgress?: HashProgressCallback): Promise<Map<string, string>> {
+    const hashes = new Map<string, string>();
+
+    // Stage 1: group non-empty files by exact size, one representative per inode
+    const links = this.groupBy(files.filter(file => file.size > 0), inodeKey);
+    const representatives = [...links.values()].map(group => group[0]);
+    const sizeGroups = this.groupBy(representatives, file => String(file.size));
+    const sizeCollisions = [...sizeGroups.values()].filter(group => group.length > 1).flat();
+
+    // Stage 2: partial hash for size collisions
+    const partialKeys = new Map<string, string>();
+    const completeHashes = new Map<string, string>();
+    let partialHashed = 0;
+
+    await Promise.all(sizeCollisions.map(async file => {
+      if (this.cancelled) return;
+
+      try {
+        const { hash, complete } = await this.cachedPartialHash(file);
+        partialKeys.set(file.path, `${file.size}:${hash}`);
+        if (complete) {
+          completeHashes.set(file.path, hash);
+        }
+      } catch (error) {
+        if (error instanceof ScanCancelledError) return;
+        // If hashing fails, the file is left out of duplicate detection
+        console.error(`Failed to hash ${file.path}:`, error);
+      }
+
+      partialHashed++;
+      onProgress?.(partialHashed, file.path, 'partial');
+    }));
+
+    // Stage 3: full hash for files whose partial hash still collides
+    const partialGroups = this.groupBy(
+      representatives.filter(file => partialKeys.has(file.path)),
+      file => partialKeys.get(file.path)!
+    );
+    const partialCollisions = [...partialGroups.values()].filter(group => group.length > 1).flat();
+    let fullHashed = 0;
+
+    await Promise.all(partialCollisions.map(async file => {
+      if (this.cancelled) return;
+
+      const known = completeHashes.get(file.path);
+      if (known) {
+        hashes.set(file.path, known);
+        return;
+      }
+
+      try {
+        hashes.set(file.path, await this.cachedFullHash(file));
+      } catch (error) {
+        if (error instanceof ScanCancelledError) return;
+        console.error(`Failed to hash ${file.path}:`, error);
+      }
+
+      fullHashed++;
+      onProgress?.(fullHashed, file.path, 'full');
+    }));
+
+    // Hard links share the hash of their representative
+    for (const group of links.values()) {
+      const hash = hashes.get(group[0].path);
+      if (hash) {
+        for (const link of group.slice(1)) {
+          hashes.set(link.path, hash);
+        }
+      }
+    }
+
+    return hashes;
+  }
+
+  /**
+   * Partial hash for a candidate, served from the index when its stats are unchanged
+   */
+  private async cachedPartialHash(file: HashCandidate): Promise<{ hash: string; complete: boolean }> {
+    const indexed = this.toIndexed(file);
+    const cached = indexed && this.index!.lookup(indexed);
+
+    if (cached?.partialHash) {
+      this.cacheHits++;
+      return { hash: cached.partialHash, complete: cached.partialHash === cached.fullHash };
+    }
+
+    this.cacheMisses++;
+    const result = await this.computePartialHash(file.path, file.size);
+    if (indexed) {
+      this.index!.record(indexed, {
+        partialHash: result.hash,
+        fullHash: result.complete ? result.hash : undefined
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Full hash for a candidate, served from the index when its stats are unchanged
+   */
+  private async cachedFullHash(file: HashCandidate): Promise<string> {
+    const indexed = this.toIndexed(file);
+    const cached = indexed && this.index!.lookup(indexed);
+
+    if (cached?.fullHash) {
+      this.cacheHits++;
+      return cached.fullHash;
+    }
+
+    this.cacheMisses++;
+    const hash = await this.computeHash(file.path);
+    if (indexed) {
+      this.index!.record(indexed, { fullHash: hash });
+    }
+    return hash;
+  }
+
+  /**
+   * Returns the index key for a candidate, or undefined if it cannot be cached
+   */
+  private toIndexed(file: HashCandidate): IndexedFile | undefined {
+    if (!this.index || !(file.lastModified instanceof Date) || file.ino === undefined) {
+      return undefined;
+    }
+    return { path: file.path, size: file.size, lastModified: file.lastModified, ino: file.ino };
+  }
+
+  /**
+   * Groups items by a derived key
+   */
+  private groupBy<T>(items: T[], keyOf: (item: T) => string): Map<string, T[]> {
+    const groups = new Map<string, T[]>();
+
+    for (const item of items) {
+      const key = keyOf(item);
+      const group = groups.get(key) || [];
+      group.push(item);
+      groups.set(key, group);
+    }
+
+    return groups;
+  }
+}
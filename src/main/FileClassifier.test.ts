@@ -75,8 +75,9 @@ describe('FileClassifier', () => {
    * **Feature: digital-exorcist, Property 7: Zombie classification by content**
    * **Validates: Requirements 3.3, 11.1, 11.2**
    * 
-   * For any two files with identical content hashes, if not whitelisted,
-   * both should be classified as Zombies and grouped together.
+   * For any two non-empty files with identical content hashes, if not whitelisted,
+   * one is kept as the primary copy and the other is classified as a Zombie
+   * that points at it.
    */
   it('classifies files with identical hashes as zombies', async () => {
     await fc.assert(
@@ -84,12 +85,12 @@ describe('FileClassifier', () => {
         fc.tuple(
           fc.record({
             path: fc.string({ minLength: 1 }),
-            size: fc.nat(),
+            size: fc.integer({ min: 1 }),
             lastModified: fc.date()
           }),
           fc.record({
             path: fc.string({ minLength: 1 }),
-            size: fc.nat(),
+            size: fc.integer({ min: 1 }),
             lastModified: fc.date()
           }),
           fc.hexaString({ minLength: 64, maxLength: 64 })
@@ -106,13 +107,12 @@ describe('FileClassifier', () => {
           
           const classified = await classifier.classifyFiles(filesWithHash, new Set(), false);
           
-          // Both files should be classified as Zombies
+          // Exactly one copy is a Zombie; the other is the primary it duplicates
           const zombies = classified.filter(f => f.classifications.includes(MonsterType.Zombie));
-          expect(zombies.length).toBe(2);
-          
-          // Both should have the same duplicateGroup
+          expect(zombies.length).toBe(1);
           expect(zombies[0].duplicateGroup).toBe(sharedHash);
-          expect(zombies[1].duplicateGroup).toBe(sharedHash);
+          expect([file1.path, file2.path]).toContain(zombies[0].duplicateOf);
+          expect(zombies[0].duplicateOf).not.toBe(zombies[0].path);
         }
       ),
       { numRuns: 100 }
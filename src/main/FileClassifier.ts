@@ -1,10 +1,51 @@
-import { createHash } from 'crypto';
-import { createReadStream } from 'fs';
-import { FileScanResult, ClassifiedFile, MonsterType } from '../shared/types';
+import {
+  FileScanResult,
+  ClassifiedFile,
+  ScanProgress,
+  ClassificationConfig,
+  DEFAULT_CLASSIFICATION_CONFIG
+} from '../shared/types';
+import { DuplicateDetector, CacheStats } from './DuplicateDetector';
+import { ScanWorkerPool } from './ScanWorkerPool';
+import { ScanIndex } from './ScanIndex';
+import { ClassificationEngine } from './ClassificationEngine';
+import { CompiledMonsterRules } from './MonsterRules';
+
+export interface FileClassifierOptions {
+  /** Maximum number of files hashed at once on worker threads */
+  concurrency?: number;
+  /** Persistent index used to skip re-hashing unchanged files */
+  index?: ScanIndex;
+  /** Called every 100 hashes with cache hit/miss counts so far */
+  onProgress?: (progress: ScanProgress) => void;
+  /** Thresholds for the active classification profile */
+  classificationConfig?: ClassificationConfig;
+  /** Custom monster rules evaluated alongside the built-in types */
+  monsterRules?: CompiledMonsterRules;
+  /** Root the files were scanned under, which custom path globs are relative to */
+  scanRoot?: string;
+}
 
 export class FileClassifier {
-  private readonly GHOST_AGE_MONTHS = 6;
-  private readonly DEMON_SIZE_BYTES = 500 * 1024 * 1024; // 500MB
+  private readonly engine: ClassificationEngine;
+  private readonly concurrency?: number;
+  private readonly index?: ScanIndex;
+  private readonly onProgress?: (progress: ScanProgress) => void;
+  private readonly scanRoot?: string;
+  private pool: ScanWorkerPool | null = null;
+  private bytesRead = 0;
+  private cacheStats: CacheStats = { cacheHits: 0, cacheMisses: 0 };
+
+  constructor(options: FileClassifierOptions = {}) {
+    this.concurrency = options.concurrency;
+    this.index = options.index;
+    this.onProgress = options.onProgress;
+    this.scanRoot = options.scanRoot;
+    this.engine = new ClassificationEngine(
+      options.classificationConfig ?? DEFAULT_CLASSIFICATION_CONFIG,
+      options.monsterRules
+    );
+  }
 
   /**
    * Computes SHA-256 hash of a file using streaming for large files
@@ -12,22 +53,33 @@ export class FileClassifier {
    * @returns Promise resolving to the hex-encoded hash string
    */
   async computeHash(filePath: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const hash = createHash('sha256');
-      const stream = createReadStream(filePath);
+    const detector = new DuplicateDetector();
+    const hash = await detector.computeHash(filePath);
+    this.bytesRead += detector.getBytesRead();
+    return hash;
+  }
 
-      stream.on('data', (chunk) => {
-        hash.update(chunk);
-      });
+  /**
+   * Gets the number of bytes read from disk while hashing
+   * @returns Total bytes read by this classifier
+   */
+  getBytesRead(): number {
+    return this.bytesRead;
+  }
 
-      stream.on('end', () => {
-        resolve(hash.digest('hex'));
-      });
+  /**
+   * Gets how many hashes came from the scan index during the last classification
+   * @returns Cache hit and miss counts
+   */
+  getCacheStats(): CacheStats {
+    return { ...this.cacheStats };
+  }
 
-      stream.on('error', (error) => {
-        reject(error);
-      });
-    });
+  /**
+   * Cancels in-flight hashing and stops all workers
+   */
+  cancel(): void {
+    void this.pool?.terminate();
   }
 
   /**
@@ -51,102 +103,39 @@ export class FileClassifier {
       filesWithHashes = files;
     }
 
-    // Group files by hash to identify duplicates
-    const hashGroups = this.groupByHash(filesWithHashes);
-
-    // Classify each file
-    const classified: ClassifiedFile[] = [];
-
-    for (const file of filesWithHashes) {
-      // Skip whitelisted files
-      if (whitelist.has(file.path)) {
-        continue;
-      }
-
-      const classifications: MonsterType[] = [];
-
-      // Ghost classification: files older than 6 months
-      if (this.isGhost(file)) {
-        classifications.push(MonsterType.Ghost);
-      }
-
-      // Demon classification: files larger than 500MB
-      if (this.isDemon(file)) {
-        classifications.push(MonsterType.Demon);
-      }
-
-      // Zombie classification: duplicate files
-      const duplicateGroup = file.hash && hashGroups.get(file.hash);
-      if (duplicateGroup && duplicateGroup.length > 1) {
-        classifications.push(MonsterType.Zombie);
-      }
-
-      // Only include files that have at least one classification
-      if (classifications.length > 0) {
-        classified.push({
-          ...file,
-          classifications,
-          duplicateGroup: duplicateGroup && duplicateGroup.length > 1 ? file.hash : undefined
-        });
-      }
-    }
-
-    return classified;
+    // Ghost/Demon thresholds, primary-copy zombies and priority come from the shared engine
+    return this.engine.classify(filesWithHashes, whitelist, new Date(), this.scanRoot);
   }
 
   /**
-   * Computes hashes for all files in the array
+   * Computes hashes for files that may have duplicates
+   * Files with a unique size or unique partial hash are returned without a hash
    */
   private async computeHashes(files: FileScanResult[]): Promise<FileScanResult[]> {
-    const filesWithHashes: FileScanResult[] = [];
-
-    for (const file of files) {
-      try {
-        const hash = await this.computeHash(file.path);
-        filesWithHashes.push({
-          ...file,
-          hash
-        });
-      } catch (error) {
-        // If hashing fails, include file without hash
-        console.error(`Failed to hash ${file.path}:`, error);
-        filesWithHashes.push(file);
-      }
-    }
-
-    return filesWithHashes;
-  }
-
-  /**
-   * Groups files by their content hash
-   */
-  private groupByHash(files: FileScanResult[]): Map<string, FileScanResult[]> {
-    const groups = new Map<string, FileScanResult[]>();
-
-    for (const file of files) {
-      if (file.hash) {
-        const group = groups.get(file.hash) || [];
-        group.push(file);
-        groups.set(file.hash, group);
-      }
+    const pool = new ScanWorkerPool({ concurrency: this.concurrency });
+    this.pool = pool;
+    const detector = new DuplicateDetector(pool, this.index);
+    let hashed = 0;
+
+    let hashes: Map<string, string>;
+    try {
+      hashes = await detector.findDuplicates(files, (_count, currentPath) => {
+        hashed++;
+        if (this.onProgress && hashed % 100 === 0) {
+          this.onProgress({ filesScanned: hashed, currentPath, ...detector.getCacheStats() });
+        }
+      });
+    } finally {
+      this.pool = null;
+      this.bytesRead += detector.getBytesRead();
+      this.cacheStats = detector.getCacheStats();
+      await pool.terminate();
+      await this.index?.save().catch(() => undefined);
     }
 
-    return groups;
-  }
-
-  /**
-   * Determines if a file is a Ghost (older than 6 months)
-   */
-  private isGhost(file: FileScanResult): boolean {
-    const sixMonthsAgo = new Date();
-    sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - this.GHOST_AGE_MONTHS);
-    return file.lastModified < sixMonthsAgo;
-  }
-
-  /**
-   * Determines if a file is a Demon (larger than 500MB)
-   */
-  private isDemon(file: FileScanResult): boolean {
-    return file.size > this.DEMON_SIZE_BYTES;
+    return files.map(file => {
+      const hash = hashes.get(file.path);
+      return hash ? { ...file, hash } : file;
+    });
   }
 }
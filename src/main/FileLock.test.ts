@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir, hostname } from 'os';
+import { spawnSync } from 'child_process';
+import { FileLock, LockTimeoutError, writeFileAtomic } from './FileLock';
+
+describe('FileLock', () => {
+  let testDir: string;
+  let lockPath: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `digital-exorcist-lock-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+    await fs.mkdir(testDir, { recursive: true });
+    lockPath = join(testDir, 'state.lock');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('runs tasks holding the same lock file one at a time', async () => {
+    // Separate instances stand in for separate processes
+    const locks = [new FileLock(lockPath), new FileLock(lockPath), new FileLock(lockPath)];
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = await Promise.all(locks.map((lock, i) => lock.run(async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 30));
+      running--;
+      return i;
+    })));
+
+    expect(results).toEqual([0, 1, 2]);
+    expect(maxRunning).toBe(1);
+    await expect(fs.access(lockPath)).rejects.toThrow();
+  });
+
+  it('breaks locks left by dead processes but waits out live ones', async () => {
+    const deadPid = spawnSync(process.execPath, ['-e', '']).pid;
+    await fs.writeFile(lockPath, JSON.stringify({ pid: deadPid, hostname: hostname(), acquiredAt: new Date().toISOString() }));
+    expect(await new FileLock(lockPath).run(async () => 'taken over')).toBe('taken over');
+
+    await fs.writeFile(lockPath, JSON.stringify({ pid: process.pid, hostname: hostname(), acquiredAt: new Date().toISOString() }));
+    await expect(new FileLock(lockPath, { timeoutMs: 100 }).run(async () => 'never')).rejects.toBeInstanceOf(LockTimeoutError);
+
+    // A live holder keeps its lock as long as it refreshes it
+    await fs.rm(lockPath);
+    const fresh = new FileLock(lockPath, { staleMs: 150 });
+    const holding = fresh.run(() => new Promise(resolve => setTimeout(resolve, 400)));
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await expect(new FileLock(lockPath, { staleMs: 150, timeoutMs: 250 }).run(async () => 'never')).rejects.toBeInstanceOf(LockTimeoutError);
+    await holding;
+
+    // A pid that looks alive but stopped refreshing, e.g. reused after a crash, expires
+    const old = new Date(Date.now() - 60_000);
+    await fs.writeFile(lockPath, JSON.stringify({ pid: process.pid, hostname: hostname(), acquiredAt: old.toISOString() }));
+    await fs.utimes(lockPath, old, old);
+    expect(await new FileLock(lockPath, { staleMs: 30_000 }).run(async () => 'reclaimed')).toBe('reclaimed');
+
+    // Another machine's holder cannot be checked; a lock it stopped refreshing expires
+    await fs.writeFile(lockPath, JSON.stringify({ pid: process.pid, hostname: `not-${hostname()}`, acquiredAt: old.toISOString() }));
+    await fs.utimes(lockPath, old, old);
+    expect(await new FileLock(lockPath, { staleMs: 30_000 }).run(async () => 'expired')).toBe('expired');
+  });
+
+  it('only releases the lock its holder took', async () => {
+    const taken = new FileLock(lockPath).run(async () => {
+      // Someone broke the lock and took it while the task ran
+      await fs.writeFile(lockPath, JSON.stringify({ pid: process.pid, hostname: hostname(), acquiredAt: new Date().toISOString(), token: 'other' }));
+    });
+    await taken;
+    expect(JSON.parse(await fs.readFile(lockPath, 'utf-8')).token).toBe('other');
+  });
+
+  it('replaces files atomically without leaving temporary files', async () => {
+    const filePath = join(testDir, 'state.json');
+    await fs.writeFile(filePath, '{"old": true}');
+
+    await writeFileAtomic(filePath, '{"new": true}');
+
+    expect(await fs.readFile(filePath, 'utf-8')).toBe('{"new": true}');
+    expect(await fs.readdir(testDir)).toEqual(['state.json']);
+  });
+});
@@ -0,0 +1,219 @@
+import { promises as fs } from 'fs';
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+
+/** A lock not refreshed for this long is treated as abandoned */
+export const LOCK_STALE_MS = 30_000;
+/** How long to wait for a lock before giving up */
+export const LOCK_TIMEOUT_MS = 10_000;
+
+const LOCK_RETRY_MS = 20;
+
+/**
+ * Error raised when a lock is still held by someone else after the timeout
+ */
+export class LockTimeoutError extends Error {
+  constructor(lockPath: string) {
+    super(`Timed out waiting for lock: ${lockPath}`);
+    this.name = 'LockTimeoutError';
+  }
+}
+
+export interface FileLockOptions {
+  /** Age after which a lock is broken (defaults to LOCK_STALE_MS) */
+  staleMs?: number;
+  /** How long to wait before throwing LockTimeoutError (defaults to LOCK_TIMEOUT_MS) */
+  timeoutMs?: number;
+}
+
+/**
+ * Who holds a lock, as written into the lock file
+ */
+interface LockOwner {
+  pid: number;
+  hostname: string;
+  acquiredAt: string;
+  /** Unique per acquisition, so a holder only ever releases its own lock */
+  token: string;
+}
+
+function errorCode(err: unknown): string | undefined {
+  return err && typeof err === 'object' && 'code' in err ? String(err.code) : undefined;
+}
+
+/**
+ * Checks whether a process on this machine is still running
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM means it exists but belongs to someone else
+    return errorCode(err) === 'EPERM';
+  }
+}
+
+/**
+ * FileLock - Cross-process mutual exclusion through an exclusively created lock file
+ *
+ * The lock file records the holder's pid, host and a token unique to the
+ * acquisition. Holders touch the lock file while they hold it. A lock is
+ * stale, and is broken by the next process that wants it, when its holder
+ * is a process on this machine that no longer runs, or when it has not been
+ * touched for the stale timeout: a crash on another machine sharing the
+ * data folder, or a crashed holder whose pid was reused. Releasing removes the
+ * lock file only while it still carries the holder's token. Every process
+ * writing a state file takes the same lock file next to it, so app
+ * instances and future MCP write tools take turns.
+ *
+ * Locks are not re-entrant: a task must not take the lock it runs under.
+ */
+export class FileLock {
+  private readonly lockPath: string;
+  private readonly staleMs: number;
+  private readonly timeoutMs: number;
+
+  /**
+   * @param lockPath - Lock file to create; its directory must exist
+   * @param options - Stale and wait timeouts
+   */
+  constructor(lockPath: string, options: FileLockOptions = {}) {
+    this.lockPath = lockPath;
+    this.staleMs = options.staleMs ?? LOCK_STALE_MS;
+    this.timeoutMs = options.timeoutMs ?? LOCK_TIMEOUT_MS;
+  }
+
+  /**
+   * Runs a task while holding the lock
+   * @param task - Work to do under the lock
+   * @returns What the task returns
+   * @throws LockTimeoutError if the lock cannot be taken in time
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    const token = await this.acquire();
+    // Keeps the lock fresh, so it is not taken for abandoned while the task runs
+    const heartbeat = setInterval(() => {
+      const now = new Date();
+      fs.utimes(this.lockPath, now, now).catch(() => undefined);
+    }, Math.max(1, Math.floor(this.staleMs / 3)));
+    heartbeat.unref?.();
+
+    try {
+      return await task();
+    } finally {
+      clearInterval(heartbeat);
+      await this.release(token);
+    }
+  }
+
+  /**
+   * Takes the lock
+   * @returns Token written into the lock file
+   */
+  private async acquire(): Promise<string> {
+    const owner: LockOwner = {
+      pid: process.pid,
+      hostname: hostname(),
+      acquiredAt: new Date().toISOString(),
+      token: randomBytes(16).toString('hex')
+    };
+    const deadline = Date.now() + this.timeoutMs;
+
+    for (;;) {
+      try {
+        await fs.writeFile(this.lockPath, JSON.stringify(owner), { encoding: 'utf-8', flag: 'wx' });
+        return owner.token;
+      } catch (err) {
+        if (errorCode(err) !== 'EEXIST') throw err;
+      }
+
+      const stale = await this.findStale();
+      if (stale !== undefined) {
+        // Only if nobody broke it and took the lock meanwhile
+        if ((await this.readLock()) === stale) {
+          await fs.rm(this.lockPath, { force: true });
+        }
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new LockTimeoutError(this.lockPath);
+      }
+      await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  /**
+   * Removes the lock file if it is still this holder's
+   */
+  private async release(token: string): Promise<void> {
+    const content = await this.readLock();
+    if (content === undefined) return;
+    try {
+      if ((JSON.parse(content) as LockOwner).token !== token) return;
+    } catch {
+      // Not a lock this holder wrote
+      return;
+    }
+    await fs.rm(this.lockPath, { force: true });
+  }
+
+  private async readLock(): Promise<string | undefined> {
+    return fs.readFile(this.lockPath, 'utf-8').catch(() => undefined);
+  }
+
+  /**
+   * Decides whether the current lock file was abandoned
+   * @returns Content of the abandoned lock file, or undefined if it is live or gone
+   */
+  private async findStale(): Promise<string | undefined> {
+    let content: string;
+    let mtimeMs: number;
+    try {
+      [content, { mtimeMs }] = await Promise.all([fs.readFile(this.lockPath, 'utf-8'), fs.stat(this.lockPath)]);
+    } catch {
+      // Released meanwhile; the next attempt will tell
+      return undefined;
+    }
+
+    let holder: LockOwner | undefined;
+    try {
+      holder = JSON.parse(content);
+    } catch {
+      // Still being written, or garbage; only its age can break it
+    }
+
+    // A dead holder on this machine is known at once
+    if (holder && holder.hostname === hostname() && !isProcessAlive(holder.pid)) {
+      return content;
+    }
+    // Live holders refresh the lock while they run; a pid that looks alive may
+    // have been reused since the holder crashed, so age breaks those too
+    return Date.now() - mtimeMs > this.staleMs ? content : undefined;
+  }
+}
+
+/**
+ * Replaces a file so that readers see either the old or the new content
+ * The content goes to a temporary file in the same folder, is flushed to
+ * disk and is then renamed over the target.
+ * @param filePath - File to replace
+ * @param content - New content
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  const handle = await fs.open(tempPath, 'w');
+  try {
+    await handle.write(content);
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+
+  try {
+    await fs.rename(tempPath, filePath);
+  } catch (err) {
+    await fs.rm(tempPath, { force: true });
+    throw err;
+  }
+}
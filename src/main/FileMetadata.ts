@@ -0,0 +1,127 @@
+import { promises as fs, createReadStream } from 'fs';
+import { execFile } from 'child_process';
+import { createHash } from 'crypto';
+
+/**
+ * Metadata recorded when an entry is banished and re-applied when it is restored
+ */
+export interface FileMetadata {
+  mode: number;
+  uid: number;
+  gid: number;
+  atimeMs: number;
+  mtimeMs: number;
+  /** Extended attributes, base64-encoded; only where the platform tools are available */
+  xattrs?: Record<string, string>;
+  /** SHA-256 of a regular file's content, checked before it is restored */
+  sha256?: string;
+}
+
+/** Time limit for a getfattr/setfattr call */
+const XATTR_TIMEOUT_MS = 5000;
+
+/**
+ * Computes the SHA-256 of a file using streaming
+ * @param filePath - File to hash
+ */
+export async function hashFileContent(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
+
+function runXattrTool(command: string, args: string[]): Promise<string | undefined> {
+  return new Promise(resolve => {
+    execFile(command, args, { timeout: XATTR_TIMEOUT_MS }, (error, stdout) => {
+      // Missing tool, unsupported filesystem or no attributes - all mean nothing to record
+      resolve(error ? undefined : stdout);
+    });
+  });
+}
+
+/**
+ * Reads extended attributes with getfattr on Linux
+ * @returns Attributes by name, or undefined when there are none or they cannot be read
+ */
+async function readXattrs(path: string): Promise<Record<string, string> | undefined> {
+  if (process.platform !== 'linux') return undefined;
+
+  const output = await runXattrTool('getfattr', ['--absolute-names', '-h', '-d', '-m', '-', '-e', 'base64', path]);
+  const xattrs: Record<string, string> = {};
+  for (const line of output?.split('\n') ?? []) {
+    const match = /^([^#=][^=]*)=0s(.*)$/.exec(line.trim());
+    if (match) {
+      xattrs[match[1]] = match[2];
+    }
+  }
+  return Object.keys(xattrs).length > 0 ? xattrs : undefined;
+}
+
+async function writeXattrs(path: string, xattrs: Record<string, string>): Promise<void> {
+  if (process.platform !== 'linux') return;
+
+  for (const [name, value] of Object.entries(xattrs)) {
+    await runXattrTool('setfattr', ['-h', '-n', name, '-v', `0s${value}`, path]);
+  }
+}
+
+/**
+ * How captureMetadata records a regular file's content hash
+ */
+export interface ContentHashOptions {
+  /** Leave sha256 out, e.g. when the backend checks content itself */
+  skip?: boolean;
+  /** Hash computed earlier, reused while the file still has this size and mtime (to the millisecond) */
+  known?: { sha256: string; size: number; mtimeMs: number };
+}
+
+/**
+ * Records the metadata of a file, empty directory or link
+ * @param path - Path to describe; links are described, not followed
+ * @param hashOptions - Whether to hash a regular file, and a hash to reuse
+ */
+export async function captureMetadata(path: string, hashOptions: ContentHashOptions = {}): Promise<FileMetadata> {
+  const stats = await fs.lstat(path);
+  const { skip, known } = hashOptions;
+  let sha256: string | undefined;
+  if (stats.isFile() && !skip) {
+    sha256 = known && known.size === stats.size && Math.floor(known.mtimeMs) === Math.floor(stats.mtimeMs)
+      ? known.sha256
+      : await hashFileContent(path);
+  }
+  return {
+    mode: stats.mode,
+    uid: stats.uid,
+    gid: stats.gid,
+    atimeMs: stats.atimeMs,
+    mtimeMs: stats.mtimeMs,
+    xattrs: await readXattrs(path),
+    sha256
+  };
+}
+
+/**
+ * Re-applies recorded metadata to a restored path
+ * Ownership is only restored where the process may change it; times are
+ * applied last because changing mode, owner or attributes does not touch them.
+ * @param path - Restored path
+ * @param metadata - Metadata recorded at banish time
+ */
+export async function applyMetadata(path: string, metadata: FileMetadata): Promise<void> {
+  const stats = await fs.lstat(path);
+  const isLink = stats.isSymbolicLink();
+
+  if (stats.uid !== metadata.uid || stats.gid !== metadata.gid) {
+    // Only root or the owner may do this; keep the restoring user's ownership otherwise
+    await fs.lchown(path, metadata.uid, metadata.gid).catch(() => undefined);
+  }
+  if (!isLink) {
+    await fs.chmod(path, metadata.mode & 0o7777);
+  }
+  if (metadata.xattrs) {
+    await writeXattrs(path, metadata.xattrs);
+  }
+  await fs.lutimes(path, new Date(metadata.atimeMs), new Date(metadata.mtimeMs));
+}
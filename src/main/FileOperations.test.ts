@@ -3,6 +3,8 @@ import { promises as fs } from 'fs';
 import { join, dirname, relative, sep } from 'path';
 import * as fc from 'fast-check';
 import { FileOperations } from './FileOperations';
+import { GraveyardLog } from './GraveyardLog';
+import { ActionType } from '../shared/types';
 
 describe('FileOperations', () => {
   const testBaseDir = join(process.cwd(), 'test-file-operations');
@@ -51,9 +53,10 @@ describe('FileOperations', () => {
             // Verify banish was successful
             expect(result.success).toBe(true);
 
-            // Calculate expected graveyard path
+            // Calculate expected graveyard path inside the session namespace
+            const sessionGraveyardPath = join(testGraveyardPath, fileOps.getSessionId());
             const relativeFilePath = relative(testScanRoot, filePath);
-            const expectedGraveyardPath = join(testGraveyardPath, relativeFilePath);
+            const expectedGraveyardPath = join(sessionGraveyardPath, relativeFilePath);
 
             // Verify the graveyard path matches expected structure
             expect(result.graveyardPath).toBe(expectedGraveyardPath);
@@ -66,7 +69,7 @@ describe('FileOperations', () => {
 
             // Verify the directory structure is preserved
             const graveyardDirPath = dirname(result.graveyardPath);
-            const expectedGraveyardDirPath = join(testGraveyardPath, relativeDirPath);
+            const expectedGraveyardDirPath = join(sessionGraveyardPath, relativeDirPath);
             expect(graveyardDirPath).toBe(expectedGraveyardDirPath);
 
             // Verify the file content is preserved
@@ -232,4 +235,74 @@ describe('FileOperations', () => {
       );
     });
   });
+
+  describe('Wraith directories', () => {
+    it('banishes and restores an empty directory tree', async () => {
+      const emptyDir = join(testScanRoot, 'unzipped');
+      await fs.mkdir(join(emptyDir, 'nested'), { recursive: true });
+      const fileOps = new FileOperations(testScanRoot, testBaseDir);
+
+      const banishResult = await fileOps.banishFile(emptyDir, ['wraith']);
+      expect(banishResult.success).toBe(true);
+      expect(banishResult.graveyardPath).toBe(join(testGraveyardPath, fileOps.getSessionId(), 'unzipped'));
+      expect((await fs.stat(join(banishResult.graveyardPath, 'nested'))).isDirectory()).toBe(true);
+
+      const restoreResult = await fileOps.restoreFile(banishResult.graveyardPath, emptyDir);
+      expect(restoreResult.success).toBe(true);
+      expect((await fs.stat(join(emptyDir, 'nested'))).isDirectory()).toBe(true);
+    });
+
+    it('refuses to banish a directory that is no longer empty', async () => {
+      const dir = join(testScanRoot, 'filled');
+      await fs.mkdir(join(dir, 'nested'), { recursive: true });
+      await fs.writeFile(join(dir, 'nested', 'new.txt'), 'content');
+      const fileOps = new FileOperations(testScanRoot, testBaseDir);
+
+      const result = await fileOps.banishFile(dir, ['wraith']);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('no longer empty');
+      expect(await fs.readFile(join(dir, 'nested', 'new.txt'), 'utf-8')).toBe('content');
+    });
+  });
+
+  describe('Phantom links', () => {
+    it('banishes and restores a broken link with its target kept', async () => {
+      const linkPath = join(testScanRoot, 'docs', 'old-report');
+      await fs.mkdir(dirname(linkPath), { recursive: true });
+      await fs.symlink('../missing/report.pdf', linkPath);
+      const fileOps = new FileOperations(testScanRoot, testBaseDir);
+
+      const banishResult = await fileOps.banishFile(linkPath, ['phantom']);
+      expect(banishResult.success).toBe(true);
+      expect(await fs.readlink(banishResult.graveyardPath)).toBe('../missing/report.pdf');
+
+      const restoreResult = await fileOps.restoreFile(banishResult.graveyardPath, linkPath);
+      expect(restoreResult.success).toBe(true);
+      expect(await fs.readlink(linkPath)).toBe('../missing/report.pdf');
+    });
+  });
+
+  describe('Session fields', () => {
+    it('records the session, scan root, mode and initiator with every entry', async () => {
+      const filePath = join(testScanRoot, 'notes.txt');
+      await fs.writeFile(filePath, 'banished');
+      const graveyardLog = new GraveyardLog(testBaseDir);
+      const fileOps = new FileOperations(testScanRoot, testBaseDir, graveyardLog, undefined, undefined, 'session-1', 'confrontation');
+
+      const { graveyardPath } = await fileOps.banishFile(filePath, ['ghost'], 8);
+      await fs.writeFile(filePath, 'replacement');
+      await fileOps.restoreFile(graveyardPath, filePath, 'overwrite');
+
+      const session = { sessionId: 'session-1', scanRoot: testScanRoot, mode: 'confrontation' };
+      expect((await graveyardLog.getEntriesInOrder()).map(entry => [entry.action, entry.initiator])).toEqual([
+        [ActionType.Banish, 'user'],
+        [ActionType.Banish, 'restore-conflict'],
+        [ActionType.Restore, 'user']
+      ]);
+      for (const entry of await graveyardLog.getEntriesInOrder()) {
+        expect(entry).toMatchObject(session);
+      }
+    });
+  });
 });
@@ -1,46 +1,98 @@
 import { promises as fs } from 'fs';
-import { join, dirname, relative } from 'path';
-import { BanishResult, RestoreResult, ActionType, MonsterType } from '../shared/types';
+import { join, relative } from 'path';
+import {
+  BanishResult,
+  RestoreResult,
+  RestoreConflictStrategy,
+  ActionType,
+  MonsterType,
+  LogEntry,
+  LogInitiator,
+  SessionMode
+} from '../shared/types';
 import { GraveyardLog } from './GraveyardLog';
 import { WhitelistManager } from './WhitelistManager';
+import { GraveyardManifest, graveyardRelativePath } from './GraveyardManifest';
+import { Graveyard } from './Graveyard';
+import { resolveRestoreConflict, exhumeResolved, DisplacedRestoreError } from './RestoreConflicts';
+import { isEmptyDirectory } from './GraveyardBackend';
 
 export class FileOperations {
   private readonly graveyardPath: string;
   private readonly scanRoot: string;
   private readonly graveyardLog: GraveyardLog;
   private readonly whitelistManager: WhitelistManager;
+  private readonly graveyard: Graveyard;
+  private readonly sessionId: string;
+  private readonly mode: SessionMode;
 
+  /**
+   * @param scanRoot - Root the banished files were scanned under
+   * @param baseDir - Directory holding graveyard_trash and .digital-exorcist
+   * @param graveyardLog - Shared log; defaults to one under baseDir
+   * @param whitelistManager - Shared whitelist; defaults to one under baseDir
+   * @param graveyard - Shared graveyard and its backends; defaults to the folder under baseDir
+   * @param sessionId - Banish session and graveyard namespace; a new one by default
+   * @param mode - How the session's files are being picked, recorded with each log entry
+   */
   constructor(
     scanRoot: string, 
     baseDir: string = '.', 
     graveyardLog?: GraveyardLog,
-    whitelistManager?: WhitelistManager
+    whitelistManager?: WhitelistManager,
+    graveyard?: Graveyard,
+    sessionId?: string,
+    mode: SessionMode = 'single'
   ) {
     this.scanRoot = scanRoot;
     this.graveyardPath = join(baseDir, 'graveyard_trash');
     this.graveyardLog = graveyardLog || new GraveyardLog(baseDir);
     this.whitelistManager = whitelistManager || new WhitelistManager(baseDir);
+    this.graveyard = graveyard || new Graveyard(baseDir);
+    this.sessionId = sessionId || GraveyardManifest.createSessionId();
+    this.mode = mode;
+  }
+
+  /**
+   * Gets the banish session, which is also the namespace folder inside the graveyard
+   */
+  getSessionId(): string {
+    return this.sessionId;
   }
 
   /**
-   * Banishes a file by moving it to the graveyard while preserving directory structure
-   * @param filePath - The absolute path of the file to banish
+   * Banishes a file by moving it to the graveyard's active backend
+   * With the folder backend the file goes to graveyard_trash/<session>/<path
+   * relative to scan root>; if that path is taken, a suffix is added.
+   * Empty directories (Wraiths) are moved the same way; a directory that has
+   * gained content since the scan is refused. Symbolic links are moved as
+   * links, so a broken link (Phantom) keeps its target.
+   * @param filePath - The absolute path of the file or empty directory to banish
    * @param classifications - Optional classifications for logging
    * @param fileSize - Optional file size for logging
+   * @param initiator - What started the banish, for the log
    * @returns BanishResult with success status and graveyard path
    */
   async banishFile(
     filePath: string, 
     classifications?: MonsterType[],
-    fileSize?: number
+    fileSize?: number,
+    initiator: LogInitiator = 'user'
   ): Promise<BanishResult> {
     try {
       // Validate file exists and get file size if not provided
       let actualFileSize = fileSize;
+      let isDirectory = false;
+      let linkTarget: string | undefined;
       try {
-        const stats = await fs.stat(filePath);
+        // lstat so broken links count as existing
+        const stats = await fs.lstat(filePath);
+        isDirectory = stats.isDirectory();
+        if (stats.isSymbolicLink()) {
+          linkTarget = await fs.readlink(filePath);
+        }
         if (!actualFileSize) {
-          actualFileSize = stats.size;
+          actualFileSize = isDirectory || linkTarget !== undefined ? 0 : stats.size;
         }
       } catch (error) {
         return {
@@ -50,18 +102,21 @@ export class FileOperations {
         };
       }
 
-      // Calculate relative path from scan root
-      const relativePath = relative(this.scanRoot, filePath);
-      
-      // Construct graveyard destination path
-      const graveyardFilePath = join(this.graveyardPath, relativePath);
-      const graveyardDir = dirname(graveyardFilePath);
-
-      // Ensure graveyard directory structure exists
-      await fs.mkdir(graveyardDir, { recursive: true });
+      if (isDirectory && !(await isEmptyDirectory(filePath))) {
+        return {
+          success: false,
+          graveyardPath: '',
+          error: `Directory is no longer empty: ${filePath}`
+        };
+      }
 
-      // Move file to graveyard
-      await fs.rename(filePath, graveyardFilePath);
+      // Move file to graveyard; the backend records it in the manifest
+      const graveyardFilePath = await this.graveyard.bury({
+        originalPath: filePath,
+        scanRoot: this.scanRoot,
+        sessionId: this.sessionId
+      });
+      const { storedSize } = await this.graveyard.stat(graveyardFilePath);
 
       // Log the banish operation
       await this.graveyardLog.appendEntry({
@@ -71,7 +126,11 @@ export class FileOperations {
         originalPath: filePath,
         graveyardPath: graveyardFilePath,
         classifications: classifications,
-        fileSize: actualFileSize
+        fileSize: actualFileSize,
+        isDirectory: isDirectory || undefined,
+        linkTarget,
+        storedSize: storedSize !== actualFileSize ? storedSize : undefined,
+        ...this.getSessionFields(initiator)
       });
 
       return {
@@ -89,17 +148,31 @@ export class FileOperations {
 
   /**
    * Restores a file from the graveyard back to its original location
+   * When something already exists there, the conflict strategy decides:
+   * by default the restore fails; overwriting banishes the existing file first,
+   * and puts it back should the restore then fail.
    * @param graveyardFilePath - The path of the file in the graveyard
    * @param originalPath - The original path where the file should be restored
+   * @param strategy - What to do when the original location is taken
+   * @param targetPath - Where to restore instead of the original path, e.g. inside a review folder
    * @returns RestoreResult with success status and restored path
    */
-  async restoreFile(graveyardFilePath: string, originalPath: string): Promise<RestoreResult> {
+  async restoreFile(
+    graveyardFilePath: string,
+    originalPath: string,
+    strategy: RestoreConflictStrategy = 'fail',
+    targetPath: string = originalPath
+  ): Promise<RestoreResult> {
+    // Where the file in the way went, reported even when the restore fails later
+    let displacedTo: string | undefined;
     try {
       // Validate graveyard file exists and get file size
       let fileSize: number;
+      let isDirectory: boolean;
+      let linkTarget: string | undefined;
+      let mtimeMs: number | undefined;
       try {
-        const stats = await fs.stat(graveyardFilePath);
-        fileSize = stats.size;
+        ({ size: fileSize, isDirectory, linkTarget, mtimeMs } = await this.graveyard.stat(graveyardFilePath));
       } catch (error) {
         return {
           success: false,
@@ -108,65 +181,100 @@ export class FileOperations {
         };
       }
 
-      // Check for conflicts at original location
-      try {
-        await fs.access(originalPath);
-        // File exists at original location - conflict detected
-        return {
-          success: false,
-          restoredPath: '',
-          error: `Conflict: File already exists at original location: ${originalPath}`
-        };
-      } catch (error) {
-        // File doesn't exist at original location - safe to restore
+      // Apply the conflict strategy at the target location (lstat also sees broken links)
+      const resolution = await resolveRestoreConflict(
+        targetPath,
+        mtimeMs,
+        strategy,
+        path => this.displace(path)
+      );
+      const { destination } = resolution;
+      if (!destination) {
+        return { success: true, restoredPath: '', skipped: true };
       }
 
-      // Ensure original directory exists
-      const originalDir = dirname(originalPath);
-      await fs.mkdir(originalDir, { recursive: true });
-
-      // Move file from graveyard back to original location
-      await fs.rename(graveyardFilePath, originalPath);
+      // Move file from graveyard back out, through the backend holding it
+      displacedTo = await exhumeResolved(
+        { ...resolution, destination },
+        to => this.graveyard.exhume(graveyardFilePath, to),
+        (displaced, path) => this.putBack(displaced, path)
+      );
 
       // Log the restore operation
       await this.graveyardLog.appendEntry({
         timestamp: new Date().toISOString(),
         action: ActionType.Restore,
-        filePath: originalPath,
+        filePath: destination,
         originalPath: originalPath,
         graveyardPath: graveyardFilePath,
-        fileSize: fileSize
+        fileSize: fileSize,
+        isDirectory: isDirectory || undefined,
+        linkTarget,
+        ...this.getSessionFields()
       });
 
       return {
         success: true,
-        restoredPath: originalPath
+        restoredPath: destination,
+        displacedTo
       };
     } catch (error) {
       return {
         success: false,
         restoredPath: '',
-        error: error instanceof Error ? error.message : 'Unknown error during restore'
+        error: error instanceof Error ? error.message : 'Unknown error during restore',
+        displacedTo: error instanceof DisplacedRestoreError ? error.displacedTo : displacedTo
       };
     }
   }
 
   /**
-   * Gets the graveyard path for a given original file path
+   * Banishes whatever is in the way of a restore, so overwriting never loses it
+   * @param filePath - The path to move aside
+   * @returns Where it went in the graveyard
+   */
+  async displace(filePath: string): Promise<string> {
+    const result = await this.banishFile(filePath, undefined, undefined, 'restore-conflict');
+    if (!result.success) {
+      throw new Error(`Could not move the existing file out of the way: ${result.error}`);
+    }
+    return result.graveyardPath;
+  }
+
+  /**
+   * Restores a file that was moved out of the way, after the restore that displaced it failed
+   * @param graveyardPath - Where displace put it
+   * @param filePath - Where it was
+   */
+  async putBack(graveyardPath: string, filePath: string): Promise<void> {
+    const result = await this.restoreFile(graveyardPath, filePath);
+    if (!result.success) {
+      throw new Error(`Could not put the existing file back: ${result.error}`);
+    }
+  }
+
+  /**
+   * Gets the preferred folder graveyard path for a given original file path in this session
+   * banishFile adds a suffix when the path is already taken.
    * @param originalPath - The original file path
    * @returns The corresponding graveyard path
    */
   getGraveyardPath(originalPath: string): string {
-    const relativePath = relative(this.scanRoot, originalPath);
-    return join(this.graveyardPath, relativePath);
+    return join(this.graveyardPath, this.sessionId, graveyardRelativePath(this.scanRoot, originalPath));
   }
 
   /**
    * Gets the original path for a given graveyard file path
+   * Uses the manifest; paths banished before the manifest existed are
+   * mapped back through the scan root as before.
    * @param graveyardFilePath - The graveyard file path
    * @returns The corresponding original path
    */
-  getOriginalPath(graveyardFilePath: string): string {
+  async getOriginalPath(graveyardFilePath: string): Promise<string> {
+    const entry = await this.graveyard.manifest.lookup(graveyardFilePath);
+    if (entry) {
+      return entry.originalPath;
+    }
     const relativePath = relative(this.graveyardPath, graveyardFilePath);
     return join(this.scanRoot, relativePath);
   }
@@ -195,7 +303,16 @@ export class FileOperations {
       timestamp: new Date().toISOString(),
       action: ActionType.Resurrect,
       filePath: filePath,
-      fileSize: fileSize
+      fileSize: fileSize,
+      ...this.getSessionFields()
     });
   }
+
+  /**
+   * Gets the session fields every log entry of this session carries
+   * @param initiator - What started the logged action
+   */
+  getSessionFields(initiator: LogInitiator = 'user'): Pick<LogEntry, 'sessionId' | 'scanRoot' | 'mode' | 'initiator'> {
+    return { sessionId: this.sessionId, scanRoot: this.scanRoot, mode: this.mode, initiator };
+  }
 }
@@ -247,4 +247,53 @@ describe('FileScanner Property Tests', () => {
       { numRuns: 100 }
     );
   });
+
+  /**
+   * **Feature: wraith-detection, Property 1: Topmost empty directories**
+   *
+   * For any tree, a directory is reported exactly when it contains no files
+   * anywhere below it and its parent does; the scan root is never reported.
+   */
+  it('reports only the topmost empty directories and keeps zero-byte files', async () => {
+    await fs.mkdir(join(testDir, 'unzipped', 'a', 'b'), { recursive: true });
+    await fs.mkdir(join(testDir, 'unzipped', 'c'), { recursive: true });
+    await fs.mkdir(join(testDir, 'project', 'empty'), { recursive: true });
+    await fs.writeFile(join(testDir, 'project', 'placeholder.txt'), '');
+
+    const results = await new FileScanner().scanDirectory(testDir);
+    const directories = results.filter(r => r.isDirectory).map(r => r.path).sort();
+
+    expect(directories).toEqual([join(testDir, 'project', 'empty'), join(testDir, 'unzipped')]);
+    expect(results.find(r => r.path === join(testDir, 'project', 'placeholder.txt'))).toMatchObject({ size: 0 });
+
+    const emptyRoot = join(testDir, 'unzipped', 'a');
+    expect(await new FileScanner().scanDirectory(emptyRoot)).toEqual([]);
+  });
+
+  it('reports broken links and follows directory links without looping', async () => {
+    await fs.mkdir(join(testDir, 'real'), { recursive: true });
+    await fs.writeFile(join(testDir, 'real', 'data.txt'), 'data');
+    await fs.symlink(join(testDir, 'missing.txt'), join(testDir, 'dangling'));
+    // A link back to the scan root would loop forever without inode tracking
+    await fs.symlink(testDir, join(testDir, 'real', 'loop'), 'dir');
+    const outside = join(tmpdir(), `digital-exorcist-linked-${Date.now()}`);
+    await fs.mkdir(outside, { recursive: true });
+    await fs.writeFile(join(outside, 'linked.txt'), 'linked');
+    await fs.symlink(outside, join(testDir, 'shortcut'), 'dir');
+
+    try {
+      const plain = await new FileScanner().scanDirectory(testDir);
+      expect(plain.map(r => r.path).sort()).toEqual([join(testDir, 'dangling'), join(testDir, 'real', 'data.txt')]);
+      expect(plain.find(r => r.path === join(testDir, 'dangling'))?.linkTarget).toBe(join(testDir, 'missing.txt'));
+
+      const followed = await new FileScanner({ followSymlinks: true }).scanDirectory(testDir);
+      expect(followed.map(r => r.path).sort()).toEqual([
+        join(testDir, 'dangling'),
+        join(testDir, 'real', 'data.txt'),
+        join(testDir, 'shortcut', 'linked.txt')
+      ]);
+    } finally {
+      await fs.rm(outside, { recursive: true, force: true });
+    }
+  });
 });
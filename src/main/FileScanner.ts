@@ -1,10 +1,35 @@
-import { promises as fs } from 'fs';
 import { join } from 'path';
 import { FileScanResult, ScanProgress } from '../shared/types';
 import { EventEmitter } from 'events';
+import { IgnoreMatcher } from './IgnoreMatcher';
+import { ScanWorkerPool, ScanCancelledError } from './ScanWorkerPool';
+
+export interface FileScannerOptions {
+  /** Global gitignore-style patterns applied relative to the scan root */
+  ignorePatterns?: string[];
+  /** Maximum number of directories read at once on worker threads */
+  concurrency?: number;
+  /** Descend into symlinked directories; loops are broken by device and inode */
+  followSymlinks?: boolean;
+}
 
 export class FileScanner extends EventEmitter {
   private cancelled = false;
+  private prunedCount = 0;
+  private filesScanned = 0;
+  private pool: ScanWorkerPool | null = null;
+  private readonly ignorePatterns: string[];
+  private readonly concurrency?: number;
+  private readonly followSymlinks: boolean;
+  /** Device and inode of every directory read during the current scan */
+  private visitedDirectories = new Set<string>();
+
+  constructor(options: FileScannerOptions = {}) {
+    super();
+    this.ignorePatterns = options.ignorePatterns ?? [];
+    this.concurrency = options.concurrency;
+    this.followSymlinks = options.followSymlinks ?? false;
+  }
 
   /**
    * Recursively scans a directory and returns all files with metadata
@@ -13,80 +38,171 @@ export class FileScanner extends EventEmitter {
    */
   async scanDirectory(dirPath: string): Promise<FileScanResult[]> {
     this.cancelled = false;
+    this.prunedCount = 0;
+    this.filesScanned = 0;
+    this.visitedDirectories = new Set();
     const results: FileScanResult[] = [];
-    let filesScanned = 0;
 
-    await this.scanRecursive(dirPath, results, filesScanned);
-    
+    const pool = new ScanWorkerPool({ concurrency: this.concurrency });
+    this.pool = pool;
+
+    try {
+      const matcher = IgnoreMatcher.create(dirPath, this.ignorePatterns);
+      // The scan root itself is never reported, even when it is empty
+      await this.scanRecursive(dirPath, results, matcher);
+    } finally {
+      this.pool = null;
+      await pool.terminate();
+    }
+
     return results;
   }
 
   /**
-   * Cancels the current scan operation
+   * Gets the number of paths pruned by ignore rules during the last scan
+   * @returns Count of skipped files and directories
+   */
+  getPrunedCount(): number {
+    return this.prunedCount;
+  }
+
+  /**
+   * Cancels the current scan operation and stops all workers
    */
   cancelScan(): void {
     this.cancelled = true;
+    void this.pool?.terminate();
   }
 
   /**
-   * Recursively traverses directories and collects file metadata
+   * Recursively traverses directories and collects file metadata.
+   * Sibling directories are read concurrently through the worker pool.
+   *
+   * Directories that are empty, or contain only empty directories, are
+   * reported as a single directory entry at the topmost empty level.
+   * Broken symlinks are reported with their link target; symlinked
+   * directories are only entered when followSymlinks is set, and a directory
+   * already read during this scan is never read again.
+   * @returns The directory's own entry if it is recursively empty, otherwise null
    */
   private async scanRecursive(
     currentPath: string,
     results: FileScanResult[],
-    filesScanned: number
-  ): Promise<number> {
-    if (this.cancelled) {
-      return filesScanned;
+    parentMatcher: IgnoreMatcher
+  ): Promise<FileScanResult | null> {
+    if (this.cancelled || !this.pool) {
+      return null;
     }
 
     try {
-      const entries = await fs.readdir(currentPath, { withFileTypes: true });
+      const listing = await this.pool.readDirectory(currentPath, parentMatcher.getRules());
+
+      // Guard against cycles through directory links
+      const directoryKey = `${listing.dev}:${listing.ino}`;
+      if (this.visitedDirectories.has(directoryKey)) {
+        return null;
+      }
+      this.visitedDirectories.add(directoryKey);
 
-      for (const entry of entries) {
+      const matcher = listing.ignoreFileContent !== null
+        ? parentMatcher.withRules(currentPath, listing.ignoreFileContent)
+        : parentMatcher;
+      const subdirectories: string[] = [];
+      // Followed directory links are scanned but never reported as empty themselves
+      const linkedDirectories: string[] = [];
+      // Anything other than a subdirectory (including ignored entries) keeps this directory non-empty
+      let hasContent = false;
+
+      for (const entry of listing.entries) {
         if (this.cancelled) {
           break;
         }
 
         const fullPath = join(currentPath, entry.name);
 
-        try {
-          if (entry.isDirectory()) {
-            // Recursively scan subdirectories
-            filesScanned = await this.scanRecursive(fullPath, results, filesScanned);
-          } else if (entry.isFile()) {
-            // Collect file metadata
-            const stats = await fs.stat(fullPath);
-            
+        // Ignored entries were pruned before they were read
+        if (entry.ignored) {
+          this.prunedCount++;
+          hasContent = true;
+          continue;
+        }
+
+        if (entry.kind === 'directory') {
+          subdirectories.push(fullPath);
+          continue;
+        }
+
+        hasContent = true;
+        if (entry.error !== undefined) {
+          // Handle inaccessible files and links gracefully
+          console.error(`Error accessing ${fullPath}: ${entry.error}`);
+          this.emit('error', {
+            path: fullPath,
+            error: entry.error
+          });
+          continue;
+        }
+
+        if (entry.kind === 'symlink') {
+          if (entry.targetKind === 'broken') {
             results.push({
               path: fullPath,
-              size: stats.size,
-              lastModified: stats.mtime
+              size: 0,
+              lastModified: new Date(entry.mtimeMs!),
+              linkTarget: entry.linkTarget
             });
-
-            filesScanned++;
-
-            // Emit progress event every 100 files
-            if (filesScanned % 100 === 0) {
-              const progress: ScanProgress = {
-                filesScanned,
-                currentPath: fullPath
-              };
-              this.emit('progress', progress);
-            }
+          } else if (entry.targetKind === 'directory' && this.followSymlinks) {
+            linkedDirectories.push(fullPath);
           }
-        } catch (error) {
-          // Handle inaccessible files gracefully
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          console.error(`Error accessing ${fullPath}: ${errorMessage}`);
-          this.emit('error', {
+          continue;
+        }
+
+        if (entry.kind === 'file') {
+          // Collect file metadata
+          results.push({
             path: fullPath,
-            error: errorMessage
+            size: entry.size!,
+            lastModified: new Date(entry.mtimeMs!),
+            dev: entry.dev,
+            ino: entry.ino,
+            nlink: entry.nlink
           });
-          // Continue scanning despite errors
+
+          this.filesScanned++;
+
+          // Emit progress event every 100 files
+          if (this.filesScanned % 100 === 0) {
+            const progress: ScanProgress = {
+              filesScanned: this.filesScanned,
+              currentPath: fullPath
+            };
+            this.emit('progress', progress);
+          }
+        }
+      }
+
+      // Recursively scan subdirectories
+      const [emptySubdirectories] = await Promise.all([
+        Promise.all(subdirectories.map(dir => this.scanRecursive(dir, results, matcher))),
+        Promise.all(linkedDirectories.map(dir => this.scanRecursive(dir, results, matcher)))
+      ]);
+
+      if (!hasContent && !this.cancelled && emptySubdirectories.every(Boolean)) {
+        return { path: currentPath, size: 0, lastModified: new Date(listing.mtimeMs), isDirectory: true };
+      }
+
+      // This directory has content, so its empty subdirectories are the topmost empty ones
+      for (const emptyDir of emptySubdirectories) {
+        if (emptyDir) {
+          results.push(emptyDir);
         }
       }
+      return null;
     } catch (error) {
+      if (error instanceof ScanCancelledError || this.cancelled) {
+        return null;
+      }
+
       // Handle inaccessible directories gracefully
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error(`Error reading directory ${currentPath}: ${errorMessage}`);
@@ -95,8 +211,7 @@ export class FileScanner extends EventEmitter {
         error: errorMessage
       });
       // Continue scanning despite errors
+      return null;
     }
-
-    return filesScanned;
   }
 }
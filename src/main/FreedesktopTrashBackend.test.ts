@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { formatTrashInfo } from './FreedesktopTrashBackend';
+import { Graveyard } from './Graveyard';
+import { FileOperations } from './FileOperations';
+
+describe.skipIf(process.platform === 'win32' || process.platform === 'darwin')('FreedesktopTrashBackend', () => {
+  let testDir: string;
+  let homeTrash: string;
+  let scanRoot: string;
+  let graveyard: Graveyard;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `digital-exorcist-trash-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+    homeTrash = join(testDir, 'home', '.local', 'share', 'Trash');
+    scanRoot = join(testDir, 'scan');
+    await fs.mkdir(scanRoot, { recursive: true });
+    graveyard = new Graveyard(join(testDir, 'data'), { backend: 'freedesktop-trash', trash: { homeTrash } });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('formats trashinfo with a percent-encoded path and a local deletion date', () => {
+    const info = formatTrashInfo('/home/user/my notes/100%.txt', new Date(2024, 0, 5, 7, 8, 9));
+
+    expect(info).toBe('[Trash Info]\nPath=/home/user/my%20notes/100%25.txt\nDeletionDate=2024-01-05T07:08:09\n');
+  });
+
+  it('moves files into files/ with a trashinfo and restores them through the same backend', async () => {
+    const filePath = join(scanRoot, 'old report.txt');
+    await fs.writeFile(filePath, 'haunted');
+    const fileOps = new FileOperations(scanRoot, join(testDir, 'data'), undefined, undefined, graveyard);
+
+    const banished = await fileOps.banishFile(filePath);
+
+    expect(banished.graveyardPath).toBe(join(homeTrash, 'files', 'old report.txt'));
+    const info = await fs.readFile(join(homeTrash, 'info', 'old report.txt.trashinfo'), 'utf-8');
+    expect(info).toContain(`Path=${filePath.split('/').map(encodeURIComponent).join('/')}\n`);
+    expect(info).toMatch(/DeletionDate=\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d\n/);
+    expect((await graveyard.manifest.lookup(banished.graveyardPath))?.backend).toBe('freedesktop-trash');
+
+    // Switching backends does not strand entries already in the Trash
+    graveyard.setActiveBackend('folder');
+    const restored = await fileOps.restoreFile(banished.graveyardPath, await fileOps.getOriginalPath(banished.graveyardPath));
+
+    expect(restored.success).toBe(true);
+    expect(await fs.readFile(filePath, 'utf-8')).toBe('haunted');
+    await expect(fs.lstat(join(homeTrash, 'info', 'old report.txt.trashinfo'))).rejects.toThrow();
+    expect(await graveyard.manifest.getEntries()).toEqual([]);
+  });
+
+  it('picks a new name when the trash already holds one, even without its trashinfo', async () => {
+    await fs.mkdir(join(homeTrash, 'files'), { recursive: true });
+    await fs.mkdir(join(homeTrash, 'info'), { recursive: true });
+    await fs.writeFile(join(homeTrash, 'info', 'notes.txt.trashinfo'), '[Trash Info]\n');
+    await fs.writeFile(join(homeTrash, 'files', 'notes~2.txt'), 'left by another tool');
+    await fs.writeFile(join(scanRoot, 'notes.txt'), 'mine');
+
+    const graveyardPath = await graveyard.bury({
+      originalPath: join(scanRoot, 'notes.txt'),
+      scanRoot,
+      sessionId: 'session-test'
+    });
+
+    expect(graveyardPath).toBe(join(homeTrash, 'files', 'notes~3.txt'));
+    await expect(fs.lstat(join(homeTrash, 'info', 'notes~2.txt.trashinfo'))).rejects.toThrow();
+
+    await graveyard.destroy(graveyardPath);
+    await expect(fs.lstat(graveyardPath)).rejects.toThrow();
+    await expect(fs.lstat(join(homeTrash, 'info', 'notes~3.txt.trashinfo'))).rejects.toThrow();
+    expect(await fs.readFile(join(homeTrash, 'files', 'notes~2.txt'), 'utf-8')).toBe('left by another tool');
+  });
+});
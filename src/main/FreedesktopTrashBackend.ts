@@ -0,0 +1,235 @@
+import { promises as fs } from 'fs';
+import { join, dirname, basename, parse } from 'path';
+import { homedir } from 'os';
+import { GraveyardManifest } from './GraveyardManifest';
+import { GraveyardBackend, GraveyardEntryStats, BuryRequest, movePath, statOnDisk } from './GraveyardBackend';
+
+/**
+ * Where the Trash lives, overridable for tests
+ */
+export interface TrashLocationOptions {
+  /** Home trash; defaults to $XDG_DATA_HOME/Trash */
+  homeTrash?: string;
+  /** User the per-volume trash directories are named after; defaults to the current user */
+  uid?: number;
+}
+
+/** Sticky bit, required on a shared $topdir/.Trash */
+const STICKY_BIT = 0o1000;
+
+/**
+ * Formats a date the way .trashinfo files record it: local time, no zone
+ */
+export function formatDeletionDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+/**
+ * Builds the contents of a .trashinfo file
+ * @param originalPath - Absolute path the entry was trashed from
+ * @param deletedAt - When it was trashed
+ */
+export function formatTrashInfo(originalPath: string, deletedAt: Date): string {
+  const encodedPath = originalPath.split('/').map(encodeURIComponent).join('/');
+  return `[Trash Info]\nPath=${encodedPath}\nDeletionDate=${formatDeletionDate(deletedAt)}\n`;
+}
+
+/**
+ * Device ID of a path, or of its nearest existing ancestor
+ */
+async function deviceOf(path: string): Promise<number> {
+  for (let current = path; ; current = dirname(current)) {
+    try {
+      return (await fs.stat(current)).dev;
+    } catch (err) {
+      if (dirname(current) === current) throw err;
+    }
+  }
+}
+
+/**
+ * Top directory of the mount a path is on
+ */
+async function mountPointOf(path: string, dev: number): Promise<string> {
+  let top = path;
+  for (let parent = dirname(top); parent !== top; parent = dirname(top)) {
+    if ((await fs.stat(parent)).dev !== dev) break;
+    top = parent;
+  }
+  return top;
+}
+
+/**
+ * FreedesktopTrashBackend - The desktop Trash, following the freedesktop.org Trash specification
+ *
+ * Entries on the same device as the home trash go to $XDG_DATA_HOME/Trash;
+ * entries on other volumes go to $topdir/.Trash/$uid when the volume has a
+ * shared sticky .Trash, otherwise to $topdir/.Trash-$uid, and to the home
+ * trash when neither can be used. Each entry is moved into files/ next to an
+ * info/<name>.trashinfo, so file managers can list and restore it too.
+ */
+export class FreedesktopTrashBackend implements GraveyardBackend {
+  readonly id = 'freedesktop-trash' as const;
+  readonly checksContent = false;
+  private readonly manifest: GraveyardManifest;
+  private readonly homeTrash: string;
+  private readonly uid: number;
+
+  /**
+   * @param manifest - Manifest entries are recorded in
+   * @param options - Trash locations, for tests
+   */
+  constructor(manifest: GraveyardManifest, options: TrashLocationOptions = {}) {
+    this.manifest = manifest;
+    this.homeTrash = options.homeTrash ??
+      join(process.env.XDG_DATA_HOME || join(homedir(), '.local', 'share'), 'Trash');
+    this.uid = options.uid ?? process.getuid?.() ?? 0;
+  }
+
+  /**
+   * Whether the platform has a freedesktop Trash (Linux and other Unix desktops)
+   */
+  static isSupported(): boolean {
+    return process.platform !== 'win32' && process.platform !== 'darwin';
+  }
+
+  async bury(request: BuryRequest): Promise<string> {
+    const trashDir = await this.trashDirFor(request.originalPath);
+    const deletedAt = new Date();
+    const { name, infoPath } = await this.claimName(trashDir, request.originalPath, deletedAt);
+    const graveyardPath = join(trashDir, 'files', name);
+
+    try {
+      await movePath(request.originalPath, graveyardPath);
+    } catch (error) {
+      await fs.rm(infoPath, { force: true });
+      throw error;
+    }
+
+    await this.manifest.add({
+      graveyardPath,
+      originalPath: request.originalPath,
+      scanRoot: request.scanRoot,
+      sessionId: request.sessionId,
+      banishedAt: deletedAt.toISOString(),
+      backend: this.id,
+      ...(request.metadata ? { metadata: request.metadata } : {})
+    });
+
+    return graveyardPath;
+  }
+
+  async exhume(graveyardPath: string, destination: string): Promise<void> {
+    await fs.mkdir(dirname(destination), { recursive: true });
+    await movePath(graveyardPath, destination);
+    await fs.rm(this.infoPathFor(graveyardPath), { force: true });
+    await this.manifest.remove(graveyardPath);
+  }
+
+  async destroy(graveyardPath: string): Promise<void> {
+    await fs.rm(graveyardPath, { recursive: true, force: true });
+    await fs.rm(this.infoPathFor(graveyardPath), { force: true });
+    await this.manifest.remove(graveyardPath);
+  }
+
+  async stat(graveyardPath: string): Promise<GraveyardEntryStats> {
+    return statOnDisk(graveyardPath);
+  }
+
+  /**
+   * The .trashinfo file that belongs to an entry in files/
+   */
+  private infoPathFor(graveyardPath: string): string {
+    return join(dirname(dirname(graveyardPath)), 'info', `${basename(graveyardPath)}.trashinfo`);
+  }
+
+  /**
+   * Picks the trash directory for a path and makes sure files/ and info/ exist
+   */
+  private async trashDirFor(path: string): Promise<string> {
+    const { dev } = await fs.lstat(path);
+    if (dev === await deviceOf(this.homeTrash)) {
+      await this.prepareTrashDir(this.homeTrash);
+      return this.homeTrash;
+    }
+
+    const topdir = await mountPointOf(path, dev);
+    const candidates: string[] = [];
+    try {
+      const shared = await fs.lstat(join(topdir, '.Trash'));
+      // lstat, so a symlinked .Trash is never used
+      if (shared.isDirectory() && (shared.mode & STICKY_BIT)) {
+        candidates.push(join(topdir, '.Trash', String(this.uid)));
+      }
+    } catch {
+      // No shared trash on this volume
+    }
+    candidates.push(join(topdir, `.Trash-${this.uid}`));
+
+    for (const candidate of candidates) {
+      try {
+        await this.prepareTrashDir(candidate);
+        const stats = await fs.lstat(candidate);
+        if (stats.isDirectory() && stats.uid === this.uid) {
+          return candidate;
+        }
+      } catch {
+        // Volume is read-only or the directory is not ours - try the next one
+      }
+    }
+
+    // Falls back to the home trash; movePath copies across devices
+    await this.prepareTrashDir(this.homeTrash);
+    return this.homeTrash;
+  }
+
+  private async prepareTrashDir(trashDir: string): Promise<void> {
+    await fs.mkdir(join(trashDir, 'files'), { recursive: true, mode: 0o700 });
+    await fs.mkdir(join(trashDir, 'info'), { recursive: true, mode: 0o700 });
+  }
+
+  /**
+   * Reserves a name in the trash by creating its .trashinfo exclusively
+   * If the name is taken, a suffix is added, as in the folder graveyard.
+   */
+  private async claimName(
+    trashDir: string,
+    originalPath: string,
+    deletedAt: Date
+  ): Promise<{ name: string; infoPath: string }> {
+    const preferred = basename(originalPath);
+    const { name: stem, ext } = parse(preferred);
+
+    for (let n = 1; ; n++) {
+      const name = n === 1 ? preferred : `${stem}~${n}${ext}`;
+      const infoPath = join(trashDir, 'info', `${name}.trashinfo`);
+
+      let handle: fs.FileHandle;
+      try {
+        handle = await fs.open(infoPath, 'wx');
+      } catch (err) {
+        if (err && typeof err === 'object' && 'code' in err && err.code === 'EEXIST') continue;
+        throw err;
+      }
+
+      try {
+        // A file without its .trashinfo, e.g. left by another tool, still blocks the name
+        if (await fs.lstat(join(trashDir, 'files', name)).then(() => true, () => false)) {
+          await handle.close();
+          await fs.rm(infoPath, { force: true });
+          continue;
+        }
+        await handle.writeFile(formatTrashInfo(originalPath, deletedAt), 'utf-8');
+        await handle.close();
+      } catch (error) {
+        await handle.close().catch(() => undefined);
+        await fs.rm(infoPath, { force: true });
+        throw error;
+      }
+
+      return { name, infoPath };
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Graveyard } from './Graveyard';
+import { movePath } from './GraveyardBackend';
+import { getUndoManager } from './UndoManager';
+
+describe('Graveyard', () => {
+  let testDir: string;
+  let scanRoot: string;
+  let graveyard: Graveyard;
+  const atime = new Date(2019, 2, 3, 4, 5, 6);
+  const mtime = new Date(2020, 6, 7, 8, 9, 10);
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `digital-exorcist-graveyard-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+    scanRoot = join(testDir, 'scan');
+    await fs.mkdir(scanRoot, { recursive: true });
+    graveyard = new Graveyard(join(testDir, 'data'));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function createGhost(name: string): Promise<string> {
+    const filePath = join(scanRoot, name);
+    await fs.writeFile(filePath, `ancient ${name}`);
+    await fs.chmod(filePath, 0o600);
+    await fs.utimes(filePath, atime, mtime);
+    return filePath;
+  }
+
+  it('records metadata at banish time and re-applies it on restore', async () => {
+    const filePath = await createGhost('ghost.txt');
+    const graveyardPath = await graveyard.bury({ originalPath: filePath, scanRoot, sessionId: 'session-test' });
+
+    const { metadata } = (await graveyard.manifest.lookup(graveyardPath))!;
+    expect(metadata).toMatchObject({ mode: expect.any(Number), uid: process.getuid?.(), atimeMs: atime.getTime(), mtimeMs: mtime.getTime() });
+    expect(metadata?.sha256).toMatch(/^[0-9a-f]{64}$/);
+
+    // What a copy into the graveyard does to a file's metadata
+    await fs.chmod(graveyardPath, 0o644);
+    await fs.utimes(graveyardPath, new Date(), new Date());
+
+    const undoManager = getUndoManager();
+    const undoId = undoManager.addEntry({ timestamp: new Date(), operation: 'banish', filePath, graveyardPath });
+    expect((await undoManager.executeUndo(undoId, graveyard)).success).toBe(true);
+
+    const stats = await fs.stat(filePath);
+    expect(stats.mode & 0o777).toBe(0o600);
+    expect(stats.mtime.getTime()).toBe(mtime.getTime());
+    expect(stats.atime.getTime()).toBe(atime.getTime());
+  });
+
+  it('refuses to restore content that changed in the graveyard', async () => {
+    const filePath = await createGhost('ghost.txt');
+    const graveyardPath = await graveyard.bury({ originalPath: filePath, scanRoot, sessionId: 'session-test' });
+    await fs.appendFile(graveyardPath, ' and something else');
+
+    await expect(graveyard.exhume(graveyardPath, filePath)).rejects.toThrow('Content check failed');
+    await expect(fs.lstat(filePath)).rejects.toThrow();
+    expect(await graveyard.exists(graveyardPath)).toBe(true);
+  });
+
+  it('reuses the scan hash only while the file is unchanged since the scan', async () => {
+    const scanHash = 'a'.repeat(64);
+    const unchanged = await createGhost('unchanged.txt');
+    const unchangedPath = await graveyard.bury({
+      originalPath: unchanged, scanRoot, sessionId: 'session-test',
+      contentHash: scanHash, contentHashStats: { size: (await fs.stat(unchanged)).size, mtimeMs: mtime.getTime() }
+    });
+    expect((await graveyard.manifest.lookup(unchangedPath))?.metadata?.sha256).toBe(scanHash);
+
+    const edited = await createGhost('edited.txt');
+    const editedPath = await graveyard.bury({
+      originalPath: edited, scanRoot, sessionId: 'session-test',
+      contentHash: scanHash, contentHashStats: { size: 3, mtimeMs: mtime.getTime() }
+    });
+    expect((await graveyard.manifest.lookup(editedPath))?.metadata?.sha256).toMatch(/^(?!a{64})[0-9a-f]{64}$/);
+  });
+
+  it('keeps mode and times when a move has to fall back to copying', async () => {
+    const filePath = await createGhost('far-away.txt');
+    const destination = join(testDir, 'other-device.txt');
+    vi.spyOn(fs, 'rename').mockRejectedValueOnce(Object.assign(new Error('cross-device link'), { code: 'EXDEV' }));
+
+    await movePath(filePath, destination);
+
+    await expect(fs.lstat(filePath)).rejects.toThrow();
+    const stats = await fs.stat(destination);
+    expect(stats.mode & 0o777).toBe(0o600);
+    expect(stats.mtime.getTime()).toBe(mtime.getTime());
+  });
+});
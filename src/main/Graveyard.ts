@@ -0,0 +1,195 @@
+import { GraveyardBackendId } from '../shared/types';
+import { GraveyardManifest } from './GraveyardManifest';
+import {
+  GraveyardBackend,
+  GraveyardEntryStats,
+  GraveyardOrphan,
+  AdoptionRecord,
+  BuryRequest,
+  FolderGraveyardBackend
+} from './GraveyardBackend';
+import { FreedesktopTrashBackend, TrashLocationOptions } from './FreedesktopTrashBackend';
+import { ArchiveGraveyardBackend } from './ArchiveGraveyardBackend';
+import { ContentStoreGraveyardBackend } from './ContentStoreGraveyardBackend';
+import { captureMetadata, applyMetadata, hashFileContent } from './FileMetadata';
+
+/**
+ * Options for a Graveyard
+ */
+export interface GraveyardOptions {
+  /** Backend new banishes go to; defaults to the graveyard_trash folder */
+  backend?: GraveyardBackendId;
+  /** Shared manifest; defaults to one under the data root */
+  manifest?: GraveyardManifest;
+  /** Trash locations for the freedesktop backend, for tests */
+  trash?: TrashLocationOptions;
+  /** Size at which the archive backend starts a new chunk */
+  archiveChunkLimit?: number;
+}
+
+/**
+ * Graveyard - Routes banishes to the active backend and restores through the backend holding each entry
+ *
+ * Switching backends only affects new banishes; entries already buried stay
+ * where they are and still restore, undo and reap through their own backend.
+ * Entries recorded before backends existed belong to the folder backend.
+ *
+ * Every banish records the entry's mode, owner, times, extended attributes
+ * and content hash, and every restore checks the content and re-applies the
+ * rest, so a restored file keeps the timestamps ghost detection relies on.
+ */
+export class Graveyard {
+  readonly manifest: GraveyardManifest;
+  private readonly backends: Map<GraveyardBackendId, GraveyardBackend>;
+  private activeBackend: GraveyardBackend;
+
+  /**
+   * @param baseDir - Data root holding graveyard_trash and .digital-exorcist
+   * @param options - Active backend, shared manifest and trash locations
+   */
+  constructor(baseDir: string = '.', options: GraveyardOptions = {}) {
+    this.manifest = options.manifest || new GraveyardManifest(baseDir);
+    this.backends = new Map<GraveyardBackendId, GraveyardBackend>([
+      ['folder', new FolderGraveyardBackend(baseDir, this.manifest)],
+      ['freedesktop-trash', new FreedesktopTrashBackend(this.manifest, options.trash)],
+      ['archive', new ArchiveGraveyardBackend(baseDir, this.manifest, options.archiveChunkLimit)],
+      ['content-store', new ContentStoreGraveyardBackend(baseDir, this.manifest)]
+    ]);
+    this.activeBackend = this.backends.get('folder')!;
+    this.setActiveBackend(options.backend || 'folder');
+  }
+
+  /**
+   * Chooses the backend new banishes go to
+   * The desktop Trash falls back to the folder on platforms without one.
+   * @param id - Backend to use
+   * @returns The backend actually in use
+   */
+  setActiveBackend(id: GraveyardBackendId): GraveyardBackendId {
+    if (id === 'freedesktop-trash' && !FreedesktopTrashBackend.isSupported()) {
+      console.warn('[Graveyard] Desktop Trash is not available on this platform, using the graveyard folder');
+      id = 'folder';
+    }
+    this.activeBackend = this.backends.get(id)!;
+    return id;
+  }
+
+  /**
+   * Gets the backend new banishes go to
+   */
+  getActiveBackend(): GraveyardBackendId {
+    return this.activeBackend.id;
+  }
+
+  /**
+   * Moves a path into the active backend, recording its metadata
+   * Backends that check content themselves hash it while they copy, so no
+   * hash is recorded for them; for the others the scan's hash is reused
+   * while the file is unchanged since the scan.
+   * @param request - What to banish
+   * @returns Where the path now lives
+   */
+  async bury(request: BuryRequest): Promise<string> {
+    const backend = this.activeBackend;
+    const { contentHash, contentHashStats } = request;
+    const metadata = await captureMetadata(request.originalPath, {
+      skip: backend.checksContent,
+      known: contentHash && contentHashStats ? { sha256: contentHash, ...contentHashStats } : undefined
+    });
+    return backend.bury({ ...request, metadata });
+  }
+
+  /**
+   * Moves a graveyard entry back out through the backend holding it
+   * The content is checked against the hash recorded at banish time before
+   * anything moves; recorded metadata is re-applied afterwards.
+   * @param graveyardPath - Where the entry lives
+   * @param destination - Where to put it; the caller checks for conflicts
+   */
+  async exhume(graveyardPath: string, destination: string): Promise<void> {
+    const entry = await this.manifest.lookup(graveyardPath);
+    const backend = this.backendOf(entry?.backend);
+    const metadata = entry?.metadata;
+
+    if (metadata?.sha256 && !backend.checksContent && await hashFileContent(graveyardPath) !== metadata.sha256) {
+      throw new Error(`Content check failed: ${graveyardPath} no longer matches the banished file`);
+    }
+
+    await backend.exhume(graveyardPath, destination);
+
+    if (metadata) {
+      try {
+        await applyMetadata(destination, metadata);
+      } catch (error) {
+        // The file is back either way; missing metadata is not worth failing the restore over
+        console.warn(`[Graveyard] Could not re-apply metadata to ${destination}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Permanently deletes a graveyard entry through the backend holding it
+   * @param graveyardPath - Where the entry lives
+   */
+  async destroy(graveyardPath: string): Promise<void> {
+    const backend = await this.backendFor(graveyardPath);
+    await backend.destroy(graveyardPath);
+  }
+
+  /**
+   * Describes a graveyard entry through the backend holding it
+   * @param graveyardPath - Where the entry lives
+   * @returns Entry stats; rejects when the entry is gone
+   */
+  async stat(graveyardPath: string): Promise<GraveyardEntryStats> {
+    const entry = await this.manifest.lookup(graveyardPath);
+    const stats = await this.backendOf(entry?.backend).stat(graveyardPath);
+    // Moving into the graveyard can touch times; the recorded ones are what gets restored
+    return { ...stats, mtimeMs: entry?.metadata?.mtimeMs ?? stats.mtimeMs };
+  }
+
+  /**
+   * Lists what any backend stores that the manifest has no entry for
+   * @returns Orphans of every backend that can tell
+   */
+  async findOrphans(): Promise<GraveyardOrphan[]> {
+    const orphans: GraveyardOrphan[] = [];
+    for (const backend of this.backends.values()) {
+      if (backend.findOrphans) {
+        orphans.push(...await backend.findOrphans());
+      }
+    }
+    return orphans;
+  }
+
+  /**
+   * Records an orphan in the manifest through the backend storing it
+   * @param orphan - Orphan from findOrphans
+   * @param record - Where to record it as coming from
+   * @returns The graveyard path it is now known by
+   */
+  async adopt(orphan: GraveyardOrphan, record: AdoptionRecord): Promise<string> {
+    const backend = this.backendOf(orphan.backend);
+    if (!backend.adopt) {
+      throw new Error(`The ${backend.id} graveyard cannot adopt orphans`);
+    }
+    return backend.adopt(orphan, record);
+  }
+
+  /**
+   * Whether a graveyard entry still exists
+   * @param graveyardPath - Where the entry lives
+   */
+  async exists(graveyardPath: string): Promise<boolean> {
+    return this.stat(graveyardPath).then(() => true, () => false);
+  }
+
+  private async backendFor(graveyardPath: string): Promise<GraveyardBackend> {
+    const entry = await this.manifest.lookup(graveyardPath);
+    return this.backendOf(entry?.backend);
+  }
+
+  private backendOf(id: GraveyardBackendId | undefined): GraveyardBackend {
+    return this.backends.get(id || 'folder') || this.backends.get('folder')!;
+  }
+}
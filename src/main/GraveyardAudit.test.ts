@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Graveyard } from './Graveyard';
+import { FileOperations } from './FileOperations';
+import { GraveyardLog } from './GraveyardLog';
+import { GraveyardAuditor, getLogHoldings } from './GraveyardAudit';
+import { ActionType } from '../shared/types';
+
+describe('GraveyardAuditor', () => {
+  let testDir: string;
+  let dataRoot: string;
+  let scanRoot: string;
+  let graveyardLog: GraveyardLog;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `digital-exorcist-audit-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+    dataRoot = join(testDir, 'data');
+    scanRoot = join(testDir, 'scan');
+    await fs.mkdir(scanRoot, { recursive: true });
+    graveyardLog = new GraveyardLog(dataRoot);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function banish(graveyard: Graveyard, name: string, content = `contents of ${name}`): Promise<string> {
+    await fs.writeFile(join(scanRoot, name), content);
+    const fileOps = new FileOperations(scanRoot, dataRoot, graveyardLog, undefined, graveyard, 'session-test');
+    return (await fileOps.banishFile(join(scanRoot, name))).graveyardPath;
+  }
+
+  it('finds files deleted by hand and marks them missing', async () => {
+    const graveyard = new Graveyard(dataRoot);
+    const kept = await banish(graveyard, 'kept.txt');
+    const deleted = await banish(graveyard, 'deleted.txt');
+    await fs.rm(deleted);
+    const auditor = new GraveyardAuditor(graveyardLog, graveyard, dataRoot);
+
+    const report = await auditor.audit();
+    expect(report.heldCount).toBe(2);
+    expect(report.issues).toEqual([
+      expect.objectContaining({ kind: 'missing', graveyardPath: deleted, originalPath: join(scanRoot, 'deleted.txt') })
+    ]);
+
+    expect(await auditor.repair('mark-missing')).toMatchObject({ success: true, repairedCount: 1 });
+    expect((await auditor.audit()).issues).toEqual([]);
+    expect([...getLogHoldings(await graveyardLog.getEntriesInOrder()).keys()]).toEqual([kept]);
+    expect(await graveyard.manifest.lookup(deleted)).toBeUndefined();
+  });
+
+  it('re-indexes orphaned files and blobs after the log and manifest are lost', async () => {
+    const folder = new Graveyard(dataRoot);
+    const folderPath = await banish(folder, 'lost.txt');
+    const store = new Graveyard(dataRoot, { backend: 'content-store' });
+    await banish(store, 'blob.txt', 'shared bytes');
+    await fs.rm(join(dataRoot, '.digital-exorcist', 'graveyard-log.jsonl'));
+    await fs.rm(join(dataRoot, '.digital-exorcist', 'graveyard-manifest.json'), { force: true });
+    await fs.rm(join(dataRoot, '.digital-exorcist', 'graveyard-manifest.journal.jsonl'));
+
+    const graveyard = new Graveyard(dataRoot);
+    const auditor = new GraveyardAuditor(graveyardLog, graveyard, dataRoot);
+    const orphans = (await auditor.audit()).issues;
+    expect(orphans.map(issue => `${issue.kind}:${issue.backend}`).sort()).toEqual(['orphan:content-store', 'orphan:folder']);
+
+    expect(await auditor.repair('reindex-orphans')).toMatchObject({ success: true, repairedCount: 2 });
+    expect((await auditor.audit()).issues).toEqual([]);
+
+    // With no record of where they came from, both restore under the recovered folder
+    const fileOps = new FileOperations(scanRoot, dataRoot, graveyardLog, undefined, graveyard);
+    for (const entry of await graveyard.manifest.getEntries()) {
+      expect(entry.originalPath.startsWith(join(dataRoot, 'recovered'))).toBe(true);
+      expect((await fileOps.restoreFile(entry.graveyardPath, entry.originalPath)).success).toBe(true);
+    }
+    expect(await fs.readFile(join(dataRoot, 'recovered', 'session-test', 'lost.txt'), 'utf-8')).toBe('contents of lost.txt');
+    await expect(fs.lstat(folderPath)).rejects.toThrow();
+  });
+
+  it('reports double restores and compacts them out of the log', async () => {
+    const graveyard = new Graveyard(dataRoot);
+    const graveyardPath = await banish(graveyard, 'twice.txt');
+    const fileOps = new FileOperations(scanRoot, dataRoot, graveyardLog, undefined, graveyard);
+    await fileOps.restoreFile(graveyardPath, join(scanRoot, 'twice.txt'));
+    const [restore] = (await graveyardLog.getEntriesInOrder()).filter(entry => entry.action === ActionType.Restore);
+    await graveyardLog.appendEntry({ ...restore, timestamp: new Date(Date.now() + 1000).toISOString() });
+    await graveyardLog.appendEntry({ ...restore, timestamp: new Date(Date.now() + 1000).toISOString() });
+    const auditor = new GraveyardAuditor(graveyardLog, graveyard, dataRoot);
+
+    const report = await auditor.audit();
+    expect(report.issues).toEqual([
+      expect.objectContaining({ kind: 'double-restore', graveyardPath, detail: 'Restored 3 times without being banished again' })
+    ]);
+
+    expect(await auditor.repair('compact-log')).toMatchObject({ success: true, repairedCount: 2 });
+    expect((await graveyardLog.getEntriesInOrder()).map(entry => entry.action)).toEqual([ActionType.Banish, ActionType.Restore]);
+    expect((await auditor.audit()).issues).toEqual([]);
+  });
+});
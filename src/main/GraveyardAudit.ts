@@ -0,0 +1,325 @@
+import { join, dirname } from 'path';
+import {
+  ActionType,
+  LogEntry,
+  GraveyardAuditIssue,
+  GraveyardAuditReport,
+  GraveyardRepairAction,
+  GraveyardRepairResult,
+  GraveyardBackendId
+} from '../shared/types';
+import { GraveyardLog } from './GraveyardLog';
+import { Graveyard } from './Graveyard';
+import { GraveyardOrphan } from './GraveyardBackend';
+
+/**
+ * Replays the log to find what it says is still in the graveyard
+ * @param entries - Log entries in the order they were logged
+ * @returns The banish entry of every graveyard path whose latest action is a banish
+ */
+export function getLogHoldings(entries: LogEntry[]): Map<string, LogEntry> {
+  const held = new Map<string, LogEntry>();
+  for (const entry of entries) {
+    if (!entry.graveyardPath) continue;
+    if (entry.action === ActionType.Banish) {
+      held.set(entry.graveyardPath, entry);
+    } else if (entry.action === ActionType.Restore || entry.action === ActionType.Purge || entry.action === ActionType.Missing) {
+      held.delete(entry.graveyardPath);
+    }
+  }
+  return held;
+}
+
+/**
+ * What replaying the log turns up
+ */
+interface LogReplay {
+  held: Map<string, LogEntry>;
+  /** Original path last logged for each graveyard path */
+  originalPaths: Map<string, string>;
+  /** Restores logged for paths that were no longer in the graveyard, by graveyard path */
+  doubleRestores: Map<string, number>;
+  /** Positions of entries compaction drops: exact duplicates and double restores */
+  redundant: Set<number>;
+}
+
+/**
+ * Something stored without a live banish in the log, and how to re-index it
+ */
+interface OrphanRecord {
+  graveyardPath: string;
+  originalPath?: string;
+  size: number;
+  backend: GraveyardBackendId;
+  /** Session and scan root the manifest recorded, if it has the entry */
+  sessionId?: string;
+  scanRoot?: string;
+  /** Set when the manifest has no entry either, so the backend has to adopt it */
+  orphan?: GraveyardOrphan;
+}
+
+/**
+ * GraveyardAuditor - Reconciles the graveyard log with what the graveyard actually holds
+ *
+ * The log, the manifest and the backends' storage drift apart when files
+ * are deleted by hand or a log is truncated. An audit reports orphans
+ * (stored, but with no live banish in the log), missing entries (logged or
+ * in the manifest, but gone) and double restores, and each kind has a
+ * repair. Repairs never delete anything from the graveyard: orphans are
+ * recorded, missing entries are logged as gone, and compaction only drops
+ * redundant log entries.
+ *
+ * Orphans whose original path no record knows are re-indexed as if they
+ * came from a "recovered" folder in the data root, so restoring one never
+ * guesses where it belongs.
+ */
+export class GraveyardAuditor {
+  private readonly graveyardLog: GraveyardLog;
+  private readonly graveyard: Graveyard;
+  private readonly recoveredRoot: string;
+
+  /**
+   * @param graveyardLog - Log to reconcile and write repairs to
+   * @param graveyard - Graveyard whose manifest and backends are checked
+   * @param baseDir - Data root; orphans with no known origin restore under its recovered folder
+   */
+  constructor(graveyardLog: GraveyardLog, graveyard: Graveyard, baseDir: string = '.') {
+    this.graveyardLog = graveyardLog;
+    this.graveyard = graveyard;
+    this.recoveredRoot = join(baseDir, 'recovered');
+  }
+
+  /**
+   * Checks the log and manifest against the graveyard's storage
+   * @returns Every issue found; nothing is changed
+   */
+  async audit(): Promise<GraveyardAuditReport> {
+    const replay = this.replay(await this.graveyardLog.getEntriesInOrder());
+    const missing = await this.findMissing(replay);
+    const orphans = await this.findOrphans(replay);
+
+    const issues: GraveyardAuditIssue[] = [
+      ...orphans.map(({ graveyardPath, originalPath, size, backend, orphan }): GraveyardAuditIssue => ({
+        kind: 'orphan',
+        graveyardPath,
+        originalPath,
+        size,
+        backend,
+        detail: orphan ? 'Stored in the graveyard with no record of how it got there' : 'In the manifest but not in the log'
+      })),
+      ...missing.map(({ graveyardPath, originalPath }): GraveyardAuditIssue => ({
+        kind: 'missing',
+        graveyardPath,
+        originalPath,
+        detail: 'Recorded as in the graveyard, but no longer there'
+      })),
+      ...[...replay.doubleRestores].map(([graveyardPath, count]): GraveyardAuditIssue => ({
+        kind: 'double-restore',
+        graveyardPath,
+        originalPath: replay.originalPaths.get(graveyardPath),
+        detail: `Restored ${count + 1} times without being banished again`
+      }))
+    ];
+
+    const held = new Set([...replay.held.keys(), ...(await this.graveyard.manifest.getEntries()).map(entry => entry.graveyardPath)]);
+    return { checkedAt: new Date().toISOString(), heldCount: held.size, issues };
+  }
+
+  /**
+   * Applies one kind of repair to what a fresh audit finds
+   * @param action - Repair to apply
+   * @returns How many orphans, missing entries or log entries were repaired
+   */
+  async repair(action: GraveyardRepairAction): Promise<GraveyardRepairResult> {
+    switch (action) {
+      case 'reindex-orphans':
+        return this.reindexOrphans();
+      case 'mark-missing':
+        return this.markMissing();
+      case 'compact-log':
+        return this.compactLog();
+      default:
+        return { success: false, action, repairedCount: 0, errors: [{ path: '', error: `Unknown repair: ${action}` }] };
+    }
+  }
+
+  /**
+   * Records every orphan and logs it as banished, so it shows up and can be restored
+   */
+  private async reindexOrphans(): Promise<GraveyardRepairResult> {
+    const replay = this.replay(await this.graveyardLog.getEntriesInOrder());
+    const errors: GraveyardRepairResult['errors'] = [];
+    let repairedCount = 0;
+
+    for (const record of await this.findOrphans(replay)) {
+      try {
+        let { graveyardPath, originalPath, sessionId, scanRoot } = record;
+        if (record.orphan) {
+          sessionId = record.orphan.sessionId || 'recovered';
+          originalPath = originalPath || join(this.recoveredRoot, sessionId, record.orphan.relativePath);
+          scanRoot = dirname(originalPath);
+          graveyardPath = await this.graveyard.adopt(record.orphan, { originalPath, scanRoot, sessionId });
+        }
+
+        const { size, storedSize, isDirectory, linkTarget } = await this.graveyard.stat(graveyardPath);
+        await this.graveyardLog.appendEntry({
+          timestamp: new Date().toISOString(),
+          action: ActionType.Banish,
+          filePath: originalPath!,
+          originalPath,
+          graveyardPath,
+          fileSize: size,
+          isDirectory: isDirectory || undefined,
+          linkTarget,
+          storedSize: storedSize !== size ? storedSize : undefined,
+          sessionId,
+          scanRoot,
+          initiator: 'audit'
+        });
+        repairedCount++;
+      } catch (err) {
+        errors.push({ path: record.graveyardPath, error: err instanceof Error ? err.message : 'Unknown error' });
+      }
+    }
+
+    return { success: errors.length === 0, action: 'reindex-orphans', repairedCount, errors };
+  }
+
+  /**
+   * Logs every missing entry as gone and drops its manifest record
+   */
+  private async markMissing(): Promise<GraveyardRepairResult> {
+    const replay = this.replay(await this.graveyardLog.getEntriesInOrder());
+    const errors: GraveyardRepairResult['errors'] = [];
+    let repairedCount = 0;
+
+    for (const { graveyardPath, originalPath } of await this.findMissing(replay)) {
+      try {
+        await this.graveyard.manifest.remove(graveyardPath);
+        await this.graveyardLog.appendEntry({
+          timestamp: new Date().toISOString(),
+          action: ActionType.Missing,
+          filePath: originalPath || graveyardPath,
+          originalPath,
+          graveyardPath
+        });
+        repairedCount++;
+      } catch (err) {
+        errors.push({ path: graveyardPath, error: err instanceof Error ? err.message : 'Unknown error' });
+      }
+    }
+
+    return { success: errors.length === 0, action: 'mark-missing', repairedCount, errors };
+  }
+
+  /**
+   * Drops exact duplicate entries and double restores from the log
+   * A log whose hash chain is broken is left as it is.
+   */
+  private async compactLog(): Promise<GraveyardRepairResult> {
+    try {
+      const droppedCount = await this.graveyardLog.compact(entries => this.replay(entries).redundant);
+      return { success: true, action: 'compact-log', repairedCount: droppedCount, errors: [] };
+    } catch (err) {
+      return {
+        success: false,
+        action: 'compact-log',
+        repairedCount: 0,
+        errors: [{ path: '', error: err instanceof Error ? err.message : 'Unknown error' }]
+      };
+    }
+  }
+
+  private replay(entries: LogEntry[]): LogReplay {
+    const held = new Map<string, LogEntry>();
+    const originalPaths = new Map<string, string>();
+    const restored = new Set<string>();
+    const doubleRestores = new Map<string, number>();
+    const redundant = new Set<number>();
+    const seen = new Set<string>();
+
+    entries.forEach((entry, i) => {
+      const key = JSON.stringify(entry);
+      if (seen.has(key)) redundant.add(i);
+      seen.add(key);
+
+      const { graveyardPath } = entry;
+      if (!graveyardPath) return;
+      originalPaths.set(graveyardPath, entry.originalPath || entry.filePath);
+
+      if (entry.action === ActionType.Banish) {
+        held.set(graveyardPath, entry);
+        restored.delete(graveyardPath);
+      } else if (entry.action === ActionType.Restore) {
+        if (held.delete(graveyardPath)) {
+          restored.add(graveyardPath);
+        } else if (restored.has(graveyardPath)) {
+          doubleRestores.set(graveyardPath, (doubleRestores.get(graveyardPath) ?? 0) + 1);
+          redundant.add(i);
+        }
+      } else if (entry.action === ActionType.Purge || entry.action === ActionType.Missing) {
+        held.delete(graveyardPath);
+        restored.delete(graveyardPath);
+      }
+    });
+
+    return { held, originalPaths, doubleRestores, redundant };
+  }
+
+  /**
+   * Lists entries the log or manifest hold that the graveyard no longer has
+   */
+  private async findMissing(replay: LogReplay): Promise<Array<{ graveyardPath: string; originalPath?: string }>> {
+    const holdings = new Map<string, string | undefined>();
+    for (const [graveyardPath, entry] of replay.held) {
+      holdings.set(graveyardPath, entry.originalPath || entry.filePath);
+    }
+    for (const entry of await this.graveyard.manifest.getEntries()) {
+      holdings.set(entry.graveyardPath, entry.originalPath);
+    }
+
+    const missing: Array<{ graveyardPath: string; originalPath?: string }> = [];
+    for (const [graveyardPath, originalPath] of holdings) {
+      if (!(await this.graveyard.exists(graveyardPath))) {
+        missing.push({ graveyardPath, originalPath });
+      }
+    }
+    return missing;
+  }
+
+  /**
+   * Lists what is stored without a live banish in the log: manifest entries
+   * the log has lost, and anything the backends hold that the manifest does not know
+   */
+  private async findOrphans(replay: LogReplay): Promise<OrphanRecord[]> {
+    const records: OrphanRecord[] = [];
+
+    for (const entry of await this.graveyard.manifest.getEntries()) {
+      if (replay.held.has(entry.graveyardPath)) continue;
+      const stats = await this.graveyard.stat(entry.graveyardPath).catch(() => undefined);
+      if (stats) {
+        records.push({
+          graveyardPath: entry.graveyardPath,
+          originalPath: entry.originalPath,
+          size: stats.storedSize,
+          backend: entry.backend || 'folder',
+          sessionId: entry.sessionId,
+          scanRoot: entry.scanRoot
+        });
+      }
+    }
+
+    for (const orphan of await this.graveyard.findOrphans()) {
+      // Banished before the manifest existed, and still logged
+      if (replay.held.has(orphan.graveyardPath)) continue;
+      records.push({
+        graveyardPath: orphan.graveyardPath,
+        originalPath: replay.originalPaths.get(orphan.graveyardPath),
+        size: orphan.size,
+        backend: orphan.backend,
+        orphan
+      });
+    }
+    return records;
+  }
+}
@@ -0,0 +1,293 @@
+import { promises as fs } from 'fs';
+import { join, dirname, relative, sep } from 'path';
+import { GraveyardBackendId } from '../shared/types';
+import { GraveyardManifest } from './GraveyardManifest';
+import { FileMetadata } from './FileMetadata';
+
+/**
+ * A file, empty directory or link to put in the graveyard
+ */
+export interface BuryRequest {
+  /** Absolute path of what is being banished */
+  originalPath: string;
+  /** Root it was scanned under */
+  scanRoot: string;
+  /** Banish session it belongs to */
+  sessionId: string;
+  /** SHA-256 the scan computed, if any; backends verify it before relying on it */
+  contentHash?: string;
+  /** Size and modification time the file had when contentHash was computed */
+  contentHashStats?: { size: number; mtimeMs: number };
+  /** Metadata to record in the manifest entry */
+  metadata?: FileMetadata;
+}
+
+/**
+ * What a graveyard entry is and what it costs on disk
+ */
+export interface GraveyardEntryStats {
+  /** Original size in bytes; 0 for directories and links */
+  size: number;
+  /** Bytes the entry takes in the graveyard; a share of a shared blob, for display only */
+  storedSize: number;
+  /** Content-store blob the entry may share with other entries; deleting it frees the blob only with its last reference */
+  blob?: { sha256: string; size: number; refs: number };
+  isDirectory: boolean;
+  /** Target of a symbolic link entry */
+  linkTarget?: string;
+  /** Modification time of the banished entry, where known */
+  mtimeMs?: number;
+}
+
+/**
+ * Something a backend stores that the manifest has no entry for
+ */
+export interface GraveyardOrphan {
+  backend: GraveyardBackendId;
+  /** Where the orphan is stored; for a content store blob, the blob file */
+  graveyardPath: string;
+  /** Banish session folder it was found in, if any */
+  sessionId?: string;
+  /** Layout below the session folder, or a name for it when there is none */
+  relativePath: string;
+  size: number;
+  /** Content hash of a content store blob */
+  sha256?: string;
+}
+
+/**
+ * Where an adopted orphan is recorded as coming from
+ */
+export interface AdoptionRecord {
+  originalPath: string;
+  scanRoot: string;
+  sessionId: string;
+}
+
+/**
+ * GraveyardBackend - Storage that banished files are moved into
+ *
+ * Backends record what they hold in the graveyard manifest, so any entry
+ * can later be restored or deleted through the backend that holds it.
+ */
+export interface GraveyardBackend {
+  readonly id: GraveyardBackendId;
+  /** Whether exhume checks content against its own checksums */
+  readonly checksContent: boolean;
+
+  /**
+   * Moves a path into the graveyard and records it in the manifest
+   * @param request - What to banish
+   * @returns Where the path now lives
+   */
+  bury(request: BuryRequest): Promise<string>;
+
+  /**
+   * Moves a graveyard entry back out and forgets it
+   * The caller checks for conflicts at the destination first.
+   * @param graveyardPath - Where the entry lives
+   * @param destination - Where to put it
+   */
+  exhume(graveyardPath: string, destination: string): Promise<void>;
+
+  /**
+   * Permanently deletes a graveyard entry and forgets it
+   * @param graveyardPath - Where the entry lives
+   */
+  destroy(graveyardPath: string): Promise<void>;
+
+  /**
+   * Describes a graveyard entry
+   * @param graveyardPath - Where the entry lives
+   * @returns Entry stats; rejects when the entry is gone
+   */
+  stat(graveyardPath: string): Promise<GraveyardEntryStats>;
+
+  /**
+   * Lists what the backend stores that the manifest has no entry for
+   * Not offered by backends sharing their storage with other programs, like the desktop Trash.
+   */
+  findOrphans?(): Promise<GraveyardOrphan[]>;
+
+  /**
+   * Records an orphan in the manifest so it restores like any other entry
+   * @param orphan - An orphan this backend reported
+   * @param record - Where to record it as coming from
+   * @returns The graveyard path it is now known by
+   */
+  adopt?(orphan: GraveyardOrphan, record: AdoptionRecord): Promise<string>;
+}
+
+/**
+ * Checks whether a directory contains nothing but (recursively) empty directories
+ * @param dirPath - Directory to check
+ * @returns True if no files or other entries exist anywhere below it
+ */
+export async function isEmptyDirectory(dirPath: string): Promise<boolean> {
+  const entries = await fs.readdir(dirPath, { withFileTypes: true });
+  for (const entry of entries) {
+    if (!entry.isDirectory() || !(await isEmptyDirectory(join(dirPath, entry.name)))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Lists the directories nested in a tree of empty directories
+ * Backends that do not keep the directory itself record these and re-create them on restore.
+ * @param dirPath - Directory isEmptyDirectory accepts
+ * @returns Paths relative to dirPath, parents before their children
+ */
+export async function listNestedDirectories(dirPath: string): Promise<string[]> {
+  const entries = await fs.readdir(dirPath, { recursive: true, withFileTypes: true });
+  return entries
+    .filter(entry => entry.isDirectory())
+    .map(entry => relative(dirPath, join(entry.parentPath ?? entry.path, entry.name)))
+    .sort();
+}
+
+/**
+ * Lists the files and links below a folder, skipping directories
+ * Empty directories are not listed: left-over session folders cannot be told apart from banished ones.
+ * @param root - Folder to walk; missing counts as empty
+ * @returns Paths relative to root
+ */
+export async function listStoredFiles(root: string): Promise<string[]> {
+  const entries = await fs.readdir(root, { recursive: true, withFileTypes: true }).catch(() => []);
+  return entries
+    .filter(entry => !entry.isDirectory())
+    .map(entry => relative(root, join(entry.parentPath ?? entry.path, entry.name)))
+    .sort();
+}
+
+/**
+ * Describes an entry stored as a plain file, empty directory or link
+ * @param path - Path of the entry on disk
+ */
+export async function statOnDisk(path: string): Promise<GraveyardEntryStats> {
+  const stats = await fs.lstat(path);
+  const isDirectory = stats.isDirectory();
+  const linkTarget = stats.isSymbolicLink() ? await fs.readlink(path) : undefined;
+  const size = isDirectory || linkTarget !== undefined ? 0 : stats.size;
+  return { size, storedSize: size, isDirectory, linkTarget, mtimeMs: stats.mtimeMs };
+}
+
+/**
+ * Moves a file, directory or symbolic link, using copy+delete as fallback for cross-device moves
+ * Links are recreated with the same target rather than copying what they point to.
+ * @param source - Path to move
+ * @param destination - Path to move it to; its parent must exist
+ */
+export async function movePath(source: string, destination: string): Promise<void> {
+  try {
+    // Try rename first (fast, same-device move)
+    await fs.rename(source, destination);
+  } catch (err: unknown) {
+    // If rename fails with EXDEV (cross-device), use copy+delete
+    if (err && typeof err === 'object' && 'code' in err && err.code === 'EXDEV') {
+      const stats = await fs.lstat(source);
+      if (stats.isSymbolicLink()) {
+        await fs.symlink(await fs.readlink(source), destination);
+        await fs.unlink(source);
+        return;
+      }
+      if (stats.isDirectory()) {
+        await fs.cp(source, destination, { recursive: true, verbatimSymlinks: true, preserveTimestamps: true });
+      } else {
+        await fs.copyFile(source, destination);
+      }
+      // A copy gets a fresh mode and times; keep the source's, as rename would
+      await fs.chmod(destination, stats.mode & 0o7777);
+      await fs.utimes(destination, stats.atime, stats.mtime);
+      await fs.rm(source, { recursive: true });
+    } else {
+      throw err;
+    }
+  }
+}
+
+/**
+ * FolderGraveyardBackend - The app's own graveyard_trash folder
+ *
+ * Entries go to graveyard_trash/<session>/<path relative to scan root>,
+ * with a suffix when that path is already taken.
+ */
+export class FolderGraveyardBackend implements GraveyardBackend {
+  readonly id = 'folder' as const;
+  readonly checksContent = false;
+  private readonly graveyardRoot: string;
+  private readonly manifest: GraveyardManifest;
+
+  /**
+   * @param baseDir - Data root holding graveyard_trash
+   * @param manifest - Manifest entries are recorded in
+   */
+  constructor(baseDir: string, manifest: GraveyardManifest) {
+    this.graveyardRoot = join(baseDir, 'graveyard_trash');
+    this.manifest = manifest;
+  }
+
+  async bury(request: BuryRequest): Promise<string> {
+    // Reserve a collision-free path in the session's namespace
+    const { graveyardPath } = await this.manifest.reserve({
+      graveyardRoot: this.graveyardRoot,
+      sessionId: request.sessionId,
+      scanRoot: request.scanRoot,
+      originalPath: request.originalPath,
+      metadata: request.metadata
+    });
+
+    try {
+      await fs.mkdir(dirname(graveyardPath), { recursive: true });
+      await movePath(request.originalPath, graveyardPath);
+    } catch (error) {
+      await this.manifest.remove(graveyardPath);
+      throw error;
+    }
+
+    return graveyardPath;
+  }
+
+  async exhume(graveyardPath: string, destination: string): Promise<void> {
+    await fs.mkdir(dirname(destination), { recursive: true });
+    await movePath(graveyardPath, destination);
+    await this.manifest.remove(graveyardPath);
+  }
+
+  async destroy(graveyardPath: string): Promise<void> {
+    await fs.rm(graveyardPath, { recursive: true, force: true });
+    await this.manifest.remove(graveyardPath);
+  }
+
+  async stat(graveyardPath: string): Promise<GraveyardEntryStats> {
+    return statOnDisk(graveyardPath);
+  }
+
+  async findOrphans(): Promise<GraveyardOrphan[]> {
+    const known = new Set((await this.manifest.getEntries()).map(entry => entry.graveyardPath));
+    const orphans: GraveyardOrphan[] = [];
+
+    for (const relativePath of await listStoredFiles(this.graveyardRoot)) {
+      const graveyardPath = join(this.graveyardRoot, relativePath);
+      if (known.has(graveyardPath)) continue;
+
+      // Files straight under graveyard_trash predate session folders
+      const [first, ...rest] = relativePath.split(sep);
+      const { size } = await statOnDisk(graveyardPath);
+      orphans.push({
+        backend: this.id,
+        graveyardPath,
+        sessionId: rest.length > 0 ? first : undefined,
+        relativePath: rest.length > 0 ? rest.join(sep) : relativePath,
+        size
+      });
+    }
+    return orphans;
+  }
+
+  async adopt(orphan: GraveyardOrphan, record: AdoptionRecord): Promise<string> {
+    await this.manifest.add({ ...record, graveyardPath: orphan.graveyardPath, banishedAt: new Date().toISOString() });
+    return orphan.graveyardPath;
+  }
+}
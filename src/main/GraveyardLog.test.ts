@@ -139,4 +139,122 @@ describe('GraveyardLog', () => {
       { numRuns: 100 }
     );
   });
+
+  it('reads entries across rotated segments in the order they were logged', async () => {
+    const rotating = new GraveyardLog(testBaseDir, 200);
+    for (let i = 0; i < 5; i++) {
+      await rotating.appendEntry({ timestamp: '2024-01-01T00:00:00.000Z', action: ActionType.Banish, filePath: `/test/${i}.txt` });
+    }
+
+    const stateFiles = await fs.readdir(join(testBaseDir, '.digital-exorcist'));
+    expect(stateFiles.filter(name => /^graveyard-log\.\d+\.jsonl$/.test(name)).length).toBeGreaterThan(0);
+    expect((await rotating.getEntriesInOrder()).map(entry => entry.filePath)).toEqual(
+      [0, 1, 2, 3, 4].map(i => `/test/${i}.txt`)
+    );
+
+    expect(await rotating.compact(() => new Set([0, 1, 2, 3]))).toBe(4);
+    expect((await fs.readdir(join(testBaseDir, '.digital-exorcist'))).filter(name => name.startsWith('graveyard-log.'))).toEqual(['graveyard-log.jsonl']);
+    expect((await rotating.getEntries()).map(entry => entry.filePath)).toEqual(['/test/4.txt']);
+  });
+
+  it('migrates the old JSON log and survives a partial last line', async () => {
+    const stateDir = join(testBaseDir, '.digital-exorcist');
+    const legacy: LogEntry = { timestamp: '2023-06-01T00:00:00.000Z', action: ActionType.Banish, filePath: '/test/legacy.txt' };
+    await fs.writeFile(join(stateDir, 'graveyard-log.json'), JSON.stringify({ entries: [legacy] }, null, 2));
+    // A write interrupted halfway through an entry
+    await fs.appendFile(join(stateDir, 'graveyard-log.jsonl'), '{"timestamp":"2024-01-01T00:00:00.000Z","act');
+
+    const log = new GraveyardLog(testBaseDir);
+    await log.appendEntry({ timestamp: '2024-02-01T00:00:00.000Z', action: ActionType.Restore, filePath: '/test/after.txt' });
+
+    expect((await log.getEntriesInOrder()).map(entry => entry.filePath)).toEqual(['/test/legacy.txt', '/test/after.txt']);
+    expect(await fs.readFile(join(stateDir, 'graveyard-log.json.migrated'), 'utf-8')).toContain('/test/legacy.txt');
+    await expect(fs.access(join(stateDir, 'graveyard-log.json'))).rejects.toThrow();
+  });
+
+  it('keeps every entry when several instances append at once', async () => {
+    // Each instance stands in for a separate app process sharing the data folder
+    const logs = [new GraveyardLog(testBaseDir, 300), new GraveyardLog(testBaseDir, 300), new GraveyardLog(testBaseDir, 300)];
+
+    await Promise.all(logs.flatMap((log, i) => [0, 1, 2, 3].map(j => log.appendEntry({
+      timestamp: new Date().toISOString(),
+      action: ActionType.Banish,
+      filePath: `/test/${i}-${j}.txt`
+    }))));
+
+    const filePaths = (await graveyardLog.getEntriesInOrder()).map(entry => entry.filePath);
+    expect(filePaths).toHaveLength(12);
+    expect(new Set(filePaths).size).toBe(12);
+  });
+
+  it('lists sessions with their totals, most recently active first', async () => {
+    const entries: LogEntry[] = [
+      { timestamp: '2024-01-01T10:00:00.000Z', action: ActionType.Banish, filePath: '/old.txt', fileSize: 5 },
+      { timestamp: '2024-02-01T10:00:00.000Z', action: ActionType.Banish, filePath: '/a.txt', fileSize: 100, sessionId: 'swift-1', scanRoot: '/downloads', mode: 'swift', initiator: 'user' },
+      { timestamp: '2024-02-01T10:00:01.000Z', action: ActionType.Banish, filePath: '/b.txt', fileSize: 50, sessionId: 'swift-1', scanRoot: '/downloads', mode: 'swift', initiator: 'user' },
+      { timestamp: '2024-03-01T10:00:00.000Z', action: ActionType.Resurrect, filePath: '/c.txt', sessionId: 'scan-2', scanRoot: '/home', mode: 'interactive', initiator: 'user' },
+      { timestamp: '2024-02-01T10:00:05.000Z', action: ActionType.Restore, filePath: '/b.txt', fileSize: 50, sessionId: 'swift-1', scanRoot: '/downloads', mode: 'swift', initiator: 'undo' }
+    ];
+    for (const entry of entries) {
+      await graveyardLog.appendEntry(entry);
+    }
+
+    expect(await graveyardLog.getSessions()).toEqual([
+      expect.objectContaining({ sessionId: 'scan-2', mode: 'interactive', resurrectedCount: 1, banishedCount: 0 }),
+      {
+        sessionId: 'swift-1',
+        scanRoot: '/downloads',
+        mode: 'swift',
+        startedAt: '2024-02-01T10:00:00.000Z',
+        endedAt: '2024-02-01T10:00:05.000Z',
+        banishedCount: 2,
+        restoredCount: 1,
+        resurrectedCount: 0,
+        banishedSize: 150,
+        restoredSize: 50
+      }
+    ]);
+  });
+
+  it('pages through filtered results with a cursor that survives appends', async () => {
+    for (let i = 0; i < 7; i++) {
+      await graveyardLog.appendEntry({
+        timestamp: `2024-01-0${i + 1}T00:00:00.000Z`,
+        action: i % 2 === 0 ? ActionType.Banish : ActionType.Restore,
+        filePath: `/Downloads/file-${i}.tmp`,
+        fileSize: (i + 1) * 100,
+        classifications: i < 3 ? [MonsterType.Ghost] : [MonsterType.Zombie]
+      });
+    }
+    await graveyardLog.appendEntry({ timestamp: '2024-01-09T00:00:00.000Z', action: ActionType.Banish, filePath: '/Documents/keep.txt' });
+
+    const first = await graveyardLog.query({ search: 'downloads', limit: 3 });
+    expect(first.entries.map(entry => entry.filePath)).toEqual(['/Downloads/file-6.tmp', '/Downloads/file-5.tmp', '/Downloads/file-4.tmp']);
+    expect(first).toMatchObject({ totalCount: 7, totalSize: 2800, actionCounts: { banish: 4, restore: 3 } });
+
+    // Newer entries land before the cursor and do not shift later pages
+    await graveyardLog.appendEntry({ timestamp: '2024-01-10T00:00:00.000Z', action: ActionType.Banish, filePath: '/Downloads/new.tmp' });
+    const second = await graveyardLog.query({ search: 'downloads', limit: 3, cursor: first.nextCursor });
+    expect(second.entries.map(entry => entry.filePath)).toEqual(['/Downloads/file-3.tmp', '/Downloads/file-2.tmp', '/Downloads/file-1.tmp']);
+    const third = await graveyardLog.query({ search: 'downloads', limit: 3, cursor: second.nextCursor });
+    expect(third.entries.map(entry => entry.filePath)).toEqual(['/Downloads/file-0.tmp']);
+    expect(third.nextCursor).toBeUndefined();
+
+    const largeGhosts = await graveyardLog.query({ classification: MonsterType.Ghost, minSize: 200, sortBy: 'fileSize', sortOrder: 'asc' });
+    expect(largeGhosts.entries.map(entry => entry.fileSize)).toEqual([200, 300]);
+    await expect(graveyardLog.query({ cursor: 'not-a-cursor' })).rejects.toThrow('Invalid log cursor');
+  });
+
+  it('picks up entries other processes append without rereading the whole log', async () => {
+    const reader = new GraveyardLog(testBaseDir);
+    expect((await reader.query()).totalCount).toBe(0);
+
+    await graveyardLog.appendEntry({ timestamp: '2024-01-01T00:00:00.000Z', action: ActionType.Banish, filePath: '/test/one.txt' });
+    await graveyardLog.appendEntry({ timestamp: '2024-01-02T00:00:00.000Z', action: ActionType.Banish, filePath: '/test/two.txt' });
+    expect((await reader.query()).entries.map(entry => entry.filePath)).toEqual(['/test/two.txt', '/test/one.txt']);
+
+    // A compaction rewrites the file, so the index is rebuilt
+    await graveyardLog.compact(() => new Set([0]));
+    expect((await reader.query()).entries.map(entry => entry.filePath)).toEqual(['/test/two.txt']);
+  });
 });
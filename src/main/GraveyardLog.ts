@@ -1,6 +1,18 @@
 import { promises as fs } from 'fs';
 import { join } from 'path';
-import { LogEntry, ActionType } from '../shared/types';
+import {
+  LogEntry,
+  LogSession,
+  LogQuery,
+  LogQueryResult,
+  LogSortField,
+  LogChainVerification,
+  ActionType,
+  LOG_QUERY_DEFAULT_LIMIT,
+  LOG_QUERY_MAX_LIMIT
+} from '../shared/types';
+import { FileLock, writeFileAtomic } from './FileLock';
+import { chainEntry, unchainEntry, verifyLogChain } from './LogIntegrity';
 
 export interface LogFilter {
   actionType?: ActionType;
@@ -8,35 +20,108 @@ export interface LogFilter {
   endDate?: Date;
 }
 
+/** The active segment is rotated once it reaches this size */
+export const LOG_SEGMENT_LIMIT = 4 * 1024 * 1024;
+
+const ACTIVE_SEGMENT = 'graveyard-log.jsonl';
+const ROTATED_SEGMENT = /^graveyard-log\.(\d+)\.jsonl$/;
+/** Log format used before the JSONL log, migrated on first use */
+const LEGACY_LOG = 'graveyard-log.json';
+
+/**
+ * A log entry with what queries filter and sort on worked out once
+ */
+interface IndexedEntry {
+  entry: LogEntry;
+  /** Position in logged order; breaks sort ties and anchors cursors */
+  seq: number;
+  time: number;
+  /** Lower-cased paths for text search */
+  searchText: string;
+}
+
+/**
+ * Parsed entries and how far into the log files they reach
+ */
+interface LogIndex {
+  /** Rotated segments the index was built from */
+  rotated: string[];
+  /** Inode of the active segment; replacing the file changes it */
+  activeIno: number;
+  /** Bytes of the active segment parsed so far */
+  activeOffset: number;
+  entries: IndexedEntry[];
+}
+
+/**
+ * GraveyardLog - Append-only history of every banish, restore and purge
+ *
+ * Entries are written one JSON object per line to graveyard-log.jsonl and
+ * fsynced before appendEntry resolves, so a crash can at worst leave one
+ * partial last line, which readers skip. Once the active segment reaches the
+ * segment limit it is renamed to graveyard-log.<n>.jsonl and a new one is
+ * started; readers go through every segment, oldest first. A graveyard-log.json
+ * from older versions is folded into the active segment the first time the
+ * log is used and kept as graveyard-log.json.migrated.
+ *
+ * Appends, rotation and rewrites hold graveyard-log.lock, so several app
+ * instances can share a log; reads hold it too, so they never catch a
+ * rotation halfway.
+ *
+ * Reads go through an in-memory index of parsed entries. While the active
+ * segment only grows, just the bytes appended since the last read are
+ * parsed, whichever process appended them; a rotation or rewrite rebuilds
+ * the index. Entries handed out are shared with the index and must not be
+ * modified.
+ *
+ * With the hash chain on, each entry is appended with the hash of the entry
+ * before it and its own hash, so editing, removing or reordering logged
+ * entries shows up in verifyChain. Compaction refuses to run over a broken
+ * chain, keeps the hashes of the entries before the first one it drops, and
+ * logs a compact entry naming what it dropped and the head hash before.
+ */
 export class GraveyardLog {
-  private readonly logFilePath: string;
   private readonly logDir: string;
+  private readonly logFilePath: string;
+  private readonly legacyLogFilePath: string;
+  private readonly segmentLimit: number;
+  private readonly lock: FileLock;
+  /** Serializes appends, rotation and rewrites within this process */
+  private pending: Promise<unknown> = Promise.resolve();
+  private index?: LogIndex;
+  private hashChain = false;
 
-  constructor(baseDir: string = '.') {
+  /**
+   * @param baseDir - Data root holding .digital-exorcist
+   * @param segmentLimit - Size at which the active segment is rotated
+   */
+  constructor(baseDir: string = '.', segmentLimit: number = LOG_SEGMENT_LIMIT) {
     this.logDir = join(baseDir, '.digital-exorcist');
-    this.logFilePath = join(this.logDir, 'graveyard-log.json');
+    this.logFilePath = join(this.logDir, ACTIVE_SEGMENT);
+    this.legacyLogFilePath = join(this.logDir, LEGACY_LOG);
+    this.segmentLimit = segmentLimit;
+    this.lock = new FileLock(join(this.logDir, 'graveyard-log.lock'));
+  }
+
+  /**
+   * Turns the hash chain on or off for entries appended from now on
+   * @param enabled - Whether new entries are chained
+   */
+  setHashChain(enabled: boolean): void {
+    this.hashChain = enabled;
   }
 
   /**
-   * Ensures the log file exists and is valid
-   * Creates a new log file if missing or corrupted
+   * Ensures the log directory and active segment exist
+   * Migrates a graveyard-log.json left by older versions. One that cannot be
+   * parsed is kept aside as graveyard-log.json.corrupt-<time> rather than discarded.
    */
   async ensureLogFile(): Promise<void> {
     try {
-      // Ensure directory exists
       await fs.mkdir(this.logDir, { recursive: true });
-
-      // Check if log file exists
-      try {
-        await fs.access(this.logFilePath);
-        
-        // Try to read and parse the file to verify it's valid
-        const content = await fs.readFile(this.logFilePath, 'utf-8');
-        JSON.parse(content);
-      } catch (error) {
-        // File doesn't exist or is corrupted, create new one
-        await this.createNewLogFile();
-      }
+      await this.migrateLegacyLog();
+      // Creates the active segment without touching an existing one
+      await fs.appendFile(this.logFilePath, '', 'utf-8');
     } catch (error) {
       console.error('Error ensuring log file:', error);
       throw error;
@@ -44,37 +129,39 @@ export class GraveyardLog {
   }
 
   /**
-   * Creates a new empty log file
-   */
-  private async createNewLogFile(): Promise<void> {
-    const emptyLog = {
-      entries: []
-    };
-    await fs.writeFile(this.logFilePath, JSON.stringify(emptyLog, null, 2), 'utf-8');
-  }
-
-  /**
-   * Appends a new entry to the log file
+   * Appends a new entry to the log
+   * Resolves once the entry has been flushed to disk.
    * @param entry - The log entry to append
    */
   async appendEntry(entry: LogEntry): Promise<void> {
     await this.ensureLogFile();
 
     try {
-      // Read current log
-      const content = await fs.readFile(this.logFilePath, 'utf-8');
-      let log = JSON.parse(content);
+      await this.serialize(async () => {
+        await this.rotateIfFull();
 
-      // Ensure log is an object with entries array
-      if (typeof log !== 'object' || log === null || !Array.isArray(log.entries)) {
-        log = { entries: [] };
-      }
+        let logged = unchainEntry(entry);
+        if (this.hashChain) {
+          const indexed = await this.loadIndex();
+          logged = chainEntry(logged, indexed[indexed.length - 1]?.entry);
+        }
 
-      // Append new entry
-      log.entries.push(entry);
-
-      // Write back to file
-      await fs.writeFile(this.logFilePath, JSON.stringify(log, null, 2), 'utf-8');
+        const handle = await fs.open(this.logFilePath, 'a+');
+        try {
+          const { size } = await handle.stat();
+          // Start on a fresh line if a crash left a partial one
+          let prefix = '';
+          if (size > 0) {
+            const last = Buffer.alloc(1);
+            await handle.read(last, 0, 1, size - 1);
+            if (last[0] !== 0x0a) prefix = '\n';
+          }
+          await handle.write(`${prefix}${JSON.stringify(logged)}\n`);
+          await handle.sync();
+        } finally {
+          await handle.close();
+        }
+      });
     } catch (error) {
       console.error('Error appending log entry:', error);
       throw error;
@@ -87,12 +174,8 @@ export class GraveyardLog {
    * @returns Array of log entries in reverse chronological order
    */
   async getEntries(filter?: LogFilter): Promise<LogEntry[]> {
-    await this.ensureLogFile();
-
     try {
-      const content = await fs.readFile(this.logFilePath, 'utf-8');
-      const log = JSON.parse(content);
-      let entries: LogEntry[] = log.entries || [];
+      let entries = await this.getEntriesInOrder();
 
       // Apply filters if provided
       if (filter) {
@@ -113,6 +196,287 @@ export class GraveyardLog {
     }
   }
 
+  /**
+   * Retrieves every log entry in the order it was logged, across all segments
+   * Unlike getEntries, entries with the same timestamp keep their order.
+   */
+  async getEntriesInOrder(): Promise<LogEntry[]> {
+    await this.ensureLogFile();
+
+    const indexed = await this.serialize(() => this.loadIndex());
+    return indexed.map(({ entry }) => entry);
+  }
+
+  /**
+   * Gets one page of entries matching a query, with totals over all matches
+   * Cursors point just past the last entry of a page, so entries appended
+   * meanwhile neither repeat nor shift later pages.
+   * @param query - Filters, sort order, cursor and page size
+   * @returns The page, the cursor of the next page and the totals
+   * @throws Error if the cursor is not one this log handed out
+   */
+  async query(query: LogQuery = {}): Promise<LogQueryResult> {
+    await this.ensureLogFile();
+    const indexed = await this.serialize(() => this.loadIndex());
+
+    const sortBy = query.sortBy ?? 'timestamp';
+    const direction = query.sortOrder === 'asc' ? 1 : -1;
+    const matches = indexed
+      .filter(item => matchesQuery(item, query))
+      .map(item => ({ item, key: sortKey(item, sortBy), seq: item.seq }));
+
+    const actionCounts: LogQueryResult['actionCounts'] = {};
+    let totalSize = 0;
+    for (const { item } of matches) {
+      actionCounts[item.entry.action] = (actionCounts[item.entry.action] ?? 0) + 1;
+      totalSize += item.entry.fileSize || 0;
+    }
+
+    const compare = (a: SortPosition, b: SortPosition): number =>
+      direction * (a.key < b.key ? -1 : a.key > b.key ? 1 : a.seq - b.seq);
+    matches.sort(compare);
+
+    let start = 0;
+    if (query.cursor) {
+      const anchor = decodeCursor(query.cursor);
+      start = matches.findIndex(match => compare(match, anchor) > 0);
+      if (start === -1) start = matches.length;
+    }
+
+    const limit = Math.min(Math.max(1, Math.floor(query.limit ?? LOG_QUERY_DEFAULT_LIMIT)), LOG_QUERY_MAX_LIMIT);
+    const page = matches.slice(start, start + limit);
+    const last = page[page.length - 1];
+
+    return {
+      entries: page.map(({ item }) => item.entry),
+      nextCursor: last && start + limit < matches.length ? encodeCursor(last) : undefined,
+      totalCount: matches.length,
+      actionCounts,
+      totalSize
+    };
+  }
+
+  /**
+   * Checks the hash chain over the whole log
+   * The log is read afresh rather than through the index, which only
+   * follows appends and so would miss entries edited in place.
+   * @returns Whether the chain holds and, if not, its first broken link
+   */
+  async verifyChain(): Promise<LogChainVerification> {
+    await this.ensureLogFile();
+
+    const indexed = await this.serialize(() => this.loadIndex(true));
+    return verifyLogChain(indexed.map(({ entry }) => entry));
+  }
+
+  /**
+   * Lists the sessions in the log with their totals
+   * Entries logged before sessions were recorded belong to none.
+   * @returns Sessions, most recently active first
+   */
+  async getSessions(): Promise<LogSession[]> {
+    const sessions = new Map<string, LogSession>();
+
+    for (const entry of await this.getEntriesInOrder()) {
+      if (!entry.sessionId) continue;
+
+      let session = sessions.get(entry.sessionId);
+      if (!session) {
+        session = {
+          sessionId: entry.sessionId,
+          startedAt: entry.timestamp,
+          endedAt: entry.timestamp,
+          banishedCount: 0,
+          restoredCount: 0,
+          resurrectedCount: 0,
+          banishedSize: 0,
+          restoredSize: 0
+        };
+        sessions.set(entry.sessionId, session);
+      }
+
+      session.scanRoot = session.scanRoot ?? entry.scanRoot;
+      session.mode = session.mode ?? entry.mode;
+      if (new Date(entry.timestamp) < new Date(session.startedAt)) session.startedAt = entry.timestamp;
+      if (new Date(entry.timestamp) > new Date(session.endedAt)) session.endedAt = entry.timestamp;
+
+      if (entry.action === ActionType.Banish) {
+        session.banishedCount++;
+        session.banishedSize += entry.fileSize || 0;
+      } else if (entry.action === ActionType.Restore) {
+        session.restoredCount++;
+        session.restoredSize += entry.fileSize || 0;
+      } else if (entry.action === ActionType.Resurrect) {
+        session.resurrectedCount++;
+      }
+    }
+
+    return [...sessions.values()].sort((a, b) => new Date(b.endedAt).getTime() - new Date(a.endedAt).getTime());
+  }
+
+  /**
+   * Drops entries from the log
+   * The kept entries become a single new active segment, replaced atomically,
+   * after which rotated segments are removed. A chained log is only compacted
+   * while its chain holds: entries before the first dropped one keep their
+   * hashes, later ones are chained again, and a compact entry recording the
+   * dropped positions and the old head hash is appended.
+   * @param selectDropped - Picks the positions to drop from the entries in
+   *   logged order; runs under the lock, so it sees the log as it is rewritten
+   * @returns Number of entries dropped
+   * @throws When the hash chain is broken, so compaction would hide tampering
+   */
+  async compact(selectDropped: (entries: LogEntry[]) => Set<number>): Promise<number> {
+    await this.ensureLogFile();
+
+    return this.serialize(async () => {
+      // Read afresh, so entries edited in place are seen by the chain check
+      const entries = (await this.loadIndex(true)).map(indexed => indexed.entry);
+      const dropped = selectDropped(entries);
+      if (dropped.size === 0) return 0;
+
+      const verification = verifyLogChain(entries);
+      if (verification.status === 'broken') {
+        throw new Error(`The log's hash chain is broken at entry ${verification.firstBreak!.index}; it is not compacted so the break stays visible`);
+      }
+
+      const firstDropped = Math.min(...dropped);
+      const kept = entries.slice(0, firstDropped);
+      for (let i = firstDropped + 1; i < entries.length; i++) {
+        if (dropped.has(i)) continue;
+        const entry = entries[i];
+        // Entries logged before the chain started stay unchained
+        kept.push(entry.hash !== undefined ? chainEntry(entry, kept[kept.length - 1]) : entry);
+      }
+      if (verification.status === 'verified' || this.hashChain) {
+        kept.push(chainEntry({
+          timestamp: new Date().toISOString(),
+          action: ActionType.Compact,
+          filePath: this.logFilePath,
+          droppedSequences: [...dropped].sort((a, b) => a - b),
+          previousHeadHash: verification.headHash
+        }, kept[kept.length - 1]));
+      }
+
+      const rotated = (await this.listSegments()).filter(segment => segment !== this.logFilePath);
+      await writeFileAtomic(this.logFilePath, kept.map(entry => `${JSON.stringify(entry)}\n`).join(''));
+      // A crash before this leaves duplicates, which compacting again removes
+      for (const segment of rotated) {
+        await fs.rm(segment, { force: true });
+      }
+      return dropped.size;
+    });
+  }
+
+  /**
+   * Runs a task under the log lock, after every earlier task in this process has finished
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(() => this.lock.run(task));
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Brings the index up to date with the log files
+   * Must run under the lock.
+   * @param rebuild - Parse every segment again instead of only what was appended
+   */
+  private async loadIndex(rebuild: boolean = false): Promise<IndexedEntry[]> {
+    const rotated = (await this.listSegments()).filter(segment => segment !== this.logFilePath);
+    const stats = await fs.stat(this.logFilePath);
+
+    let index = this.index;
+    if (
+      rebuild ||
+      !index ||
+      index.activeIno !== stats.ino ||
+      stats.size < index.activeOffset ||
+      index.rotated.join('\n') !== rotated.join('\n')
+    ) {
+      index = { rotated, activeIno: stats.ino, activeOffset: 0, entries: [] };
+      for (const segment of rotated) {
+        indexEntries(index, parseSegment(await fs.readFile(segment, 'utf-8')));
+      }
+    }
+
+    if (stats.size > index.activeOffset) {
+      const handle = await fs.open(this.logFilePath, 'r');
+      try {
+        const appended = Buffer.alloc(stats.size - index.activeOffset);
+        const { bytesRead } = await handle.read(appended, 0, appended.length, index.activeOffset);
+        // Leave a line still being written for the next read
+        const complete = appended.subarray(0, bytesRead).lastIndexOf(0x0a) + 1;
+        indexEntries(index, parseSegment(appended.subarray(0, complete).toString('utf-8')));
+        index.activeOffset += complete;
+      } finally {
+        await handle.close();
+      }
+    }
+
+    this.index = index;
+    return index.entries;
+  }
+
+  /**
+   * Lists segment files, oldest first, ending with the active segment
+   */
+  private async listSegments(): Promise<string[]> {
+    const rotated = (await fs.readdir(this.logDir))
+      .map(name => ({ name, match: ROTATED_SEGMENT.exec(name) }))
+      .filter(({ match }) => match)
+      .sort((a, b) => Number(a.match![1]) - Number(b.match![1]))
+      .map(({ name }) => join(this.logDir, name));
+    return [...rotated, this.logFilePath];
+  }
+
+  /**
+   * Moves the active segment aside once it has reached the segment limit
+   */
+  private async rotateIfFull(): Promise<void> {
+    const size = await fs.stat(this.logFilePath).then(stats => stats.size, () => 0);
+    if (size < this.segmentLimit) return;
+
+    const numbers = (await fs.readdir(this.logDir))
+      .map(name => ROTATED_SEGMENT.exec(name))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(match => Number(match[1]));
+    const next = Math.max(0, ...numbers) + 1;
+    await fs.rename(this.logFilePath, join(this.logDir, `graveyard-log.${next}.jsonl`));
+    await fs.appendFile(this.logFilePath, '', 'utf-8');
+  }
+
+  /**
+   * Folds a graveyard-log.json from older versions into the active segment
+   */
+  private async migrateLegacyLog(): Promise<void> {
+    if (!(await fs.access(this.legacyLogFilePath).then(() => true, () => false))) return;
+
+    await this.serialize(async () => {
+      // Another call may have migrated it while this one waited
+      let content: string;
+      try {
+        content = await fs.readFile(this.legacyLogFilePath, 'utf-8');
+      } catch {
+        return;
+      }
+
+      let entries: LogEntry[];
+      try {
+        const log = JSON.parse(content);
+        entries = log && Array.isArray(log.entries) ? log.entries : [];
+      } catch {
+        await fs.rename(this.legacyLogFilePath, `${this.legacyLogFilePath}.corrupt-${Date.now()}`);
+        return;
+      }
+
+      // Older entries go first; anything already in the active segment follows
+      const existing = await fs.readFile(this.logFilePath, 'utf-8').catch(() => '');
+      await writeFileAtomic(this.logFilePath, entries.map(entry => `${JSON.stringify(entry)}\n`).join('') + existing);
+      await fs.rename(this.legacyLogFilePath, `${this.legacyLogFilePath}.migrated`);
+    });
+  }
+
   /**
    * Applies filter criteria to log entries
    */
@@ -125,7 +489,7 @@ export class GraveyardLog {
 
       // Filter by date range
       const entryDate = new Date(entry.timestamp);
-      
+
       if (filter.startDate && entryDate < filter.startDate) {
         return false;
       }
@@ -138,3 +502,89 @@ export class GraveyardLog {
     });
   }
 }
+
+/**
+ * Where an entry falls in a sorted query, also what a cursor encodes
+ */
+interface SortPosition {
+  key: number | string;
+  seq: number;
+}
+
+function indexEntries(index: LogIndex, entries: LogEntry[]): void {
+  for (const entry of entries) {
+    index.entries.push({
+      entry,
+      seq: index.entries.length,
+      time: new Date(entry.timestamp).getTime() || 0,
+      searchText: [entry.filePath, entry.originalPath, entry.graveyardPath].filter(Boolean).join('\n').toLowerCase()
+    });
+  }
+}
+
+function sortKey(item: IndexedEntry, sortBy: LogSortField): number | string {
+  switch (sortBy) {
+    case 'fileSize':
+      return item.entry.fileSize ?? -1;
+    case 'filePath':
+      return item.entry.filePath;
+    default:
+      return item.time;
+  }
+}
+
+/**
+ * Checks an entry against every filter a query sets
+ */
+function matchesQuery({ entry, time, searchText }: IndexedEntry, query: LogQuery): boolean {
+  if (query.actionType && entry.action !== query.actionType) return false;
+  if (query.sessionId && entry.sessionId !== query.sessionId) return false;
+  if (query.startDate && time < new Date(query.startDate).getTime()) return false;
+  if (query.endDate && time > new Date(query.endDate).getTime()) return false;
+  if (query.search && !searchText.includes(query.search.toLowerCase())) return false;
+  if (query.classification && !entry.classifications?.includes(query.classification)) return false;
+
+  // Entries logged without a size never match a size range
+  if (query.minSize !== undefined || query.maxSize !== undefined) {
+    if (entry.fileSize === undefined) return false;
+    if (query.minSize !== undefined && entry.fileSize < query.minSize) return false;
+    if (query.maxSize !== undefined && entry.fileSize > query.maxSize) return false;
+  }
+  return true;
+}
+
+function encodeCursor({ key, seq }: SortPosition): string {
+  return Buffer.from(JSON.stringify([key, seq]), 'utf-8').toString('base64url');
+}
+
+function decodeCursor(cursor: string): SortPosition {
+  try {
+    const [key, seq] = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if ((typeof key === 'number' || typeof key === 'string') && typeof seq === 'number') {
+      return { key, seq };
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error(`Invalid log cursor: ${cursor}`);
+}
+
+/**
+ * Parses one JSONL segment, skipping lines that are not complete entries
+ */
+function parseSegment(content: string): LogEntry[] {
+  const entries: LogEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line);
+      if (entry && typeof entry === 'object' && !Array.isArray(entry)) {
+        entries.push(entry);
+      }
+    } catch {
+      // Partial line from an interrupted write
+    }
+  }
+  return entries;
+}
+
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join, sep } from 'path';
+import * as fc from 'fast-check';
+import { GraveyardManifest, graveyardRelativePath } from './GraveyardManifest';
+import { FileOperations } from './FileOperations';
+import { Graveyard } from './Graveyard';
+
+describe('GraveyardManifest', () => {
+  const testBaseDir = join(process.cwd(), 'test-graveyard-manifest');
+  const testGraveyardPath = join(testBaseDir, 'graveyard_trash');
+
+  beforeEach(async () => {
+    await fs.rm(testBaseDir, { recursive: true, force: true });
+    await fs.mkdir(testBaseDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testBaseDir, { recursive: true, force: true });
+  });
+
+  it('keeps files with the same relative path from different scan roots apart', async () => {
+    const manifest = new GraveyardManifest(testBaseDir);
+    const graveyard = new Graveyard(testBaseDir, { manifest });
+    const rootA = join(testBaseDir, 'A');
+    const rootB = join(testBaseDir, 'B');
+    await fs.mkdir(rootA, { recursive: true });
+    await fs.mkdir(rootB, { recursive: true });
+    await fs.writeFile(join(rootA, 'notes.txt'), 'from A');
+    await fs.writeFile(join(rootB, 'notes.txt'), 'from B');
+
+    const fromA = await new FileOperations(rootA, testBaseDir, undefined, undefined, graveyard).banishFile(join(rootA, 'notes.txt'));
+    const fromB = await new FileOperations(rootB, testBaseDir, undefined, undefined, graveyard).banishFile(join(rootB, 'notes.txt'));
+
+    expect(fromA.graveyardPath).not.toBe(fromB.graveyardPath);
+    expect(await fs.readFile(fromA.graveyardPath, 'utf-8')).toBe('from A');
+    expect(await fs.readFile(fromB.graveyardPath, 'utf-8')).toBe('from B');
+    expect((await manifest.lookup(fromB.graveyardPath))?.originalPath).toBe(join(rootB, 'notes.txt'));
+  });
+
+  it('adds a suffix when the same path is banished twice in one session', async () => {
+    const root = join(testBaseDir, 'root');
+    const filePath = join(root, 'notes.txt');
+    await fs.mkdir(root, { recursive: true });
+    const fileOps = new FileOperations(root, testBaseDir, undefined, undefined, undefined, 'session-test');
+
+    await fs.writeFile(filePath, 'first');
+    const first = await fileOps.banishFile(filePath);
+    await fs.writeFile(filePath, 'second');
+    const second = await fileOps.banishFile(filePath);
+
+    expect(first.graveyardPath).toBe(join(testGraveyardPath, 'session-test', 'notes.txt'));
+    expect(second.graveyardPath).toBe(join(testGraveyardPath, 'session-test', 'notes~2.txt'));
+    expect(await fs.readFile(first.graveyardPath, 'utf-8')).toBe('first');
+
+    const restored = await fileOps.restoreFile(second.graveyardPath, filePath);
+    expect(restored.success).toBe(true);
+    expect(await fileOps.getOriginalPath(first.graveyardPath)).toBe(filePath);
+    expect(await new GraveyardManifest(testBaseDir).lookup(second.graveyardPath)).toBeUndefined();
+  });
+
+  it('still restores files banished with the old layout', async () => {
+    const root = join(testBaseDir, 'root');
+    const originalPath = join(root, 'legacy.txt');
+    const legacyPath = join(testGraveyardPath, 'legacy.txt');
+    await fs.mkdir(testGraveyardPath, { recursive: true });
+    await fs.writeFile(legacyPath, 'old');
+    const fileOps = new FileOperations(root, testBaseDir);
+
+    expect(await fileOps.getOriginalPath(legacyPath)).toBe(originalPath);
+    const result = await fileOps.restoreFile(legacyPath, originalPath);
+
+    expect(result.success).toBe(true);
+    expect(await fs.readFile(originalPath, 'utf-8')).toBe('old');
+  });
+
+  it('journals changes and folds them into the manifest file once the journal is full', async () => {
+    const stateDir = join(testBaseDir, '.digital-exorcist');
+    const manifest = new GraveyardManifest(testBaseDir, 4);
+    const other = new GraveyardManifest(testBaseDir, 4);
+    const reserve = (name: string) => manifest.reserve({
+      graveyardRoot: testGraveyardPath,
+      sessionId: 'session-1',
+      scanRoot: testBaseDir,
+      originalPath: join(testBaseDir, name)
+    });
+
+    const first = await reserve('a.txt');
+    await reserve('b.txt');
+    await other.remove(first.graveyardPath);
+    expect(await manifest.lookup(first.graveyardPath)).toBeUndefined();
+    await expect(fs.readFile(join(stateDir, 'graveyard-manifest.json'), 'utf-8')).rejects.toThrow();
+    expect((await fs.readFile(join(stateDir, 'graveyard-manifest.journal.jsonl'), 'utf-8')).trim().split('\n')).toHaveLength(3);
+
+    // A crash can leave a partial last line, which the next append starts past
+    await fs.appendFile(join(stateDir, 'graveyard-manifest.journal.jsonl'), '{"add": {"graveyardPath"');
+    await reserve('c.txt');
+
+    const folded = JSON.parse(await fs.readFile(join(stateDir, 'graveyard-manifest.json'), 'utf-8')).entries;
+    expect(folded.map((entry: { originalPath: string }) => entry.originalPath)).toEqual([join(testBaseDir, 'b.txt'), join(testBaseDir, 'c.txt')]);
+    expect(await fs.readFile(join(stateDir, 'graveyard-manifest.journal.jsonl'), 'utf-8')).toBe('');
+    expect((await other.getEntries()).map(entry => entry.originalPath)).toEqual([join(testBaseDir, 'b.txt'), join(testBaseDir, 'c.txt')]);
+  });
+
+  /**
+   * **Feature: graveyard-namespaces, Property 1: Graveyard layout stays inside the session**
+   *
+   * For any scan root and file path, inside or outside the root, the layout
+   * path is relative and never climbs out of the session folder.
+   */
+  it('keeps a corrupted manifest aside instead of writing over it', async () => {
+    const manifestPath = join(testBaseDir, '.digital-exorcist', 'graveyard-manifest.json');
+    await fs.mkdir(join(testBaseDir, '.digital-exorcist'), { recursive: true });
+    await fs.writeFile(manifestPath, '{"entries": [{"graveyardPath": "/g/a.txt", "originalPa');
+    const manifest = new GraveyardManifest(testBaseDir);
+
+    await manifest.reserve({
+      graveyardRoot: testGraveyardPath,
+      sessionId: 'session-1',
+      scanRoot: testBaseDir,
+      originalPath: join(testBaseDir, 'b.txt')
+    });
+
+    const stateFiles = await fs.readdir(join(testBaseDir, '.digital-exorcist'));
+    const corrupt = stateFiles.filter(name => name.startsWith('graveyard-manifest.json.corrupt-'));
+    expect(corrupt).toHaveLength(1);
+    expect(await fs.readFile(join(testBaseDir, '.digital-exorcist', corrupt[0]), 'utf-8')).toContain('/g/a.txt');
+    expect((await manifest.getEntries()).map(entry => entry.originalPath)).toEqual([join(testBaseDir, 'b.txt')]);
+    expect(stateFiles.filter(name => name.endsWith('.tmp') || name.endsWith('.lock'))).toEqual([]);
+  });
+
+  it('never maps a path outside the session folder', () => {
+    const segment = fc.stringMatching(/^[a-zA-Z0-9_.-]+$/).filter(s => s !== '.' && s !== '..');
+    fc.assert(
+      fc.property(
+        fc.array(segment, { minLength: 0, maxLength: 3 }),
+        fc.array(segment, { minLength: 1, maxLength: 4 }),
+        (rootSegments, fileSegments) => {
+          const scanRoot = sep + join('scan', ...rootSegments);
+          const layout = graveyardRelativePath(scanRoot, sep + join(...fileSegments));
+
+          expect(layout.startsWith('..')).toBe(false);
+          expect(layout.startsWith(sep)).toBe(false);
+          expect(layout.length).toBeGreaterThan(0);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,399 @@
+import { promises as fs, Stats } from 'fs';
+import { join, relative, isAbsolute, parse, sep } from 'path';
+import { GraveyardBackendId } from '../shared/types';
+import { FileMetadata } from './FileMetadata';
+import { FileLock, writeFileAtomic } from './FileLock';
+
+/**
+ * What a backend that stores content itself needs to re-create an entry
+ */
+export interface StoredContent {
+  type: 'file' | 'directory' | 'symlink';
+  /** SHA-256 of a file's content, which is also its key in the content store */
+  sha256?: string;
+  size: number;
+  linkTarget?: string;
+  /** Empty directories nested in a directory entry, relative to it */
+  directories?: string[];
+}
+
+/**
+ * One file or directory held in the graveyard
+ */
+export interface ManifestEntry {
+  /** Where the entry lives inside the graveyard */
+  graveyardPath: string;
+  /** Absolute path the entry was banished from */
+  originalPath: string;
+  /** Scan root the entry was banished under */
+  scanRoot: string;
+  /** Banish session the entry belongs to; also its namespace folder */
+  sessionId: string;
+  banishedAt: string;
+  /** Backend holding the entry; unset means the graveyard_trash folder */
+  backend?: GraveyardBackendId;
+  /** Set when the backend keeps the content elsewhere, e.g. in the content store */
+  content?: StoredContent;
+  /** Mode, owner, times, attributes and hash recorded at banish time */
+  metadata?: FileMetadata;
+}
+
+/** Journal records at which the journal is folded into the manifest file */
+export const MANIFEST_JOURNAL_LIMIT = 1000;
+
+/**
+ * One change recorded in the manifest journal
+ */
+type JournalRecord = { add: ManifestEntry } | { remove: string };
+
+/**
+ * Entries as of the manifest file plus the journal read so far
+ */
+interface ManifestIndex {
+  /** Modification time and inode of the manifest file; replacing it changes them */
+  manifestMtimeMs: number;
+  manifestIno: number;
+  /** Inode of the journal; folding it into the manifest replaces it */
+  journalIno: number;
+  /** Bytes of the journal parsed so far */
+  journalOffset: number;
+  /** Journal records parsed so far */
+  journalRecords: number;
+  /** Entries by graveyard path, in banish order */
+  entries: Map<string, ManifestEntry>;
+}
+
+/**
+ * What to reserve a graveyard slot for
+ */
+export interface ManifestReservation {
+  /** Graveyard folder, e.g. graveyard_trash */
+  graveyardRoot: string;
+  sessionId: string;
+  scanRoot: string;
+  originalPath: string;
+  /** Backend the slot is for; unset means the graveyard_trash folder */
+  backend?: GraveyardBackendId;
+  /** Content the backend stored for the entry */
+  content?: StoredContent;
+  metadata?: FileMetadata;
+}
+
+/**
+ * Maps a path to its layout inside a session folder
+ * Paths under the scan root keep their relative layout; anything else keeps
+ * its absolute layout below `_outside`, so it can never escape the session folder.
+ * @param scanRoot - Scan root the file was found under
+ * @param originalPath - Absolute path of the file
+ * @returns Relative path to use inside the session folder
+ */
+export function graveyardRelativePath(scanRoot: string, originalPath: string): string {
+  const relativePath = relative(scanRoot, originalPath);
+  const outside = relativePath === '..' || relativePath.startsWith(`..${sep}`) || isAbsolute(relativePath);
+  if (relativePath && !outside) {
+    return relativePath;
+  }
+
+  const { root } = parse(originalPath);
+  return join('_outside', root.replace(/[:\\/]/g, ''), originalPath.slice(root.length));
+}
+
+/**
+ * GraveyardManifest - Maps every graveyard entry back to where it came from
+ *
+ * Each banish session gets its own namespace folder inside the graveyard, so
+ * files with the same relative path from different scan roots, or banished
+ * twice, never land on the same graveyard path. Entries banished before the
+ * manifest existed have no record here; their log entries still carry both
+ * paths and restore as before.
+ *
+ * Changes are appended one JSON record per line to
+ * graveyard-manifest.journal.jsonl and fsynced, so a banish writes one line
+ * rather than the whole manifest. Once the journal holds MANIFEST_JOURNAL_LIMIT
+ * records it is folded into graveyard-manifest.json, which is replaced
+ * atomically. Reads go through an in-memory index that only parses what was
+ * appended since the last read, whichever process appended it; a replaced
+ * manifest or journal rebuilds it. Entries handed out are shared with the
+ * index and must not be modified.
+ *
+ * Every read and write holds graveyard-manifest.lock, so several app
+ * instances share the manifest safely. A manifest that cannot be parsed is
+ * moved aside rather than written over; a graveyard audit re-indexes the
+ * entries it held.
+ */
+export class GraveyardManifest {
+  private readonly manifestDir: string;
+  private readonly manifestFilePath: string;
+  private readonly journalFilePath: string;
+  private readonly journalLimit: number;
+  private readonly lock: FileLock;
+  /** Serializes read-modify-write cycles so concurrent reservations never pick the same path */
+  private pending: Promise<unknown> = Promise.resolve();
+  private index?: ManifestIndex;
+
+  /**
+   * @param baseDir - Data root holding .digital-exorcist
+   * @param journalLimit - Journal records at which the journal is folded into the manifest file
+   */
+  constructor(baseDir: string = '.', journalLimit: number = MANIFEST_JOURNAL_LIMIT) {
+    this.manifestDir = join(baseDir, '.digital-exorcist');
+    this.manifestFilePath = join(this.manifestDir, 'graveyard-manifest.json');
+    this.journalFilePath = join(this.manifestDir, 'graveyard-manifest.journal.jsonl');
+    this.journalLimit = journalLimit;
+    this.lock = new FileLock(join(this.manifestDir, 'graveyard-manifest.lock'));
+  }
+
+  /**
+   * Creates an ID for a new banish session
+   * @returns Session ID, usable as a folder name
+   */
+  static createSessionId(): string {
+    return `session-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+  }
+
+  /**
+   * Picks a free graveyard path for a file and records it
+   * The path is graveyardRoot/sessionId/<layout>, with a numeric suffix when
+   * that path is already taken on disk or in the manifest.
+   * @param reservation - Session, scan root and file to reserve a slot for
+   * @returns The recorded manifest entry
+   */
+  async reserve(reservation: ManifestReservation): Promise<ManifestEntry> {
+    return this.serialize(async () => {
+      const entries = await this.load();
+
+      const preferred = join(
+        reservation.graveyardRoot,
+        reservation.sessionId,
+        graveyardRelativePath(reservation.scanRoot, reservation.originalPath)
+      );
+      const { dir, name, ext } = parse(preferred);
+      let graveyardPath = preferred;
+      for (let n = 2; entries.has(graveyardPath) || await this.exists(graveyardPath); n++) {
+        graveyardPath = join(dir, `${name}~${n}${ext}`);
+      }
+
+      const entry: ManifestEntry = {
+        graveyardPath,
+        originalPath: reservation.originalPath,
+        scanRoot: reservation.scanRoot,
+        sessionId: reservation.sessionId,
+        banishedAt: new Date().toISOString(),
+        ...(reservation.backend ? { backend: reservation.backend } : {}),
+        ...(reservation.content ? { content: reservation.content } : {}),
+        ...(reservation.metadata ? { metadata: reservation.metadata } : {})
+      };
+      await this.append({ add: entry });
+      return entry;
+    });
+  }
+
+  /**
+   * Records an entry whose location a backend chose itself, such as the desktop Trash
+   * @param entry - Entry to record
+   */
+  async add(entry: ManifestEntry): Promise<void> {
+    await this.serialize(() => this.append({ add: entry }));
+  }
+
+  /**
+   * Removes the record for a graveyard path, after a restore or a failed move
+   * @param graveyardPath - Graveyard path to forget
+   */
+  async remove(graveyardPath: string): Promise<void> {
+    await this.serialize(async () => {
+      if ((await this.load()).has(graveyardPath)) {
+        await this.append({ remove: graveyardPath });
+      }
+    });
+  }
+
+  /**
+   * Finds the record for a graveyard path
+   * @param graveyardPath - Graveyard path to look up
+   * @returns The entry, or undefined for legacy or unknown paths
+   */
+  async lookup(graveyardPath: string): Promise<ManifestEntry | undefined> {
+    return this.serialize(async () => (await this.load()).get(graveyardPath));
+  }
+
+  /**
+   * Gets every entry currently held in the graveyard
+   * @returns Manifest entries in banish order
+   */
+  async getEntries(): Promise<ManifestEntry[]> {
+    return this.serialize(async () => [...(await this.load()).values()]);
+  }
+
+  /**
+   * Runs a task under the manifest lock, after every earlier task in this process has finished
+   */
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(async () => {
+      await fs.mkdir(this.manifestDir, { recursive: true });
+      return this.lock.run(task);
+    });
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Brings the index up to date with the manifest file and journal
+   * Must run under the lock.
+   * @returns Entries by graveyard path, shared with the index
+   */
+  private async load(): Promise<Map<string, ManifestEntry>> {
+    const manifestStats = await statOrUndefined(this.manifestFilePath);
+    let journalStats = await statOrUndefined(this.journalFilePath);
+    if (!journalStats) {
+      await fs.appendFile(this.journalFilePath, '', 'utf-8');
+      journalStats = await fs.stat(this.journalFilePath);
+    }
+
+    let index = this.index;
+    if (
+      !index ||
+      index.manifestMtimeMs !== (manifestStats?.mtimeMs ?? 0) ||
+      index.manifestIno !== (manifestStats?.ino ?? 0) ||
+      index.journalIno !== journalStats.ino ||
+      journalStats.size < index.journalOffset
+    ) {
+      const entries = await this.readManifest();
+      // Reading can move a corrupt manifest aside
+      const current = await statOrUndefined(this.manifestFilePath);
+      index = {
+        manifestMtimeMs: current?.mtimeMs ?? 0,
+        manifestIno: current?.ino ?? 0,
+        journalIno: journalStats.ino,
+        journalOffset: 0,
+        journalRecords: 0,
+        entries: new Map(entries.map(entry => [entry.graveyardPath, entry]))
+      };
+    }
+
+    if (journalStats.size > index.journalOffset) {
+      const handle = await fs.open(this.journalFilePath, 'r');
+      try {
+        const appended = Buffer.alloc(journalStats.size - index.journalOffset);
+        const { bytesRead } = await handle.read(appended, 0, appended.length, index.journalOffset);
+        // Leave a line still being written for the next read
+        const complete = appended.subarray(0, bytesRead).lastIndexOf(0x0a) + 1;
+        for (const record of parseJournal(appended.subarray(0, complete).toString('utf-8'))) {
+          applyRecord(index.entries, record);
+          index.journalRecords++;
+        }
+        index.journalOffset += complete;
+      } finally {
+        await handle.close();
+      }
+    }
+
+    this.index = index;
+    return index.entries;
+  }
+
+  /**
+   * Appends a change to the journal, folding the journal into the manifest file once it is full
+   * Must run under the lock.
+   */
+  private async append(record: JournalRecord): Promise<void> {
+    await this.load();
+
+    const handle = await fs.open(this.journalFilePath, 'a+');
+    try {
+      const { size } = await handle.stat();
+      // Start on a fresh line if a crash left a partial one
+      let prefix = '';
+      if (size > 0) {
+        const last = Buffer.alloc(1);
+        await handle.read(last, 0, 1, size - 1);
+        if (last[0] !== 0x0a) prefix = '\n';
+      }
+      await handle.write(`${prefix}${JSON.stringify(record)}\n`);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    const entries = await this.load();
+    if (this.index && this.index.journalRecords >= this.journalLimit) {
+      await this.fold([...entries.values()]);
+    }
+  }
+
+  /**
+   * Writes every entry to the manifest file and starts an empty journal
+   * A crash in between replays the journal over entries that already hold
+   * it, which changes nothing.
+   */
+  private async fold(entries: ManifestEntry[]): Promise<void> {
+    await writeFileAtomic(this.manifestFilePath, JSON.stringify({ entries }, null, 2));
+    await writeFileAtomic(this.journalFilePath, '');
+    this.index = undefined;
+  }
+
+  /**
+   * Reads the manifest file; a missing file counts as empty
+   * One that cannot be parsed is kept as graveyard-manifest.json.corrupt-<time>
+   * and counts as empty, so the next write cannot lose what it held.
+   * Must run under the lock.
+   */
+  private async readManifest(): Promise<ManifestEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.manifestFilePath, 'utf-8');
+    } catch (err) {
+      if (err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT') return [];
+      throw err;
+    }
+
+    try {
+      const data = JSON.parse(content);
+      if (!data || !Array.isArray(data.entries)) {
+        throw new Error('No entries list');
+      }
+      return data.entries;
+    } catch (error) {
+      const corruptPath = `${this.manifestFilePath}.corrupt-${Date.now()}`;
+      console.error(`Graveyard manifest is corrupted, keeping it as ${corruptPath}:`, error);
+      await fs.rename(this.manifestFilePath, corruptPath);
+      return [];
+    }
+  }
+
+  private async exists(path: string): Promise<boolean> {
+    return fs.lstat(path).then(() => true, () => false);
+  }
+}
+
+async function statOrUndefined(path: string): Promise<Stats | undefined> {
+  return fs.stat(path).catch(() => undefined);
+}
+
+/**
+ * Applies a journal record; adding a recorded path again moves it to the end
+ */
+function applyRecord(entries: Map<string, ManifestEntry>, record: JournalRecord): void {
+  if ('add' in record) {
+    entries.delete(record.add.graveyardPath);
+    entries.set(record.add.graveyardPath, record.add);
+  } else {
+    entries.delete(record.remove);
+  }
+}
+
+function parseJournal(content: string): JournalRecord[] {
+  const records: JournalRecord[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line);
+      if (record?.add?.graveyardPath || typeof record?.remove === 'string') {
+        records.push(record);
+      }
+    } catch {
+      // Partial line from an interrupted write, whose change never completed
+    }
+  }
+  return records;
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { GraveyardReaper } from './GraveyardReaper';
+import { GraveyardLog } from './GraveyardLog';
+import { Graveyard } from './Graveyard';
+import { ActionType, RetentionPolicy } from '../shared/types';
+
+describe('GraveyardReaper', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  let testDir: string;
+  let graveyardLog: GraveyardLog;
+  let graveyard: Graveyard;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `digital-exorcist-reaper-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+    await fs.mkdir(testDir, { recursive: true });
+    graveyardLog = new GraveyardLog(testDir);
+    graveyard = new Graveyard(testDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Puts a file of the given size in the graveyard as if banished daysAgo days ago
+   */
+  async function bury(name: string, size: number, daysAgo: number): Promise<string> {
+    const graveyardPath = join(testDir, 'graveyard_trash', name);
+    await fs.mkdir(join(testDir, 'graveyard_trash'), { recursive: true });
+    await fs.writeFile(graveyardPath, Buffer.alloc(size));
+    await graveyardLog.appendEntry({
+      timestamp: new Date(Date.now() - daysAgo * DAY_MS).toISOString(),
+      action: ActionType.Banish,
+      filePath: `/home/${name}`,
+      originalPath: `/home/${name}`,
+      graveyardPath,
+      fileSize: size
+    });
+    return graveyardPath;
+  }
+
+  const policy = (overrides: Partial<RetentionPolicy>): RetentionPolicy => ({
+    maxAgeDays: null,
+    maxTotalBytes: null,
+    reapOnStartup: false,
+    ...overrides
+  });
+
+  it('plans expired entries first, then the oldest until the size limit is met', async () => {
+    await bury('ancient.bin', 100, 60);
+    await bury('old.bin', 200, 20);
+    await bury('recent.bin', 300, 10);
+    await bury('fresh.bin', 400, 1);
+    const reaper = new GraveyardReaper(graveyardLog, graveyard);
+
+    const plan = await reaper.plan(policy({ maxAgeDays: 30, maxTotalBytes: 500 }));
+
+    expect(plan.candidates.map(c => [c.originalPath, c.reason])).toEqual([
+      ['/home/ancient.bin', 'age'],
+      ['/home/old.bin', 'size'],
+      ['/home/recent.bin', 'size']
+    ]);
+    expect(plan.totalBytes).toBe(600);
+    expect(plan.graveyardBytes).toBe(1000);
+  });
+
+  it('deletes only confirmed entries and logs them as purged', async () => {
+    const ancient = await bury('ancient.bin', 100, 60);
+    const old = await bury('old.bin', 200, 40);
+    const reaper = new GraveyardReaper(graveyardLog, graveyard);
+
+    const result = await reaper.reap(policy({ maxAgeDays: 30 }), [ancient]);
+
+    expect(result).toMatchObject({ success: true, purgedCount: 1, bytesFreed: 100 });
+    await expect(fs.lstat(ancient)).rejects.toThrow();
+    expect((await fs.stat(old)).size).toBe(200);
+
+    const purges = await graveyardLog.getEntries({ actionType: ActionType.Purge });
+    expect(purges).toHaveLength(1);
+    expect(purges[0]).toMatchObject({ graveyardPath: ancient, fileSize: 100 });
+    expect((await reaper.plan(policy({ maxAgeDays: 30 }))).candidates.map(c => c.graveyardPath)).toEqual([old]);
+  });
+
+  it('counts a shared content-store blob as freed only with its last reference', async () => {
+    const store = new Graveyard(testDir, { backend: 'content-store' });
+    const scanRoot = join(testDir, 'scan');
+    await fs.mkdir(scanRoot, { recursive: true });
+    const content = Buffer.alloc(1000, 'x');
+    const paths: string[] = [];
+    for (const name of ['first.bin', 'second.bin']) {
+      await fs.writeFile(join(scanRoot, name), content);
+      paths.push(await store.bury({ originalPath: join(scanRoot, name), scanRoot, sessionId: 'session-test' }));
+    }
+    const reaper = new GraveyardReaper(graveyardLog, store);
+
+    expect((await reaper.plan(policy({}))).graveyardBytes).toBe(1000);
+    // Holding 1 of 2 references to the blob frees nothing
+    const partial = await reaper.plan(policy({ maxTotalBytes: 999 }));
+    expect(partial.candidates.map(c => [c.graveyardPath, c.size])).toEqual([[paths[0], 0], [paths[1], 1000]]);
+    expect(partial.totalBytes).toBe(1000);
+
+    // Confirming only the entry the plan credits with the blob still leaves the other reference
+    const secondOnly = await reaper.reap(policy({ maxTotalBytes: 999 }), [paths[1]]);
+    expect(secondOnly).toMatchObject({ success: true, purgedCount: 1, bytesFreed: 0 });
+    const rest = await reaper.reap(policy({ maxTotalBytes: 0 }));
+    expect(rest).toMatchObject({ success: true, purgedCount: 1, bytesFreed: 1000 });
+  });
+});
@@ -0,0 +1,221 @@
+import {
+  ActionType,
+  ReapCandidate,
+  ReapPlan,
+  ReapResult,
+  RetentionPolicy
+} from '../shared/types';
+import { GraveyardLog } from './GraveyardLog';
+import { Graveyard } from './Graveyard';
+import { GraveyardEntryStats } from './GraveyardBackend';
+import { getLogHoldings } from './GraveyardAudit';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * An entry currently held in the graveyard
+ */
+interface GraveyardHolding {
+  graveyardPath: string;
+  originalPath: string;
+  banishedAt: string;
+  /** Bytes on disk; unused for entries in a shared blob */
+  size: number;
+  blob?: GraveyardEntryStats['blob'];
+}
+
+/**
+ * A holding the policy selects, and how it is shown as a candidate
+ */
+interface SelectedHolding {
+  candidate: ReapCandidate;
+  holding: GraveyardHolding;
+}
+
+/**
+ * Counts the bytes deleting entries frees, one entry at a time
+ * An entry in a shared content-store blob frees nothing until every
+ * reference to the blob has been counted, and then the whole blob.
+ */
+function createFreedCounter(): (holding: GraveyardHolding) => number {
+  const counted = new Map<string, number>();
+  return holding => {
+    if (!holding.blob) return holding.size;
+    const references = (counted.get(holding.blob.sha256) ?? 0) + 1;
+    counted.set(holding.blob.sha256, references);
+    return references === holding.blob.refs ? holding.blob.size : 0;
+  };
+}
+
+/**
+ * GraveyardReaper - Enforces the graveyard retention policy
+ *
+ * Entries older than maxAgeDays are reaped, then the oldest remaining
+ * entries until the graveyard fits in maxTotalBytes. Reaped entries are
+ * permanently deleted through the backend holding them, removed from the
+ * manifest and logged as Purge. Bytes are counted as they are on disk: a
+ * blob the content store shares between entries counts once, and is freed
+ * only when every entry referring to it is reaped.
+ */
+export class GraveyardReaper {
+  private readonly graveyardLog: GraveyardLog;
+  private readonly graveyard: Graveyard;
+
+  /**
+   * @param graveyardLog - Log that Purge entries are written to
+   * @param graveyard - Graveyard whose entries are reaped
+   */
+  constructor(graveyardLog: GraveyardLog, graveyard: Graveyard) {
+    this.graveyardLog = graveyardLog;
+    this.graveyard = graveyard;
+  }
+
+  /**
+   * Works out which entries the policy would delete
+   * @param policy - Retention limits to apply
+   * @param now - Reference time for the age limit
+   * @returns Candidates oldest first, with the exact bytes they free
+   */
+  async plan(policy: RetentionPolicy, now: Date = new Date()): Promise<ReapPlan> {
+    const { candidates, totalBytes, graveyardBytes } = await this.select(policy, now);
+    return {
+      candidates: candidates.map(({ candidate }) => candidate),
+      totalBytes,
+      graveyardBytes
+    };
+  }
+
+  /**
+   * Permanently deletes the entries the policy selects
+   * @param policy - Retention limits to apply
+   * @param confirmedPaths - When given, only these graveyard paths are deleted,
+   *   so nothing beyond what the user confirmed is ever removed
+   * @returns How many entries were deleted and the bytes freed
+   */
+  async reap(policy: RetentionPolicy, confirmedPaths?: string[]): Promise<ReapResult> {
+    const confirmed = confirmedPaths ? new Set(confirmedPaths) : undefined;
+    const { candidates } = await this.select(policy, new Date());
+    const freed = createFreedCounter();
+    const errors: Array<{ path: string; error: string }> = [];
+    let purgedCount = 0;
+    let bytesFreed = 0;
+
+    for (const { candidate, holding } of candidates) {
+      if (confirmed && !confirmed.has(candidate.graveyardPath)) continue;
+
+      try {
+        await this.graveyard.destroy(candidate.graveyardPath);
+        await this.graveyardLog.appendEntry({
+          timestamp: new Date().toISOString(),
+          action: ActionType.Purge,
+          filePath: candidate.originalPath,
+          originalPath: candidate.originalPath,
+          graveyardPath: candidate.graveyardPath,
+          fileSize: holding.size
+        });
+
+        purgedCount++;
+        bytesFreed += freed(holding);
+      } catch (err) {
+        errors.push({
+          path: candidate.graveyardPath,
+          error: err instanceof Error ? err.message : 'Unknown error'
+        });
+      }
+    }
+
+    return { success: errors.length === 0, purgedCount, bytesFreed, errors };
+  }
+
+  /**
+   * Picks the entries the policy deletes, each with the holding it came from
+   */
+  private async select(policy: RetentionPolicy, now: Date): Promise<{
+    candidates: SelectedHolding[];
+    totalBytes: number;
+    graveyardBytes: number;
+  }> {
+    const holdings = await this.getHoldings();
+    // Every blob counts once, however many entries share it
+    const blobs = new Map(holdings.filter(holding => holding.blob).map(holding => [holding.blob!.sha256, holding.blob!.size]));
+    const graveyardBytes = holdings.reduce((total, holding) => total + (holding.blob ? 0 : holding.size), 0) +
+      [...blobs.values()].reduce((total, size) => total + size, 0);
+    const freed = createFreedCounter();
+    const candidates: SelectedHolding[] = [];
+    let remainingBytes = graveyardBytes;
+
+    for (const holding of holdings) {
+      const age = now.getTime() - new Date(holding.banishedAt).getTime();
+      let reason: ReapCandidate['reason'] | undefined;
+
+      if (policy.maxAgeDays !== null && age > policy.maxAgeDays * DAY_MS) {
+        reason = 'age';
+      } else if (policy.maxTotalBytes !== null && remainingBytes > policy.maxTotalBytes) {
+        reason = 'size';
+      }
+
+      if (reason) {
+        const size = freed(holding);
+        candidates.push({
+          candidate: {
+            graveyardPath: holding.graveyardPath,
+            originalPath: holding.originalPath,
+            banishedAt: holding.banishedAt,
+            size,
+            reason
+          },
+          holding
+        });
+        remainingBytes -= size;
+      }
+    }
+
+    return {
+      candidates,
+      totalBytes: graveyardBytes - remainingBytes,
+      graveyardBytes
+    };
+  }
+
+  /**
+   * Lists what is in the graveyard now, oldest first
+   * Manifest entries come first-hand; entries banished before the manifest
+   * existed are taken from the log, as long as their files are still there.
+   */
+  private async getHoldings(): Promise<GraveyardHolding[]> {
+    const byPath = new Map<string, Omit<GraveyardHolding, 'size'>>();
+
+    // The latest action for a path decides whether it is still held
+    const logHoldings = getLogHoldings(await this.graveyardLog.getEntriesInOrder());
+    for (const [graveyardPath, entry] of logHoldings) {
+      byPath.set(graveyardPath, {
+        graveyardPath,
+        originalPath: entry.originalPath || entry.filePath,
+        banishedAt: entry.timestamp
+      });
+    }
+
+    for (const entry of await this.graveyard.manifest.getEntries()) {
+      byPath.set(entry.graveyardPath, {
+        graveyardPath: entry.graveyardPath,
+        originalPath: entry.originalPath,
+        banishedAt: entry.banishedAt
+      });
+    }
+
+    const holdings: GraveyardHolding[] = [];
+    for (const holding of byPath.values()) {
+      try {
+        // What the entry takes on disk, which is less than its original size when compressed
+        const { storedSize, blob } = await this.graveyard.stat(holding.graveyardPath);
+        holdings.push({ ...holding, size: storedSize, blob });
+      } catch {
+        // Gone from disk; nothing to reap
+      }
+    }
+
+    return holdings.sort((a, b) =>
+      new Date(a.banishedAt).getTime() - new Date(b.banishedAt).getTime()
+    );
+  }
+}
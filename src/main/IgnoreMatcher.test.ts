@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { IgnoreMatcher, IGNORE_FILE_NAME } from './IgnoreMatcher';
+import { FileScanner } from './FileScanner';
+import { SwiftPurgeScanner } from './SwiftPurgeScanner';
+import { runScanTask, DirectoryListing } from './scanTasks';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+describe('IgnoreMatcher', () => {
+  const root = join(tmpdir(), 'ignore-root');
+
+  it('matches unanchored patterns at any depth', () => {
+    const matcher = IgnoreMatcher.create(root, ['*.log', 'node_modules/']);
+
+    expect(matcher.ignores(join(root, 'debug.log'), false)).toBe(true);
+    expect(matcher.ignores(join(root, 'a', 'b', 'trace.log'), false)).toBe(true);
+    expect(matcher.ignores(join(root, 'pkg', 'node_modules'), true)).toBe(true);
+    expect(matcher.ignores(join(root, 'notes.txt'), false)).toBe(false);
+  });
+
+  it('only applies directory patterns to directories', () => {
+    const matcher = IgnoreMatcher.create(root, ['build/']);
+
+    expect(matcher.ignores(join(root, 'build'), true)).toBe(true);
+    expect(matcher.ignores(join(root, 'build'), false)).toBe(false);
+  });
+
+  it('anchors patterns containing a slash to their base directory', () => {
+    const matcher = IgnoreMatcher.create(root, ['/cache', 'docs/*.tmp']);
+
+    expect(matcher.ignores(join(root, 'cache'), true)).toBe(true);
+    expect(matcher.ignores(join(root, 'sub', 'cache'), true)).toBe(false);
+    expect(matcher.ignores(join(root, 'docs', 'a.tmp'), false)).toBe(true);
+    expect(matcher.ignores(join(root, 'docs', 'deep', 'a.tmp'), false)).toBe(false);
+  });
+
+  it('supports double-star segments', () => {
+    const matcher = IgnoreMatcher.create(root, ['**/tmp/**', 'logs/**/*.gz']);
+
+    expect(matcher.ignores(join(root, 'x', 'tmp', 'file'), false)).toBe(true);
+    expect(matcher.ignores(join(root, 'logs', 'a.gz'), false)).toBe(true);
+    expect(matcher.ignores(join(root, 'logs', 'y', 'z', 'a.gz'), false)).toBe(true);
+  });
+
+  it('lets later negations re-include paths', () => {
+    const matcher = IgnoreMatcher.create(root, ['*.iso', '!keep.iso']);
+
+    expect(matcher.ignores(join(root, 'big.iso'), false)).toBe(true);
+    expect(matcher.ignores(join(root, 'keep.iso'), false)).toBe(false);
+  });
+
+  it('ignores blank lines and comments', () => {
+    const matcher = IgnoreMatcher.create(root).withRules(root, '\n# comment\n   \n\\#literal\n');
+
+    expect(matcher.size).toBe(1);
+    expect(matcher.ignores(join(root, '#literal'), false)).toBe(true);
+  });
+
+  it('lets nested ignore files override their parents', () => {
+    const sub = join(root, 'sub');
+    const matcher = IgnoreMatcher.create(root, ['*.bak']).withRules(sub, '!important.bak');
+
+    expect(matcher.ignores(join(root, 'important.bak'), false)).toBe(true);
+    expect(matcher.ignores(join(sub, 'important.bak'), false)).toBe(false);
+    expect(matcher.ignores(join(sub, 'other.bak'), false)).toBe(true);
+  });
+
+  /**
+   * **Feature: scan-ignore-rules, Property 1: Literal names match themselves**
+   *
+   * For any plain file name used as a pattern, the matcher should ignore
+   * that name at any depth and nothing with a different name.
+   */
+  it('matches literal names at any depth and nothing else', () => {
+    fc.assert(
+      fc.property(
+        fc.stringMatching(/^[a-zA-Z0-9_-]{1,12}$/),
+        fc.stringMatching(/^[a-zA-Z0-9_-]{1,12}$/),
+        fc.array(fc.stringMatching(/^[a-zA-Z0-9_-]{1,8}$/), { maxLength: 3 }),
+        (name, other, dirs) => {
+          const matcher = IgnoreMatcher.create(root, [name]);
+
+          expect(matcher.ignores(join(root, ...dirs, name), false)).toBe(true);
+          if (other !== name) {
+            expect(matcher.ignores(join(root, ...dirs, other), false)).toBe(false);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Scanner ignore rules', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `digital-exorcist-ignore-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+    await fs.mkdir(join(testDir, '.git', 'objects'), { recursive: true });
+    await fs.mkdir(join(testDir, 'src', 'node_modules', 'dep'), { recursive: true });
+    await fs.mkdir(join(testDir, 'media'), { recursive: true });
+
+    await fs.writeFile(join(testDir, '.git', 'objects', 'abc'), 'blob');
+    await fs.writeFile(join(testDir, 'src', 'node_modules', 'dep', 'index.js'), 'module');
+    await fs.writeFile(join(testDir, 'src', 'main.ts'), 'code');
+    await fs.writeFile(join(testDir, 'media', 'clip.tmp'), 'temp');
+    await fs.writeFile(join(testDir, 'media', 'keep.tmp'), 'temp');
+    await fs.writeFile(join(testDir, 'media', IGNORE_FILE_NAME), '*.tmp\n!keep.tmp\n');
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('never stats entries the rules ignore', async () => {
+    const stat = vi.spyOn(fs, 'stat');
+    const rules = IgnoreMatcher.create(testDir, ['.git/']).getRules();
+
+    const root = await runScanTask({ type: 'readDirectory', dirPath: testDir, ignoreRules: rules }) as DirectoryListing;
+    const media = await runScanTask({ type: 'readDirectory', dirPath: join(testDir, 'media'), ignoreRules: rules }) as DirectoryListing;
+
+    expect(root.entries.find(entry => entry.name === '.git')).toMatchObject({ kind: 'directory', ignored: true });
+    expect(media.entries.find(entry => entry.name === 'clip.tmp')).toEqual({ name: 'clip.tmp', kind: 'file', ignored: true });
+    expect(media.entries.find(entry => entry.name === 'keep.tmp')).toMatchObject({ kind: 'file', size: 4 });
+    expect(stat.mock.calls.map(([path]) => path)).toContain(join(testDir, 'media', 'keep.tmp'));
+    expect(stat.mock.calls.map(([path]) => path)).not.toContain(join(testDir, 'media', 'clip.tmp'));
+  });
+
+  it('FileScanner prunes ignored trees and reports the pruned count', async () => {
+    const scanner = new FileScanner({ ignorePatterns: ['.git/', 'node_modules/'] });
+    const results = await scanner.scanDirectory(testDir);
+    const paths = results.map(r => r.path).sort();
+
+    expect(paths).toEqual([
+      join(testDir, 'media', IGNORE_FILE_NAME),
+      join(testDir, 'media', 'keep.tmp'),
+      join(testDir, 'src', 'main.ts')
+    ].sort());
+    expect(scanner.getPrunedCount()).toBe(3);
+  });
+
+  it('SwiftPurgeScanner honors the same rules', async () => {
+    const scanner = new SwiftPurgeScanner(new Set(), { ignorePatterns: ['.git/', 'node_modules/'] });
+    const result = await scanner.scan(testDir);
+
+    expect(result.totalFilesScanned).toBe(3);
+    expect(result.prunedCount).toBe(3);
+  });
+});
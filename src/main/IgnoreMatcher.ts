@@ -0,0 +1,239 @@
+import { promises as fs } from 'fs';
+import { join, relative, sep } from 'path';
+
+/**
+ * Name of the per-directory ignore file honored by the scanners
+ */
+export const IGNORE_FILE_NAME = '.exorcistignore';
+
+/**
+ * A single compiled ignore rule
+ * Rules are plain data, so they can be posted to a scan worker.
+ */
+export interface IgnoreRule {
+  /** Directory the rule is relative to */
+  baseDir: string;
+  /** Compiled pattern, tested against the path relative to baseDir */
+  regex: RegExp;
+  /** Rule re-includes paths matched by earlier rules ("!pattern") */
+  negated: boolean;
+  /** Rule only matches directories ("pattern/") */
+  directoryOnly: boolean;
+}
+
+/**
+ * Converts a gitignore-style glob into a regular expression source.
+ * Supports `*`, `?`, `**`, character classes and backslash escapes.
+ */
+export function globToRegExpSource(glob: string): string {
+  let source = '';
+  let i = 0;
+
+  while (i < glob.length) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const atSegmentStart = i === 0 || glob[i - 1] === '/';
+        const atSegmentEnd = i + 2 === glob.length || glob[i + 2] === '/';
+
+        if (atSegmentStart && atSegmentEnd) {
+          if (i + 2 === glob.length) {
+            // Trailing "**" matches everything below
+            source += '.*';
+            i += 2;
+          } else {
+            // "**/" matches zero or more directories
+            source += '(?:.*/)?';
+            i += 3;
+          }
+          continue;
+        }
+      }
+      source += '[^/]*';
+      i++;
+    } else if (char === '?') {
+      source += '[^/]';
+      i++;
+    } else if (char === '[') {
+      const close = glob.indexOf(']', i + 2);
+      if (close === -1) {
+        source += '\\[';
+        i++;
+        continue;
+      }
+      let body = glob.slice(i + 1, close);
+      if (body.startsWith('!')) {
+        body = '^' + body.slice(1);
+      }
+      source += `[${body.replace(/\\/g, '\\\\')}]`;
+      i = close + 1;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += escapeRegExp(glob[i + 1]);
+      i += 2;
+    } else {
+      source += escapeRegExp(char);
+      i++;
+    }
+  }
+
+  return source;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Compiles one line of an ignore file into a rule
+ * @returns The rule, or null for blank lines and comments
+ */
+export function parseIgnoreLine(line: string, baseDir: string): IgnoreRule | null {
+  // Trailing whitespace is ignored unless escaped
+  let pattern = line.replace(/(?<!\\)\s+$/, '');
+
+  if (pattern === '' || pattern.startsWith('#')) {
+    return null;
+  }
+
+  let negated = false;
+  if (pattern.startsWith('!')) {
+    negated = true;
+    pattern = pattern.slice(1);
+  } else if (pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+    pattern = pattern.slice(1);
+  }
+
+  let directoryOnly = false;
+  if (pattern.endsWith('/')) {
+    directoryOnly = true;
+    pattern = pattern.slice(0, -1);
+  }
+
+  if (pattern === '') {
+    return null;
+  }
+
+  // A slash anywhere but the end anchors the pattern to its ignore file
+  const anchored = pattern.includes('/');
+  if (pattern.startsWith('/')) {
+    pattern = pattern.slice(1);
+  }
+
+  const prefix = anchored ? '^' : '^(?:.*/)?';
+  const regex = new RegExp(`${prefix}${globToRegExpSource(pattern)}$`);
+
+  return { baseDir, regex, negated, directoryOnly };
+}
+
+/**
+ * IgnoreMatcher - gitignore-style path exclusion shared by the scanners
+ *
+ * A matcher holds the global patterns from settings plus every
+ * `.exorcistignore` found between the scan root and the current directory.
+ * Rules from deeper files are evaluated after shallower ones, and the last
+ * matching rule wins, so nested files can re-include paths with `!pattern`.
+ */
+export class IgnoreMatcher {
+  private readonly rules: IgnoreRule[];
+
+  private constructor(rules: IgnoreRule[]) {
+    this.rules = rules;
+  }
+
+  /**
+   * Creates a matcher for a scan root from global patterns
+   * @param rootDir - The scan root the global patterns are relative to
+   * @param globalPatterns - Patterns from the global ignore list in settings
+   */
+  static create(rootDir: string, globalPatterns: string[] = []): IgnoreMatcher {
+    const rules = globalPatterns
+      .map(pattern => parseIgnoreLine(pattern, rootDir))
+      .filter((rule): rule is IgnoreRule => rule !== null);
+    return new IgnoreMatcher(rules);
+  }
+
+  /**
+   * Recreates a matcher from the rules of another one
+   * @param rules - Rules from getRules(), e.g. after being posted to a worker
+   */
+  static fromRules(rules: IgnoreRule[]): IgnoreMatcher {
+    return new IgnoreMatcher(rules);
+  }
+
+  /**
+   * Gets the rules in effect, in evaluation order
+   */
+  getRules(): IgnoreRule[] {
+    return this.rules;
+  }
+
+  /**
+   * Returns a matcher extended with the rules of an ignore file's contents
+   * @param dirPath - The directory containing the ignore file
+   * @param content - Raw ignore file contents
+   */
+  withRules(dirPath: string, content: string): IgnoreMatcher {
+    const added = content
+      .split(/\r?\n/)
+      .map(line => parseIgnoreLine(line, dirPath))
+      .filter((rule): rule is IgnoreRule => rule !== null);
+
+    if (added.length === 0) {
+      return this;
+    }
+    return new IgnoreMatcher([...this.rules, ...added]);
+  }
+
+  /**
+   * Returns a matcher extended with the `.exorcistignore` of a directory, if any
+   * @param dirPath - The directory about to be read
+   */
+  async forDirectory(dirPath: string): Promise<IgnoreMatcher> {
+    try {
+      const content = await fs.readFile(join(dirPath, IGNORE_FILE_NAME), 'utf-8');
+      return this.withRules(dirPath, content);
+    } catch {
+      // No ignore file in this directory
+      return this;
+    }
+  }
+
+  /**
+   * Checks whether a path is excluded
+   * @param fullPath - Absolute path of the entry
+   * @param isDirectory - Whether the entry is a directory
+   * @returns True if the path should be pruned from the scan
+   */
+  ignores(fullPath: string, isDirectory: boolean): boolean {
+    let ignored = false;
+
+    for (const rule of this.rules) {
+      if (rule.directoryOnly && !isDirectory) {
+        continue;
+      }
+      if (rule.negated !== ignored) {
+        // This rule cannot change the outcome
+        continue;
+      }
+
+      const relativePath = relative(rule.baseDir, fullPath).split(sep).join('/');
+      if (relativePath === '' || relativePath.startsWith('../') || relativePath === '..') {
+        continue;
+      }
+
+      if (rule.regex.test(relativePath)) {
+        ignored = !rule.negated;
+      }
+    }
+
+    return ignored;
+  }
+
+  /**
+   * Number of rules currently in effect
+   */
+  get size(): number {
+    return this.rules.length;
+  }
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { GraveyardLog } from './GraveyardLog';
+import { LogSigner, verifySignedLogExport } from './LogIntegrity';
+import { GraveyardAuditor } from './GraveyardAudit';
+import { Graveyard } from './Graveyard';
+import { ActionType, LogEntry } from '../shared/types';
+
+describe('Log integrity', () => {
+  let testDir: string;
+  let logPath: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `digital-exorcist-integrity-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+    logPath = join(testDir, '.digital-exorcist', 'graveyard-log.jsonl');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  function entry(name: string, action: ActionType = ActionType.Banish): LogEntry {
+    return { timestamp: new Date().toISOString(), action, filePath: `/test/${name}`, fileSize: 10 };
+  }
+
+  async function editLines(edit: (lines: string[]) => string[]): Promise<void> {
+    const lines = (await fs.readFile(logPath, 'utf-8')).split('\n').filter(Boolean);
+    await fs.writeFile(logPath, edit(lines).map(line => `${line}\n`).join(''));
+  }
+
+  it('chains entries once turned on and reports the first broken link', async () => {
+    const log = new GraveyardLog(testDir);
+    await log.appendEntry(entry('before.txt'));
+    expect((await log.verifyChain()).status).toBe('unchained');
+
+    log.setHashChain(true);
+    // A second instance appending in between stays on the same chain
+    const other = new GraveyardLog(testDir);
+    other.setHashChain(true);
+    await log.appendEntry(entry('a.txt'));
+    await other.appendEntry(entry('b.txt'));
+    await log.appendEntry(entry('c.txt', ActionType.Restore));
+    expect(await log.verifyChain()).toMatchObject({ status: 'verified', entryCount: 4, chainedCount: 3 });
+
+    await editLines(lines => lines.map(line => line.replace('/test/b.txt', '/test/innocent.txt')));
+    expect(await new GraveyardLog(testDir).verifyChain()).toMatchObject({
+      status: 'broken',
+      chainedCount: 1,
+      firstBreak: { index: 2, filePath: '/test/innocent.txt', reason: 'hash-mismatch' }
+    });
+
+    await editLines(lines => lines.filter(line => !line.includes('/test/innocent.txt')));
+    expect((await new GraveyardLog(testDir).verifyChain()).firstBreak).toMatchObject({ index: 2, filePath: '/test/c.txt', reason: 'link-mismatch' });
+  });
+
+  it('keeps the hashes before the first dropped entry and logs the compaction', async () => {
+    const log = new GraveyardLog(testDir);
+    log.setHashChain(true);
+    for (const name of ['a.txt', 'b.txt', 'c.txt']) {
+      await log.appendEntry(entry(name));
+    }
+    const before = await log.getEntriesInOrder();
+    const { headHash } = await log.verifyChain();
+
+    expect(await log.compact(() => new Set([1]))).toBe(1);
+    const after = await log.getEntriesInOrder();
+    expect(after.map(kept => kept.action)).toEqual([ActionType.Banish, ActionType.Banish, ActionType.Compact]);
+    expect(after[0].hash).toBe(before[0].hash);
+    expect(after[1].filePath).toBe('/test/c.txt');
+    expect(after[2]).toMatchObject({ droppedSequences: [1], previousHeadHash: headHash });
+    expect(await log.verifyChain()).toMatchObject({ status: 'verified', chainedCount: 3 });
+
+    log.setHashChain(false);
+    await log.appendEntry(entry('unchained.txt'));
+    expect((await log.verifyChain()).firstBreak).toMatchObject({ index: 3, reason: 'unchained' });
+  });
+
+  it('refuses to compact a log whose chain is broken', async () => {
+    const log = new GraveyardLog(testDir);
+    log.setHashChain(true);
+    const restore: LogEntry = { ...entry('a.txt', ActionType.Restore), graveyardPath: '/graveyard/a.txt' };
+    await log.appendEntry({ ...entry('a.txt'), graveyardPath: '/graveyard/a.txt' });
+    await log.appendEntry(restore);
+    // Restored again without being banished again, which compaction drops
+    await log.appendEntry(restore);
+    await editLines(lines => lines.map(line => line.replace('"fileSize":10', '"fileSize":1')));
+
+    const auditor = new GraveyardAuditor(log, new Graveyard(testDir), testDir);
+    const result = await auditor.repair('compact-log');
+
+    expect(result).toMatchObject({ success: false, repairedCount: 0 });
+    expect(result.errors[0].error).toContain('hash chain is broken');
+    expect(await new GraveyardLog(testDir).getEntriesInOrder()).toHaveLength(3);
+    expect((await new GraveyardLog(testDir).verifyChain()).status).toBe('broken');
+  });
+
+  it('signs exports so that changing them is detected', async () => {
+    const log = new GraveyardLog(testDir);
+    log.setHashChain(true);
+    await log.appendEntry(entry('a.txt'));
+    await log.appendEntry(entry('b.txt'));
+    const signer = new LogSigner(testDir);
+
+    const signed = JSON.parse(JSON.stringify(await signer.createExport(await log.getEntriesInOrder())));
+    const checked = verifySignedLogExport(signed);
+    expect(checked.signatureValid).toBe(true);
+    expect(checked.verification.status).toBe('verified');
+    expect(checked.keyFingerprint).toBe(await new LogSigner(testDir).getKeyFingerprint());
+    expect((await fs.stat(join(testDir, '.digital-exorcist', 'log-signing-key.pem'))).mode & 0o077).toBe(0);
+
+    // Dropping the last entry keeps the chain intact, but not the signature
+    expect(verifySignedLogExport({ ...signed, entries: signed.entries.slice(0, 1) }).signatureValid).toBe(false);
+    expect(verifySignedLogExport({ ...signed, verification: { ...signed.verification, chainedCount: 99 } }).signatureValid).toBe(false);
+  });
+});
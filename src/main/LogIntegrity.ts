@@ -0,0 +1,226 @@
+import { promises as fs } from 'fs';
+import { join, dirname } from 'path';
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify, KeyObject } from 'crypto';
+import { LogEntry, LogChainVerification, LogChainBreak, SignedLogExport } from '../shared/types';
+
+/** What the first chained entry links to when nothing was logged before it */
+export const LOG_CHAIN_GENESIS = '0'.repeat(64);
+
+const PRIVATE_KEY_FILE = 'log-signing-key.pem';
+
+/**
+ * Serializes a value as JSON with object keys sorted and undefined fields left out
+ * Hashes and signatures are taken over this, so reformatting a log line or
+ * an export does not change them.
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const fields = Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Hashes a log entry: SHA-256 over its canonical JSON, prevHash included, hash left out
+ * @param entry - Entry to hash
+ * @returns Hex digest
+ */
+export function hashLogEntry(entry: LogEntry): string {
+  const fields: Partial<LogEntry> = { ...entry };
+  delete fields.hash;
+  return createHash('sha256').update(canonicalJson(fields)).digest('hex');
+}
+
+/**
+ * Gets the hash the entry after this one links to
+ * Entries logged before the chain was turned on are hashed as they are.
+ */
+function linkHash(previous: LogEntry | undefined): string {
+  if (!previous) return LOG_CHAIN_GENESIS;
+  return previous.hash ?? hashLogEntry(previous);
+}
+
+/**
+ * Strips chain fields an entry may carry over, e.g. when copied from another entry
+ * @param entry - Entry about to be logged
+ * @returns The entry without prevHash and hash
+ */
+export function unchainEntry(entry: LogEntry): LogEntry {
+  const fields = { ...entry };
+  delete fields.prevHash;
+  delete fields.hash;
+  return fields;
+}
+
+/**
+ * Links an entry to the one logged before it
+ * @param entry - Entry about to be logged
+ * @param previous - Last entry in the log, if any
+ * @returns The entry with prevHash and hash set
+ */
+export function chainEntry(entry: LogEntry, previous: LogEntry | undefined): LogEntry {
+  const chained: LogEntry = { ...unchainEntry(entry), prevHash: linkHash(previous) };
+  chained.hash = hashLogEntry(chained);
+  return chained;
+}
+
+/**
+ * Checks the hash chain of a log
+ * Once the chain has started, every entry must hash to its stored hash and
+ * link to the entry before it. Checking stops at the first entry that does
+ * not. Entries cut off the end of the log leave no break; a signed export
+ * records the head hash to catch that.
+ * @param entries - Entries in logged order
+ * @returns Whether the chain holds and, if not, where it first breaks
+ */
+export function verifyLogChain(entries: LogEntry[]): LogChainVerification {
+  let previous: LogEntry | undefined;
+  let chainedCount = 0;
+  let headHash: string | undefined;
+
+  const broken = (index: number, reason: LogChainBreak['reason'], detail: string): LogChainVerification => ({
+    status: 'broken',
+    entryCount: entries.length,
+    chainedCount,
+    headHash,
+    firstBreak: { index, timestamp: entries[index].timestamp, filePath: entries[index].filePath, reason, detail }
+  });
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.hash === undefined && entry.prevHash === undefined) {
+      if (chainedCount > 0) {
+        return broken(i, 'unchained', 'Logged after the chain started, but carries no hashes');
+      }
+      previous = entry;
+      continue;
+    }
+
+    if (entry.hash !== hashLogEntry(entry)) {
+      return broken(i, 'hash-mismatch', 'Changed after it was logged');
+    }
+    if (entry.prevHash !== linkHash(previous)) {
+      return broken(i, 'link-mismatch', 'Does not link to the entry before it; entries were removed, inserted or reordered');
+    }
+
+    chainedCount++;
+    headHash = entry.hash;
+    previous = entry;
+  }
+
+  return { status: chainedCount > 0 ? 'verified' : 'unchained', entryCount: entries.length, chainedCount, headHash };
+}
+
+/**
+ * Computes the fingerprint shown for a public key
+ * @param publicKey - Key to fingerprint
+ * @returns SHA-256 of the DER-encoded key, in hex
+ */
+export function keyFingerprint(publicKey: KeyObject): string {
+  return createHash('sha256').update(publicKey.export({ type: 'spki', format: 'der' })).digest('hex');
+}
+
+/**
+ * Checks a signed log export: its signature, and the hash chain of its entries
+ * @param data - Parsed export file
+ * @returns Whether the signature is valid, the chain verification and the key fingerprint
+ */
+export function verifySignedLogExport(data: SignedLogExport): {
+  signatureValid: boolean;
+  verification: LogChainVerification;
+  keyFingerprint?: string;
+} {
+  const verification = verifyLogChain(Array.isArray(data?.entries) ? data.entries : []);
+  try {
+    const { signature, ...payload } = data;
+    const publicKey = createPublicKey(data.publicKey);
+    const signatureValid = data.algorithm === 'ed25519' &&
+      verify(null, Buffer.from(canonicalJson(payload), 'utf-8'), publicKey, Buffer.from(signature, 'base64'));
+    return { signatureValid, verification, keyFingerprint: keyFingerprint(publicKey) };
+  } catch {
+    return { signatureValid: false, verification };
+  }
+}
+
+/**
+ * LogSigner - Signs log exports with the app's Ed25519 key
+ *
+ * The private key is created on first use in .digital-exorcist/log-signing-key.pem,
+ * readable by the owner only. Whoever checks an export compares the key
+ * fingerprint against the one this app reports, since the export carries
+ * its own public key.
+ */
+export class LogSigner {
+  private readonly keyPath: string;
+  private privateKey?: KeyObject;
+
+  /**
+   * @param baseDir - Data root holding .digital-exorcist
+   */
+  constructor(baseDir: string = '.') {
+    this.keyPath = join(baseDir, '.digital-exorcist', PRIVATE_KEY_FILE);
+  }
+
+  /**
+   * Builds a signed export of the log
+   * @param entries - Entries in logged order
+   * @returns The export, ready to be written as JSON
+   */
+  async createExport(entries: LogEntry[]): Promise<SignedLogExport> {
+    const privateKey = await this.loadKey();
+    const payload: Omit<SignedLogExport, 'signature'> = {
+      format: 'digital-exorcist-log',
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      entries,
+      verification: verifyLogChain(entries),
+      algorithm: 'ed25519',
+      publicKey: createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString()
+    };
+    const signature = sign(null, Buffer.from(canonicalJson(payload), 'utf-8'), privateKey).toString('base64');
+    return { ...payload, signature };
+  }
+
+  /**
+   * Gets the fingerprint of the signing key, creating the key if needed
+   * @returns SHA-256 of the public key, in hex
+   */
+  async getKeyFingerprint(): Promise<string> {
+    return keyFingerprint(createPublicKey(await this.loadKey()));
+  }
+
+  /**
+   * Reads the private key, creating it if there is none yet
+   */
+  private async loadKey(): Promise<KeyObject> {
+    if (this.privateKey) return this.privateKey;
+
+    try {
+      this.privateKey = createPrivateKey(await fs.readFile(this.keyPath, 'utf-8'));
+      return this.privateKey;
+    } catch (err) {
+      if (!(err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT')) throw err;
+    }
+
+    const { privateKey } = generateKeyPairSync('ed25519');
+    const pem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+    await fs.mkdir(dirname(this.keyPath), { recursive: true });
+    try {
+      await fs.writeFile(this.keyPath, pem, { encoding: 'utf-8', flag: 'wx', mode: 0o600 });
+      this.privateKey = privateKey;
+    } catch (err) {
+      // Another process created one first; use that
+      if (!(err && typeof err === 'object' && 'code' in err && err.code === 'EEXIST')) throw err;
+      this.privateKey = createPrivateKey(await fs.readFile(this.keyPath, 'utf-8'));
+    }
+    return this.privateKey;
+  }
+}
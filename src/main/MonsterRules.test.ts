@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { compileMonsterRules, MonsterRulesManager } from './MonsterRules';
+import { ClassificationEngine } from './ClassificationEngine';
+import { FileScanResult, MonsterType, DEFAULT_CLASSIFICATION_CONFIG } from '../shared/types';
+
+describe('MonsterRules', () => {
+  const now = new Date('2025-06-01T00:00:00Z');
+  const recent = new Date('2025-05-31T00:00:00Z');
+  const screenshot = { type: 'screenshot', label: 'Screenshot Swarm', color: '#38bdf8', icon: '📸' };
+
+  const file = (path: string, size = 1000, lastModified = recent): FileScanResult => ({ path, size, lastModified });
+
+  it('matches on path glob, extension, size, age and MIME type', () => {
+    const { rules, errors } = compileMonsterRules({
+      monsters: [screenshot, { type: 'bloat' }],
+      rules: [
+        { monster: 'screenshot', match: { pathGlob: 'Screenshot*', mimeTypes: ['image/*'] } },
+        { monster: 'bloat', match: { pathGlob: 'home/*/Downloads/**', extensions: ['DMG'], minSizeBytes: 500, maxAgeDays: 7 } }
+      ]
+    });
+
+    expect(errors).toEqual([]);
+    expect(rules.evaluate(file('/home/u/Desktop/Screenshot 1.png'), false, now)).toEqual([screenshot]);
+    expect(rules.evaluate(file('/home/u/Desktop/Screenshot 1.txt'), false, now)).toEqual([]);
+    expect(rules.evaluate(file('/home/u/Downloads/a/tool.dmg'), false, now)).toEqual([
+      { type: 'bloat', label: 'bloat', color: undefined, icon: undefined, description: undefined }
+    ]);
+    expect(rules.evaluate(file('/home/u/Downloads/tool.dmg', 100), false, now)).toEqual([]);
+    expect(rules.evaluate(file('/home/u/Downloads/tool.dmg', 1000, new Date('2025-01-01')), false, now)).toEqual([]);
+    expect(rules.evaluate(file('C:\\home\\u\\Downloads\\tool.dmg'), false, now)).toEqual([]);
+  });
+
+  it('skips invalid monsters and rules and reports them', () => {
+    const { rules, errors } = compileMonsterRules({
+      monsters: [{ type: 'Ghost' }, { label: 'no type' }, screenshot, screenshot],
+      rules: [
+        { monster: 'missing', match: {} },
+        { monster: 'screenshot' },
+        { monster: 'screenshot', match: { minSizeBytes: -1 } },
+        { monster: 'screenshot', match: { extensions: '.png' } },
+        { monster: 'screenshot', match: { duplicate: 'yes' } },
+        { monster: 'screenshot', match: { extensions: ['png'] } }
+      ]
+    });
+
+    expect(errors).toHaveLength(8);
+    expect(rules.size).toBe(1);
+    expect(rules.evaluate(file('/shot.PNG'), false, now)).toEqual([screenshot]);
+    expect(compileMonsterRules('not a rule set').errors).toEqual([]);
+  });
+
+  it('lets the engine report custom-only matches and duplicate rules', () => {
+    const { rules } = compileMonsterRules({
+      monsters: [screenshot, { type: 'echo', label: 'Echo' }],
+      rules: [
+        { monster: 'screenshot', match: { extensions: ['.png'] } },
+        { monster: 'echo', match: { duplicate: true } }
+      ]
+    });
+    const engine = new ClassificationEngine(DEFAULT_CLASSIFICATION_CONFIG, rules);
+
+    const classified = engine.classify([
+      { path: '/shot.png', size: 10, lastModified: recent },
+      { path: '/a.txt', size: 10, lastModified: recent, hash: 'h' },
+      { path: '/copy/a.txt', size: 10, lastModified: recent, hash: 'h' },
+      { path: '/plain.txt', size: 10, lastModified: recent }
+    ], new Set(), now);
+
+    expect(classified.map(f => f.path)).toEqual(['/shot.png', '/copy/a.txt']);
+    expect(classified[0]).toMatchObject({ classifications: [], primaryClassification: undefined });
+    expect(classified[0].customClassifications).toEqual([screenshot]);
+    expect(classified[1].classifications).toEqual([MonsterType.Zombie]);
+    expect(classified[1].customClassifications?.map(m => m.type)).toEqual(['echo']);
+  });
+
+  it('matches path globs relative to the scan root', () => {
+    const { rules } = compileMonsterRules({
+      monsters: [screenshot],
+      rules: [{ monster: 'screenshot', match: { pathGlob: '/captures/**/*.png' } }]
+    });
+    const root = join(tmpdir(), 'scan-root');
+
+    expect(rules.evaluate(file(join(root, 'captures', '2025', 'a.png')), false, now, root)).toEqual([screenshot]);
+    expect(rules.evaluate(file(join(root, 'other', 'captures', 'a.png')), false, now, root)).toEqual([]);
+    expect(rules.evaluate(file(join(tmpdir(), 'captures', 'a.png')), false, now, root)).toEqual([]);
+
+    const engine = new ClassificationEngine(DEFAULT_CLASSIFICATION_CONFIG, rules);
+    const classified = engine.classify([file(join(root, 'captures', 'b.png'))], new Set(), now, root);
+    expect(classified[0]?.customClassifications).toEqual([screenshot]);
+  });
+
+  /**
+   * **Feature: monster-rules, Property 1: Empty rules change nothing**
+   *
+   * For any files, an engine without custom rules classifies exactly like an
+   * engine with an empty rule set and never adds customClassifications.
+   */
+  it('adds no custom classifications without rules', () => {
+    const withEmpty = new ClassificationEngine(DEFAULT_CLASSIFICATION_CONFIG, compileMonsterRules({}).rules);
+    const plain = new ClassificationEngine();
+
+    fc.assert(
+      fc.property(
+        fc.array(
+          fc.record({
+            path: fc.string({ minLength: 1 }),
+            size: fc.nat({ max: 2000 }),
+            lastModified: fc.date({ min: new Date('2015-01-01'), max: now })
+          }),
+          { maxLength: 20 }
+        ),
+        (files) => {
+          const classified = withEmpty.classify(files, new Set(), now);
+          expect(classified).toEqual(plain.classify(files, new Set(), now));
+          expect(classified.every(f => f.customClassifications === undefined)).toBe(true);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  describe('MonsterRulesManager', () => {
+    let testDir: string;
+
+    beforeEach(async () => {
+      testDir = join(tmpdir(), `digital-exorcist-rules-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+      await fs.mkdir(testDir, { recursive: true });
+    });
+
+    afterEach(async () => {
+      await fs.rm(testDir, { recursive: true, force: true });
+    });
+
+    it('creates an empty rules file and disables rules when the file is malformed', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const manager = new MonsterRulesManager(testDir);
+      const rulesPath = join(testDir, '.digital-exorcist', 'monster-rules.json');
+
+      await manager.load();
+      expect(JSON.parse(await fs.readFile(rulesPath, 'utf-8'))).toEqual({ monsters: [], rules: [] });
+      expect(manager.getRules().size).toBe(0);
+
+      await fs.writeFile(rulesPath, JSON.stringify({
+        monsters: [screenshot],
+        rules: [{ monster: 'screenshot', match: { extensions: ['.png'] } }]
+      }));
+      await manager.load();
+      expect(manager.getRules().size).toBe(1);
+
+      await fs.writeFile(rulesPath, '{ broken');
+      await manager.load();
+      expect(manager.getRules().size).toBe(0);
+      expect(manager.getErrors()).toHaveLength(1);
+      warn.mockRestore();
+    });
+  });
+});
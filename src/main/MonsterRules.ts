@@ -0,0 +1,263 @@
+import { promises as fs } from 'fs';
+import { join, extname, basename, relative } from 'path';
+import {
+  CustomMonsterDefinition,
+  MonsterRule,
+  MonsterRuleMatch,
+  MonsterRuleSet,
+  FileScanResult
+} from '../shared/types';
+import { globToRegExpSource } from './IgnoreMatcher';
+import { mimeTypeForPath, mimeTypeMatches } from './mimeTypes';
+
+/**
+ * Built-in monster types that custom rules may not redefine
+ */
+const RESERVED_TYPES = new Set(['ghost', 'demon', 'zombie']);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A validated rule with its glob compiled
+ */
+interface CompiledRule {
+  monster: CustomMonsterDefinition;
+  match: MonsterRuleMatch;
+  pathRegex: RegExp | null;
+  /** Glob has no "/" and is tested against the file name only */
+  matchBasename: boolean;
+}
+
+/**
+ * Normalizes a path for glob matching: forward slashes, no leading slash
+ */
+function toGlobPath(filePath: string): string {
+  return filePath.replace(/\\/g, '/').replace(/^\/+/, '');
+}
+
+/**
+ * CompiledMonsterRules - Evaluates custom monster rules against files
+ */
+export class CompiledMonsterRules {
+  private readonly rules: CompiledRule[];
+
+  constructor(rules: CompiledRule[] = []) {
+    this.rules = rules;
+  }
+
+  /**
+   * Number of active rules
+   */
+  get size(): number {
+    return this.rules.length;
+  }
+
+  /**
+   * Finds the custom monster types a file matches
+   * @param file - Scanned file
+   * @param isDuplicate - Whether the file is a duplicate copy (a zombie)
+   * @param now - Reference time for age conditions
+   * @param scanRoot - Root the file was scanned under; path globs are relative to it
+   * @returns Matched monster definitions, once per type, in rule order
+   */
+  evaluate(file: FileScanResult, isDuplicate: boolean, now: Date = new Date(), scanRoot?: string): CustomMonsterDefinition[] {
+    const matched = new Map<string, CustomMonsterDefinition>();
+
+    for (const rule of this.rules) {
+      if (!matched.has(rule.monster.type) && this.matches(rule, file, isDuplicate, now, scanRoot)) {
+        matched.set(rule.monster.type, rule.monster);
+      }
+    }
+
+    return [...matched.values()];
+  }
+
+  private matches(rule: CompiledRule, file: FileScanResult, isDuplicate: boolean, now: Date, scanRoot?: string): boolean {
+    const { match } = rule;
+
+    if (rule.pathRegex) {
+      const target = rule.matchBasename
+        ? basename(file.path)
+        : toGlobPath(scanRoot ? relative(scanRoot, file.path) : file.path);
+      if (!rule.pathRegex.test(target)) return false;
+    }
+
+    if (match.extensions && !match.extensions.includes(extname(file.path).toLowerCase())) {
+      return false;
+    }
+
+    if (match.minSizeBytes !== undefined && file.size < match.minSizeBytes) return false;
+    if (match.maxSizeBytes !== undefined && file.size > match.maxSizeBytes) return false;
+
+    const ageDays = (now.getTime() - file.lastModified.getTime()) / DAY_MS;
+    if (match.minAgeDays !== undefined && ageDays < match.minAgeDays) return false;
+    if (match.maxAgeDays !== undefined && ageDays > match.maxAgeDays) return false;
+
+    if (match.mimeTypes) {
+      const mimeType = mimeTypeForPath(file.path);
+      if (!match.mimeTypes.some(pattern => mimeTypeMatches(mimeType, pattern))) return false;
+    }
+
+    if (match.duplicate !== undefined && match.duplicate !== isDuplicate) return false;
+
+    return true;
+  }
+}
+
+/**
+ * Validates a rule set and compiles it
+ * Invalid monsters and rules are skipped and reported, so one typo does not
+ * disable every rule.
+ * @param data - Parsed contents of monster-rules.json
+ * @returns The compiled rules and a list of problems found
+ */
+export function compileMonsterRules(data: unknown): { rules: CompiledMonsterRules; errors: string[] } {
+  const errors: string[] = [];
+  const source = (data && typeof data === 'object' ? data : {}) as Partial<MonsterRuleSet>;
+  const monsters = new Map<string, CustomMonsterDefinition>();
+
+  for (const [index, monster] of (Array.isArray(source.monsters) ? source.monsters : []).entries()) {
+    const type = typeof monster?.type === 'string' ? monster.type.trim() : '';
+    if (!type) {
+      errors.push(`monsters[${index}]: "type" is required`);
+      continue;
+    }
+    if (RESERVED_TYPES.has(type.toLowerCase())) {
+      errors.push(`monsters[${index}]: "${type}" is a built-in monster type`);
+      continue;
+    }
+    if (monsters.has(type)) {
+      errors.push(`monsters[${index}]: duplicate type "${type}"`);
+      continue;
+    }
+
+    monsters.set(type, {
+      type,
+      label: typeof monster.label === 'string' && monster.label.trim() ? monster.label.trim() : type,
+      color: typeof monster.color === 'string' ? monster.color : undefined,
+      icon: typeof monster.icon === 'string' ? monster.icon : undefined,
+      description: typeof monster.description === 'string' ? monster.description : undefined
+    });
+  }
+
+  const compiled: CompiledRule[] = [];
+
+  for (const [index, rule] of (Array.isArray(source.rules) ? source.rules : []).entries()) {
+    const problem = validateRule(rule, monsters);
+    if (problem) {
+      errors.push(`rules[${index}]: ${problem}`);
+      continue;
+    }
+
+    const match = normalizeMatch(rule.match);
+    const glob = match.pathGlob ? toGlobPath(match.pathGlob) : null;
+    compiled.push({
+      monster: monsters.get(rule.monster)!,
+      match,
+      pathRegex: glob ? new RegExp(`^${globToRegExpSource(glob)}$`) : null,
+      matchBasename: glob !== null && !glob.includes('/')
+    });
+  }
+
+  return { rules: new CompiledMonsterRules(compiled), errors };
+}
+
+/**
+ * Returns a description of what is wrong with a rule, or null if it is valid
+ */
+function validateRule(rule: MonsterRule, monsters: Map<string, CustomMonsterDefinition>): string | null {
+  if (!rule || typeof rule !== 'object') return 'rule must be an object';
+  if (typeof rule.monster !== 'string' || !monsters.has(rule.monster)) {
+    return `unknown monster "${String(rule.monster)}"`;
+  }
+  if (!rule.match || typeof rule.match !== 'object') return '"match" is required';
+
+  const { match } = rule;
+  for (const key of ['minSizeBytes', 'maxSizeBytes', 'minAgeDays', 'maxAgeDays'] as const) {
+    if (match[key] !== undefined && (typeof match[key] !== 'number' || match[key]! < 0)) {
+      return `"${key}" must be a non-negative number`;
+    }
+  }
+  if (match.pathGlob !== undefined && typeof match.pathGlob !== 'string') return '"pathGlob" must be a string';
+  for (const key of ['extensions', 'mimeTypes'] as const) {
+    if (match[key] !== undefined && !(Array.isArray(match[key]) && match[key]!.every(v => typeof v === 'string'))) {
+      return `"${key}" must be an array of strings`;
+    }
+  }
+  if (match.duplicate !== undefined && typeof match.duplicate !== 'boolean') return '"duplicate" must be true or false';
+
+  return null;
+}
+
+/**
+ * Lower-cases extensions and MIME types and adds missing leading dots
+ */
+function normalizeMatch(match: MonsterRuleMatch): MonsterRuleMatch {
+  return {
+    ...match,
+    extensions: match.extensions?.map(ext => {
+      const lower = ext.trim().toLowerCase();
+      return lower.startsWith('.') ? lower : `.${lower}`;
+    }),
+    mimeTypes: match.mimeTypes?.map(type => type.trim().toLowerCase())
+  };
+}
+
+/**
+ * MonsterRulesManager - Loads custom monster rules from .digital-exorcist/monster-rules.json
+ */
+export class MonsterRulesManager {
+  private readonly rulesFilePath: string;
+  private readonly rulesDir: string;
+  private rules = new CompiledMonsterRules();
+  private errors: string[] = [];
+
+  constructor(baseDir: string = '.') {
+    this.rulesDir = join(baseDir, '.digital-exorcist');
+    this.rulesFilePath = join(this.rulesDir, 'monster-rules.json');
+  }
+
+  /**
+   * Loads and compiles the rules file
+   * Creates an empty rules file if it doesn't exist; a malformed file disables custom rules
+   */
+  async load(): Promise<void> {
+    try {
+      await fs.mkdir(this.rulesDir, { recursive: true });
+
+      let content: string;
+      try {
+        content = await fs.readFile(this.rulesFilePath, 'utf-8');
+      } catch (error) {
+        const empty: MonsterRuleSet = { monsters: [], rules: [] };
+        await fs.writeFile(this.rulesFilePath, JSON.stringify(empty, null, 2), 'utf-8');
+        content = JSON.stringify(empty);
+      }
+
+      const { rules, errors } = compileMonsterRules(JSON.parse(content));
+      this.rules = rules;
+      this.errors = errors;
+    } catch (error) {
+      this.rules = new CompiledMonsterRules();
+      this.errors = [error instanceof Error ? error.message : 'Unknown error loading monster rules'];
+    }
+
+    for (const error of this.errors) {
+      console.warn(`[MonsterRules] ${error}`);
+    }
+  }
+
+  /**
+   * Gets the compiled rules from the last load
+   */
+  getRules(): CompiledMonsterRules {
+    return this.rules;
+  }
+
+  /**
+   * Gets the problems found in the rules file during the last load
+   */
+  getErrors(): string[] {
+    return [...this.errors];
+  }
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join, basename } from 'path';
+import { tmpdir } from 'os';
+import { Graveyard } from './Graveyard';
+import { FileOperations } from './FileOperations';
+import { GraveyardLog } from './GraveyardLog';
+import { SwiftPurgeExecutor } from './SwiftPurgeExecutor';
+import { exhumeResolved, DisplacedRestoreError } from './RestoreConflicts';
+import { ActionType, MonsterType, SwiftPurgeScanResult } from '../shared/types';
+
+describe('RestoreConflicts', () => {
+  let testDir: string;
+  let dataRoot: string;
+  let scanRoot: string;
+  let graveyard: Graveyard;
+  let fileOps: FileOperations;
+  let filePath: string;
+  let graveyardPath: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `digital-exorcist-conflicts-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+    dataRoot = join(testDir, 'data');
+    scanRoot = join(testDir, 'scan');
+    await fs.mkdir(scanRoot, { recursive: true });
+    graveyard = new Graveyard(dataRoot);
+    fileOps = new FileOperations(scanRoot, dataRoot, undefined, undefined, graveyard);
+
+    // Banish a file from 2020, then put something new in its place
+    filePath = join(scanRoot, 'notes.txt');
+    await fs.writeFile(filePath, 'banished');
+    await fs.utimes(filePath, new Date(2020, 0, 1), new Date(2020, 0, 1));
+    graveyardPath = (await fileOps.banishFile(filePath)).graveyardPath;
+    await fs.writeFile(filePath, 'newer replacement');
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('fails by default, skips, or restores next to the existing file', async () => {
+    const failed = await fileOps.restoreFile(graveyardPath, filePath);
+    expect(failed.success).toBe(false);
+    expect(failed.error).toContain('Conflict');
+
+    const skipped = await fileOps.restoreFile(graveyardPath, filePath, 'skip');
+    expect(skipped).toMatchObject({ success: true, skipped: true });
+    expect(await graveyard.exists(graveyardPath)).toBe(true);
+
+    const renamed = await fileOps.restoreFile(graveyardPath, filePath, 'rename');
+    expect(renamed.restoredPath).toBe(join(scanRoot, 'notes (restored).txt'));
+    expect(await fs.readFile(renamed.restoredPath, 'utf-8')).toBe('banished');
+    expect(await fs.readFile(filePath, 'utf-8')).toBe('newer replacement');
+  });
+
+  it('overwrites by moving the existing file into the graveyard first', async () => {
+    const result = await fileOps.restoreFile(graveyardPath, filePath, 'overwrite');
+
+    expect(result.success).toBe(true);
+    expect(await fs.readFile(filePath, 'utf-8')).toBe('banished');
+    expect(result.displacedTo).toBeTruthy();
+    expect(await graveyard.exists(result.displacedTo!)).toBe(true);
+
+    // The displaced file can be restored in turn
+    expect((await fileOps.restoreFile(result.displacedTo!, filePath, 'rename')).success).toBe(true);
+    expect(await fs.readFile(join(scanRoot, 'notes (restored).txt'), 'utf-8')).toBe('newer replacement');
+  });
+
+  it('puts the existing file back when an overwriting restore fails', async () => {
+    await fs.appendFile(graveyardPath, ' and tampered with');
+
+    const result = await fileOps.restoreFile(graveyardPath, filePath, 'overwrite');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Content check failed');
+    expect(result.displacedTo).toBeUndefined();
+    expect(await fs.readFile(filePath, 'utf-8')).toBe('newer replacement');
+    expect(await graveyard.exists(graveyardPath)).toBe(true);
+  });
+
+  it('reports where the displaced file is when it cannot be put back', async () => {
+    const displacedTo = join(testDir, 'displaced.txt');
+    const attempt = exhumeResolved(
+      { destination: filePath, displaceExisting: async () => { await fs.rename(filePath, displacedTo); return displacedTo; } },
+      async () => { throw new Error('backend failed'); },
+      async () => { throw new Error('put back failed'); }
+    );
+
+    await expect(attempt).rejects.toThrow(DisplacedRestoreError);
+    await expect(attempt).rejects.toMatchObject({ displacedTo, message: expect.stringContaining('backend failed') });
+    expect(await fs.readFile(displacedTo, 'utf-8')).toBe('newer replacement');
+  });
+
+  it('keeps the newer file when undoing a Swift Purge session', async () => {
+    const log = new GraveyardLog(dataRoot);
+    const executor = new SwiftPurgeExecutor(log, dataRoot, graveyard);
+    const stalePath = join(scanRoot, 'stale.log');
+    const freshPath = join(scanRoot, 'fresh.log');
+    for (const path of [stalePath, freshPath]) {
+      await fs.writeFile(path, 'purged');
+    }
+    await executor.execute({
+      sessionId: 'purge-test',
+      targetPath: scanRoot,
+      files: [stalePath, freshPath].map(path => ({
+        path,
+        fileName: basename(path),
+        size: 6,
+        lastModified: new Date(),
+        classification: MonsterType.Zombie,
+        classifications: [MonsterType.Zombie]
+      }))
+    } as Partial<SwiftPurgeScanResult> as SwiftPurgeScanResult);
+
+    // One location now holds something newer than the purged file, the other something older
+    await fs.writeFile(stalePath, 'written after the purge');
+    await fs.utimes(stalePath, new Date(), new Date(Date.now() + 60_000));
+    await fs.writeFile(freshPath, 'older than the purge');
+    await fs.utimes(freshPath, new Date(2001, 0, 1), new Date(2001, 0, 1));
+
+    const result = await executor.undoSession('purge-test', 'keep-newer');
+
+    expect(result).toMatchObject({ success: true, restoredCount: 1, skippedCount: 1 });
+    expect(await fs.readFile(stalePath, 'utf-8')).toBe('written after the purge');
+    expect(await fs.readFile(freshPath, 'utf-8')).toBe('purged');
+    const displaced = (await log.getEntries()).filter(entry => entry.action === ActionType.Banish && entry.filePath === freshPath);
+    expect(displaced).toHaveLength(2);
+  });
+});
@@ -0,0 +1,172 @@
+import { promises as fs } from 'fs';
+import { dirname, basename, extname, join } from 'path';
+import { RestoreConflict, RestoreConflictStrategy } from '../shared/types';
+import { GraveyardEntryStats } from './GraveyardBackend';
+
+/**
+ * Where a restore should go once a conflict strategy is applied
+ */
+export interface ConflictResolution {
+  /** Path to restore to; undefined when the restore is skipped */
+  destination?: string;
+  /** Set when overwriting: moves the existing file into the graveyard, once the entry is ready to take its place */
+  displaceExisting?: () => Promise<string>;
+}
+
+/**
+ * Moves whatever is at a path into the graveyard
+ * @returns Graveyard path it now lives at
+ */
+export type DisplaceFn = (path: string) => Promise<string>;
+
+/**
+ * Moves a displaced file from the graveyard back to where it was
+ */
+export type PutBackFn = (displacedTo: string, path: string) => Promise<void>;
+
+/**
+ * Error raised when a restore fails after the file in its way was moved aside
+ */
+export class DisplacedRestoreError extends Error {
+  /** Graveyard path the existing file was moved to */
+  readonly displacedTo: string;
+
+  constructor(message: string, displacedTo: string) {
+    super(`${message}; the file that was in the way is in the graveyard at ${displacedTo}`);
+    this.name = 'DisplacedRestoreError';
+    this.displacedTo = displacedTo;
+  }
+}
+
+/**
+ * Checks whether something already exists where a graveyard entry would be restored
+ * lstat is used so a broken link at the original location also counts.
+ * @param originalPath - Where the entry would be restored
+ * @param incoming - Stats of the graveyard entry
+ * @param graveyardPath - Where the entry lives
+ * @returns The conflict, or undefined when the original location is free
+ */
+export async function findRestoreConflict(
+  originalPath: string,
+  incoming: GraveyardEntryStats,
+  graveyardPath: string
+): Promise<RestoreConflict | undefined> {
+  let existing;
+  try {
+    existing = await fs.lstat(originalPath);
+  } catch {
+    return undefined;
+  }
+
+  return {
+    graveyardPath,
+    originalPath,
+    existing: {
+      size: existing.isFile() ? existing.size : 0,
+      mtimeMs: existing.mtimeMs,
+      isDirectory: existing.isDirectory()
+    },
+    incoming: { size: incoming.size, mtimeMs: incoming.mtimeMs }
+  };
+}
+
+/**
+ * Finds a free name next to a taken path: "name (restored).ext", then "name (restored 2).ext", ...
+ * @param originalPath - The taken path
+ */
+export async function findRestoredName(originalPath: string): Promise<string> {
+  const extension = extname(originalPath);
+  const stem = basename(originalPath, extension);
+  for (let attempt = 1; ; attempt++) {
+    const suffix = attempt === 1 ? ' (restored)' : ` (restored ${attempt})`;
+    const candidate = join(dirname(originalPath), `${stem}${suffix}${extension}`);
+    const taken = await fs.lstat(candidate).then(() => true, () => false);
+    if (!taken) return candidate;
+  }
+}
+
+/**
+ * Applies a conflict strategy to a restore
+ * Nothing happens when the original location is free. Overwriting never
+ * deletes: the file in the way is moved into the graveyard, so it can be
+ * restored in turn. Nothing is moved yet; exhumeResolved does that.
+ * @param originalPath - Where the entry would be restored
+ * @param incomingMtimeMs - Modification time the entry will be restored with, if known
+ * @param strategy - What to do when the original location is taken
+ * @param displace - Moves the existing file into the graveyard; required to overwrite
+ * @returns Where to restore to, or no destination when skipped
+ * @throws When the location is taken and the strategy is fail, or overwriting without displace
+ */
+export async function resolveRestoreConflict(
+  originalPath: string,
+  incomingMtimeMs: number | undefined,
+  strategy: RestoreConflictStrategy,
+  displace?: DisplaceFn
+): Promise<ConflictResolution> {
+  let existing;
+  try {
+    existing = await fs.lstat(originalPath);
+  } catch {
+    return { destination: originalPath };
+  }
+
+  // An unknown incoming time never wins, so keep-newer keeps what is there
+  const incomingIsNewer = incomingMtimeMs !== undefined && incomingMtimeMs > existing.mtimeMs;
+
+  if (strategy === 'skip' || (strategy === 'keep-newer' && !incomingIsNewer)) {
+    return {};
+  }
+  if (strategy === 'rename') {
+    return { destination: await findRestoredName(originalPath) };
+  }
+  if (strategy === 'overwrite' || strategy === 'keep-newer') {
+    if (!displace) {
+      throw new Error(`Cannot overwrite ${originalPath}: nowhere to move the existing file`);
+    }
+    return { destination: originalPath, displaceExisting: () => displace(originalPath) };
+  }
+  throw new Error(`Conflict: File already exists at original location: ${originalPath}`);
+}
+
+/**
+ * Moves an entry out of the graveyard to the destination a conflict strategy chose
+ * When overwriting, the existing file is moved aside first. Should the entry
+ * then fail to come out, e.g. on a content check or unreadable data, the
+ * existing file is put back, so a failed restore never leaves the location empty.
+ * @param resolution - Outcome of resolveRestoreConflict, with a destination
+ * @param exhume - Moves the entry out of the graveyard to the destination
+ * @param putBack - Moves the existing file back after a failed exhume
+ * @returns Graveyard path the existing file was moved to, when overwriting
+ * @throws The exhume error once the existing file is back, or
+ *   DisplacedRestoreError when it stays in the graveyard
+ */
+export async function exhumeResolved(
+  resolution: ConflictResolution & { destination: string },
+  exhume: (destination: string) => Promise<void>,
+  putBack?: PutBackFn
+): Promise<string | undefined> {
+  const { destination, displaceExisting } = resolution;
+  if (!displaceExisting) {
+    await exhume(destination);
+    return undefined;
+  }
+
+  const displacedTo = await displaceExisting();
+  try {
+    await exhume(destination);
+    return displacedTo;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error during restore';
+    // Part of the entry may have come out; the existing file never goes over it
+    const free = await fs.lstat(destination).then(() => false, () => true);
+    if (!free || !putBack) {
+      throw new DisplacedRestoreError(message, displacedTo);
+    }
+    try {
+      await putBack(displacedTo, destination);
+    } catch {
+      throw new DisplacedRestoreError(message, displacedTo);
+    }
+    throw err;
+  }
+}
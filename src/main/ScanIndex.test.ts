@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ScanIndex, SCAN_INDEX_MAX_AGE_MS } from './ScanIndex';
+import { DuplicateDetector } from './DuplicateDetector';
+import { SwiftPurgeScanner } from './SwiftPurgeScanner';
+
+describe('ScanIndex', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `digital-exorcist-index-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function candidate(filePath: string) {
+    const stats = await fs.stat(filePath);
+    return { path: filePath, size: stats.size, lastModified: new Date(stats.mtimeMs), ino: stats.ino };
+  }
+
+  it('persists entries across instances', async () => {
+    const index = new ScanIndex(testDir);
+    await index.load();
+    const file = { path: '/a.txt', size: 3, lastModified: new Date(1000), ino: 7 };
+    index.record(file, { partialHash: 'p', fullHash: 'f' });
+    await index.save();
+
+    const reloaded = new ScanIndex(testDir);
+    await reloaded.load();
+
+    expect(reloaded.lookup(file)).toMatchObject({ partialHash: 'p', fullHash: 'f' });
+  });
+
+  it('discards an entry when size, mtime or inode changed', () => {
+    const index = new ScanIndex(testDir);
+    const file = { path: '/a.txt', size: 3, lastModified: new Date(1000), ino: 7 };
+
+    for (const changed of [
+      { ...file, size: 4 },
+      { ...file, lastModified: new Date(2000) },
+      { ...file, ino: 8 }
+    ]) {
+      index.record(file, { fullHash: 'f' });
+      expect(index.lookup(changed)).toBeUndefined();
+      expect(index.size).toBe(0);
+    }
+  });
+
+  it('drops entries that have not been seen for too long on save', async () => {
+    const index = new ScanIndex(testDir);
+    const file = { path: '/a.txt', size: 3, lastModified: new Date(1000), ino: 7 };
+    index.record(file, { fullHash: 'f' });
+    index.lookup(file)!.lastSeen = Date.now() - SCAN_INDEX_MAX_AGE_MS - 1;
+
+    await index.save();
+
+    expect(index.size).toBe(0);
+  });
+
+  it('lets a rescan reuse hashes and re-hash only changed files', async () => {
+    const content = Buffer.alloc(300 * 1024, 5);
+    for (const name of ['a.bin', 'b.bin', 'c.bin']) {
+      await fs.writeFile(join(testDir, name), content);
+    }
+    const index = new ScanIndex(join(testDir, 'state'));
+    const paths = ['a.bin', 'b.bin', 'c.bin'].map(name => join(testDir, name));
+
+    const first = new DuplicateDetector(undefined, index);
+    const firstHashes = await first.findDuplicates(await Promise.all(paths.map(candidate)));
+    expect(first.getCacheStats().cacheHits).toBe(0);
+
+    const second = new DuplicateDetector(undefined, index);
+    const secondHashes = await second.findDuplicates(await Promise.all(paths.map(candidate)));
+    expect(second.getBytesRead()).toBe(0);
+    expect(second.getCacheStats()).toEqual({ cacheHits: 6, cacheMisses: 0 });
+    expect(secondHashes).toEqual(firstHashes);
+
+    // Change one file's content but keep its size
+    const changed = Buffer.from(content);
+    changed[0] = 9;
+    await fs.writeFile(paths[2], changed);
+    await fs.utimes(paths[2], new Date(), new Date(Date.now() + 5000));
+
+    const third = new DuplicateDetector(undefined, index);
+    const thirdHashes = await third.findDuplicates(await Promise.all(paths.map(candidate)));
+    expect(third.getCacheStats().cacheMisses).toBe(1);
+    expect(thirdHashes.has(paths[2])).toBe(false);
+    expect(thirdHashes.get(paths[0])).toBe(thirdHashes.get(paths[1]));
+  });
+
+  it('reports cache hits in SwiftPurgeScanner progress on a rescan', async () => {
+    const scanDir = join(testDir, 'scan');
+    await fs.mkdir(scanDir);
+    for (let i = 0; i < 25; i++) {
+      await fs.writeFile(join(scanDir, `dup-${i}.txt`), 'same content');
+    }
+    const index = new ScanIndex(join(testDir, 'state'));
+
+    await new SwiftPurgeScanner(new Set(), { index }).scan(scanDir);
+
+    const rescan = new SwiftPurgeScanner(new Set(), { index });
+    const progress: Array<{ phase: string; cacheHits?: number; cacheMisses?: number }> = [];
+    rescan.on('progress', p => progress.push(p));
+    const result = await rescan.scan(scanDir);
+
+    expect(result.bytesRead).toBe(0);
+    expect(progress[progress.length - 1]).toMatchObject({ phase: 'classifying', cacheHits: 25, cacheMisses: 0 });
+  });
+});
@@ -0,0 +1,159 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+
+/**
+ * Cached hashes for one file, valid only while its stats are unchanged
+ */
+export interface ScanIndexEntry {
+  size: number;
+  mtimeMs: number;
+  ino: number;
+  /** Head/tail hash from the partial stage */
+  partialHash?: string;
+  /** Full-content SHA-256 hash */
+  fullHash?: string;
+  /** Epoch ms of the last scan that looked this entry up */
+  lastSeen: number;
+}
+
+/**
+ * The file stats an index lookup is keyed on
+ */
+export interface IndexedFile {
+  path: string;
+  size: number;
+  lastModified: Date;
+  ino?: number;
+}
+
+/**
+ * Entries not seen by any scan for this long are dropped on save
+ */
+export const SCAN_INDEX_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * ScanIndex - Persistent hash cache for incremental rescans
+ *
+ * Stored in .digital-exorcist/scan-index.json and keyed by path. An entry
+ * is only reused while the file's size, mtime and inode all still match;
+ * otherwise it is treated as stale and discarded on lookup.
+ */
+export class ScanIndex {
+  private readonly indexFilePath: string;
+  private readonly indexDir: string;
+  private entries = new Map<string, ScanIndexEntry>();
+  private dirty = false;
+
+  constructor(baseDir: string = '.') {
+    this.indexDir = join(baseDir, '.digital-exorcist');
+    this.indexFilePath = join(this.indexDir, 'scan-index.json');
+  }
+
+  /**
+   * Loads the index from disk
+   * A missing or corrupted index file starts an empty index
+   */
+  async load(): Promise<void> {
+    try {
+      const content = await fs.readFile(this.indexFilePath, 'utf-8');
+      const data = JSON.parse(content);
+      this.entries = new Map(Object.entries(data.entries || {}));
+    } catch (error) {
+      this.entries = new Map();
+    }
+    this.dirty = false;
+  }
+
+  /**
+   * Writes the index to disk if it changed, dropping entries that have aged out
+   */
+  async save(): Promise<void> {
+    const cutoff = Date.now() - SCAN_INDEX_MAX_AGE_MS;
+    for (const [path, entry] of this.entries) {
+      if (entry.lastSeen < cutoff) {
+        this.entries.delete(path);
+        this.dirty = true;
+      }
+    }
+
+    if (!this.dirty) return;
+
+    try {
+      await fs.mkdir(this.indexDir, { recursive: true });
+      const data = { entries: Object.fromEntries(this.entries) };
+      await fs.writeFile(this.indexFilePath, JSON.stringify(data), 'utf-8');
+      this.dirty = false;
+    } catch (error) {
+      console.error('Error saving scan index:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Looks up cached hashes for a file
+   * A stale entry (size, mtime or inode changed) is removed
+   * @param file - The file and its current stats
+   * @returns The matching entry, or undefined if none is valid
+   */
+  lookup(file: IndexedFile): ScanIndexEntry | undefined {
+    if (file.ino === undefined) return undefined;
+
+    const entry = this.entries.get(file.path);
+    if (!entry) return undefined;
+
+    if (!this.matches(entry, file)) {
+      this.entries.delete(file.path);
+      this.dirty = true;
+      return undefined;
+    }
+
+    entry.lastSeen = Date.now();
+    this.dirty = true;
+    return entry;
+  }
+
+  /**
+   * Stores hashes for a file, replacing any stale entry
+   * @param file - The file and its current stats
+   * @param hashes - Partial and/or full hash to cache
+   */
+  record(file: IndexedFile, hashes: { partialHash?: string; fullHash?: string }): void {
+    if (file.ino === undefined) return;
+
+    const existing = this.entries.get(file.path);
+    const base = existing && this.matches(existing, file) ? existing : undefined;
+
+    this.entries.set(file.path, {
+      size: file.size,
+      mtimeMs: file.lastModified.getTime(),
+      ino: file.ino,
+      partialHash: hashes.partialHash ?? base?.partialHash,
+      fullHash: hashes.fullHash ?? base?.fullHash,
+      lastSeen: Date.now()
+    });
+    this.dirty = true;
+  }
+
+  /**
+   * Removes the entry for a path, e.g. after the file was moved away
+   * @param filePath - Path to forget
+   */
+  invalidate(filePath: string): void {
+    if (this.entries.delete(filePath)) {
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Number of entries currently in the index
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  private matches(entry: ScanIndexEntry, file: IndexedFile): boolean {
+    return entry.size === file.size &&
+      entry.mtimeMs === file.lastModified.getTime() &&
+      entry.ino === file.ino;
+  }
+}
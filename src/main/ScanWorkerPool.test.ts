@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ScanWorkerPool, ScanCancelledError } from './ScanWorkerPool';
+import { FileScanner } from './FileScanner';
+import * as scanTasks from './scanTasks';
+
+describe('ScanWorkerPool', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `digital-exorcist-pool-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+    await fs.mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('falls back to in-process execution when the worker script is missing', async () => {
+    const pool = new ScanWorkerPool({ workerScript: join(testDir, 'missing.js') });
+    await fs.writeFile(join(testDir, 'a.txt'), 'hello');
+
+    const listing = await pool.readDirectory(testDir);
+
+    expect(pool.usesWorkers).toBe(false);
+    expect(listing.entries.map(entry => entry.name)).toEqual(['a.txt']);
+    expect(listing.entries[0]).toMatchObject({ kind: 'file', size: 5 });
+    await pool.terminate();
+  });
+
+  it('never runs more tasks at once than the concurrency limit', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    vi.spyOn(scanTasks, 'runScanTask').mockImplementation(async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return { hash: '', bytesRead: 0, complete: true };
+    });
+
+    const pool = new ScanWorkerPool({ concurrency: 3, workerScript: null });
+    await Promise.all(Array.from({ length: 12 }, (_, i) => pool.hashFile(`file-${i}`)));
+
+    expect(maxRunning).toBe(3);
+    await pool.terminate();
+  });
+
+  it('rejects queued and running tasks with ScanCancelledError on terminate', async () => {
+    vi.spyOn(scanTasks, 'runScanTask').mockImplementation(() => new Promise(() => {}));
+
+    const pool = new ScanWorkerPool({ concurrency: 1, workerScript: null });
+    const running = pool.hashFile('a');
+    const queued = pool.hashFile('b');
+
+    await pool.terminate();
+
+    await expect(running).rejects.toBeInstanceOf(ScanCancelledError);
+    await expect(queued).rejects.toBeInstanceOf(ScanCancelledError);
+    await expect(pool.hashFile('c')).rejects.toBeInstanceOf(ScanCancelledError);
+    expect(pool.isTerminated).toBe(true);
+  });
+
+  /**
+   * Writes a worker speaking the scanWorker protocol that crashes or exits on request
+   */
+  async function createFixtureWorker(): Promise<string> {
+    const script = join(testDir, 'fixture-worker.cjs');
+    await fs.writeFile(script, `
+      const { parentPort } = require('worker_threads');
+      parentPort.on('message', ({ id, task }) => {
+        if (task.filePath === 'crash') throw new Error('worker crashed');
+        if (task.filePath === 'exit') process.exit(3);
+        if (task.filePath === 'missing') {
+          parentPort.postMessage({ id, error: { message: 'no such file', code: 'ENOENT' } });
+          return;
+        }
+        parentPort.postMessage({ id, result: { hash: 'hash of ' + task.filePath, bytesRead: 0, complete: true } });
+      });
+    `);
+    return script;
+  }
+
+  it('runs tasks on worker threads and passes their errors on', async () => {
+    const pool = new ScanWorkerPool({ concurrency: 2, workerScript: await createFixtureWorker() });
+
+    expect(pool.usesWorkers).toBe(true);
+    const results = await Promise.all(['a', 'b', 'c'].map(name => pool.hashFile(name)));
+    expect(results.map(result => result.hash)).toEqual(['hash of a', 'hash of b', 'hash of c']);
+    await expect(pool.hashFile('missing')).rejects.toMatchObject({ message: 'no such file', code: 'ENOENT' });
+    await pool.terminate();
+  });
+
+  it('fails only the task a crashed worker was running and replaces the worker', async () => {
+    const pool = new ScanWorkerPool({ concurrency: 1, workerScript: await createFixtureWorker() });
+    expect((await pool.hashFile('before')).hash).toBe('hash of before');
+
+    const crashed = pool.hashFile('crash');
+    const queued = pool.hashFile('queued');
+    await expect(crashed).rejects.toThrow('worker crashed');
+    expect((await queued).hash).toBe('hash of queued');
+
+    await expect(pool.hashFile('exit')).rejects.toThrow('exited with code 3');
+    expect((await pool.hashFile('after')).hash).toBe('hash of after');
+    await pool.terminate();
+  });
+
+  it('lets a cancelled FileScanner return the files found so far', async () => {
+    for (let i = 0; i < 5; i++) {
+      const dir = join(testDir, `dir-${i}`);
+      await fs.mkdir(dir);
+      await fs.writeFile(join(dir, 'file.txt'), 'x');
+    }
+
+    const scanner = new FileScanner({ concurrency: 1 });
+    const original = scanTasks.runScanTask;
+    let reads = 0;
+    vi.spyOn(scanTasks, 'runScanTask').mockImplementation(async task => {
+      if (task.type === 'readDirectory' && ++reads === 3) {
+        scanner.cancelScan();
+      }
+      return original(task);
+    });
+
+    const results = await scanner.scanDirectory(testDir);
+
+    expect(results.length).toBeLessThan(5);
+  });
+});
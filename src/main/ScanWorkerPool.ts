@@ -0,0 +1,240 @@
+import { Worker } from 'worker_threads';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { cpus } from 'os';
+import { runScanTask, ScanTask, DirectoryListing, HashTaskResult } from './scanTasks';
+import { IgnoreRule } from './IgnoreMatcher';
+
+/**
+ * Error raised for tasks that were pending or running when the pool was terminated
+ */
+export class ScanCancelledError extends Error {
+  constructor() {
+    super('Scan cancelled');
+    this.name = 'ScanCancelledError';
+  }
+}
+
+export interface ScanWorkerPoolOptions {
+  /** Maximum number of tasks running at once (defaults to DEFAULT_SCAN_CONCURRENCY) */
+  concurrency?: number;
+  /**
+   * Path of the compiled worker script. Pass null to run tasks in-process,
+   * which is also the fallback when the script has not been built.
+   */
+  workerScript?: string | null;
+}
+
+interface PendingTask {
+  task: ScanTask;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Default concurrency: leave one core for the main process, cap at four
+ */
+export const DEFAULT_SCAN_CONCURRENCY = Math.max(1, Math.min(4, cpus().length - 1));
+
+/**
+ * Default location of the worker bundle emitted next to main.js
+ */
+const DEFAULT_WORKER_SCRIPT = join(__dirname, 'scanWorker.js');
+
+/**
+ * ScanWorkerPool - Runs directory reads and hashing on worker threads
+ *
+ * Keeps the Electron main process free for IPC while scanning. At most
+ * `concurrency` tasks run at once; the rest wait in a FIFO queue.
+ * `terminate()` kills every worker immediately and rejects all outstanding
+ * tasks with ScanCancelledError. A worker that crashes or exits fails only
+ * the task it was running and is replaced.
+ */
+export class ScanWorkerPool {
+  readonly concurrency: number;
+  private readonly workerScript: string | null;
+  private readonly queue: PendingTask[] = [];
+  private readonly idleWorkers: Worker[] = [];
+  private readonly busyWorkers = new Map<Worker, PendingTask & { id: number }>();
+  private readonly inProcessTasks = new Set<PendingTask>();
+  /** Workers that have neither crashed nor exited */
+  private readonly liveWorkers = new Set<Worker>();
+  private workerCount = 0;
+  private nextId = 0;
+  private terminated = false;
+
+  constructor(options: ScanWorkerPoolOptions = {}) {
+    this.concurrency = Math.max(1, Math.floor(options.concurrency ?? DEFAULT_SCAN_CONCURRENCY));
+
+    const script = options.workerScript === undefined ? DEFAULT_WORKER_SCRIPT : options.workerScript;
+    this.workerScript = script && existsSync(script) ? script : null;
+  }
+
+  /**
+   * Whether tasks run on worker threads (false for the in-process fallback)
+   */
+  get usesWorkers(): boolean {
+    return this.workerScript !== null;
+  }
+
+  /**
+   * Whether the pool has been terminated
+   */
+  get isTerminated(): boolean {
+    return this.terminated;
+  }
+
+  /**
+   * Lists a directory and stats the files the ignore rules keep
+   * @param ignoreRules - Rules in effect for the directory, from IgnoreMatcher.getRules()
+   */
+  readDirectory(dirPath: string, ignoreRules: IgnoreRule[] = []): Promise<DirectoryListing> {
+    return this.run({ type: 'readDirectory', dirPath, ignoreRules }) as Promise<DirectoryListing>;
+  }
+
+  /**
+   * Computes the full SHA-256 hash of a file
+   */
+  hashFile(filePath: string): Promise<HashTaskResult> {
+    return this.run({ type: 'hash', filePath }) as Promise<HashTaskResult>;
+  }
+
+  /**
+   * Computes the head/tail hash of a file
+   */
+  partialHashFile(filePath: string, size: number): Promise<HashTaskResult> {
+    return this.run({ type: 'partialHash', filePath, size }) as Promise<HashTaskResult>;
+  }
+
+  /**
+   * Queues a task and resolves with its result
+   */
+  run(task: ScanTask): Promise<unknown> {
+    if (this.terminated) {
+      return Promise.reject(new ScanCancelledError());
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ task, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stops all workers right away and rejects every outstanding task
+   */
+  async terminate(): Promise<void> {
+    if (this.terminated) return;
+    this.terminated = true;
+
+    const cancelled = new ScanCancelledError();
+    for (const pending of this.queue.splice(0)) {
+      pending.reject(cancelled);
+    }
+    for (const pending of this.inProcessTasks) {
+      pending.reject(cancelled);
+    }
+    this.inProcessTasks.clear();
+
+    const workers = [...this.idleWorkers, ...this.busyWorkers.keys()];
+    for (const pending of this.busyWorkers.values()) {
+      pending.reject(cancelled);
+    }
+    this.busyWorkers.clear();
+    this.idleWorkers.length = 0;
+    this.liveWorkers.clear();
+
+    await Promise.all(workers.map(worker => worker.terminate()));
+  }
+
+  /**
+   * Starts queued tasks while capacity is available
+   */
+  private dispatch(): void {
+    while (!this.terminated && this.queue.length > 0) {
+      if (this.workerScript) {
+        const worker = this.acquireWorker();
+        if (!worker) return;
+        this.runOnWorker(worker, this.queue.shift()!);
+      } else {
+        if (this.inProcessTasks.size >= this.concurrency) return;
+        this.runInProcess(this.queue.shift()!);
+      }
+    }
+  }
+
+  /**
+   * Returns an idle worker, spawning one if under the concurrency limit
+   */
+  private acquireWorker(): Worker | null {
+    const idle = this.idleWorkers.pop();
+    if (idle) return idle;
+    if (this.workerCount >= this.concurrency) return null;
+
+    const worker = new Worker(this.workerScript!);
+    this.workerCount++;
+    this.liveWorkers.add(worker);
+
+    worker.on('message', (message: { id: number; result?: unknown; error?: { message: string; code?: string } }) => {
+      const pending = this.busyWorkers.get(worker);
+      if (!pending || pending.id !== message.id) return;
+
+      this.busyWorkers.delete(worker);
+      this.idleWorkers.push(worker);
+
+      if (message.error) {
+        const error = new Error(message.error.message) as NodeJS.ErrnoException;
+        error.code = message.error.code;
+        pending.reject(error);
+      } else {
+        pending.resolve(message.result);
+      }
+      this.dispatch();
+    });
+
+    worker.on('error', error => this.retireWorker(worker, error));
+    worker.on('exit', code => this.retireWorker(worker, new Error(`Scan worker exited with code ${code}`)));
+
+    return worker;
+  }
+
+  /**
+   * Drops a crashed or exited worker, fails its current task and spawns a replacement for queued work
+   * Runs for both 'error' and the 'exit' that follows it; only the first call counts.
+   */
+  private retireWorker(worker: Worker, error: Error): void {
+    if (this.terminated || !this.liveWorkers.delete(worker)) return;
+
+    const pending = this.busyWorkers.get(worker);
+    this.busyWorkers.delete(worker);
+    const idleIndex = this.idleWorkers.indexOf(worker);
+    if (idleIndex !== -1) this.idleWorkers.splice(idleIndex, 1);
+    this.workerCount--;
+
+    pending?.reject(error);
+    this.dispatch();
+  }
+
+  private runOnWorker(worker: Worker, pending: PendingTask): void {
+    const id = this.nextId++;
+    this.busyWorkers.set(worker, { ...pending, id });
+    worker.postMessage({ id, task: pending.task });
+  }
+
+  private runInProcess(pending: PendingTask): void {
+    this.inProcessTasks.add(pending);
+
+    runScanTask(pending.task).then(
+      result => {
+        if (!this.inProcessTasks.delete(pending)) return;
+        pending.resolve(result);
+        this.dispatch();
+      },
+      error => {
+        if (!this.inProcessTasks.delete(pending)) return;
+        pending.reject(error);
+        this.dispatch();
+      }
+    );
+  }
+}
@@ -0,0 +1,188 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { AppSettings, RetentionPolicy, GraveyardBackendId } from '../shared/types';
+import { DEFAULT_SCAN_CONCURRENCY } from './ScanWorkerPool';
+
+/**
+ * Default settings used when no settings file exists yet
+ */
+export const DEFAULT_SETTINGS: AppSettings = {
+  ignorePatterns: ['.git/', 'node_modules/', '.cache/', '.digital-exorcist/', 'graveyard_trash/', 'graveyard_archive/', 'graveyard_store/'],
+  scanConcurrency: DEFAULT_SCAN_CONCURRENCY,
+  followSymlinks: false,
+  retention: {
+    maxAgeDays: null,
+    maxTotalBytes: null,
+    reapOnStartup: false
+  },
+  graveyardBackend: 'folder',
+  hashChainLog: false
+};
+
+const GRAVEYARD_BACKENDS: readonly GraveyardBackendId[] = ['folder', 'freedesktop-trash', 'archive', 'content-store'];
+
+export class SettingsManager {
+  private readonly settingsFilePath: string;
+  private readonly settingsDir: string;
+  private settings: AppSettings;
+
+  constructor(baseDir: string = '.') {
+    this.settingsDir = join(baseDir, '.digital-exorcist');
+    this.settingsFilePath = join(this.settingsDir, 'settings.json');
+    this.settings = { ...DEFAULT_SETTINGS };
+  }
+
+  /**
+   * Loads settings from disk on startup
+   * Creates a new settings file if it doesn't exist
+   */
+  async load(): Promise<void> {
+    try {
+      // Ensure directory exists
+      await fs.mkdir(this.settingsDir, { recursive: true });
+
+      // Try to read the settings file
+      try {
+        const content = await fs.readFile(this.settingsFilePath, 'utf-8');
+        const data = JSON.parse(content);
+        this.settings = this.normalize(data);
+      } catch (error) {
+        // File doesn't exist or is corrupted, create new one
+        await this.save();
+      }
+    } catch (error) {
+      console.error('Error loading settings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Saves the current settings to disk
+   */
+  private async save(): Promise<void> {
+    try {
+      await fs.writeFile(this.settingsFilePath, JSON.stringify(this.settings, null, 2), 'utf-8');
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Fills in defaults for missing or malformed fields
+   */
+  private normalize(data: Partial<AppSettings> | null): AppSettings {
+    const ignorePatterns = Array.isArray(data?.ignorePatterns)
+      ? data!.ignorePatterns.filter((pattern): pattern is string => typeof pattern === 'string')
+      : DEFAULT_SETTINGS.ignorePatterns;
+
+    const scanConcurrency = typeof data?.scanConcurrency === 'number' && data.scanConcurrency >= 1
+      ? Math.floor(data.scanConcurrency)
+      : DEFAULT_SETTINGS.scanConcurrency;
+
+    const followSymlinks = typeof data?.followSymlinks === 'boolean'
+      ? data.followSymlinks
+      : DEFAULT_SETTINGS.followSymlinks;
+
+    return {
+      ...DEFAULT_SETTINGS,
+      ignorePatterns,
+      scanConcurrency,
+      followSymlinks,
+      retention: this.normalizeRetention(data?.retention),
+      graveyardBackend: GRAVEYARD_BACKENDS.includes(data?.graveyardBackend as GraveyardBackendId)
+        ? data!.graveyardBackend!
+        : DEFAULT_SETTINGS.graveyardBackend,
+      hashChainLog: typeof data?.hashChainLog === 'boolean'
+        ? data.hashChainLog
+        : DEFAULT_SETTINGS.hashChainLog
+    };
+  }
+
+  /**
+   * Keeps positive limits and turns anything else into "no limit"
+   */
+  private normalizeRetention(retention: Partial<RetentionPolicy> | undefined): RetentionPolicy {
+    const limit = (value: unknown): number | null =>
+      typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+
+    return {
+      maxAgeDays: limit(retention?.maxAgeDays),
+      maxTotalBytes: limit(retention?.maxTotalBytes),
+      reapOnStartup: typeof retention?.reapOnStartup === 'boolean'
+        ? retention.reapOnStartup
+        : DEFAULT_SETTINGS.retention.reapOnStartup
+    };
+  }
+
+  /**
+   * Gets a copy of the current settings
+   * @returns The current settings
+   */
+  getAll(): AppSettings {
+    return {
+      ...this.settings,
+      ignorePatterns: [...this.settings.ignorePatterns],
+      retention: { ...this.settings.retention }
+    };
+  }
+
+  /**
+   * Applies a partial update and persists it
+   * @param updates - Settings fields to change
+   * @returns The updated settings
+   */
+  async update(updates: Partial<AppSettings>): Promise<AppSettings> {
+    this.settings = this.normalize({ ...this.settings, ...updates });
+    await this.save();
+    return this.getAll();
+  }
+
+  /**
+   * Gets the global ignore patterns applied to every scan
+   * @returns Array of gitignore-style patterns
+   */
+  getIgnorePatterns(): string[] {
+    return [...this.settings.ignorePatterns];
+  }
+
+  /**
+   * Gets the maximum number of concurrent worker tasks for scanning and hashing
+   * @returns Concurrency limit (at least 1)
+   */
+  getScanConcurrency(): number {
+    return this.settings.scanConcurrency;
+  }
+
+  /**
+   * Gets whether scans descend into symlinked directories
+   * @returns True if directory links are followed
+   */
+  getFollowSymlinks(): boolean {
+    return this.settings.followSymlinks;
+  }
+
+  /**
+   * Gets the graveyard retention policy
+   * @returns Age and size limits, and whether to reap on startup
+   */
+  getRetentionPolicy(): RetentionPolicy {
+    return { ...this.settings.retention };
+  }
+
+  /**
+   * Gets the configured graveyard backend
+   * @returns Backend that new banishes go to
+   */
+  getGraveyardBackend(): GraveyardBackendId {
+    return this.settings.graveyardBackend;
+  }
+
+  /**
+   * Gets whether new log entries are hash-chained
+   * @returns True if the log keeps a hash chain
+   */
+  getHashChainLog(): boolean {
+    return this.settings.hashChainLog;
+  }
+}
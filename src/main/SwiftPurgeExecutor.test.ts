@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join, basename } from 'path';
+import { tmpdir } from 'os';
+import { GraveyardLog } from './GraveyardLog';
+import { SwiftPurgeExecutor } from './SwiftPurgeExecutor';
+import { ActionType, MonsterType, SwiftPurgeFileEntry, SwiftPurgeScanResult } from '../shared/types';
+
+describe('SwiftPurgeExecutor', () => {
+  let testDir: string;
+  let dataRoot: string;
+  let scanRoot: string;
+  let graveyardLog: GraveyardLog;
+  let executor: SwiftPurgeExecutor;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `digital-exorcist-executor-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+    dataRoot = join(testDir, 'data');
+    scanRoot = join(testDir, 'scan');
+    await fs.mkdir(scanRoot, { recursive: true });
+    graveyardLog = new GraveyardLog(dataRoot);
+    executor = new SwiftPurgeExecutor(graveyardLog, dataRoot);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  async function entryFor(path: string): Promise<SwiftPurgeFileEntry> {
+    const stats = await fs.lstat(path);
+    return {
+      path,
+      fileName: basename(path),
+      size: stats.size,
+      lastModified: stats.mtime,
+      classification: MonsterType.Zombie,
+      classifications: [MonsterType.Zombie],
+      dev: stats.dev,
+      ino: stats.ino,
+      nlink: stats.nlink
+    };
+  }
+
+  function scanResult(files: SwiftPurgeFileEntry[]): SwiftPurgeScanResult {
+    return { sessionId: 'purge-test', targetPath: scanRoot, files } as Partial<SwiftPurgeScanResult> as SwiftPurgeScanResult;
+  }
+
+  it('counts freed bytes as the scan does, so a hard link still held elsewhere frees nothing', async () => {
+    const linked = join(scanRoot, 'linked.bin');
+    const plain = join(scanRoot, 'plain.bin');
+    await fs.writeFile(linked, Buffer.alloc(300));
+    await fs.link(linked, join(scanRoot, 'kept-link.bin'));
+    await fs.writeFile(plain, Buffer.alloc(100));
+    const missing = { ...(await entryFor(plain)), path: join(scanRoot, 'gone.bin') };
+
+    const result = await executor.execute(scanResult([await entryFor(linked), await entryFor(plain), missing]));
+
+    expect(result).toMatchObject({ purgedCount: 2, bytesFreed: 100 });
+    expect(result.errors).toEqual([{ path: missing.path, error: 'File no longer exists' }]);
+  });
+
+  it('logs wraiths and phantoms restored by an undo as what they are', async () => {
+    const wraith = join(scanRoot, 'empty');
+    const phantom = join(scanRoot, 'dangling');
+    await fs.mkdir(wraith);
+    await fs.symlink(join(scanRoot, 'nowhere'), phantom);
+    await executor.execute(scanResult([
+      { ...(await entryFor(wraith)), classification: MonsterType.Wraith, isDirectory: true },
+      { ...(await entryFor(phantom)), classification: MonsterType.Phantom, linkTarget: join(scanRoot, 'nowhere') }
+    ]));
+
+    expect(await executor.undoSession('purge-test')).toMatchObject({ success: true, restoredCount: 2 });
+
+    const restores = (await graveyardLog.getEntriesInOrder()).filter(entry => entry.action === ActionType.Restore);
+    expect(restores.map(entry => [entry.filePath, entry.isDirectory, entry.linkTarget])).toEqual([
+      [wraith, true, undefined],
+      [phantom, undefined, join(scanRoot, 'nowhere')]
+    ]);
+    expect(await fs.readlink(phantom)).toBe(join(scanRoot, 'nowhere'));
+  });
+});
@@ -1,44 +1,51 @@
 import { promises as fs } from 'fs';
-import { join, dirname, relative } from 'path';
+import { join, dirname } from 'path';
 import { 
   SwiftPurgeScanResult, 
   SwiftPurgeExecuteResult,
+  RestoreConflictStrategy,
   ActionType 
 } from '../shared/types';
+import { reclaimableBytes } from '../shared/hardLinks';
 import { GraveyardLog } from './GraveyardLog';
+import { isEmptyDirectory } from './GraveyardBackend';
 import { getUndoManager } from './UndoManager';
+import { Graveyard } from './Graveyard';
+import { GraveyardManifest } from './GraveyardManifest';
+import { resolveRestoreConflict, exhumeResolved } from './RestoreConflicts';
+
+/**
+ * A file a purge moved, kept so the session can be undone
+ */
+interface MovedFile {
+  original: string;
+  graveyard: string;
+  size: number;
+  isDirectory?: boolean;
+  linkTarget?: string;
+}
 
 /**
  * SwiftPurgeExecutor - Handles bulk file operations for Tool Mode
  * 
  * Moves files to the graveyard, logs operations, and supports undo.
- * NEVER performs permanent deletion - all files go to graveyard_trash.
+ * Each purge goes into its own graveyard namespace named after the scan session.
+ * NEVER performs permanent deletion - all files go to the active graveyard backend.
  */
 export class SwiftPurgeExecutor {
   private readonly graveyardPath: string;
   private readonly graveyardLog: GraveyardLog;
-
-  constructor(graveyardLog: GraveyardLog) {
-    this.graveyardPath = join(process.cwd(), 'graveyard_trash');
-    this.graveyardLog = graveyardLog;
-  }
+  private readonly graveyard: Graveyard;
 
   /**
-   * Move a file, using copy+delete as fallback for cross-device moves
+   * @param graveyardLog - Shared log banish and restore entries are written to
+   * @param baseDir - Data root holding graveyard_trash and .digital-exorcist
+   * @param graveyard - Shared graveyard and its backends; defaults to the folder under baseDir
    */
-  private async moveFile(source: string, destination: string): Promise<void> {
-    try {
-      // Try rename first (fast, same-device move)
-      await fs.rename(source, destination);
-    } catch (err: unknown) {
-      // If rename fails with EXDEV (cross-device), use copy+delete
-      if (err && typeof err === 'object' && 'code' in err && err.code === 'EXDEV') {
-        await fs.copyFile(source, destination);
-        await fs.unlink(source);
-      } else {
-        throw err;
-      }
-    }
+  constructor(graveyardLog: GraveyardLog, baseDir: string = '.', graveyard?: Graveyard) {
+    this.graveyardPath = join(baseDir, 'graveyard_trash');
+    this.graveyardLog = graveyardLog;
+    this.graveyard = graveyard || new Graveyard(baseDir);
   }
 
   /**
@@ -50,36 +57,39 @@ export class SwiftPurgeExecutor {
   ): Promise<SwiftPurgeExecuteResult> {
     const errors: Array<{ path: string; error: string }> = [];
     let purgedCount = 0;
-    let bytesFreed = 0;
-    const movedFiles: Array<{ original: string; graveyard: string; size: number }> = [];
+    // Files actually moved; hard links only free their bytes once every link is gone, as the scan counted them
+    const purged: SwiftPurgeScanResult['files'] = [];
+    const movedFiles: MovedFile[] = [];
 
     const total = scanResult.files.length;
 
-    // Ensure base graveyard directory exists
-    await fs.mkdir(this.graveyardPath, { recursive: true });
-
     for (let i = 0; i < scanResult.files.length; i++) {
       const file = scanResult.files[i];
       
       try {
-        // Check if source file still exists
+        // Check if source file still exists (lstat so broken links count)
         try {
-          await fs.access(file.path);
+          await fs.lstat(file.path);
         } catch {
           errors.push({ path: file.path, error: 'File no longer exists' });
           continue;
         }
 
-        // Calculate graveyard path preserving directory structure
-        const relativePath = relative(scanResult.targetPath, file.path);
-        const graveyardFilePath = join(this.graveyardPath, relativePath);
-        const graveyardDir = dirname(graveyardFilePath);
-
-        // Ensure graveyard directory exists
-        await fs.mkdir(graveyardDir, { recursive: true });
+        // Wraith directories are only moved while they are still empty
+        if (file.isDirectory && !(await isEmptyDirectory(file.path))) {
+          errors.push({ path: file.path, error: 'Directory is no longer empty' });
+          continue;
+        }
 
-        // Move file to graveyard (with cross-device fallback)
-        await this.moveFile(file.path, graveyardFilePath);
+        // Move file to graveyard in this session's namespace (with cross-device fallback)
+        const graveyardFilePath = await this.graveyard.bury({
+          originalPath: file.path,
+          scanRoot: scanResult.targetPath,
+          sessionId: scanResult.sessionId,
+          contentHash: file.hash,
+          contentHashStats: { size: file.size, mtimeMs: new Date(file.lastModified).getTime() }
+        });
+        const { storedSize } = await this.graveyard.stat(graveyardFilePath);
 
         // Log the operation
         await this.graveyardLog.appendEntry({
@@ -89,17 +99,26 @@ export class SwiftPurgeExecutor {
           originalPath: file.path,
           graveyardPath: graveyardFilePath,
           classifications: [file.classification],
-          fileSize: file.size
+          fileSize: file.size,
+          isDirectory: file.isDirectory,
+          linkTarget: file.linkTarget,
+          storedSize: storedSize !== file.size ? storedSize : undefined,
+          sessionId: scanResult.sessionId,
+          scanRoot: scanResult.targetPath,
+          mode: 'swift',
+          initiator: 'user'
         });
 
         movedFiles.push({
           original: file.path,
           graveyard: graveyardFilePath,
-          size: file.size
+          size: file.size,
+          isDirectory: file.isDirectory,
+          linkTarget: file.linkTarget
         });
 
         purgedCount++;
-        bytesFreed += file.size;
+        purged.push(file);
       } catch (err) {
         const errorMsg = err instanceof Error ? err.message : 'Unknown error';
         errors.push({ path: file.path, error: errorMsg });
@@ -112,6 +131,8 @@ export class SwiftPurgeExecutor {
       }
     }
 
+    const bytesFreed = reclaimableBytes(purged);
+
     // Register undo entry for the entire session
     let undoSessionId: string | undefined;
     let undoExpiresAt: string | undefined;
@@ -134,7 +155,7 @@ export class SwiftPurgeExecutor {
       }
 
       // Store the batch info for potential undo
-      this.storeBatchUndoInfo(scanResult.sessionId, movedFiles);
+      this.storeBatchUndoInfo(scanResult.sessionId, scanResult.targetPath, movedFiles);
     }
 
     return {
@@ -152,13 +173,17 @@ export class SwiftPurgeExecutor {
   /**
    * Store batch undo information for session-level undo
    */
-  private batchUndoStore = new Map<string, Array<{ original: string; graveyard: string; size: number }>>();
+  private batchUndoStore = new Map<string, {
+    scanRoot: string;
+    files: MovedFile[];
+  }>();
 
   private storeBatchUndoInfo(
     sessionId: string, 
-    files: Array<{ original: string; graveyard: string; size: number }>
+    scanRoot: string,
+    files: MovedFile[]
   ): void {
-    this.batchUndoStore.set(sessionId, files);
+    this.batchUndoStore.set(sessionId, { scanRoot, files });
     
     // Auto-cleanup after 30 seconds (longer than undo window)
     setTimeout(() => {
@@ -168,57 +193,71 @@ export class SwiftPurgeExecutor {
 
   /**
    * Undo an entire Swift Purge session
+   * @param sessionId - Purge session to restore
+   * @param strategy - What to do with files whose original location is taken (default: report an error)
    */
-  async undoSession(sessionId: string): Promise<{
+  async undoSession(sessionId: string, strategy: RestoreConflictStrategy = 'fail'): Promise<{
     success: boolean;
     restoredCount: number;
+    skippedCount: number;
     errors: Array<{ path: string; error: string }>;
   }> {
-    const files = this.batchUndoStore.get(sessionId);
+    const batch = this.batchUndoStore.get(sessionId);
     
-    if (!files) {
+    if (!batch) {
       return {
         success: false,
         restoredCount: 0,
+        skippedCount: 0,
         errors: [{ path: sessionId, error: 'Session not found or expired' }]
       };
     }
 
     const errors: Array<{ path: string; error: string }> = [];
     let restoredCount = 0;
+    let skippedCount = 0;
+    // Files moved out of the way share one graveyard session of their own
+    const displacedSessionId = GraveyardManifest.createSessionId();
 
-    for (const file of files) {
+    for (const file of batch.files) {
       try {
         // Check if graveyard file still exists
-        await fs.access(file.graveyard);
-
-        // Check for conflicts at original location
-        try {
-          await fs.access(file.original);
-          // File exists at original - skip with error
-          errors.push({ 
-            path: file.original, 
-            error: 'File already exists at original location' 
-          });
+        const { mtimeMs } = await this.graveyard.stat(file.graveyard);
+
+        // Apply the conflict strategy at the original location
+        const resolution = await resolveRestoreConflict(
+          file.original,
+          mtimeMs,
+          strategy,
+          path => this.displace(path, displacedSessionId)
+        );
+        const { destination } = resolution;
+        if (!destination) {
+          skippedCount++;
           continue;
-        } catch {
-          // Good - original location is free
         }
 
-        // Ensure original directory exists
-        await fs.mkdir(dirname(file.original), { recursive: true });
-
-        // Move back
-        await fs.rename(file.graveyard, file.original);
+        // Move back through the backend holding it; a displaced file is put back if that fails
+        await exhumeResolved(
+          { ...resolution, destination },
+          to => this.graveyard.exhume(file.graveyard, to),
+          (displaced, path) => this.putBack(displaced, path, displacedSessionId)
+        );
 
         // Log the restore
         await this.graveyardLog.appendEntry({
           timestamp: new Date().toISOString(),
           action: ActionType.Restore,
-          filePath: file.original,
+          filePath: destination,
           originalPath: file.original,
           graveyardPath: file.graveyard,
-          fileSize: file.size
+          fileSize: file.size,
+          isDirectory: file.isDirectory,
+          linkTarget: file.linkTarget,
+          sessionId,
+          scanRoot: batch.scanRoot,
+          mode: 'swift',
+          initiator: 'undo'
         });
 
         restoredCount++;
@@ -234,17 +273,74 @@ export class SwiftPurgeExecutor {
     return {
       success: errors.length === 0,
       restoredCount,
+      skippedCount,
       errors
     };
   }
+
+  /**
+   * Banishes a file that is in the way of an undo, so overwriting never loses it
+   * @returns Where it went in the graveyard
+   */
+  private async displace(path: string, sessionId: string): Promise<string> {
+    const stats = await fs.lstat(path);
+    if (stats.isDirectory() && !(await isEmptyDirectory(path))) {
+      throw new Error(`Cannot move a non-empty directory out of the way: ${path}`);
+    }
+
+    const graveyardFilePath = await this.graveyard.bury({ originalPath: path, scanRoot: dirname(path), sessionId });
+    const { size, storedSize, isDirectory, linkTarget } = await this.graveyard.stat(graveyardFilePath);
+    await this.graveyardLog.appendEntry({
+      timestamp: new Date().toISOString(),
+      action: ActionType.Banish,
+      filePath: path,
+      originalPath: path,
+      graveyardPath: graveyardFilePath,
+      fileSize: size,
+      isDirectory: isDirectory || undefined,
+      linkTarget,
+      storedSize: storedSize !== size ? storedSize : undefined,
+      sessionId,
+      scanRoot: dirname(path),
+      mode: 'swift',
+      initiator: 'restore-conflict'
+    });
+    return graveyardFilePath;
+  }
+
+  /**
+   * Moves a displaced file back after the undo that displaced it failed
+   */
+  private async putBack(graveyardPath: string, path: string, sessionId: string): Promise<void> {
+    const { size, isDirectory, linkTarget } = await this.graveyard.stat(graveyardPath);
+    await this.graveyard.exhume(graveyardPath, path);
+    await this.graveyardLog.appendEntry({
+      timestamp: new Date().toISOString(),
+      action: ActionType.Restore,
+      filePath: path,
+      originalPath: path,
+      graveyardPath,
+      fileSize: size,
+      isDirectory: isDirectory || undefined,
+      linkTarget,
+      sessionId,
+      scanRoot: dirname(path),
+      mode: 'swift',
+      initiator: 'restore-conflict'
+    });
+  }
 }
 
 // Singleton instance
 let executorInstance: SwiftPurgeExecutor | null = null;
 
-export function getSwiftPurgeExecutor(graveyardLog: GraveyardLog): SwiftPurgeExecutor {
+export function getSwiftPurgeExecutor(
+  graveyardLog: GraveyardLog,
+  baseDir?: string,
+  graveyard?: Graveyard
+): SwiftPurgeExecutor {
   if (!executorInstance) {
-    executorInstance = new SwiftPurgeExecutor(graveyardLog);
+    executorInstance = new SwiftPurgeExecutor(graveyardLog, baseDir, graveyard);
   }
   return executorInstance;
 }
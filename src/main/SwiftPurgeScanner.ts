@@ -1,35 +1,68 @@
-import { promises as fs } from 'fs';
-import { join, basename, extname } from 'path';
-import { createHash } from 'crypto';
-import { createReadStream } from 'fs';
+import { join, basename } from 'path';
 import { EventEmitter } from 'events';
 import { 
   SwiftPurgeFileEntry, 
   SwiftPurgeScanResult, 
-  SwiftPurgeScanProgress 
+  SwiftPurgeScanProgress,
+  MonsterType,
+  ClassificationConfig,
+  DEFAULT_CLASSIFICATION_CONFIG
 } from '../shared/types';
+import { IgnoreMatcher } from './IgnoreMatcher';
+import { DuplicateDetector } from './DuplicateDetector';
+import { ScanWorkerPool, ScanCancelledError } from './ScanWorkerPool';
+import { ScanIndex } from './ScanIndex';
+import { ClassificationEngine } from './ClassificationEngine';
+import { CompiledMonsterRules } from './MonsterRules';
+import { reclaimableBytes } from '../shared/hardLinks';
+
+export interface SwiftPurgeScannerOptions {
+  /** Global gitignore-style patterns applied relative to the scan root */
+  ignorePatterns?: string[];
+  /** Maximum number of directory reads or hashes running at once on worker threads */
+  concurrency?: number;
+  /** Persistent index used to skip re-hashing unchanged files */
+  index?: ScanIndex;
+  /** Thresholds for the classification profile assigned to the target */
+  classificationConfig?: ClassificationConfig;
+  /** Custom monster rules evaluated alongside the built-in types */
+  monsterRules?: CompiledMonsterRules;
+  /** Descend into symlinked directories; loops are broken by device and inode */
+  followSymlinks?: boolean;
+}
 
 /**
  * SwiftPurgeScanner - Specialized scanner for Tool Mode
  * 
- * Scans up to 1000 files, computes hashes for duplicate detection,
- * and classifies files as Ghost, Zombie, or Demon.
+ * Scans up to 1000 files, runs staged duplicate detection,
+ * and classifies files as Ghost, Zombie, Demon, or Wraith via ClassificationEngine.
+ * Empty directories are collected as single Wraith entries and broken
+ * symlinks as Phantoms.
  * 
- * Classification priority: DEMON > ZOMBIE > GHOST
+ * Classification priority: DEMON > ZOMBIE > WRAITH > PHANTOM > GHOST
  */
 export class SwiftPurgeScanner extends EventEmitter {
   private readonly MAX_FILES = 1000;
-  private readonly GHOST_AGE_MONTHS = 6;
-  private readonly DEMON_SIZE_BYTES = 500 * 1024 * 1024; // 500MB
-  private readonly DEMON_EXTENSIONS = ['.iso', '.zip', '.rar', '.7z', '.mp4', '.mkv', '.avi', '.mov', '.dmg', '.tar', '.gz'];
-  private readonly DEMON_EXT_AGE_MONTHS = 3;
-  
   private cancelled = false;
+  private pool: ScanWorkerPool | null = null;
   private whitelist: Set<string>;
+  private readonly ignorePatterns: string[];
+  private readonly concurrency?: number;
+  private readonly index?: ScanIndex;
+  private readonly followSymlinks: boolean;
+  private readonly engine: ClassificationEngine;
 
-  constructor(whitelist: Set<string> = new Set()) {
+  constructor(whitelist: Set<string> = new Set(), options: SwiftPurgeScannerOptions = {}) {
     super();
     this.whitelist = whitelist;
+    this.ignorePatterns = options.ignorePatterns ?? [];
+    this.concurrency = options.concurrency;
+    this.index = options.index;
+    this.followSymlinks = options.followSymlinks ?? false;
+    this.engine = new ClassificationEngine(
+      options.classificationConfig ?? DEFAULT_CLASSIFICATION_CONFIG,
+      options.monsterRules
+    );
   }
 
   /**
@@ -39,50 +72,12 @@ export class SwiftPurgeScanner extends EventEmitter {
     return `swift-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
   }
 
-  /**
-   * Compute SHA-256 hash using streaming
-   */
-  private async computeHash(filePath: string): Promise<string> {
-    return new Promise((resolve, reject) => {
-      const hash = createHash('sha256');
-      const stream = createReadStream(filePath);
-      stream.on('data', chunk => hash.update(chunk));
-      stream.on('end', () => resolve(hash.digest('hex')));
-      stream.on('error', reject);
-    });
-  }
-
-  /**
-   * Check if file is a Ghost (older than 6 months)
-   */
-  private isGhost(lastModified: Date): boolean {
-    const sixMonthsAgo = new Date();
-    sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - this.GHOST_AGE_MONTHS);
-    return lastModified < sixMonthsAgo;
-  }
-
-  /**
-   * Check if file is a Demon (large file or large extension + old)
-   */
-  private isDemon(size: number, ext: string, lastModified: Date): boolean {
-    // Size-based demon: > 500MB
-    if (size > this.DEMON_SIZE_BYTES) return true;
-    
-    // Extension-based demon: large file type + older than 3 months
-    if (this.DEMON_EXTENSIONS.includes(ext.toLowerCase())) {
-      const threeMonthsAgo = new Date();
-      threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - this.DEMON_EXT_AGE_MONTHS);
-      return lastModified < threeMonthsAgo;
-    }
-    
-    return false;
-  }
-
   /**
    * Cancel the current scan
    */
   cancelScan(): void {
     this.cancelled = true;
+    void this.pool?.terminate();
   }
 
 
@@ -94,28 +89,53 @@ export class SwiftPurgeScanner extends EventEmitter {
     this.cancelled = false;
     const sessionId = this.generateSessionId();
     
-    // Phase 1: Collect files (up to limit)
-    const collectedFiles: Array<{
+    // Phase 1: Collect files and empty directories (up to limit)
+    type CollectedFile = {
       path: string;
       fileName: string;
       size: number;
       lastModified: Date;
-      ext: string;
-    }> = [];
+      dev?: number;
+      ino?: number;
+      nlink?: number;
+      isDirectory?: boolean;
+      linkTarget?: string;
+    };
+    const collectedFiles: CollectedFile[] = [];
     
     let totalScanned = 0;
     let limitReached = false;
+    let prunedCount = 0;
+    // Device and inode of every directory read, to break cycles through links
+    const visitedDirectories = new Set<string>();
+
+    const pool = new ScanWorkerPool({ concurrency: this.concurrency });
+    this.pool = pool;
 
-    const collectFiles = async (dirPath: string): Promise<void> => {
+    // Returns the directory's own entry when it is recursively empty, so only
+    // the topmost empty directory is collected
+    const collectFiles = async (dirPath: string, parentMatcher: IgnoreMatcher): Promise<CollectedFile | null> => {
       if (this.cancelled || collectedFiles.length >= this.MAX_FILES) {
         if (collectedFiles.length >= this.MAX_FILES) limitReached = true;
-        return;
+        return null;
       }
 
       try {
-        const entries = await fs.readdir(dirPath, { withFileTypes: true });
+        const listing = await pool.readDirectory(dirPath, parentMatcher.getRules());
+
+        const directoryKey = `${listing.dev}:${listing.ino}`;
+        if (visitedDirectories.has(directoryKey)) return null;
+        visitedDirectories.add(directoryKey);
+
+        const matcher = listing.ignoreFileContent !== null
+          ? parentMatcher.withRules(dirPath, listing.ignoreFileContent)
+          : parentMatcher;
+        const subdirectories: string[] = [];
+        // Followed directory links are walked but never collected as wraiths themselves
+        const linkedDirectories: string[] = [];
+        let hasContent = false;
         
-        for (const entry of entries) {
+        for (const entry of listing.entries) {
           if (this.cancelled || collectedFiles.length >= this.MAX_FILES) {
             if (collectedFiles.length >= this.MAX_FILES) limitReached = true;
             break;
@@ -123,145 +143,167 @@ export class SwiftPurgeScanner extends EventEmitter {
 
           const fullPath = join(dirPath, entry.name);
 
-          try {
-            if (entry.isDirectory()) {
-              await collectFiles(fullPath);
-            } else if (entry.isFile()) {
-              // Skip whitelisted files
-              if (this.whitelist.has(fullPath)) continue;
+          // Ignored entries were pruned before they were read
+          if (entry.ignored) {
+            prunedCount++;
+            hasContent = true;
+            continue;
+          }
+
+          if (entry.kind === 'directory') {
+            subdirectories.push(fullPath);
+            continue;
+          }
 
-              const stats = await fs.stat(fullPath);
+          hasContent = true;
+          // Whitelisted entries are collected too; the engine never classifies them but counts them as copies
+          if (entry.kind === 'symlink') {
+            if (entry.targetKind === 'broken') {
               totalScanned++;
-
               collectedFiles.push({
                 path: fullPath,
                 fileName: basename(fullPath),
-                size: stats.size,
-                lastModified: stats.mtime,
-                ext: extname(fullPath)
+                size: 0,
+                lastModified: new Date(entry.mtimeMs!),
+                linkTarget: entry.linkTarget
               });
+            } else if (entry.targetKind === 'directory' && this.followSymlinks) {
+              linkedDirectories.push(fullPath);
+            }
+            continue;
+          }
 
-              // Emit progress every 50 files
-              if (totalScanned % 50 === 0) {
-                const progress: SwiftPurgeScanProgress = {
-                  filesScanned: totalScanned,
-                  currentPath: fullPath,
-                  phase: 'scanning'
-                };
-                this.emit('progress', progress);
-              }
+          if (entry.kind === 'file') {
+            if (entry.error !== undefined) {
+              // Skip inaccessible files
+              console.warn(`Cannot access ${fullPath}:`, entry.error);
+              continue;
+            }
+
+            totalScanned++;
+
+            collectedFiles.push({
+              path: fullPath,
+              fileName: basename(fullPath),
+              size: entry.size!,
+              lastModified: new Date(entry.mtimeMs!),
+              dev: entry.dev,
+              ino: entry.ino,
+              nlink: entry.nlink
+            });
+
+            // Emit progress every 50 files
+            if (totalScanned % 50 === 0) {
+              const progress: SwiftPurgeScanProgress = {
+                filesScanned: totalScanned,
+                currentPath: fullPath,
+                phase: 'scanning'
+              };
+              this.emit('progress', progress);
             }
-          } catch (err) {
-            // Skip inaccessible files
-            console.warn(`Cannot access ${fullPath}:`, err);
           }
         }
+
+        const [emptySubdirectories] = await Promise.all([
+          Promise.all(subdirectories.map(dir => collectFiles(dir, matcher))),
+          Promise.all(linkedDirectories.map(dir => collectFiles(dir, matcher)))
+        ]);
+
+        // A whitelisted directory, a cut-short walk or any content keeps this directory from being a wraith
+        const complete = !this.cancelled && !limitReached;
+        if (!hasContent && complete && !this.whitelist.has(dirPath) && emptySubdirectories.every(Boolean)) {
+          return {
+            path: dirPath,
+            fileName: basename(dirPath),
+            size: 0,
+            lastModified: new Date(listing.mtimeMs),
+            isDirectory: true
+          };
+        }
+
+        for (const emptyDir of emptySubdirectories) {
+          if (emptyDir) collectedFiles.push(emptyDir);
+        }
+        return null;
       } catch (err) {
+        if (err instanceof ScanCancelledError) return null;
         console.warn(`Cannot read directory ${dirPath}:`, err);
+        return null;
       }
     };
 
-    await collectFiles(targetPath);
+    let hashes: Map<string, string>;
+    const detector = new DuplicateDetector(pool, this.index);
 
-    // Phase 2: Compute hashes for duplicate detection
-    const filesWithHashes: Array<typeof collectedFiles[0] & { hash?: string }> = [];
-    
-    for (let i = 0; i < collectedFiles.length; i++) {
-      if (this.cancelled) break;
-      
-      const file = collectedFiles[i];
-      let hash: string | undefined;
-      
-      try {
-        hash = await this.computeHash(file.path);
-      } catch (err) {
-        console.warn(`Cannot hash ${file.path}:`, err);
-      }
-      
-      filesWithHashes.push({ ...file, hash });
-
-      // Emit progress every 20 files during hashing
-      if ((i + 1) % 20 === 0) {
-        const progress: SwiftPurgeScanProgress = {
-          filesScanned: i + 1,
-          currentPath: file.path,
-          phase: 'hashing'
-        };
-        this.emit('progress', progress);
-      }
-    }
+    try {
+      await collectFiles(targetPath, IgnoreMatcher.create(targetPath, this.ignorePatterns));
 
-    // Phase 3: Classify files
-    // Group by hash for zombie detection
-    const hashGroups = new Map<string, typeof filesWithHashes>();
-    for (const file of filesWithHashes) {
-      if (file.hash) {
-        const group = hashGroups.get(file.hash) || [];
-        group.push(file);
-        hashGroups.set(file.hash, group);
-      }
-    }
+      // Concurrent reads can overshoot the limit slightly; keep the first MAX_FILES
+      collectedFiles.splice(this.MAX_FILES);
 
-    // Determine primary file for each duplicate group (newest or shortest path)
-    const primaryFiles = new Map<string, string>();
-    for (const [hash, group] of hashGroups.entries()) {
-      if (group.length > 1) {
-        // Sort by lastModified desc, then by path length asc
-        const sorted = [...group].sort((a, b) => {
-          const timeDiff = b.lastModified.getTime() - a.lastModified.getTime();
-          if (timeDiff !== 0) return timeDiff;
-          return a.path.length - b.path.length;
-        });
-        primaryFiles.set(hash, sorted[0].path);
-      }
+      // Phase 2: Staged duplicate detection (size, then partial hash, then full hash)
+      hashes = await detector.findDuplicates(collectedFiles, (hashed, currentPath) => {
+        // Emit progress every 20 files during hashing
+        if (hashed % 20 === 0) {
+          const progress: SwiftPurgeScanProgress = {
+            filesScanned: hashed,
+            currentPath,
+            phase: 'hashing',
+            ...detector.getCacheStats()
+          };
+          this.emit('progress', progress);
+        }
+      });
+    } finally {
+      this.pool = null;
+      await pool.terminate();
+      await this.index?.save().catch(() => undefined);
     }
 
-    // Classify each file with priority: DEMON > ZOMBIE > GHOST
+    const filesWithHashes: Array<typeof collectedFiles[0] & { hash?: string }> = collectedFiles.map(file => ({
+      ...file,
+      hash: hashes.get(file.path)
+    }));
+
+    // Phase 3: Classify files with the shared engine (primary: DEMON > ZOMBIE > WRAITH > PHANTOM > GHOST)
     const classifiedFiles: SwiftPurgeFileEntry[] = [];
-    const counts = { ghosts: 0, zombies: 0, demons: 0 };
-    let totalBytes = 0;
-
-    for (const file of filesWithHashes) {
-      const isDemon = this.isDemon(file.size, file.ext, file.lastModified);
-      const isZombie = file.hash && hashGroups.get(file.hash)!.length > 1 && 
-                       primaryFiles.get(file.hash) !== file.path;
-      const isGhost = this.isGhost(file.lastModified);
-
-      let classification: 'ghost' | 'zombie' | 'demon' | null = null;
-      let duplicateOf: string | undefined;
-
-      // Priority: DEMON > ZOMBIE > GHOST
-      if (isDemon) {
-        classification = 'demon';
-        counts.demons++;
-      } else if (isZombie) {
-        classification = 'zombie';
-        counts.zombies++;
-        duplicateOf = primaryFiles.get(file.hash!);
-      } else if (isGhost) {
-        classification = 'ghost';
-        counts.ghosts++;
-      }
+    const counts = { ghosts: 0, zombies: 0, demons: 0, wraiths: 0, phantoms: 0 };
 
-      if (classification) {
-        totalBytes += file.size;
-        classifiedFiles.push({
-          path: file.path,
-          fileName: file.fileName,
-          size: file.size,
-          lastModified: file.lastModified,
-          hash: file.hash,
-          classification,
-          duplicateOf
-        });
-      }
+    for (const file of this.engine.classify(filesWithHashes, this.whitelist, new Date(), targetPath)) {
+      // Swift Purge only purges built-in types; custom-only matches are left alone
+      const classification = file.primaryClassification;
+      if (!classification) continue;
+
+      if (classification === MonsterType.Demon) counts.demons++;
+      else if (classification === MonsterType.Zombie) counts.zombies++;
+      else if (classification === MonsterType.Wraith) counts.wraiths++;
+      else if (classification === MonsterType.Phantom) counts.phantoms++;
+      else counts.ghosts++;
+
+      classifiedFiles.push({
+        path: file.path,
+        fileName: file.fileName,
+        size: file.size,
+        lastModified: file.lastModified,
+        hash: file.hash,
+        classification,
+        classifications: file.classifications,
+        duplicateOf: file.duplicateOf,
+        dev: file.dev,
+        ino: file.ino,
+        nlink: file.nlink,
+        isDirectory: file.isDirectory,
+        linkTarget: file.linkTarget,
+        customClassifications: file.customClassifications
+      });
     }
 
     // Emit final progress
     this.emit('progress', {
       filesScanned: totalScanned,
       currentPath: targetPath,
-      phase: 'classifying'
+      phase: 'classifying',
+      ...detector.getCacheStats()
     });
 
     return {
@@ -269,8 +311,11 @@ export class SwiftPurgeScanner extends EventEmitter {
       targetPath,
       files: classifiedFiles,
       totalFilesScanned: totalScanned,
-      totalBytes,
+      // Hard-linked data only counts when every link is being purged
+      totalBytes: reclaimableBytes(classifiedFiles),
       limitReached,
+      prunedCount,
+      bytesRead: detector.getBytesRead(),
       counts
     };
   }
@@ -1,5 +1,7 @@
 import { promises as fs } from 'fs';
 import { dirname } from 'path';
+import { RestoreConflictStrategy, SessionMode } from '../shared/types';
+import { resolveRestoreConflict, exhumeResolved, ConflictResolution, DisplaceFn, PutBackFn, DisplacedRestoreError } from './RestoreConflicts';
 
 /**
  * Undo Entry - Represents a banish operation that can be undone
@@ -21,6 +23,8 @@ export interface UndoEntry {
   fileSize?: number;
   /** File name (for display purposes) */
   fileName?: string;
+  /** Session mode the banish was made in, logged again with the undo */
+  mode?: SessionMode;
 }
 
 /**
@@ -30,8 +34,37 @@ export interface UndoResult {
   success: boolean;
   restoredPath?: string;
   error?: string;
+  /** The undo was skipped because of a conflict */
+  skipped?: boolean;
+  /** Graveyard path the file that was in the way was moved to */
+  displacedTo?: string;
 }
 
+/**
+ * Checks for and moves entries out of the graveyard
+ */
+export interface UndoRestorer {
+  exists(graveyardPath: string): Promise<boolean>;
+  exhume(graveyardPath: string, destination: string): Promise<void>;
+  /** Modification time an entry will be restored with; compared by keep-newer */
+  stat?(graveyardPath: string): Promise<{ mtimeMs?: number }>;
+  /** Moves a file that is in the way into the graveyard; needed to overwrite */
+  displace?: DisplaceFn;
+  /** Moves a displaced file back when the restore that displaced it fails */
+  putBack?: PutBackFn;
+}
+
+/**
+ * Restores graveyard files with plain lstat and rename
+ */
+const plainRestorer: UndoRestorer = {
+  exists: (graveyardPath) => fs.lstat(graveyardPath).then(() => true, () => false),
+  exhume: async (graveyardPath, destination) => {
+    await fs.mkdir(dirname(destination), { recursive: true });
+    await fs.rename(graveyardPath, destination);
+  }
+};
+
 /**
  * UndoManager - Manages time-limited undo operations for file banishments
  * 
@@ -109,9 +142,15 @@ export class UndoManager {
   /**
    * Executes an undo operation, restoring the file to its original location
    * @param id The ID of the undo entry
+   * @param restorer Graveyard access, e.g. the Graveyard; defaults to plain lstat and rename
+   * @param strategy What to do when the original location is taken (default: fail)
    * @returns Result of the undo operation
    */
-  async executeUndo(id: string): Promise<UndoResult> {
+  async executeUndo(
+    id: string,
+    restorer: UndoRestorer = plainRestorer,
+    strategy: RestoreConflictStrategy = 'fail'
+  ): Promise<UndoResult> {
     const entry = this.queue.get(id);
 
     if (!entry) {
@@ -131,10 +170,8 @@ export class UndoManager {
     }
 
     try {
-      // Validate graveyard file exists
-      try {
-        await fs.access(entry.graveyardPath);
-      } catch {
+      // Validate graveyard file exists (broken links count)
+      if (!(await restorer.exists(entry.graveyardPath))) {
         this.queue.delete(id);
         return {
           success: false,
@@ -142,40 +179,49 @@ export class UndoManager {
         };
       }
 
-      // Check for conflicts at original location
+      // Apply the conflict strategy at the original location
+      const incoming = restorer.stat ? await restorer.stat(entry.graveyardPath) : await fs.lstat(entry.graveyardPath);
+      let resolution: ConflictResolution;
       try {
-        await fs.access(entry.filePath);
-        // File exists at original location - conflict detected
+        resolution = await resolveRestoreConflict(entry.filePath, incoming.mtimeMs, strategy, restorer.displace);
+      } catch (error) {
+        // A conflict the strategy does not resolve - this entry cannot be undone
         this.queue.delete(id);
         return {
           success: false,
-          error: `Conflict: File already exists at original location: ${entry.filePath}`
+          error: error instanceof Error ? error.message : 'Unknown conflict during undo'
         };
-      } catch {
-        // File doesn't exist at original location - safe to restore
       }
 
-      // Ensure original directory exists
-      const originalDir = dirname(entry.filePath);
-      await fs.mkdir(originalDir, { recursive: true });
+      if (!resolution.destination) {
+        this.queue.delete(id);
+        console.log(`[UndoManager] Skipped ${entry.filePath}: something already exists there`);
+        return { success: true, skipped: true };
+      }
 
-      // Move file from graveyard back to original location
-      await fs.rename(entry.graveyardPath, entry.filePath);
+      // Move file from graveyard back out; a displaced file is put back if that fails
+      const displacedTo = await exhumeResolved(
+        { ...resolution, destination: resolution.destination },
+        destination => restorer.exhume(entry.graveyardPath, destination),
+        restorer.putBack
+      );
 
       // Remove entry from queue
       this.queue.delete(id);
 
-      console.log(`[UndoManager] Successfully restored ${entry.filePath}`);
+      console.log(`[UndoManager] Successfully restored ${resolution.destination}`);
 
       return {
         success: true,
-        restoredPath: entry.filePath
+        restoredPath: resolution.destination,
+        displacedTo
       };
     } catch (error) {
       console.error(`[UndoManager] Error during undo:`, error);
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error during undo'
+        error: error instanceof Error ? error.message : 'Unknown error during undo',
+        displacedTo: error instanceof DisplacedRestoreError ? error.displacedTo : undefined
       };
     }
   }
@@ -0,0 +1,33 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { WhitelistManager } from './WhitelistManager';
+
+describe('WhitelistManager', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = join(tmpdir(), `digital-exorcist-whitelist-${Date.now()}-${Math.random().toString(36).substring(7)}`);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  it('keeps paths another instance added since it loaded', async () => {
+    const first = new WhitelistManager(testDir);
+    const second = new WhitelistManager(testDir);
+    await first.load();
+    await second.load();
+
+    await Promise.all([first.add('/home/a.txt'), second.add('/home/b.txt'), first.add('/home/c.txt')]);
+    await second.remove('/home/c.txt');
+
+    const reloaded = new WhitelistManager(testDir);
+    await reloaded.load();
+    expect(reloaded.getAll().sort()).toEqual(['/home/a.txt', '/home/b.txt']);
+    expect(second.has('/home/a.txt')).toBe(true);
+    expect(await fs.readdir(join(testDir, '.digital-exorcist'))).toEqual(['whitelist.json']);
+  });
+});
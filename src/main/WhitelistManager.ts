@@ -1,14 +1,24 @@
 import { promises as fs } from 'fs';
 import { join } from 'path';
+import { FileLock, writeFileAtomic } from './FileLock';
 
+/**
+ * WhitelistManager - Keeps the set of paths that are never flagged
+ *
+ * Changes are made under whitelist.lock by re-reading whitelist.json,
+ * applying the change and replacing the file atomically, so paths added
+ * by another app instance are kept rather than overwritten.
+ */
 export class WhitelistManager {
   private readonly whitelistFilePath: string;
   private readonly whitelistDir: string;
+  private readonly lock: FileLock;
   private whitelist: Set<string>;
 
   constructor(baseDir: string = '.') {
     this.whitelistDir = join(baseDir, '.digital-exorcist');
     this.whitelistFilePath = join(this.whitelistDir, 'whitelist.json');
+    this.lock = new FileLock(join(this.whitelistDir, 'whitelist.lock'));
     this.whitelist = new Set<string>();
   }
 
@@ -22,13 +32,12 @@ export class WhitelistManager {
       await fs.mkdir(this.whitelistDir, { recursive: true });
 
       // Try to read the whitelist file
-      try {
-        const content = await fs.readFile(this.whitelistFilePath, 'utf-8');
-        const data = JSON.parse(content);
-        this.whitelist = new Set(data.files || []);
-      } catch (error) {
+      const files = await this.read();
+      if (files) {
+        this.whitelist = files;
+      } else {
         // File doesn't exist or is corrupted, create new one
-        await this.save();
+        await this.update(() => undefined);
       }
     } catch (error) {
       console.error('Error loading whitelist:', error);
@@ -37,14 +46,33 @@ export class WhitelistManager {
   }
 
   /**
-   * Saves the current whitelist to disk
+   * Reads the whitelist file
+   * @returns The whitelisted paths, or undefined if the file is missing or corrupted
    */
-  private async save(): Promise<void> {
+  private async read(): Promise<Set<string> | undefined> {
     try {
-      const data = {
-        files: Array.from(this.whitelist)
-      };
-      await fs.writeFile(this.whitelistFilePath, JSON.stringify(data, null, 2), 'utf-8');
+      const content = await fs.readFile(this.whitelistFilePath, 'utf-8');
+      const data = JSON.parse(content);
+      return new Set(data.files || []);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Applies a change to the whitelist on disk and in memory
+   * @param change - Edits the current set of paths
+   */
+  private async update(change: (files: Set<string>) => void): Promise<void> {
+    try {
+      await fs.mkdir(this.whitelistDir, { recursive: true });
+      await this.lock.run(async () => {
+        // Start from the file, which may hold another instance's changes
+        const files = (await this.read()) ?? new Set(this.whitelist);
+        change(files);
+        await writeFileAtomic(this.whitelistFilePath, JSON.stringify({ files: Array.from(files) }, null, 2));
+        this.whitelist = files;
+      });
     } catch (error) {
       console.error('Error saving whitelist:', error);
       throw error;
@@ -56,8 +84,7 @@ export class WhitelistManager {
    * @param filePath - The file path to add
    */
   async add(filePath: string): Promise<void> {
-    this.whitelist.add(filePath);
-    await this.save();
+    await this.update(files => files.add(filePath));
   }
 
   /**
@@ -65,8 +92,7 @@ export class WhitelistManager {
    * @param filePath - The file path to remove
    */
   async remove(filePath: string): Promise<void> {
-    this.whitelist.delete(filePath);
-    await this.save();
+    await this.update(files => files.delete(filePath));
   }
 
   /**
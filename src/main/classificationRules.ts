@@ -0,0 +1,76 @@
+import { extname } from 'path';
+import { ClassificationConfig } from '../shared/types';
+
+/**
+ * Returns the date `months` months before `now`
+ */
+function monthsAgo(months: number, now: Date): Date {
+  const date = new Date(now);
+  date.setMonth(date.getMonth() - months);
+  return date;
+}
+
+/**
+ * Determines if a file is a Ghost (not modified for ghostAgeMonths)
+ * @param lastModified - File modification time
+ * @param config - Classification thresholds
+ * @param now - Reference time, defaults to the current time
+ */
+export function isGhostFile(lastModified: Date, config: ClassificationConfig, now: Date = new Date()): boolean {
+  return lastModified < monthsAgo(config.ghostAgeMonths, now);
+}
+
+/**
+ * Determines if a file is a Demon: larger than demonSizeBytes, or a
+ * demon extension that has not been modified for demonExtAgeMonths
+ * @param filePath - File path, used for its extension
+ * @param size - File size in bytes
+ * @param lastModified - File modification time
+ * @param config - Classification thresholds
+ * @param now - Reference time, defaults to the current time
+ */
+export function isDemonFile(
+  filePath: string,
+  size: number,
+  lastModified: Date,
+  config: ClassificationConfig,
+  now: Date = new Date()
+): boolean {
+  if (size > config.demonSizeBytes) return true;
+
+  const ext = extname(filePath).toLowerCase();
+  if (ext && config.demonExtensions.includes(ext)) {
+    return lastModified < monthsAgo(config.demonExtAgeMonths, now);
+  }
+
+  return false;
+}
+
+/**
+ * Fills in defaults for missing or malformed config fields
+ * @param data - Untrusted config, e.g. from disk or IPC
+ * @param fallback - Values used for anything invalid
+ */
+export function normalizeClassificationConfig(
+  data: Partial<ClassificationConfig> | null | undefined,
+  fallback: ClassificationConfig
+): ClassificationConfig {
+  const nonNegative = (value: unknown, defaultValue: number): number =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : defaultValue;
+
+  const demonExtensions = Array.isArray(data?.demonExtensions)
+    ? data!.demonExtensions
+        .filter((ext): ext is string => typeof ext === 'string' && ext.trim().length > 0)
+        .map(ext => {
+          const trimmed = ext.trim().toLowerCase();
+          return trimmed.startsWith('.') ? trimmed : `.${trimmed}`;
+        })
+    : [...fallback.demonExtensions];
+
+  return {
+    ghostAgeMonths: nonNegative(data?.ghostAgeMonths, fallback.ghostAgeMonths),
+    demonSizeBytes: nonNegative(data?.demonSizeBytes, fallback.demonSizeBytes),
+    demonExtensions: [...new Set(demonExtensions)],
+    demonExtAgeMonths: nonNegative(data?.demonExtAgeMonths, fallback.demonExtAgeMonths)
+  };
+}
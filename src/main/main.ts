@@ -2,16 +2,46 @@ import { app, BrowserWindow, ipcMain, dialog } from 'electron';
 import { join, basename, dirname } from 'path';
 import * as os from 'os';
 import 'dotenv/config';
-import { IPC_CHANNELS, FileScanResult, FileInspectionRequest, SwiftPurgeScanResult } from '../shared/types';
+import {
+  IPC_CHANNELS,
+  FileScanResult,
+  FileInspectionRequest,
+  SwiftPurgeScanResult,
+  AppSettings,
+  ClassificationProfile,
+  ClassificationProfiles,
+  ClassificationProfilesResult,
+  DataRootInfo,
+  RestoreConflict,
+  RestoreConflictStrategy,
+  BulkRestoreRequest,
+  GraveyardRepairAction,
+  SessionMode,
+  LogQuery,
+  LogExportResult
+} from '../shared/types';
 import { FileScanner } from './FileScanner';
 import { FileClassifier } from './FileClassifier';
 import { FileOperations } from './FileOperations';
 import { GraveyardLog } from './GraveyardLog';
+import { LogSigner } from './LogIntegrity';
+import { writeFileAtomic } from './FileLock';
+import { GraveyardManifest } from './GraveyardManifest';
+import { DataPaths } from './DataPaths';
+import { GraveyardReaper } from './GraveyardReaper';
+import { Graveyard } from './Graveyard';
 import { WhitelistManager } from './WhitelistManager';
+import { SettingsManager } from './SettingsManager';
+import { ScanIndex } from './ScanIndex';
+import { ClassificationProfileManager } from './ClassificationProfileManager';
+import { MonsterRulesManager } from './MonsterRules';
 import { getGeminiInspector } from './GeminiInspector';
 import { getUndoManager } from './UndoManager';
 import { SwiftPurgeScanner } from './SwiftPurgeScanner';
 import { getSwiftPurgeExecutor } from './SwiftPurgeExecutor';
+import { findRestoreConflict } from './RestoreConflicts';
+import { BulkRestorer } from './BulkRestore';
+import { GraveyardAuditor, getLogHoldings } from './GraveyardAudit';
 
 let mainWindow: BrowserWindow | null = null;
 
@@ -44,10 +74,26 @@ function getPlatformWindowConfig(): Partial<Electron.BrowserWindowConstructorOpt
   // Linux and older Windows - use transparent background
   return {};
 }
+// Logs, whitelist, settings and the graveyard all live under the data root
+let dataPaths: DataPaths;
+let dataRoot: string;
+/** Set when the configured data root could not be used and the default was taken instead */
+let dataRootError: string | undefined;
 let whitelistManager: WhitelistManager;
+let settingsManager: SettingsManager;
+let scanIndex: ScanIndex;
+let profileManager: ClassificationProfileManager;
+let monsterRulesManager: MonsterRulesManager;
 let graveyardLog: GraveyardLog;
+let logSigner: LogSigner;
+// Manifest plus the folder and desktop Trash backends banishes can go to
+let graveyard: Graveyard;
+let graveyardReaper: GraveyardReaper;
 let currentScanRoot: string | null = null;
-let currentScanner: FileScanner | null = null;
+// Banish session for single-file banishes; a new graveyard namespace per scan
+let graveyardSessionId = GraveyardManifest.createSessionId();
+// Scans and classifications in flight; CANCEL_SCAN stops all of them
+const activeScans = new Set<{ cancelScan(): void }>();
 // Manual tracking for maximized state (workaround for transparent window bug on Windows)
 let isWindowMaximized = false;
 
@@ -103,9 +149,31 @@ function createWindow() {
 
 // App lifecycle
 app.whenReady().then(async () => {
+  // Resolve the data root, moving data left in the working directory by older versions
+  dataPaths = new DataPaths(app.getPath('userData'));
+  ({ dataRoot, error: dataRootError } = await dataPaths.resolveUsable());
+  if (dataRootError) {
+    console.error(`${dataRootError}; using the default data root ${dataRoot}`);
+  }
+  try {
+    const migration = await dataPaths.migrateLegacyData(process.cwd(), dataRoot);
+    if (migration.moved.length > 0) {
+      console.log(`Migrated ${migration.moved.length} item(s) into ${dataRoot}`);
+    }
+  } catch (error) {
+    console.error('Failed to migrate legacy data:', error);
+  }
+
   // Initialize managers
-  whitelistManager = new WhitelistManager();
-  graveyardLog = new GraveyardLog();
+  whitelistManager = new WhitelistManager(dataRoot);
+  settingsManager = new SettingsManager(dataRoot);
+  scanIndex = new ScanIndex(dataRoot);
+  profileManager = new ClassificationProfileManager(dataRoot);
+  monsterRulesManager = new MonsterRulesManager(dataRoot);
+  graveyardLog = new GraveyardLog(dataRoot);
+  logSigner = new LogSigner(dataRoot);
+  graveyard = new Graveyard(dataRoot);
+  graveyardReaper = new GraveyardReaper(graveyardLog, graveyard);
   
   // Load whitelist on startup
   try {
@@ -113,6 +181,25 @@ app.whenReady().then(async () => {
   } catch (error) {
     console.error('Failed to load whitelist:', error);
   }
+
+  // Load settings on startup
+  try {
+    await settingsManager.load();
+  } catch (error) {
+    console.error('Failed to load settings:', error);
+  }
+  graveyard.setActiveBackend(settingsManager.getGraveyardBackend());
+  graveyardLog.setHashChain(settingsManager.getHashChainLog());
+
+  // Load classification profiles on startup
+  try {
+    await profileManager.load();
+  } catch (error) {
+    console.error('Failed to load classification profiles:', error);
+  }
+
+  // Load the persistent scan index used for incremental rescans
+  await scanIndex.load();
   
   // Ensure log file exists
   try {
@@ -121,9 +208,36 @@ app.whenReady().then(async () => {
     console.error('Failed to initialize log file:', error);
   }
 
+  // Enforce the retention policy when the user opted in to reaping on startup
+  const retention = settingsManager.getRetentionPolicy();
+  if (retention.reapOnStartup && (retention.maxAgeDays !== null || retention.maxTotalBytes !== null)) {
+    try {
+      const result = await graveyardReaper.reap(retention);
+      if (result.purgedCount > 0) {
+        console.log(`Reaped ${result.purgedCount} graveyard entries, freeing ${result.bytesFreed} bytes`);
+      }
+    } catch (error) {
+      console.error('Failed to reap graveyard:', error);
+    }
+  }
+
   createWindow();
   setupIpcHandlers();
 
+  // Data kept somewhere other than the user chose must not go unnoticed
+  if (dataRootError && mainWindow) {
+    const window = mainWindow;
+    const detail = dataRootError;
+    window.webContents.once('did-finish-load', () => {
+      void dialog.showMessageBox(window, {
+        type: 'warning',
+        title: 'Data location unavailable',
+        message: `Using the default data location ${dataRoot} for this session.`,
+        detail
+      });
+    });
+  }
+
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
       createWindow();
@@ -276,12 +390,17 @@ function setupIpcHandlers() {
   ipcMain.handle(IPC_CHANNELS.START_SCAN, async (event, dirPath: string) => {
     console.log('Scan requested for:', dirPath);
     
+    const scanner = new FileScanner({
+      ignorePatterns: settingsManager.getIgnorePatterns(),
+      concurrency: settingsManager.getScanConcurrency(),
+      followSymlinks: settingsManager.getFollowSymlinks()
+    });
+    activeScans.add(scanner);
+    
     try {
       // Set the current scan root for file operations
       currentScanRoot = dirPath;
-      
-      const scanner = new FileScanner();
-      currentScanner = scanner;
+      graveyardSessionId = GraveyardManifest.createSessionId();
       
       // Forward progress events to renderer (wrapped to prevent unhandled errors)
       scanner.on('progress', (progress) => {
@@ -316,21 +435,23 @@ function setupIpcHandlers() {
         console.warn('Could not send scan complete:', err);
       }
       
-      currentScanner = null;
+      activeScans.delete(scanner);
       
       return { 
         success: true, 
         files: results,
-        count: results.length 
+        count: results.length,
+        prunedCount: scanner.getPrunedCount()
       };
     } catch (error) {
       console.error('Error during scan:', error);
-      currentScanner = null;
+      activeScans.delete(scanner);
       return { 
         success: false, 
         error: error instanceof Error ? error.message : 'Unknown error',
         files: [],
-        count: 0
+        count: 0,
+        prunedCount: 0
       };
     }
   });
@@ -340,8 +461,11 @@ function setupIpcHandlers() {
     console.log('Cancel scan requested');
     
     try {
-      if (currentScanner) {
-        currentScanner.cancelScan();
+      if (activeScans.size > 0) {
+        for (const scan of activeScans) {
+          scan.cancelScan();
+        }
+        activeScans.clear();
         return { success: true };
       }
       return { success: false };
@@ -352,41 +476,63 @@ function setupIpcHandlers() {
   });
 
   // File classification handler
-  ipcMain.handle(IPC_CHANNELS.CLASSIFY_FILES, async (_event, files: FileScanResult[]) => {
+  ipcMain.handle(IPC_CHANNELS.CLASSIFY_FILES, async (event, files: FileScanResult[]) => {
     console.log('Classification requested for files:', files.length);
     
+    let scanHandle: { cancelScan: () => void } | undefined;
     try {
-      const classifier = new FileClassifier();
+      // Re-read monster rules so edits apply without a restart
+      await monsterRulesManager.load();
+
+      const classifier = new FileClassifier({
+        concurrency: settingsManager.getScanConcurrency(),
+        index: scanIndex,
+        classificationConfig: profileManager.getConfigForTarget(currentScanRoot),
+        monsterRules: monsterRulesManager.getRules(),
+        scanRoot: currentScanRoot ?? undefined,
+        onProgress: (progress) => {
+          if (!event.sender.isDestroyed()) {
+            event.sender.send(IPC_CHANNELS.SCAN_PROGRESS, progress);
+          }
+        }
+      });
+      scanHandle = { cancelScan: () => classifier.cancel() };
+      activeScans.add(scanHandle);
+
       const whitelist = whitelistManager.getSet();
       
       // Classify files with duplicate detection
       const classifiedFiles = await classifier.classifyFiles(files, whitelist);
+      activeScans.delete(scanHandle);
       
       return { 
         success: true, 
         files: classifiedFiles,
-        count: classifiedFiles.length 
+        count: classifiedFiles.length,
+        bytesRead: classifier.getBytesRead()
       };
     } catch (error) {
       console.error('Error during classification:', error);
+      if (scanHandle) activeScans.delete(scanHandle);
       return { 
         success: false, 
         error: error instanceof Error ? error.message : 'Unknown error during classification',
         files: [],
-        count: 0
+        count: 0,
+        bytesRead: 0
       };
     }
   });
 
   // Banish file handler - now integrates with UndoManager for undo spell toast
-  ipcMain.handle(IPC_CHANNELS.BANISH_FILE, async (_event, filePath: string, classifications?: any[], fileSize?: number) => {
+  ipcMain.handle(IPC_CHANNELS.BANISH_FILE, async (_event, filePath: string, classifications?: any[], fileSize?: number, mode?: SessionMode) => {
     console.log('Banish requested for:', filePath);
     
     try {
       // Use currentScanRoot if available, otherwise use the file's parent directory
       const scanRoot = currentScanRoot || dirname(filePath);
       
-      const fileOps = new FileOperations(scanRoot, '.', graveyardLog, whitelistManager);
+      const fileOps = new FileOperations(scanRoot, dataRoot, graveyardLog, whitelistManager, graveyard, graveyardSessionId, mode);
       const result = await fileOps.banishFile(filePath, classifications, fileSize);
       
       // If banish was successful, add an undo entry
@@ -398,7 +544,8 @@ function setupIpcHandlers() {
           filePath: filePath,
           graveyardPath: result.graveyardPath,
           fileSize: fileSize,
-          fileName: basename(filePath)
+          fileName: basename(filePath),
+          mode
         });
         
         // Return the undo ID along with the result
@@ -421,12 +568,21 @@ function setupIpcHandlers() {
   });
 
   // Undo banish handler - restores a recently banished file (Requirements: 13.3)
-  ipcMain.handle(IPC_CHANNELS.UNDO_BANISH, async (_event, undoId: string) => {
+  ipcMain.handle(IPC_CHANNELS.UNDO_BANISH, async (_event, undoId: string, strategy?: RestoreConflictStrategy) => {
     console.log('Undo banish requested for:', undoId);
     
     try {
       const undoManager = getUndoManager();
-      const result = await undoManager.executeUndo(undoId);
+      const entry = undoManager.getEntry(undoId);
+      const scanRoot = currentScanRoot || (entry ? dirname(entry.filePath) : dataRoot);
+      const fileOps = new FileOperations(scanRoot, dataRoot, graveyardLog, whitelistManager, graveyard, graveyardSessionId, entry?.mode);
+      const result = await undoManager.executeUndo(undoId, {
+        exists: path => graveyard.exists(path),
+        exhume: (path, destination) => graveyard.exhume(path, destination),
+        stat: path => graveyard.stat(path),
+        displace: path => fileOps.displace(path),
+        putBack: (displaced, path) => fileOps.putBack(displaced, path)
+      }, strategy);
       
       // If undo was successful, log the restore operation
       if (result.success && result.restoredPath) {
@@ -434,7 +590,9 @@ function setupIpcHandlers() {
           timestamp: new Date().toISOString(),
           action: 'restore' as any,
           filePath: result.restoredPath,
-          originalPath: result.restoredPath
+          originalPath: entry?.filePath ?? result.restoredPath,
+          graveyardPath: entry?.graveyardPath,
+          ...fileOps.getSessionFields('undo')
         });
       }
       
@@ -449,7 +607,7 @@ function setupIpcHandlers() {
   });
 
   // Resurrect file handler
-  ipcMain.handle(IPC_CHANNELS.RESURRECT_FILE, async (_event, filePath: string) => {
+  ipcMain.handle(IPC_CHANNELS.RESURRECT_FILE, async (_event, filePath: string, mode?: SessionMode) => {
     console.log('Resurrect requested for:', filePath);
     
     try {
@@ -460,7 +618,7 @@ function setupIpcHandlers() {
         };
       }
       
-      const fileOps = new FileOperations(currentScanRoot, '.', graveyardLog, whitelistManager);
+      const fileOps = new FileOperations(currentScanRoot, dataRoot, graveyardLog, whitelistManager, graveyard, graveyardSessionId, mode);
       await fileOps.resurrectFile(filePath);
       
       return { 
@@ -477,20 +635,14 @@ function setupIpcHandlers() {
   });
 
   // Restore file handler
-  ipcMain.handle(IPC_CHANNELS.RESTORE_FILE, async (_event, graveyardPath: string, originalPath: string) => {
-    console.log('Restore requested for:', graveyardPath, 'to', originalPath);
+  ipcMain.handle(IPC_CHANNELS.RESTORE_FILE, async (_event, graveyardPath: string, originalPath: string, strategy?: RestoreConflictStrategy) => {
+    console.log('Restore requested for:', graveyardPath, 'to', originalPath, strategy ? `(on conflict: ${strategy})` : '');
     
     try {
-      if (!currentScanRoot) {
-        return {
-          success: false,
-          restoredPath: '',
-          error: 'No scan root set. Please scan a directory first.'
-        };
-      }
-      
-      const fileOps = new FileOperations(currentScanRoot, '.', graveyardLog, whitelistManager);
-      const result = await fileOps.restoreFile(graveyardPath, originalPath);
+      // Both paths come from the log, so restoring does not depend on the current scan root
+      const scanRoot = currentScanRoot || dirname(originalPath);
+      const fileOps = new FileOperations(scanRoot, dataRoot, graveyardLog, whitelistManager, graveyard, graveyardSessionId);
+      const result = await fileOps.restoreFile(graveyardPath, originalPath, strategy);
       
       return result;
     } catch (error) {
@@ -503,6 +655,86 @@ function setupIpcHandlers() {
     }
   });
 
+  // Restore conflict preview - lists restores whose original location is taken
+  ipcMain.handle(IPC_CHANNELS.PREVIEW_RESTORE_CONFLICTS, async (_event, restores: Array<{ graveyardPath: string; originalPath: string }>) => {
+    try {
+      const conflicts: RestoreConflict[] = [];
+      for (const { graveyardPath, originalPath } of restores) {
+        const incoming = await graveyard.stat(graveyardPath).catch(() => undefined);
+        // A missing entry is reported by the restore itself
+        const conflict = incoming && await findRestoreConflict(originalPath, incoming, graveyardPath);
+        if (conflict) conflicts.push(conflict);
+      }
+      return { success: true, conflicts };
+    } catch (error) {
+      console.error('Error previewing restore conflicts:', error);
+      return {
+        success: false,
+        conflicts: [],
+        error: error instanceof Error ? error.message : 'Unknown error previewing restore conflicts'
+      };
+    }
+  });
+
+  // Bulk restore handler - restores a selection of entries, optionally into another folder
+  ipcMain.handle(IPC_CHANNELS.BULK_RESTORE, async (event, request: BulkRestoreRequest) => {
+    console.log('Bulk restore requested:', request.selection, request.targetDir ? `into ${request.targetDir}` : 'to original locations');
+
+    try {
+      const fileOps = new FileOperations(currentScanRoot || dataRoot, dataRoot, graveyardLog, whitelistManager, graveyard, graveyardSessionId);
+      const restorer = new BulkRestorer(graveyardLog, graveyard, fileOps);
+      const result = await restorer.restore(request, progress => {
+        try {
+          if (!event.sender.isDestroyed()) {
+            event.sender.send(IPC_CHANNELS.BULK_RESTORE_PROGRESS, progress);
+          }
+        } catch (err) {
+          console.warn('[BulkRestore] Could not send progress:', err);
+        }
+      });
+
+      console.log(`[BulkRestore] ${result.restoredCount} restored, ${result.skippedCount} skipped, ${result.errors.length} failed`);
+      return result;
+    } catch (error) {
+      console.error('Error during bulk restore:', error);
+      return {
+        success: false,
+        restoredCount: 0,
+        skippedCount: 0,
+        restored: [],
+        errors: [{ path: request.targetDir || '', error: error instanceof Error ? error.message : 'Unknown error during bulk restore' }]
+      };
+    }
+  });
+
+  // Graveyard audit handlers - report drift between the log and the graveyard, then repair it
+  ipcMain.handle(IPC_CHANNELS.AUDIT_GRAVEYARD, async () => {
+    try {
+      const report = await new GraveyardAuditor(graveyardLog, graveyard, dataRoot).audit();
+      console.log(`[GraveyardAudit] ${report.issues.length} issues in ${report.heldCount} entries`);
+      return { success: true, report };
+    } catch (error) {
+      console.error('Error auditing graveyard:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error during audit' };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.REPAIR_GRAVEYARD, async (_event, action: GraveyardRepairAction) => {
+    try {
+      const result = await new GraveyardAuditor(graveyardLog, graveyard, dataRoot).repair(action);
+      console.log(`[GraveyardAudit] ${action}: ${result.repairedCount} repaired, ${result.errors.length} failed`);
+      return result;
+    } catch (error) {
+      console.error('Error repairing graveyard:', error);
+      return {
+        success: false,
+        action,
+        repairedCount: 0,
+        errors: [{ path: '', error: error instanceof Error ? error.message : 'Unknown error during repair' }]
+      };
+    }
+  });
+
   // Get log entries handler
   ipcMain.handle(IPC_CHANNELS.GET_LOG_ENTRIES, async (_event, filter?: { actionType?: string; startDate?: string; endDate?: string }) => {
     console.log('Log entries requested with filter:', filter);
@@ -523,6 +755,76 @@ function setupIpcHandlers() {
     }
   });
 
+  // Query log entries handler - one page of filtered, sorted entries with totals
+  ipcMain.handle(IPC_CHANNELS.QUERY_LOG_ENTRIES, async (_event, query?: LogQuery) => {
+    try {
+      return { success: true, result: await graveyardLog.query(query) };
+    } catch (error) {
+      console.error('Error querying log entries:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error during log query'
+      };
+    }
+  });
+
+  // Log integrity handlers - hash chain check and an export signed with the app's key
+  ipcMain.handle(IPC_CHANNELS.VERIFY_LOG_CHAIN, async () => {
+    console.log('Log chain verification requested');
+
+    try {
+      return { success: true, verification: await graveyardLog.verifyChain() };
+    } catch (error) {
+      console.error('Error verifying log chain:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error verifying log chain'
+      };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.EXPORT_SIGNED_LOG, async (): Promise<LogExportResult> => {
+    console.log('Signed log export requested');
+
+    try {
+      const result = await dialog.showSaveDialog({
+        title: 'Export Signed Graveyard Log',
+        defaultPath: `graveyard-log-${new Date().toISOString().slice(0, 10)}.signed.json`,
+        filters: [{ name: 'Signed log', extensions: ['json'] }]
+      });
+      if (result.canceled || !result.filePath) {
+        return { success: false, entryCount: 0 };
+      }
+
+      const signed = await logSigner.createExport(await graveyardLog.getEntriesInOrder());
+      await writeFileAtomic(result.filePath, JSON.stringify(signed, null, 2));
+      return {
+        success: true,
+        filePath: result.filePath,
+        entryCount: signed.entries.length,
+        verification: signed.verification,
+        keyFingerprint: await logSigner.getKeyFingerprint()
+      };
+    } catch (error) {
+      console.error('Error exporting signed log:', error);
+      return {
+        success: false,
+        entryCount: 0,
+        error: error instanceof Error ? error.message : 'Unknown error exporting log'
+      };
+    }
+  });
+
+  // Get log sessions handler
+  ipcMain.handle(IPC_CHANNELS.GET_LOG_SESSIONS, async () => {
+    try {
+      return await graveyardLog.getSessions();
+    } catch (error) {
+      console.error('Error getting log sessions:', error);
+      return [];
+    }
+  });
+
   // Get whitelist handler
   ipcMain.handle(IPC_CHANNELS.GET_WHITELIST, async () => {
     console.log('Whitelist requested');
@@ -555,19 +857,155 @@ function setupIpcHandlers() {
     }
   });
 
+  // Get settings handler
+  ipcMain.handle(IPC_CHANNELS.GET_SETTINGS, async () => {
+    console.log('Settings requested');
+    return settingsManager.getAll();
+  });
+
+  // Update settings handler
+  ipcMain.handle(IPC_CHANNELS.UPDATE_SETTINGS, async (_event, updates: Partial<AppSettings>) => {
+    console.log('Settings update requested:', Object.keys(updates || {}));
+    
+    try {
+      const settings = await settingsManager.update(updates || {});
+      graveyard.setActiveBackend(settings.graveyardBackend);
+      graveyardLog.setHashChain(settings.hashChainLog);
+      return { success: true, settings };
+    } catch (error) {
+      console.error('Error updating settings:', error);
+      return {
+        success: false,
+        settings: settingsManager.getAll(),
+        error: error instanceof Error ? error.message : 'Unknown error updating settings'
+      };
+    }
+  });
+
+  // Graveyard retention handlers - the preview lists exactly what a reap would delete
+  ipcMain.handle(IPC_CHANNELS.PREVIEW_GRAVEYARD_REAP, async () => {
+    console.log('Graveyard reap preview requested');
+
+    try {
+      return { success: true, plan: await graveyardReaper.plan(settingsManager.getRetentionPolicy()) };
+    } catch (error) {
+      console.error('Error planning graveyard reap:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error planning graveyard reap'
+      };
+    }
+  });
+
+  ipcMain.handle(IPC_CHANNELS.REAP_GRAVEYARD, async (_event, confirmedPaths: string[]) => {
+    console.log('Graveyard reap requested for', confirmedPaths?.length ?? 0, 'entries');
+
+    try {
+      return await graveyardReaper.reap(settingsManager.getRetentionPolicy(), confirmedPaths ?? []);
+    } catch (error) {
+      console.error('Error reaping graveyard:', error);
+      return {
+        success: false,
+        purgedCount: 0,
+        bytesFreed: 0,
+        errors: [],
+        error: error instanceof Error ? error.message : 'Unknown error reaping graveyard'
+      };
+    }
+  });
+
+  // Data root handlers - a new root takes effect on the next launch
+  const getDataRootInfo = async (): Promise<DataRootInfo> => {
+    const next = await dataPaths.resolve();
+    return {
+      activeRoot: dataRoot,
+      nextRoot: next.dataRoot,
+      source: next.source,
+      defaultRoot: dataPaths.getDefaultRoot(),
+      startupError: dataRootError
+    };
+  };
+
+  ipcMain.handle(IPC_CHANNELS.GET_DATA_ROOT, async () => {
+    console.log('Data root requested');
+    return getDataRootInfo();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SET_DATA_ROOT, async (_event, newRoot: string | null) => {
+    console.log('Data root change requested:', newRoot);
+
+    try {
+      await dataPaths.setDataRoot(newRoot);
+      return { success: true, info: await getDataRootInfo() };
+    } catch (error) {
+      console.error('Error setting data root:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error setting data root'
+      };
+    }
+  });
+
+  // Classification profile handlers
+  const updateProfiles = async (
+    action: () => Promise<ClassificationProfiles>,
+    failureMessage: string
+  ): Promise<ClassificationProfilesResult> => {
+    try {
+      const profiles = await action();
+      return { success: true, profiles };
+    } catch (error) {
+      console.error(`${failureMessage}:`, error);
+      return {
+        success: false,
+        profiles: profileManager.getAll(),
+        error: error instanceof Error ? error.message : failureMessage
+      };
+    }
+  };
+
+  ipcMain.handle(IPC_CHANNELS.GET_CLASSIFICATION_PROFILES, async () => {
+    console.log('Classification profiles requested');
+    return profileManager.getAll();
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SAVE_CLASSIFICATION_PROFILE, async (_event, profile: ClassificationProfile) => {
+    console.log('Save classification profile requested:', profile?.name);
+    return updateProfiles(() => profileManager.saveProfile(profile), 'Error saving classification profile');
+  });
+
+  ipcMain.handle(IPC_CHANNELS.DELETE_CLASSIFICATION_PROFILE, async (_event, name: string) => {
+    console.log('Delete classification profile requested:', name);
+    return updateProfiles(() => profileManager.deleteProfile(name), 'Error deleting classification profile');
+  });
+
+  ipcMain.handle(IPC_CHANNELS.SET_DEFAULT_CLASSIFICATION_PROFILE, async (_event, name: string) => {
+    console.log('Default classification profile change requested:', name);
+    return updateProfiles(() => profileManager.setDefaultProfile(name), 'Error setting default classification profile');
+  });
+
+  ipcMain.handle(IPC_CHANNELS.ASSIGN_TARGET_PROFILE, async (_event, targetPath: string, name: string | null) => {
+    console.log('Profile assignment requested:', targetPath, '->', name);
+    return updateProfiles(() => profileManager.assignTarget(targetPath, name), 'Error assigning classification profile');
+  });
+
   // Get graveyard files handler
   ipcMain.handle(IPC_CHANNELS.GET_GRAVEYARD_FILES, async () => {
     console.log('Graveyard files requested');
     
     try {
-      // Get all banish entries from the log
-      const entries = await graveyardLog.getEntries();
-      const banishEntries = entries.filter(entry => entry.action === 'banish');
+      // Banish entries whose path has not been restored, reaped or found missing since, newest first
+      const holdings = getLogHoldings(await graveyardLog.getEntriesInOrder());
+      const banishEntries = [...holdings.values()].sort((a, b) =>
+        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+      );
       
       // Map to graveyard file format
       const graveyardFiles = banishEntries.map(entry => ({
         path: entry.graveyardPath || '',
-        originalPath: entry.originalPath || entry.filePath
+        originalPath: entry.originalPath || entry.filePath,
+        size: entry.fileSize,
+        storedSize: entry.storedSize ?? entry.fileSize
       }));
       
       return graveyardFiles;
@@ -611,10 +1049,21 @@ function setupIpcHandlers() {
   ipcMain.handle(IPC_CHANNELS.SWIFT_PURGE_SCAN, async (event, targetPath: string) => {
     console.log('[SwiftPurge] Scan requested for:', targetPath);
     
+    let scanner: SwiftPurgeScanner | undefined;
     try {
-      const whitelist = whitelistManager.getSet();
-      const scanner = new SwiftPurgeScanner(whitelist);
-      
+      // Re-read monster rules so edits apply without a restart
+      await monsterRulesManager.load();
+
+      scanner = new SwiftPurgeScanner(whitelistManager.getSet(), {
+        ignorePatterns: settingsManager.getIgnorePatterns(),
+        concurrency: settingsManager.getScanConcurrency(),
+        followSymlinks: settingsManager.getFollowSymlinks(),
+        index: scanIndex,
+        classificationConfig: profileManager.getConfigForTarget(targetPath),
+        monsterRules: monsterRulesManager.getRules()
+      });
+      activeScans.add(scanner);
+
       // Forward progress events to renderer
       scanner.on('progress', (progress) => {
         try {
@@ -627,6 +1076,7 @@ function setupIpcHandlers() {
       });
       
       const result = await scanner.scan(targetPath);
+      activeScans.delete(scanner);
       
       console.log(`[SwiftPurge] Scan complete: ${result.files.length} entities found`);
       console.log(`[SwiftPurge] Counts - Ghosts: ${result.counts.ghosts}, Zombies: ${result.counts.zombies}, Demons: ${result.counts.demons}`);
@@ -637,6 +1087,7 @@ function setupIpcHandlers() {
       };
     } catch (error) {
       console.error('[SwiftPurge] Scan error:', error);
+      if (scanner) activeScans.delete(scanner);
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown scan error'
@@ -649,7 +1100,7 @@ function setupIpcHandlers() {
     console.log('[SwiftPurge] Execute requested for session:', scanResult.sessionId);
     
     try {
-      const executor = getSwiftPurgeExecutor(graveyardLog);
+      const executor = getSwiftPurgeExecutor(graveyardLog, dataRoot, graveyard);
       
       const result = await executor.execute(scanResult, (current, total) => {
         try {
@@ -681,14 +1132,14 @@ function setupIpcHandlers() {
   });
 
   // Swift Purge undo handler - restores all files from a session
-  ipcMain.handle(IPC_CHANNELS.SWIFT_PURGE_UNDO, async (_event, sessionId: string) => {
+  ipcMain.handle(IPC_CHANNELS.SWIFT_PURGE_UNDO, async (_event, sessionId: string, strategy?: RestoreConflictStrategy) => {
     console.log('[SwiftPurge] Undo requested for session:', sessionId);
     
     try {
-      const executor = getSwiftPurgeExecutor(graveyardLog);
-      const result = await executor.undoSession(sessionId);
+      const executor = getSwiftPurgeExecutor(graveyardLog, dataRoot, graveyard);
+      const result = await executor.undoSession(sessionId, strategy);
       
-      console.log(`[SwiftPurge] Undo complete: ${result.restoredCount} files restored`);
+      console.log(`[SwiftPurge] Undo complete: ${result.restoredCount} files restored, ${result.skippedCount} skipped`);
       
       return result;
     } catch (error) {
@@ -696,6 +1147,7 @@ function setupIpcHandlers() {
       return {
         success: false,
         restoredCount: 0,
+        skippedCount: 0,
         errors: [{ path: sessionId, error: error instanceof Error ? error.message : 'Unknown error' }]
       };
     }
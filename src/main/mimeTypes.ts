@@ -0,0 +1,105 @@
+import { extname } from 'path';
+
+/**
+ * Extension → MIME type for common file kinds
+ * Classification only needs the type family, so this is not exhaustive.
+ */
+const MIME_TYPES: Record<string, string> = {
+  // Images
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.bmp': 'image/bmp',
+  '.svg': 'image/svg+xml',
+  '.ico': 'image/x-icon',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+  '.heic': 'image/heic',
+  '.raw': 'image/x-raw',
+  '.psd': 'image/vnd.adobe.photoshop',
+  // Video
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.mkv': 'video/x-matroska',
+  '.avi': 'video/x-msvideo',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.wmv': 'video/x-ms-wmv',
+  '.flv': 'video/x-flv',
+  // Audio
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.flac': 'audio/flac',
+  '.ogg': 'audio/ogg',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  // Documents
+  '.pdf': 'application/pdf',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.ppt': 'application/vnd.ms-powerpoint',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.odt': 'application/vnd.oasis.opendocument.text',
+  '.rtf': 'application/rtf',
+  // Text
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.csv': 'text/csv',
+  '.log': 'text/plain',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.css': 'text/css',
+  '.xml': 'application/xml',
+  '.json': 'application/json',
+  '.js': 'text/javascript',
+  '.ts': 'text/typescript',
+  // Archives and disk images
+  '.zip': 'application/zip',
+  '.rar': 'application/vnd.rar',
+  '.7z': 'application/x-7z-compressed',
+  '.tar': 'application/x-tar',
+  '.gz': 'application/gzip',
+  '.bz2': 'application/x-bzip2',
+  '.xz': 'application/x-xz',
+  '.iso': 'application/x-iso9660-image',
+  '.dmg': 'application/x-apple-diskimage',
+  // Executables and installers
+  '.exe': 'application/vnd.microsoft.portable-executable',
+  '.msi': 'application/x-msi',
+  '.deb': 'application/vnd.debian.binary-package',
+  '.rpm': 'application/x-rpm',
+  '.apk': 'application/vnd.android.package-archive',
+  '.appimage': 'application/x-executable'
+};
+
+/**
+ * Fallback for unknown extensions
+ */
+export const DEFAULT_MIME_TYPE = 'application/octet-stream';
+
+/**
+ * Looks up a file's MIME type from its extension
+ * @param filePath - Path or file name
+ * @returns The MIME type, or application/octet-stream if unknown
+ */
+export function mimeTypeForPath(filePath: string): string {
+  return MIME_TYPES[extname(filePath).toLowerCase()] ?? DEFAULT_MIME_TYPE;
+}
+
+/**
+ * Tests a MIME type against a pattern such as "image/png", "image/*" or "*"
+ * @param mimeType - Concrete MIME type
+ * @param pattern - Pattern to match
+ */
+export function mimeTypeMatches(mimeType: string, pattern: string): boolean {
+  const normalized = pattern.trim().toLowerCase();
+  if (normalized === '*' || normalized === '*/*') return true;
+  if (normalized.endsWith('/*')) {
+    return mimeType.startsWith(normalized.slice(0, -1));
+  }
+  return mimeType === normalized;
+}
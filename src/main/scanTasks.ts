@@ -0,0 +1,211 @@
+import { createHash } from 'crypto';
+import { createReadStream, promises as fs } from 'fs';
+import { join } from 'path';
+import { IGNORE_FILE_NAME, IgnoreMatcher, IgnoreRule } from './IgnoreMatcher';
+
+/**
+ * Number of bytes read from each end of a file for the partial hash
+ */
+export const PARTIAL_HASH_BYTES = 64 * 1024;
+
+/**
+ * Units of scan work that can run on a worker thread or in-process
+ */
+export type ScanTask =
+  | { type: 'readDirectory'; dirPath: string; ignoreRules: IgnoreRule[] }
+  | { type: 'hash'; filePath: string }
+  | { type: 'partialHash'; filePath: string; size: number };
+
+/**
+ * One entry of a directory listing, with stats already collected
+ */
+export interface DirectoryEntryInfo {
+  name: string;
+  kind: 'file' | 'directory' | 'symlink' | 'other';
+  size?: number;
+  /** For symlinks, the modification time of the link itself */
+  mtimeMs?: number;
+  /** For files, device, inode and hard-link count */
+  dev?: number;
+  ino?: number;
+  nlink?: number;
+  /** For symlinks, the target path stored in the link */
+  linkTarget?: string;
+  /** For symlinks, what the target resolves to */
+  targetKind?: 'file' | 'directory' | 'other' | 'broken';
+  /** Set when the entry could not be stat'ed */
+  error?: string;
+  /** Set when ignore rules exclude the entry; it is then not stat'ed */
+  ignored?: boolean;
+}
+
+export interface DirectoryListing {
+  entries: DirectoryEntryInfo[];
+  /** Modification time of the directory itself */
+  mtimeMs: number;
+  /** Device and inode of the directory itself, used for loop detection */
+  dev: number;
+  ino: number;
+  /** Contents of the directory's ignore file, if it has one */
+  ignoreFileContent: string | null;
+}
+
+export interface HashTaskResult {
+  hash: string;
+  bytesRead: number;
+  /** Whether the hash covers the entire file */
+  complete: boolean;
+}
+
+/**
+ * Reads a symbolic link and resolves what it points to
+ */
+async function readSymlink(name: string, fullPath: string): Promise<DirectoryEntryInfo> {
+  const [linkTarget, linkStats] = await Promise.all([fs.readlink(fullPath), fs.lstat(fullPath)]);
+  try {
+    const target = await fs.stat(fullPath);
+    const targetKind = target.isDirectory() ? 'directory' : target.isFile() ? 'file' : 'other';
+    return { name, kind: 'symlink', linkTarget, targetKind, mtimeMs: linkStats.mtimeMs };
+  } catch {
+    return { name, kind: 'symlink', linkTarget, targetKind: 'broken', mtimeMs: linkStats.mtimeMs };
+  }
+}
+
+/**
+ * Reads a directory and stats each file in it that the ignore rules keep
+ * @param ignoreRules - Rules in effect for the directory, before its own ignore file
+ */
+async function readDirectory(dirPath: string, ignoreRules: IgnoreRule[]): Promise<DirectoryListing> {
+  const dirents = await fs.readdir(dirPath, { withFileTypes: true });
+  const { mtimeMs, dev, ino } = await fs.stat(dirPath);
+  const entries: DirectoryEntryInfo[] = [];
+
+  // The directory's own ignore file applies to its entries, so it is read first
+  let ignoreFileContent: string | null = null;
+  if (dirents.some(dirent => dirent.isFile() && dirent.name === IGNORE_FILE_NAME)) {
+    try {
+      ignoreFileContent = await fs.readFile(join(dirPath, IGNORE_FILE_NAME), 'utf-8');
+    } catch {
+      // Reported with the file's entry below when it cannot be stat'ed either
+    }
+  }
+  let matcher = IgnoreMatcher.fromRules(ignoreRules);
+  if (ignoreFileContent !== null) {
+    matcher = matcher.withRules(dirPath, ignoreFileContent);
+  }
+
+  for (const dirent of dirents) {
+    const fullPath = join(dirPath, dirent.name);
+    const isSymlink = dirent.isSymbolicLink();
+    const ignoredAsFile = matcher.ignores(fullPath, false);
+    const ignoredAsDirectory = matcher.ignores(fullPath, true);
+
+    // Prune ignored entries before they are stat'ed; a link is only read
+    // first when whether it is ignored depends on what it points to
+    const ignored = dirent.isDirectory() ? ignoredAsDirectory : ignoredAsFile && (!isSymlink || ignoredAsDirectory);
+    if (ignored) {
+      const kind = dirent.isDirectory() ? 'directory' : dirent.isFile() ? 'file' : isSymlink ? 'symlink' : 'other';
+      entries.push({ name: dirent.name, kind, ignored: true });
+      continue;
+    }
+
+    if (dirent.isDirectory()) {
+      entries.push({ name: dirent.name, kind: 'directory' });
+    } else if (dirent.isFile()) {
+      try {
+        const stats = await fs.stat(fullPath);
+        entries.push({
+          name: dirent.name,
+          kind: 'file',
+          size: stats.size,
+          mtimeMs: stats.mtimeMs,
+          dev: stats.dev,
+          ino: stats.ino,
+          nlink: stats.nlink
+        });
+      } catch (error) {
+        entries.push({
+          name: dirent.name,
+          kind: 'file',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    } else if (isSymlink) {
+      try {
+        const link = await readSymlink(dirent.name, fullPath);
+        const linkIgnored = link.targetKind === 'directory' ? ignoredAsDirectory : ignoredAsFile;
+        entries.push(linkIgnored ? { name: dirent.name, kind: 'symlink', ignored: true } : link);
+      } catch (error) {
+        entries.push({
+          name: dirent.name,
+          kind: 'symlink',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    } else {
+      entries.push({ name: dirent.name, kind: 'other' });
+    }
+  }
+
+  return { entries, mtimeMs, dev, ino, ignoreFileContent };
+}
+
+/**
+ * Computes the SHA-256 hash of a whole file using streaming
+ */
+async function hashFile(filePath: string): Promise<HashTaskResult> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    const stream = createReadStream(filePath);
+    let bytesRead = 0;
+
+    stream.on('data', (chunk) => {
+      bytesRead += chunk.length;
+      hash.update(chunk);
+    });
+    stream.on('end', () => resolve({ hash: hash.digest('hex'), bytesRead, complete: true }));
+    stream.on('error', reject);
+  });
+}
+
+/**
+ * Computes a SHA-256 hash over the first and last PARTIAL_HASH_BYTES of a file.
+ * Files no larger than two windows are read whole, so the result is the full hash.
+ */
+async function partialHashFile(filePath: string, size: number): Promise<HashTaskResult> {
+  if (size <= PARTIAL_HASH_BYTES * 2) {
+    return hashFile(filePath);
+  }
+
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const hash = createHash('sha256');
+    const buffer = Buffer.alloc(PARTIAL_HASH_BYTES);
+    let total = 0;
+
+    for (const position of [0, size - PARTIAL_HASH_BYTES]) {
+      const { bytesRead } = await handle.read(buffer, 0, PARTIAL_HASH_BYTES, position);
+      total += bytesRead;
+      hash.update(buffer.subarray(0, bytesRead));
+    }
+
+    return { hash: hash.digest('hex'), bytesRead: total, complete: false };
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Executes a scan task
+ * Used directly by the in-process fallback and by the worker thread entry point
+ */
+export async function runScanTask(task: ScanTask): Promise<DirectoryListing | HashTaskResult> {
+  switch (task.type) {
+    case 'readDirectory':
+      return readDirectory(task.dirPath, task.ignoreRules);
+    case 'hash':
+      return hashFile(task.filePath);
+    case 'partialHash':
+      return partialHashFile(task.filePath, task.size);
+  }
+}
@@ -0,0 +1,23 @@
+import { parentPort } from 'worker_threads';
+import { runScanTask, ScanTask } from './scanTasks';
+
+/**
+ * Worker thread entry point for ScanWorkerPool
+ *
+ * Receives one task at a time and posts back either the result or a
+ * serialized error with the same request id.
+ */
+parentPort?.on('message', async (message: { id: number; task: ScanTask }) => {
+  try {
+    const result = await runScanTask(message.task);
+    parentPort?.postMessage({ id: message.id, result });
+  } catch (error) {
+    parentPort?.postMessage({
+      id: message.id,
+      error: {
+        message: error instanceof Error ? error.message : 'Unknown error',
+        code: error && typeof error === 'object' && 'code' in error ? String(error.code) : undefined
+      }
+    });
+  }
+});
@@ -2,17 +2,38 @@ import { contextBridge, ipcRenderer } from 'electron';
 import { 
   IPC_CHANNELS, 
   type LogEntry, 
+  type LogSession,
+  type LogQuery,
+  type LogQueryResult,
+  type LogChainVerification,
+  type LogExportResult,
+  type SessionMode,
   type ClassifiedFile, 
   type FileScanResult,
   type BanishResult,
   type RestoreResult,
+  type RestoreConflict,
+  type RestoreConflictStrategy,
+  type BulkRestoreRequest,
+  type BulkRestoreProgress,
+  type BulkRestoreResult,
+  type GraveyardAuditReport,
+  type GraveyardRepairAction,
+  type GraveyardRepairResult,
   type MonsterType,
   type FileInspectionRequest,
   type FileInspectionResponse,
   type UndoResult,
   type SwiftPurgeScanResult,
   type SwiftPurgeExecuteResult,
-  type SwiftPurgeScanProgress
+  type SwiftPurgeScanProgress,
+  type AppSettings,
+  type ClassificationProfile,
+  type ClassificationProfiles,
+  type ClassificationProfilesResult,
+  type DataRootInfo,
+  type ReapPlan,
+  type ReapResult
 } from '../shared/types';
 
 /**
@@ -63,7 +84,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
 
   // Scanning
   startScan: (dirPath: string) => 
-    safeInvoke<{ success: boolean; files: FileScanResult[]; count: number; error?: string }>(
+    safeInvoke<{ success: boolean; files: FileScanResult[]; count: number; prunedCount: number; error?: string }>(
       IPC_CHANNELS.START_SCAN, 
       dirPath
     ),
@@ -96,25 +117,49 @@ contextBridge.exposeInMainWorld('electronAPI', {
 
   // Classification
   classifyFiles: (files: FileScanResult[]) => 
-    safeInvoke<{ success: boolean; files: ClassifiedFile[]; count: number; error?: string }>(
+    safeInvoke<{ success: boolean; files: ClassifiedFile[]; count: number; bytesRead: number; error?: string }>(
       IPC_CHANNELS.CLASSIFY_FILES, 
       files
     ),
 
   // File operations
-  banishFile: (filePath: string, classifications?: MonsterType[], fileSize?: number) => 
-    safeInvoke<BanishResult>(IPC_CHANNELS.BANISH_FILE, filePath, classifications, fileSize),
-  resurrectFile: (filePath: string) => 
+  banishFile: (filePath: string, classifications?: MonsterType[], fileSize?: number, mode?: SessionMode) => 
+    safeInvoke<BanishResult>(IPC_CHANNELS.BANISH_FILE, filePath, classifications, fileSize, mode),
+  resurrectFile: (filePath: string, mode?: SessionMode) => 
     safeInvoke<{ success: boolean; message?: string; error?: string }>(
       IPC_CHANNELS.RESURRECT_FILE, 
-      filePath
+      filePath,
+      mode
     ),
-  restoreFile: (graveyardPath: string, originalPath: string) => 
-    safeInvoke<RestoreResult>(IPC_CHANNELS.RESTORE_FILE, graveyardPath, originalPath),
+  restoreFile: (graveyardPath: string, originalPath: string, strategy?: RestoreConflictStrategy) => 
+    safeInvoke<RestoreResult>(IPC_CHANNELS.RESTORE_FILE, graveyardPath, originalPath, strategy),
+  previewRestoreConflicts: (restores: Array<{ graveyardPath: string; originalPath: string }>) =>
+    safeInvoke<{ success: boolean; conflicts: RestoreConflict[]; error?: string }>(IPC_CHANNELS.PREVIEW_RESTORE_CONFLICTS, restores),
+  bulkRestore: (request: BulkRestoreRequest) =>
+    safeInvoke<BulkRestoreResult>(IPC_CHANNELS.BULK_RESTORE, request),
+  onBulkRestoreProgress: (callback: (progress: BulkRestoreProgress) => void) => {
+    const listener = (_event: any, progress: BulkRestoreProgress) => {
+      try {
+        callback(progress);
+      } catch (err) {
+        console.error('Error in bulk restore progress callback:', err);
+      }
+    };
+    ipcRenderer.on(IPC_CHANNELS.BULK_RESTORE_PROGRESS, listener);
+    return () => ipcRenderer.removeListener(IPC_CHANNELS.BULK_RESTORE_PROGRESS, listener);
+  },
 
   // Data queries
   getLogEntries: (filter?: { actionType?: string; startDate?: string; endDate?: string }) => 
     safeInvoke<LogEntry[]>(IPC_CHANNELS.GET_LOG_ENTRIES, filter),
+  getLogSessions: () =>
+    safeInvoke<LogSession[]>(IPC_CHANNELS.GET_LOG_SESSIONS),
+  queryLogEntries: (query?: LogQuery) =>
+    safeInvoke<{ success: boolean; result?: LogQueryResult; error?: string }>(IPC_CHANNELS.QUERY_LOG_ENTRIES, query),
+  verifyLogChain: () =>
+    safeInvoke<{ success: boolean; verification?: LogChainVerification; error?: string }>(IPC_CHANNELS.VERIFY_LOG_CHAIN),
+  exportSignedLog: () =>
+    safeInvoke<LogExportResult>(IPC_CHANNELS.EXPORT_SIGNED_LOG),
   getWhitelist: () => 
     safeInvoke<string[]>(IPC_CHANNELS.GET_WHITELIST),
   removeFromWhitelist: (filePath: string) => 
@@ -123,15 +168,51 @@ contextBridge.exposeInMainWorld('electronAPI', {
       filePath
     ),
   getGraveyardFiles: () => 
-    safeInvoke<Array<{ path: string; originalPath: string }>>(IPC_CHANNELS.GET_GRAVEYARD_FILES),
+    safeInvoke<Array<{ path: string; originalPath: string; size?: number; storedSize?: number }>>(IPC_CHANNELS.GET_GRAVEYARD_FILES),
+
+  // Graveyard retention: preview first, then reap only the confirmed entries
+  previewGraveyardReap: () =>
+    safeInvoke<{ success: boolean; plan?: ReapPlan; error?: string }>(IPC_CHANNELS.PREVIEW_GRAVEYARD_REAP),
+  reapGraveyard: (confirmedPaths: string[]) =>
+    safeInvoke<ReapResult>(IPC_CHANNELS.REAP_GRAVEYARD, confirmedPaths),
+
+  // Graveyard audit: report drift between the log and the graveyard, then repair one kind at a time
+  auditGraveyard: () =>
+    safeInvoke<{ success: boolean; report?: GraveyardAuditReport; error?: string }>(IPC_CHANNELS.AUDIT_GRAVEYARD),
+  repairGraveyard: (action: GraveyardRepairAction) =>
+    safeInvoke<GraveyardRepairResult>(IPC_CHANNELS.REPAIR_GRAVEYARD, action),
+
+  // Settings
+  getSettings: () =>
+    safeInvoke<AppSettings>(IPC_CHANNELS.GET_SETTINGS),
+  updateSettings: (updates: Partial<AppSettings>) =>
+    safeInvoke<{ success: boolean; settings: AppSettings; error?: string }>(IPC_CHANNELS.UPDATE_SETTINGS, updates),
+
+  // Classification profiles
+  getClassificationProfiles: () =>
+    safeInvoke<ClassificationProfiles>(IPC_CHANNELS.GET_CLASSIFICATION_PROFILES),
+  saveClassificationProfile: (profile: ClassificationProfile) =>
+    safeInvoke<ClassificationProfilesResult>(IPC_CHANNELS.SAVE_CLASSIFICATION_PROFILE, profile),
+  deleteClassificationProfile: (name: string) =>
+    safeInvoke<ClassificationProfilesResult>(IPC_CHANNELS.DELETE_CLASSIFICATION_PROFILE, name),
+  setDefaultClassificationProfile: (name: string) =>
+    safeInvoke<ClassificationProfilesResult>(IPC_CHANNELS.SET_DEFAULT_CLASSIFICATION_PROFILE, name),
+  assignTargetProfile: (targetPath: string, name: string | null) =>
+    safeInvoke<ClassificationProfilesResult>(IPC_CHANNELS.ASSIGN_TARGET_PROFILE, targetPath, name),
+
+  // Data root (changes take effect on the next launch)
+  getDataRoot: () =>
+    safeInvoke<DataRootInfo>(IPC_CHANNELS.GET_DATA_ROOT),
+  setDataRoot: (dataRoot: string | null) =>
+    safeInvoke<{ success: boolean; info?: DataRootInfo; error?: string }>(IPC_CHANNELS.SET_DATA_ROOT, dataRoot),
 
   // AI file inspection
   inspectFileAgent: (request: FileInspectionRequest) =>
     safeInvoke<FileInspectionResponse & { success: boolean }>(IPC_CHANNELS.INSPECT_FILE_AGENT, request),
 
   // Undo banish operation (Requirements: 13.3)
-  undoBanish: (undoId: string) =>
-    safeInvoke<UndoResult>(IPC_CHANNELS.UNDO_BANISH, undoId),
+  undoBanish: (undoId: string, strategy?: RestoreConflictStrategy) =>
+    safeInvoke<UndoResult>(IPC_CHANNELS.UNDO_BANISH, undoId, strategy),
 
   // ═══════════════════════════════════════════════════════════════════════════
   // SWIFT PURGE TOOL MODE APIs
@@ -149,10 +230,11 @@ contextBridge.exposeInMainWorld('electronAPI', {
     safeInvoke<SwiftPurgeExecuteResult>(IPC_CHANNELS.SWIFT_PURGE_EXECUTE, scanResult),
 
   // Swift Purge undo - restores files from a session
-  swiftPurgeUndo: (sessionId: string) =>
-    safeInvoke<{ success: boolean; restoredCount: number; errors: Array<{ path: string; error: string }> }>(
+  swiftPurgeUndo: (sessionId: string, strategy?: RestoreConflictStrategy) =>
+    safeInvoke<{ success: boolean; restoredCount: number; skippedCount: number; errors: Array<{ path: string; error: string }> }>(
       IPC_CHANNELS.SWIFT_PURGE_UNDO,
-      sessionId
+      sessionId,
+      strategy
     ),
 
   // Swift Purge progress listener
@@ -203,35 +285,63 @@ export interface ElectronAPI {
   getUserFolder: (folderName: string) => Promise<{ success: boolean; path: string | null; error?: string }>;
   
   // Scanning operations
-  startScan: (dirPath: string) => Promise<{ success: boolean; files: FileScanResult[]; count: number; error?: string }>;
+  startScan: (dirPath: string) => Promise<{ success: boolean; files: FileScanResult[]; count: number; prunedCount: number; error?: string }>;
   cancelScan: () => Promise<{ success: boolean }>;
   onScanProgress: (callback: (progress: { filesScanned: number; currentPath: string }) => void) => () => void;
   onScanComplete: (callback: (files: FileScanResult[]) => void) => () => void;
   
   // Classification operations
-  classifyFiles: (files: FileScanResult[]) => Promise<{ success: boolean; files: ClassifiedFile[]; count: number; error?: string }>;
+  classifyFiles: (files: FileScanResult[]) => Promise<{ success: boolean; files: ClassifiedFile[]; count: number; bytesRead: number; error?: string }>;
   
   // File operations
-  banishFile: (filePath: string, classifications?: MonsterType[], fileSize?: number) => Promise<BanishResult>;
-  resurrectFile: (filePath: string) => Promise<{ success: boolean; message?: string; error?: string }>;
-  restoreFile: (graveyardPath: string, originalPath: string) => Promise<RestoreResult>;
+  banishFile: (filePath: string, classifications?: MonsterType[], fileSize?: number, mode?: SessionMode) => Promise<BanishResult>;
+  resurrectFile: (filePath: string, mode?: SessionMode) => Promise<{ success: boolean; message?: string; error?: string }>;
+  restoreFile: (graveyardPath: string, originalPath: string, strategy?: RestoreConflictStrategy) => Promise<RestoreResult>;
+  previewRestoreConflicts: (restores: Array<{ graveyardPath: string; originalPath: string }>) => Promise<{ success: boolean; conflicts: RestoreConflict[]; error?: string }>;
+  bulkRestore: (request: BulkRestoreRequest) => Promise<BulkRestoreResult>;
+  onBulkRestoreProgress: (callback: (progress: BulkRestoreProgress) => void) => () => void;
   
   // Data query operations
   getLogEntries: (filter?: { actionType?: string; startDate?: string; endDate?: string }) => Promise<LogEntry[]>;
+  getLogSessions: () => Promise<LogSession[]>;
+  queryLogEntries: (query?: LogQuery) => Promise<{ success: boolean; result?: LogQueryResult; error?: string }>;
+  verifyLogChain: () => Promise<{ success: boolean; verification?: LogChainVerification; error?: string }>;
+  exportSignedLog: () => Promise<LogExportResult>;
   getWhitelist: () => Promise<string[]>;
   removeFromWhitelist: (filePath: string) => Promise<{ success: boolean; message?: string; error?: string }>;
-  getGraveyardFiles: () => Promise<Array<{ path: string; originalPath: string }>>;
+  getGraveyardFiles: () => Promise<Array<{ path: string; originalPath: string; size?: number; storedSize?: number }>>;
+  
+  // Graveyard retention operations
+  previewGraveyardReap: () => Promise<{ success: boolean; plan?: ReapPlan; error?: string }>;
+  reapGraveyard: (confirmedPaths: string[]) => Promise<ReapResult>;
+  auditGraveyard: () => Promise<{ success: boolean; report?: GraveyardAuditReport; error?: string }>;
+  repairGraveyard: (action: GraveyardRepairAction) => Promise<GraveyardRepairResult>;
+  
+  // Settings operations
+  getSettings: () => Promise<AppSettings>;
+  updateSettings: (updates: Partial<AppSettings>) => Promise<{ success: boolean; settings: AppSettings; error?: string }>;
+  
+  // Classification profile operations
+  getClassificationProfiles: () => Promise<ClassificationProfiles>;
+  saveClassificationProfile: (profile: ClassificationProfile) => Promise<ClassificationProfilesResult>;
+  deleteClassificationProfile: (name: string) => Promise<ClassificationProfilesResult>;
+  setDefaultClassificationProfile: (name: string) => Promise<ClassificationProfilesResult>;
+  assignTargetProfile: (targetPath: string, name: string | null) => Promise<ClassificationProfilesResult>;
+  
+  // Data root operations
+  getDataRoot: () => Promise<DataRootInfo>;
+  setDataRoot: (dataRoot: string | null) => Promise<{ success: boolean; info?: DataRootInfo; error?: string }>;
   
   // AI file inspection
   inspectFileAgent: (request: FileInspectionRequest) => Promise<FileInspectionResponse & { success: boolean }>;
   
   // Undo banish operation (Requirements: 13.3)
-  undoBanish: (undoId: string) => Promise<UndoResult>;
+  undoBanish: (undoId: string, strategy?: RestoreConflictStrategy) => Promise<UndoResult>;
   
   // Swift Purge Tool Mode APIs
   swiftPurgeScan: (targetPath: string) => Promise<{ success: boolean; result?: SwiftPurgeScanResult; error?: string }>;
   swiftPurgeExecute: (scanResult: SwiftPurgeScanResult) => Promise<SwiftPurgeExecuteResult>;
-  swiftPurgeUndo: (sessionId: string) => Promise<{ success: boolean; restoredCount: number; errors: Array<{ path: string; error: string }> }>;
+  swiftPurgeUndo: (sessionId: string, strategy?: RestoreConflictStrategy) => Promise<{ success: boolean; restoredCount: number; skippedCount: number; errors: Array<{ path: string; error: string }> }>;
   onSwiftPurgeProgress: (callback: (progress: SwiftPurgeScanProgress) => void) => () => void;
   
   // Error handling
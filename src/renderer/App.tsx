@@ -11,6 +11,7 @@ import { UndoToast } from './components/UndoToast';
 import { GraveyardView } from './components/GraveyardView';
 import { HistoryLog } from './components/HistoryLog';
 import { WhitelistManager } from './components/WhitelistManager';
+import { ClassificationSettings } from './components/ClassificationSettings';
 import CustomTitlebar from './components/CustomTitlebar';
 import TutorialOverlay from './components/TutorialOverlay';
 import LevelUpOverlay from './components/LevelUpOverlay';
@@ -20,7 +21,7 @@ import StoryMode, { StoryModeHandle } from './components/StoryMode';
 import { useKeyboardControls, KeyBinding } from './hooks/useKeyboardControls';
 import { useVisualFeedback } from './hooks/useVisualFeedback';
 import { storyEntityToClassifiedFile } from './utils/storyBattleAdapter';
-import type { ClassifiedFile, MonsterType } from '../shared/types';
+import type { ClassifiedFile, MonsterType, RestoreConflictStrategy } from '../shared/types';
 import type { StoryEntity } from './data/storyEntities';
 
 // Exorcism Style Flow Screens
@@ -54,6 +55,7 @@ import dashboardIcon from '../assets/images/dashboard.png';
 import graveyardIcon from '../assets/images/graveyard.png';
 import whitelistIcon from '../assets/images/whitelist.png';
 import historyIcon from '../assets/images/history.png';
+import rulesIcon from '../assets/images/icon_tactical.png';
 import bgTexture from '../assets/images/bg_texture.png';
 
 // Import GameIcon component
@@ -105,7 +107,7 @@ interface UndoToastState {
 }
 
 // HUD sub-view modes
-type HUDViewMode = 'exorcism' | 'graveyard' | 'history' | 'whitelist';
+type HUDViewMode = 'exorcism' | 'graveyard' | 'history' | 'whitelist' | 'rules';
 
 function App() {
   // State machine from Zustand store
@@ -167,7 +169,7 @@ function App() {
   // Handle banish operation with undo support and XP gain
   const handleBanish = useCallback(async (filePath: string, classifications?: MonsterType[], fileSize?: number) => {
     try {
-      const result = await window.electronAPI.banishFile(filePath, classifications, fileSize);
+      const result = await window.electronAPI.banishFile(filePath, classifications, fileSize, 'single');
       
       if (result.success) {
         console.log(`File banished: ${filePath}`);
@@ -322,28 +324,22 @@ function App() {
     setUndoToast(null);
   }, []);
 
-  // Handle file restore from graveyard
-  const handleRestore = useCallback(async (graveyardPath: string, originalPath: string) => {
+  // Handle file restore from graveyard; the graveyard view has already asked how to resolve any conflict
+  const handleRestore = useCallback(async (graveyardPath: string, originalPath: string, strategy?: RestoreConflictStrategy) => {
     try {
-      const result = await window.electronAPI.restoreFile(graveyardPath, originalPath);
+      const result = await window.electronAPI.restoreFile(graveyardPath, originalPath, strategy);
       
-      if (result.success) {
-        console.log(`File restored: ${originalPath}`);
-        alert(`File successfully restored to:\n${result.restoredPath}`);
+      if (result.success && result.skipped) {
+        console.log(`Restore skipped, something already exists at: ${originalPath}`);
+      } else if (result.success) {
+        console.log(`File restored: ${result.restoredPath}`);
+        alert(
+          `File successfully restored to:\n${result.restoredPath}` +
+          (result.displacedTo ? `\n\nThe file that was there has been moved to the graveyard:\n${result.displacedTo}` : '')
+        );
       } else {
         console.error('Restore failed:', result.error);
-        
-        if (result.error?.includes('Conflict')) {
-          const userChoice = window.confirm(
-            `${result.error}\n\nWould you like to choose a different location or rename the file?`
-          );
-          
-          if (userChoice) {
-            alert('Please manually move the file or rename it in the graveyard, then try again.');
-          }
-        } else {
-          alert(`Failed to restore file: ${result.error}`);
-        }
+        alert(`Failed to restore file: ${result.error}`);
       }
     } catch (error) {
       console.error('Failed to restore file:', error);
@@ -679,7 +675,7 @@ function App() {
 
             {/* View Mode Tabs - AAA Polish: Proper icon alignment */}
             <div className="flex gap-2 border-b border-white/10 bg-black/80 backdrop-blur-xl rounded-t-lg overflow-hidden mb-6">
-              {(['exorcism', 'graveyard', 'whitelist', 'history'] as HUDViewMode[]).map((mode) => (
+              {(['exorcism', 'graveyard', 'whitelist', 'history', 'rules'] as HUDViewMode[]).map((mode) => (
                 <motion.button
                   key={mode}
                   whileHover={{ scale: 1.05, y: -2 }}
@@ -736,6 +732,17 @@ function App() {
                         <span>History</span>
                       </>
                     )}
+                    {mode === 'rules' && (
+                      <>
+                        <GameIcon 
+                          src={rulesIcon} 
+                          size="sm"
+                          glow={hudViewMode === mode}
+                          className={hudViewMode !== mode ? 'opacity-70' : ''}
+                        />
+                        <span>Rules</span>
+                      </>
+                    )}
                   </span>
                   {hudViewMode === mode && (
                     <motion.div 
@@ -799,6 +806,18 @@ function App() {
                   <HistoryLog />
                 </motion.div>
               )}
+
+              {hudViewMode === 'rules' && (
+                <motion.div
+                  key="rules"
+                  initial={{ opacity: 0, x: -20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  exit={{ opacity: 0, x: 20 }}
+                  transition={{ duration: 0.3 }}
+                >
+                  <ClassificationSettings />
+                </motion.div>
+              )}
             </AnimatePresence>
           </div>
         )}
@@ -0,0 +1,354 @@
+import { useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { ClassificationConfig, ClassificationProfiles, ClassificationProfilesResult } from '../../shared/types';
+
+// Import custom icons
+import iconWarning from '../../assets/images/icon_warning.png';
+import iconTactical from '../../assets/images/icon_tactical.png';
+import { GameIcon } from './ui/GameIcon';
+
+const MB = 1024 * 1024;
+
+/**
+ * Editable form values; sizes are shown in MB and extensions as a comma-separated list
+ */
+interface ProfileForm {
+  name: string;
+  ghostAgeMonths: string;
+  demonSizeMB: string;
+  demonExtensions: string;
+  demonExtAgeMonths: string;
+}
+
+function toForm(name: string, config: ClassificationConfig): ProfileForm {
+  return {
+    name,
+    ghostAgeMonths: String(config.ghostAgeMonths),
+    demonSizeMB: String(Math.round(config.demonSizeBytes / MB)),
+    demonExtensions: config.demonExtensions.join(', '),
+    demonExtAgeMonths: String(config.demonExtAgeMonths)
+  };
+}
+
+function fromForm(form: ProfileForm): ClassificationConfig {
+  return {
+    ghostAgeMonths: Number(form.ghostAgeMonths),
+    demonSizeBytes: Number(form.demonSizeMB) * MB,
+    demonExtensions: form.demonExtensions.split(',').map(ext => ext.trim()).filter(Boolean),
+    demonExtAgeMonths: Number(form.demonExtAgeMonths)
+  };
+}
+
+/**
+ * ClassificationSettings - Edit classification profiles and assign them to scan targets
+ */
+export function ClassificationSettings() {
+  const [profiles, setProfiles] = useState<ClassificationProfiles | null>(null);
+  const [selected, setSelected] = useState<string>('');
+  const [form, setForm] = useState<ProfileForm | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load profiles on mount
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  const loadProfiles = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const state = await window.electronAPI.getClassificationProfiles();
+      const profile = state.profiles.find(p => p.name === state.defaultProfile) ?? state.profiles[0];
+      setProfiles(state);
+      setSelected(profile.name);
+      setForm(toForm(profile.name, profile.config));
+    } catch (err) {
+      console.error('Failed to load classification profiles:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load classification profiles');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectProfile = (state: ClassificationProfiles, name: string) => {
+    const profile = state.profiles.find(p => p.name === name) ?? state.profiles[0];
+    setSelected(profile.name);
+    setForm(toForm(profile.name, profile.config));
+  };
+
+  const applyResult = (result: ClassificationProfilesResult, nextSelected: string) => {
+    setProfiles(result.profiles);
+    if (!result.success) {
+      alert(`Profile update failed: ${result.error}`);
+      return;
+    }
+    selectProfile(result.profiles, nextSelected);
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    const name = form.name.trim();
+    if (!name) {
+      alert('Profile name is required');
+      return;
+    }
+
+    try {
+      const result = await window.electronAPI.saveClassificationProfile({ name, config: fromForm(form) });
+      applyResult(result, name);
+    } catch (err) {
+      console.error('Failed to save profile:', err);
+      alert(`Failed to save profile: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleDelete = async () => {
+    const confirmed = window.confirm(
+      `Delete the "${selected}" profile?\n\nFolders assigned to it will use the default profile.`
+    );
+    if (!confirmed) return;
+
+    try {
+      const result = await window.electronAPI.deleteClassificationProfile(selected);
+      applyResult(result, result.profiles.defaultProfile);
+    } catch (err) {
+      console.error('Failed to delete profile:', err);
+      alert(`Failed to delete profile: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleMakeDefault = async () => {
+    try {
+      const result = await window.electronAPI.setDefaultClassificationProfile(selected);
+      applyResult(result, selected);
+    } catch (err) {
+      console.error('Failed to set default profile:', err);
+      alert(`Failed to set default profile: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleAssign = async (targetPath: string, name: string | null) => {
+    try {
+      const result = await window.electronAPI.assignTargetProfile(targetPath, name);
+      applyResult(result, selected);
+    } catch (err) {
+      console.error('Failed to assign profile:', err);
+      alert(`Failed to assign profile: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleAddTarget = async () => {
+    try {
+      const result = await window.electronAPI.selectDirectory();
+      if (result.success && result.path) {
+        await handleAssign(result.path, selected);
+      }
+    } catch (err) {
+      console.error('Failed to select folder:', err);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="bg-graveyard-900 rounded-lg border border-graveyard-700 p-8">
+        <div className="flex items-center justify-center gap-3">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-spectral-purple"></div>
+          <p className="text-graveyard-400 font-tech">Loading classification profiles...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !profiles || !form) {
+    return (
+      <div className="bg-graveyard-900 rounded-lg border border-red-900 p-6">
+        <div className="flex items-center gap-3 text-red-400">
+          <GameIcon src={iconWarning} size="md" glow glowColor="rgba(239,68,68,0.6)" />
+          <div>
+            <p className="font-tech font-semibold">Error loading classification profiles</p>
+            <p className="text-sm text-red-300 font-tech">{error}</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const inputClass = `w-full px-3 py-2 bg-graveyard-800 border border-graveyard-600 rounded-lg
+                      text-gray-100 placeholder-graveyard-500 hover:border-graveyard-500 font-tech text-sm
+                      focus:outline-none focus:ring-2 focus:ring-spectral-purple focus:border-transparent transition-all`;
+  const targets = Object.entries(profiles.targetProfiles);
+
+  return (
+    <div className="bg-graveyard-900 rounded-lg border border-graveyard-700 p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <h2 className="text-2xl font-creepster text-spectral-purple mb-2 flex items-center gap-2">
+          <GameIcon src={iconTactical} size="md" glow />
+          Classification Rules
+        </h2>
+        <p className="text-graveyard-400 font-tech text-sm">
+          {profiles.profiles.length} {profiles.profiles.length === 1 ? 'profile' : 'profiles'} •
+          default: <span className="text-spectral-purple">{profiles.defaultProfile}</span>
+        </p>
+      </div>
+
+      {/* Profile Picker */}
+      <div className="flex flex-wrap gap-2 mb-6">
+        {profiles.profiles.map(profile => (
+          <button
+            key={profile.name}
+            onClick={() => selectProfile(profiles, profile.name)}
+            className={`px-4 py-2 rounded-lg font-tech text-sm border transition-all ${
+              profile.name === selected
+                ? 'bg-spectral-purple/30 border-spectral-purple text-white'
+                : 'bg-graveyard-800 border-graveyard-600 text-graveyard-400 hover:text-white'
+            }`}
+          >
+            {profile.name}
+            {profile.name === profiles.defaultProfile && ' ★'}
+          </button>
+        ))}
+      </div>
+
+      {/* Profile Editor */}
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <label className="col-span-2 text-graveyard-300 font-tech text-sm">
+          Profile name
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-graveyard-300 font-tech text-sm">
+          Ghost after (months untouched)
+          <input
+            type="number"
+            min={0}
+            value={form.ghostAgeMonths}
+            onChange={(e) => setForm({ ...form, ghostAgeMonths: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-graveyard-300 font-tech text-sm">
+          Demon above (MB)
+          <input
+            type="number"
+            min={0}
+            value={form.demonSizeMB}
+            onChange={(e) => setForm({ ...form, demonSizeMB: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-graveyard-300 font-tech text-sm">
+          Demon extensions
+          <input
+            type="text"
+            value={form.demonExtensions}
+            onChange={(e) => setForm({ ...form, demonExtensions: e.target.value })}
+            placeholder=".iso, .zip, .mkv"
+            className={inputClass}
+          />
+        </label>
+        <label className="text-graveyard-300 font-tech text-sm">
+          Extension demons after (months)
+          <input
+            type="number"
+            min={0}
+            value={form.demonExtAgeMonths}
+            onChange={(e) => setForm({ ...form, demonExtAgeMonths: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-3 mb-8">
+        <button
+          onClick={handleSave}
+          className="px-4 py-2 bg-spectral-purple/30 hover:bg-spectral-purple/50 text-white rounded-lg
+                   font-tech text-sm border border-spectral-purple/60 transition-all"
+        >
+          {form.name.trim() === selected ? 'Save profile' : 'Save as new profile'}
+        </button>
+        {selected !== profiles.defaultProfile && (
+          <button
+            onClick={handleMakeDefault}
+            className="px-4 py-2 bg-graveyard-800 hover:bg-graveyard-700 text-graveyard-300 rounded-lg
+                     font-tech text-sm border border-graveyard-600 transition-all"
+          >
+            Make default
+          </button>
+        )}
+        {selected !== 'Default' && (
+          <button
+            onClick={handleDelete}
+            className="px-4 py-2 bg-red-900/30 hover:bg-red-900/50 text-red-400 hover:text-red-300 rounded-lg
+                     font-tech text-sm border border-red-900/50 hover:border-red-700 transition-all"
+          >
+            Delete
+          </button>
+        )}
+      </div>
+
+      {/* Target Assignments */}
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-graveyard-300 font-tech font-semibold uppercase tracking-wide text-sm">
+          Folder assignments
+        </h3>
+        <button
+          onClick={handleAddTarget}
+          className="px-3 py-1 bg-graveyard-800 hover:bg-graveyard-700 text-graveyard-300 rounded-lg
+                   font-tech text-xs border border-graveyard-600 transition-all"
+          title={`Assign "${selected}" to a folder`}
+        >
+          + Assign "{selected}" to folder
+        </button>
+      </div>
+
+      {targets.length === 0 ? (
+        <p className="text-graveyard-500 font-tech text-sm">
+          No folders assigned. Every scan uses the default profile.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <AnimatePresence mode="popLayout">
+            {targets.map(([targetPath, profileName]) => (
+              <motion.div
+                key={targetPath}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, x: -100 }}
+                layout
+                className="flex items-center gap-3 bg-graveyard-800 border border-graveyard-600 rounded-lg p-3"
+              >
+                <p className="flex-1 min-w-0 text-gray-100 font-tech font-mono text-sm break-all">
+                  {targetPath}
+                </p>
+                <select
+                  value={profileName}
+                  onChange={(e) => handleAssign(targetPath, e.target.value)}
+                  className="bg-graveyard-900 border border-graveyard-600 rounded px-2 py-1 text-gray-100 font-tech text-sm"
+                >
+                  {profiles.profiles.map(profile => (
+                    <option key={profile.name} value={profile.name}>{profile.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => handleAssign(targetPath, null)}
+                  className="px-3 py-1 bg-red-900/30 hover:bg-red-900/50 text-red-400 rounded-lg text-xs
+                           border border-red-900/50 transition-all"
+                  title="Remove assignment"
+                >
+                  Remove
+                </button>
+              </motion.div>
+            ))}
+          </AnimatePresence>
+        </div>
+      )}
+    </div>
+  );
+}
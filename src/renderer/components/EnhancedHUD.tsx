@@ -111,6 +111,8 @@ const EntityTypeBadge: React.FC<{ type: MonsterType }> = ({ type }) => {
     ghost: { label: 'POLTERGEIST', color: 'text-green-400', bg: 'bg-green-900/40', border: 'border-green-500/50' },
     demon: { label: 'DEMON', color: 'text-red-400', bg: 'bg-red-900/40', border: 'border-red-500/50' },
     zombie: { label: 'REVENANT', color: 'text-purple-400', bg: 'bg-purple-900/40', border: 'border-purple-500/50' },
+    wraith: { label: 'WRAITH', color: 'text-slate-300', bg: 'bg-slate-800/40', border: 'border-slate-400/50' },
+    phantom: { label: 'PHANTOM', color: 'text-indigo-300', bg: 'bg-indigo-900/40', border: 'border-indigo-400/50' },
   };
   const c = config[type];
   return (
@@ -6,6 +6,7 @@ import type { ClassifiedFile, MonsterType } from '../../shared/types';
 import ghostImage from '../../assets/images/ghost.png';
 import demonImage from '../../assets/images/demon.png';
 import zombieImage from '../../assets/images/zombie.png';
+import { getCustomMonsterStyle, colorWithAlpha } from '../utils/entityUtils';
 
 /**
  * EntityCard - Premium entity card component for the Enhanced HUD
@@ -35,7 +36,9 @@ export interface EntityCardProps {
 const monsterImages: Record<MonsterType, string> = {
   ghost: ghostImage,
   demon: demonImage,
-  zombie: zombieImage
+  zombie: zombieImage,
+  wraith: ghostImage,
+  phantom: ghostImage
 };
 
 // Map monster types to colors and glow effects
@@ -60,6 +63,20 @@ const monsterColors: Record<MonsterType, { bg: string; border: string; text: str
     text: 'text-purple-400',
     glow: 'shadow-purple-400/50',
     shadow: 'rgba(192, 132, 252, 0.8)'
+  },
+  wraith: {
+    bg: 'bg-slate-800/40',
+    border: 'border-slate-400',
+    text: 'text-slate-300',
+    glow: 'shadow-slate-400/50',
+    shadow: 'rgba(148, 163, 184, 0.8)'
+  },
+  phantom: {
+    bg: 'bg-indigo-900/30',
+    border: 'border-indigo-400',
+    text: 'text-indigo-300',
+    glow: 'shadow-indigo-400/50',
+    shadow: 'rgba(129, 140, 248, 0.8)'
   }
 };
 
@@ -105,8 +122,15 @@ const EntityCard = forwardRef<HTMLDivElement, EntityCardProps>(
     const [isHovered, setIsHovered] = useState(false);
 
     // Get primary monster type for styling
-    const primaryMonster = file.classifications[0];
-    const primaryColors = monsterColors[primaryMonster];
+    const primaryMonster = file.primaryClassification ?? file.classifications[0];
+    const customClassifications = file.customClassifications ?? [];
+    // Files matched only by custom monster rules use the first custom type's look
+    const customStyle = primaryMonster || customClassifications.length === 0
+      ? null
+      : getCustomMonsterStyle(customClassifications[0]);
+    const glow = (alpha: number): string => customStyle
+      ? colorWithAlpha(customStyle.color, alpha)
+      : monsterColors[primaryMonster].shadow.replace('0.8', String(alpha));
     
     // Calculate health percentage
     const healthPercentage = calculateHealthPercentage(file.size, maxFileSize);
@@ -148,9 +172,9 @@ const EntityCard = forwardRef<HTMLDivElement, EntityCardProps>(
         <div 
           className="absolute inset-0 bg-gradient-to-b from-graveyard-800/70 to-graveyard-900/90 backdrop-blur-xl border-2 transition-all duration-300"
           style={{
-            borderColor: isHovered ? primaryColors.shadow : 'rgba(139, 92, 246, 0.5)',
+            borderColor: isHovered ? glow(0.8) : 'rgba(139, 92, 246, 0.5)',
             boxShadow: isHovered 
-              ? `0 0 40px ${primaryColors.shadow}, inset 0 0 30px ${primaryColors.shadow.replace('0.8', '0.2')}`
+              ? `0 0 40px ${glow(0.8)}, inset 0 0 30px ${glow(0.2)}`
               : '0 0 20px rgba(139, 92, 246, 0.3), inset 0 0 20px rgba(139, 92, 246, 0.1)'
           }}
         />
@@ -158,7 +182,7 @@ const EntityCard = forwardRef<HTMLDivElement, EntityCardProps>(
         {/* Health Bar at TOP - Glowing */}
         <div 
           className="absolute top-0 left-0 right-0 z-20 p-3 bg-graveyard-900/90 backdrop-blur-sm border-b-2"
-          style={{ borderColor: `${primaryColors.shadow.replace('0.8', '0.5')}` }}
+          style={{ borderColor: glow(0.5) }}
           data-testid="health-bar-container"
         >
           <div className="flex items-center justify-between mb-1">
@@ -179,8 +203,8 @@ const EntityCard = forwardRef<HTMLDivElement, EntityCardProps>(
               transition={{ duration: 1, ease: "easeOut", delay: 0.2 }}
               className="h-full rounded-full"
               style={{
-                background: `linear-gradient(to right, ${primaryColors.shadow.replace('0.8', '1')}, ${primaryColors.shadow.replace('0.8', '0.7')})`,
-                boxShadow: `0 0 15px ${primaryColors.shadow}, inset 0 0 10px rgba(255, 255, 255, 0.3)`
+                background: `linear-gradient(to right, ${glow(1)}, ${glow(0.7)})`,
+                boxShadow: `0 0 15px ${glow(0.8)}, inset 0 0 10px rgba(255, 255, 255, 0.3)`
               }}
               data-testid="health-bar"
               data-health-percentage={healthPercentage}
@@ -203,20 +227,34 @@ const EntityCard = forwardRef<HTMLDivElement, EntityCardProps>(
             }}
             className="relative"
           >
-            <motion.img
-              src={monsterImages[primaryMonster]}
-              alt={`${primaryMonster} entity`}
-              className="w-40 h-40 object-contain"
-              style={{
-                filter: `drop-shadow(0 0 25px ${primaryColors.shadow}) drop-shadow(0 0 50px ${primaryColors.shadow.replace('0.8', '0.4')})`
-              }}
-              data-testid="monster-image"
-            />
+            {customStyle ? (
+              <div
+                className="w-40 h-40 flex items-center justify-center text-8xl"
+                style={{
+                  filter: `drop-shadow(0 0 25px ${glow(0.8)}) drop-shadow(0 0 50px ${glow(0.4)})`
+                }}
+                role="img"
+                aria-label={`${customClassifications[0].label} entity`}
+                data-testid="monster-image"
+              >
+                {customStyle.icon}
+              </div>
+            ) : (
+              <motion.img
+                src={monsterImages[primaryMonster]}
+                alt={`${primaryMonster} entity`}
+                className="w-40 h-40 object-contain"
+                style={{
+                  filter: `drop-shadow(0 0 25px ${glow(0.8)}) drop-shadow(0 0 50px ${glow(0.4)})`
+                }}
+                data-testid="monster-image"
+              />
+            )}
             {/* Glow ring behind monster */}
             <div 
               className="absolute inset-0 -z-10 blur-2xl scale-150"
               style={{
-                background: `radial-gradient(circle, ${primaryColors.shadow.replace('0.8', '0.4')} 0%, transparent 70%)`
+                background: `radial-gradient(circle, ${glow(0.4)} 0%, transparent 70%)`
               }}
             />
           </motion.div>
@@ -253,6 +291,28 @@ const EntityCard = forwardRef<HTMLDivElement, EntityCardProps>(
                 </motion.span>
               );
             })}
+            {customClassifications.map((monster) => {
+              const { color } = getCustomMonsterStyle(monster);
+              return (
+                <motion.span
+                  key={monster.type}
+                  initial={{ scale: 0, rotate: -180 }}
+                  animate={{ scale: 1, rotate: 0 }}
+                  transition={{ type: "spring", stiffness: 200, damping: 15, delay: 0.1 }}
+                  className="px-2 py-0.5 text-[10px] font-tech font-bold border uppercase tracking-wider"
+                  style={{
+                    color,
+                    borderColor: color,
+                    backgroundColor: colorWithAlpha(color, 0.15),
+                    clipPath: 'polygon(6px 0, 100% 0, 100% calc(100% - 6px), calc(100% - 6px) 100%, 0 100%, 0 6px)'
+                  }}
+                  title={monster.description}
+                  data-testid={`classification-${monster.type}`}
+                >
+                  {monster.label}
+                </motion.span>
+              );
+            })}
           </div>
 
           {/* File Metadata - Tactical Intel */}
@@ -284,9 +344,9 @@ const EntityCard = forwardRef<HTMLDivElement, EntityCardProps>(
             whileTap={{ scale: 0.98 }}
             className="w-full px-6 py-4 font-tech font-bold text-sm uppercase tracking-widest text-center transition-all duration-200"
             style={{
-              background: `linear-gradient(to right, ${primaryColors.shadow.replace('0.8', '0.9')}, ${primaryColors.shadow.replace('0.8', '0.7')})`,
-              borderTop: `2px solid ${primaryColors.shadow}`,
-              boxShadow: isHovered ? `0 0 20px ${primaryColors.shadow}` : 'none'
+              background: `linear-gradient(to right, ${glow(0.9)}, ${glow(0.7)})`,
+              borderTop: `2px solid ${glow(0.8)}`,
+              boxShadow: isHovered ? `0 0 20px ${glow(0.8)}` : 'none'
             }}
             data-testid="engage-button"
           >
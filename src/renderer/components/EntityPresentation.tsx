@@ -42,6 +42,8 @@ const monsterImages: Record<MonsterType, string> = {
   ghost: ghostImage,
   demon: demonImage,
   zombie: zombieImage,
+  wraith: ghostImage,
+  phantom: ghostImage,
 };
 
 // Map monster types to colors - consistent with StoryOverview
@@ -67,6 +69,20 @@ const monsterColors: Record<MonsterType, { bg: string; border: string; text: str
     glow: 'rgba(34, 197, 94, 0.8)',
     textColor: '#4ade80', // green-400
   },
+  wraith: {
+    bg: 'bg-slate-800/30',
+    border: 'border-slate-400',
+    text: 'text-slate-300',
+    glow: 'rgba(148, 163, 184, 0.8)',
+    textColor: '#cbd5e1', // slate-300
+  },
+  phantom: {
+    bg: 'bg-indigo-900/30',
+    border: 'border-indigo-400',
+    text: 'text-indigo-300',
+    glow: 'rgba(129, 140, 248, 0.8)',
+    textColor: '#a5b4fc', // indigo-300
+  },
 };
 
 // Map threat levels to colors
@@ -4,11 +4,27 @@ import iconWarning from '../../assets/images/icon_warning.png';
 import graveyardIcon from '../../assets/images/graveyard.png';
 import iconUndo from '../../assets/images/icon_undo.png';
 import { GameIcon } from './ui/GameIcon';
+import { formatFileSize } from '../utils/entityUtils';
+import { RestoreConflictDialog } from './RestoreConflictDialog';
+import type {
+  RestoreConflict,
+  RestoreConflictStrategy,
+  BulkRestoreProgress,
+  GraveyardAuditReport,
+  GraveyardAuditIssueKind,
+  GraveyardRepairAction
+} from '../../shared/types';
 
 /**
  * GraveyardView - Displays banished files in the graveyard
  * 
- * Shows a list of banished files with restore functionality.
+ * Shows a list of banished files with restore functionality, and reaps
+ * entries past the retention policy after confirming the exact bytes freed.
+ * A restore whose original location is taken is previewed in a conflict
+ * dialog first, where the user picks how to resolve it. Several files can be
+ * selected and restored together, in place or into a folder of the user's
+ * choosing with their original layout. An audit reports where the log and
+ * the graveyard have drifted apart and offers a repair for each kind of issue.
  * Uses forwardRef for Framer Motion compatibility and parent-child ref control.
  * 
  * Requirements: 18.1, 18.2, 18.3, 18.4, 18.5
@@ -17,11 +33,21 @@ import { GameIcon } from './ui/GameIcon';
 export interface GraveyardFile {
   path: string;
   originalPath: string;
+  /** Original size in bytes */
+  size?: number;
+  /** Bytes the entry takes in the graveyard; less than size when archived compressed */
+  storedSize?: number;
 }
 
+const AUDIT_ISSUES: Array<{ kind: GraveyardAuditIssueKind; label: string; repair: GraveyardRepairAction; repairLabel: string }> = [
+  { kind: 'orphan', label: 'Orphaned', repair: 'reindex-orphans', repairLabel: 'Re-index' },
+  { kind: 'missing', label: 'Missing', repair: 'mark-missing', repairLabel: 'Mark Missing' },
+  { kind: 'double-restore', label: 'Restored twice', repair: 'compact-log', repairLabel: 'Compact Log' }
+];
+
 export interface GraveyardViewProps {
-  /** Callback when a file is restored */
-  onRestore: (graveyardPath: string, originalPath: string) => Promise<void>;
+  /** Callback when a file is restored; strategy is set when the original location is taken */
+  onRestore: (graveyardPath: string, originalPath: string, strategy?: RestoreConflictStrategy) => Promise<void>;
   /** Additional CSS classes */
   className?: string;
 }
@@ -33,6 +59,22 @@ const GraveyardView = forwardRef<HTMLDivElement, GraveyardViewProps>(
   const [searchQuery, setSearchQuery] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [reapMessage, setReapMessage] = useState<string | null>(null);
+  const [isReaping, setIsReaping] = useState(false);
+  const [pendingRestore, setPendingRestore] = useState<{
+    conflicts: RestoreConflict[];
+    apply: (strategy: RestoreConflictStrategy) => Promise<void>;
+  } | null>(null);
+  const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
+  const [bulkProgress, setBulkProgress] = useState<BulkRestoreProgress | null>(null);
+  const [bulkMessage, setBulkMessage] = useState<string | null>(null);
+  const [auditReport, setAuditReport] = useState<GraveyardAuditReport | null>(null);
+  const [auditMessage, setAuditMessage] = useState<string | null>(null);
+  const [isAuditing, setIsAuditing] = useState(false);
+
+  const originalBytes = files.reduce((total, file) => total + (file.size ?? 0), 0);
+  const storedBytes = files.reduce((total, file) => total + (file.storedSize ?? file.size ?? 0), 0);
+  const allVisibleSelected = filteredFiles.length > 0 && filteredFiles.every(file => selectedPaths.has(file.path));
 
   // Load graveyard files on mount
   useEffect(() => {
@@ -61,6 +103,8 @@ const GraveyardView = forwardRef<HTMLDivElement, GraveyardViewProps>(
       const graveyardFiles = await window.electronAPI.getGraveyardFiles();
       setFiles(graveyardFiles);
       setFilteredFiles(graveyardFiles);
+      // Drop selections of entries that are gone
+      setSelectedPaths(selected => new Set(graveyardFiles.filter(file => selected.has(file.path)).map(file => file.path)));
     } catch (err) {
       console.error('Failed to load graveyard files:', err);
       setError(err instanceof Error ? err.message : 'Failed to load graveyard files');
@@ -69,20 +113,203 @@ const GraveyardView = forwardRef<HTMLDivElement, GraveyardViewProps>(
     }
   };
 
+  const restore = async (file: GraveyardFile, strategy?: RestoreConflictStrategy) => {
+    try {
+      await onRestore(file.path, file.originalPath, strategy);
+      // Reload graveyard files after successful restore
+      await loadGraveyardFiles();
+    } catch (err) {
+      console.error('Failed to restore file:', err);
+      // Error handling is done in parent component
+    }
+  };
+
+  /**
+   * Lists restores whose original location is taken; an empty list when the preview fails,
+   * since the restore itself still refuses to overwrite anything
+   */
+  const previewConflicts = async (toRestore: GraveyardFile[]): Promise<RestoreConflict[]> => {
+    try {
+      const preview = await window.electronAPI.previewRestoreConflicts(
+        toRestore.map(file => ({ graveyardPath: file.path, originalPath: file.originalPath }))
+      );
+      return preview.conflicts;
+    } catch (err) {
+      console.error('Failed to preview restore conflicts:', err);
+      return [];
+    }
+  };
+
   const handleRestore = async (file: GraveyardFile) => {
+    const conflicts = await previewConflicts([file]);
+    if (conflicts.length > 0) {
+      setPendingRestore({ conflicts, apply: strategy => restore(file, strategy) });
+      return;
+    }
+
     const confirmed = window.confirm(
       `Restore this file to its original location?\n\n${file.originalPath}`
     );
     
     if (!confirmed) return;
 
+    await restore(file);
+  };
+
+  const handleResolveConflict = async (strategy: RestoreConflictStrategy) => {
+    if (!pendingRestore) return;
+    const { apply } = pendingRestore;
+    setPendingRestore(null);
+    await apply(strategy);
+  };
+
+  const toggleSelected = (file: GraveyardFile) => {
+    setSelectedPaths(selected => {
+      const next = new Set(selected);
+      if (!next.delete(file.path)) next.add(file.path);
+      return next;
+    });
+  };
+
+  const toggleAllVisible = () => {
+    setSelectedPaths(selected => {
+      const next = new Set(selected);
+      for (const file of filteredFiles) {
+        if (allVisibleSelected) next.delete(file.path);
+        else next.add(file.path);
+      }
+      return next;
+    });
+  };
+
+  const bulkRestore = async (graveyardPaths: string[], targetDir?: string, strategy?: RestoreConflictStrategy) => {
+    setBulkMessage(null);
+    const unsubscribe = window.electronAPI.onBulkRestoreProgress(setBulkProgress);
+
     try {
-      await onRestore(file.path, file.originalPath);
-      // Reload graveyard files after successful restore
+      const result = await window.electronAPI.bulkRestore({ selection: { graveyardPaths }, targetDir, strategy });
+      const parts = [`Restored ${result.restoredCount} ${result.restoredCount === 1 ? 'file' : 'files'}`];
+      if (targetDir) parts[0] += ` to ${targetDir}`;
+      if (result.skippedCount > 0) parts.push(`${result.skippedCount} skipped`);
+      if (result.errors.length > 0) parts.push(`${result.errors.length} failed: ${result.errors[0].error}`);
+      setBulkMessage(parts.join(', '));
       await loadGraveyardFiles();
     } catch (err) {
-      console.error('Failed to restore file:', err);
-      // Error handling is done in parent component
+      console.error('Failed to restore selected files:', err);
+      setBulkMessage(err instanceof Error ? err.message : 'Failed to restore selected files');
+    } finally {
+      unsubscribe();
+      setBulkProgress(null);
+    }
+  };
+
+  const handleRestoreSelected = async () => {
+    const selected = files.filter(file => selectedPaths.has(file.path));
+    if (selected.length === 0) return;
+    const graveyardPaths = selected.map(file => file.path);
+
+    const conflicts = await previewConflicts(selected);
+    if (conflicts.length > 0) {
+      setPendingRestore({ conflicts, apply: strategy => bulkRestore(graveyardPaths, undefined, strategy) });
+      return;
+    }
+
+    const confirmed = window.confirm(
+      `Restore ${selected.length} ${selected.length === 1 ? 'file' : 'files'} to their original locations?`
+    );
+    if (!confirmed) return;
+
+    await bulkRestore(graveyardPaths);
+  };
+
+  const handleRestoreSelectedTo = async () => {
+    const graveyardPaths = files.filter(file => selectedPaths.has(file.path)).map(file => file.path);
+    if (graveyardPaths.length === 0) return;
+
+    const folder = await window.electronAPI.selectDirectory();
+    if (!folder.success || !folder.path) return;
+
+    // A review folder may already hold an earlier recovery; keep both rather than failing
+    await bulkRestore(graveyardPaths, folder.path, 'rename');
+  };
+
+  const handleReap = async () => {
+    setIsReaping(true);
+    setReapMessage(null);
+
+    try {
+      const preview = await window.electronAPI.previewGraveyardReap();
+      if (!preview.success || !preview.plan) {
+        setReapMessage(preview.error || 'Could not check the retention policy');
+        return;
+      }
+
+      const { candidates, totalBytes } = preview.plan;
+      if (candidates.length === 0) {
+        setReapMessage('Nothing is past the retention policy');
+        return;
+      }
+
+      const confirmed = window.confirm(
+        `Permanently delete ${candidates.length} graveyard ${candidates.length === 1 ? 'entry' : 'entries'}?\n\n` +
+        `This frees exactly ${totalBytes.toLocaleString()} bytes (${formatFileSize(totalBytes)}) and cannot be undone.`
+      );
+      if (!confirmed) return;
+
+      const result = await window.electronAPI.reapGraveyard(candidates.map(candidate => candidate.graveyardPath));
+      setReapMessage(result.success
+        ? `Reaped ${result.purgedCount} ${result.purgedCount === 1 ? 'entry' : 'entries'}, freeing ${formatFileSize(result.bytesFreed)}`
+        : result.error || `${result.errors.length} ${result.errors.length === 1 ? 'entry' : 'entries'} could not be reaped`);
+      await loadGraveyardFiles();
+    } catch (err) {
+      console.error('Failed to reap graveyard:', err);
+      setReapMessage(err instanceof Error ? err.message : 'Failed to reap graveyard');
+    } finally {
+      setIsReaping(false);
+    }
+  };
+
+  const runAudit = async () => {
+    const result = await window.electronAPI.auditGraveyard();
+    if (!result.success || !result.report) {
+      throw new Error(result.error || 'Could not audit the graveyard');
+    }
+    setAuditReport(result.report);
+    return result.report;
+  };
+
+  const handleAudit = async () => {
+    setIsAuditing(true);
+    setAuditMessage(null);
+
+    try {
+      const report = await runAudit();
+      if (report.issues.length === 0) {
+        setAuditMessage(`All ${report.heldCount} graveyard ${report.heldCount === 1 ? 'entry matches' : 'entries match'} the log`);
+      }
+    } catch (err) {
+      console.error('Failed to audit graveyard:', err);
+      setAuditMessage(err instanceof Error ? err.message : 'Failed to audit graveyard');
+    } finally {
+      setIsAuditing(false);
+    }
+  };
+
+  const handleRepair = async (action: GraveyardRepairAction) => {
+    setIsAuditing(true);
+
+    try {
+      const result = await window.electronAPI.repairGraveyard(action);
+      setAuditMessage(result.errors.length > 0
+        ? `Repaired ${result.repairedCount}, ${result.errors.length} failed: ${result.errors[0].error}`
+        : `Repaired ${result.repairedCount}`);
+      await runAudit();
+      await loadGraveyardFiles();
+    } catch (err) {
+      console.error('Failed to repair graveyard:', err);
+      setAuditMessage(err instanceof Error ? err.message : 'Failed to repair graveyard');
+    } finally {
+      setIsAuditing(false);
     }
   };
 
@@ -114,16 +341,87 @@ const GraveyardView = forwardRef<HTMLDivElement, GraveyardViewProps>(
   return (
     <div ref={ref} className={`bg-graveyard-900 rounded-lg border border-graveyard-700 p-6 ${className}`} data-testid="graveyard-view">
       {/* Header */}
-      <div className="mb-6">
-        <h2 className="text-2xl font-creepster text-spectral-purple mb-2 flex items-center gap-2">
-          <GameIcon src={graveyardIcon} size="md" glow />
-          Graveyard
-        </h2>
-        <p className="text-graveyard-400 font-tech text-sm">
-          {files.length} banished {files.length === 1 ? 'file' : 'files'}
-        </p>
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-creepster text-spectral-purple mb-2 flex items-center gap-2">
+            <GameIcon src={graveyardIcon} size="md" glow />
+            Graveyard
+          </h2>
+          <p className="text-graveyard-400 font-tech text-sm">
+            {files.length} banished {files.length === 1 ? 'file' : 'files'}
+            {storedBytes < originalBytes && (
+              <span data-testid="graveyard-compression">
+                {' '}· {formatFileSize(originalBytes)} stored in {formatFileSize(storedBytes)}
+              </span>
+            )}
+          </p>
+          {reapMessage && (
+            <p className="text-graveyard-300 font-tech text-xs mt-1" data-testid="reap-message">
+              {reapMessage}
+            </p>
+          )}
+        </div>
+
+        <div className="flex-shrink-0 flex gap-2">
+          <button
+            onClick={handleAudit}
+            disabled={isAuditing}
+            className="px-4 py-2 bg-graveyard-800 border border-graveyard-600 text-graveyard-300
+                     font-tech text-xs uppercase tracking-wider rounded-lg hover:border-spectral-purple
+                     disabled:opacity-50 transition-all"
+            data-testid="audit-graveyard"
+          >
+            {isAuditing ? 'Auditing...' : 'Audit'}
+          </button>
+          <button
+            onClick={handleReap}
+            disabled={isReaping}
+            className="px-4 py-2 bg-graveyard-800 border border-red-900 text-red-300
+                     font-tech text-xs uppercase tracking-wider rounded-lg hover:border-red-600
+                     disabled:opacity-50 transition-all"
+            data-testid="reap-graveyard"
+          >
+            {isReaping ? 'Reaping...' : 'Reap Expired'}
+          </button>
+        </div>
       </div>
 
+      {/* Audit results */}
+      {(auditMessage || (auditReport && auditReport.issues.length > 0)) && (
+        <div className="mb-6 bg-graveyard-800 border border-graveyard-600 rounded-lg p-4 font-tech text-xs" data-testid="audit-report">
+          {auditMessage && <p className="text-graveyard-300 mb-2" data-testid="audit-message">{auditMessage}</p>}
+          {auditReport && AUDIT_ISSUES.map(({ kind, label, repair, repairLabel }) => {
+            const issues = auditReport.issues.filter(issue => issue.kind === kind);
+            if (issues.length === 0) return null;
+            return (
+              <div key={kind} className="mb-3 last:mb-0">
+                <div className="flex items-center justify-between gap-3 mb-1">
+                  <p className="text-orange-400 uppercase tracking-wider">{label}: {issues.length}</p>
+                  <button
+                    onClick={() => handleRepair(repair)}
+                    disabled={isAuditing}
+                    className="px-3 py-1 border border-orange-700 text-orange-300 uppercase tracking-wider rounded-lg
+                             hover:border-orange-500 disabled:opacity-50 transition-all"
+                    data-testid={`repair-${repair}`}
+                  >
+                    {repairLabel}
+                  </button>
+                </div>
+                <ul className="text-graveyard-400 font-mono space-y-1">
+                  {issues.slice(0, 5).map(issue => (
+                    <li key={issue.graveyardPath} className="break-all" title={issue.detail}>
+                      {issue.originalPath || issue.graveyardPath}
+                      {issue.size !== undefined && ` (${formatFileSize(issue.size)})`}
+                    </li>
+                  ))}
+                  {issues.length > 5 && <li>...and {issues.length - 5} more</li>}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Search and Filter */}
       <div className="mb-6">
         <input
@@ -139,6 +437,48 @@ const GraveyardView = forwardRef<HTMLDivElement, GraveyardViewProps>(
         />
       </div>
 
+      {/* Selection and bulk restore */}
+      {filteredFiles.length > 0 && (
+        <div className="mb-4 flex flex-wrap items-center gap-3 font-tech text-xs">
+          <label className="flex items-center gap-2 text-graveyard-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={allVisibleSelected}
+              onChange={toggleAllVisible}
+              className="accent-purple-500"
+              data-testid="graveyard-select-all"
+            />
+            Select all{searchQuery ? ' matching' : ''}
+          </label>
+          <button
+            onClick={handleRestoreSelected}
+            disabled={selectedPaths.size === 0 || bulkProgress !== null}
+            className="px-3 py-1 bg-graveyard-800 border border-purple-700 text-purple-300 uppercase tracking-wider
+                     rounded-lg hover:border-purple-500 disabled:opacity-50 transition-all"
+            data-testid="restore-selected"
+          >
+            Restore Selected ({selectedPaths.size})
+          </button>
+          <button
+            onClick={handleRestoreSelectedTo}
+            disabled={selectedPaths.size === 0 || bulkProgress !== null}
+            className="px-3 py-1 bg-graveyard-800 border border-purple-700 text-purple-300 uppercase tracking-wider
+                     rounded-lg hover:border-purple-500 disabled:opacity-50 transition-all"
+            data-testid="restore-selected-to"
+          >
+            Restore to Folder...
+          </button>
+          {bulkProgress && (
+            <span className="text-graveyard-400 truncate" data-testid="bulk-restore-progress">
+              Restoring {bulkProgress.current}/{bulkProgress.total}: {bulkProgress.currentPath}
+            </span>
+          )}
+          {!bulkProgress && bulkMessage && (
+            <span className="text-graveyard-300" data-testid="bulk-restore-message">{bulkMessage}</span>
+          )}
+        </div>
+      )}
+
       {/* File List */}
       {filteredFiles.length === 0 ? (
         <div className="text-center py-12 text-graveyard-500 font-tech">
@@ -173,6 +513,14 @@ const GraveyardView = forwardRef<HTMLDivElement, GraveyardViewProps>(
                          hover:border-spectral-purple hover:shadow-lg hover:shadow-spectral-purple/10 transition-all"
               >
                 <div className="flex items-start justify-between gap-4">
+                  <input
+                    type="checkbox"
+                    checked={selectedPaths.has(file.path)}
+                    onChange={() => toggleSelected(file)}
+                    aria-label={`Select ${file.originalPath}`}
+                    className="mt-1 accent-purple-500 flex-shrink-0"
+                    data-testid="graveyard-select"
+                  />
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2 mb-2">
                       <GameIcon src={graveyardIcon} size="sm" className="opacity-70" />
@@ -186,6 +534,11 @@ const GraveyardView = forwardRef<HTMLDivElement, GraveyardViewProps>(
                     <p className="text-xs text-graveyard-500 font-tech font-mono break-all">
                       Graveyard: {file.path}
                     </p>
+                    {file.size !== undefined && file.storedSize !== undefined && file.storedSize !== file.size && (
+                      <p className="text-xs text-graveyard-400 font-tech font-mono mt-1">
+                        Compressed: {formatFileSize(file.storedSize)} of {formatFileSize(file.size)}
+                      </p>
+                    )}
                   </div>
                   
                   <button
@@ -208,6 +561,12 @@ const GraveyardView = forwardRef<HTMLDivElement, GraveyardViewProps>(
           </AnimatePresence>
         </div>
       )}
+
+      <RestoreConflictDialog
+        conflicts={pendingRestore?.conflicts ?? []}
+        onResolve={handleResolveConflict}
+        onCancel={() => setPendingRestore(null)}
+      />
     </div>
   );
   }
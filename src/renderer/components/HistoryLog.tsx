@@ -1,6 +1,16 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { LogEntry, ActionType } from '../../shared/types';
+import {
+  LogEntry,
+  LogSession,
+  LogQuery,
+  LogQueryResult,
+  LogSortField,
+  LogChainVerification,
+  SessionMode,
+  ActionType,
+  MonsterType
+} from '../../shared/types';
 
 // Import custom icons
 import iconWarning from '../../assets/images/icon_warning.png';
@@ -10,70 +20,234 @@ import graveyardIcon from '../../assets/images/graveyard.png';
 import whitelistIcon from '../../assets/images/whitelist.png';
 import { GameIcon } from './ui/GameIcon';
 
+const MODE_LABELS: Record<SessionMode, string> = {
+  swift: 'Swift Purge',
+  interactive: 'Interactive Exorcism',
+  confrontation: 'Confrontation',
+  single: 'Single File'
+};
+
+const PAGE_SIZE = 50;
+
+const SORT_OPTIONS: Array<{ value: string; label: string; sortBy: LogSortField; sortOrder: 'asc' | 'desc' }> = [
+  { value: 'newest', label: 'Newest first', sortBy: 'timestamp', sortOrder: 'desc' },
+  { value: 'oldest', label: 'Oldest first', sortBy: 'timestamp', sortOrder: 'asc' },
+  { value: 'largest', label: 'Largest first', sortBy: 'fileSize', sortOrder: 'desc' },
+  { value: 'path', label: 'Path A-Z', sortBy: 'filePath', sortOrder: 'asc' }
+];
+
+/**
+ * Converts a size field in megabytes to bytes; empty or invalid input sets no bound
+ */
+function parseMegabytes(value: string): number | undefined {
+  if (!value.trim()) return undefined;
+  const megabytes = Number(value);
+  return Number.isFinite(megabytes) && megabytes >= 0 ? Math.round(megabytes * 1024 * 1024) : undefined;
+}
+
+/**
+ * Groups entries by session, keeping the order the entries come in
+ * Entries logged before sessions were recorded form one group without a session.
+ */
+function groupBySession(entries: LogEntry[]): Array<{ sessionId?: string; entries: LogEntry[] }> {
+  const groups = new Map<string | undefined, LogEntry[]>();
+  for (const entry of entries) {
+    const group = groups.get(entry.sessionId);
+    if (group) {
+      group.push(entry);
+    } else {
+      groups.set(entry.sessionId, [entry]);
+    }
+  }
+  return [...groups].map(([sessionId, groupEntries]) => ({ sessionId, entries: groupEntries }));
+}
+
 export function HistoryLog() {
   const [entries, setEntries] = useState<LogEntry[]>([]);
-  const [filteredEntries, setFilteredEntries] = useState<LogEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [totals, setTotals] = useState<Pick<LogQueryResult, 'totalCount' | 'actionCounts' | 'totalSize'> | null>(null);
+  const [sessionsById, setSessionsById] = useState<Map<string, LogSession>>(new Map());
+  const [expandedSessions, setExpandedSessions] = useState<Set<string>>(new Set());
   const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [error, setError] = useState<string | null>(null);
   
   // Filter states
   const [actionFilter, setActionFilter] = useState<ActionType | 'all'>('all');
   const [startDate, setStartDate] = useState<string>('');
   const [endDate, setEndDate] = useState<string>('');
+  const [search, setSearch] = useState<string>('');
+  const [debouncedSearch, setDebouncedSearch] = useState<string>('');
+  const [classificationFilter, setClassificationFilter] = useState<MonsterType | 'all'>('all');
+  const [minSizeMB, setMinSizeMB] = useState<string>('');
+  const [maxSizeMB, setMaxSizeMB] = useState<string>('');
+  const [sortOption, setSortOption] = useState<string>('newest');
+
+  // Log integrity: hash chain check and signed export
+  const [verification, setVerification] = useState<LogChainVerification | null>(null);
+  const [integrityMessage, setIntegrityMessage] = useState<string | null>(null);
+  const [isCheckingIntegrity, setIsCheckingIntegrity] = useState(false);
+
+  // Bumped whenever the query changes, so pages of an older query are dropped
+  const generationRef = useRef(0);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const hasFilters = actionFilter !== 'all' || !!startDate || !!endDate || !!search ||
+    classificationFilter !== 'all' || !!minSizeMB || !!maxSizeMB;
 
-  // Load log entries on mount
+  // Filtering and sorting happen in the main process; this only describes what to fetch
+  const query = useMemo<LogQuery>(() => {
+    const sort = SORT_OPTIONS.find(option => option.value === sortOption) ?? SORT_OPTIONS[0];
+    const end = endDate ? new Date(endDate) : undefined;
+    end?.setHours(23, 59, 59, 999); // Include the entire end date
+    return {
+      actionType: actionFilter === 'all' ? undefined : actionFilter,
+      startDate: startDate ? new Date(startDate).toISOString() : undefined,
+      endDate: end?.toISOString(),
+      search: debouncedSearch || undefined,
+      classification: classificationFilter === 'all' ? undefined : classificationFilter,
+      minSize: parseMegabytes(minSizeMB),
+      maxSize: parseMegabytes(maxSizeMB),
+      sortBy: sort.sortBy,
+      sortOrder: sort.sortOrder
+    };
+  }, [actionFilter, startDate, endDate, debouncedSearch, classificationFilter, minSizeMB, maxSizeMB, sortOption]);
+
+  // Wait for a pause in typing before searching
   useEffect(() => {
-    loadLogEntries();
-  }, []);
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [search]);
 
-  // Apply filters when entries or filter criteria change
+  // Session totals for the grouped rows
   useEffect(() => {
-    applyFilters();
-  }, [entries, actionFilter, startDate, endDate]);
+    window.electronAPI.getLogSessions()
+      .then(sessions => setSessionsById(new Map(sessions.map(session => [session.sessionId, session]))))
+      .catch(err => console.error('Failed to load log sessions:', err));
+  }, []);
 
-  const loadLogEntries = async () => {
+  const loadFirstPage = useCallback(async () => {
+    const generation = ++generationRef.current;
     setIsLoading(true);
     setError(null);
     
     try {
-      const logEntries = await window.electronAPI.getLogEntries();
-      setEntries(logEntries);
-      setFilteredEntries(logEntries);
+      const response = await window.electronAPI.queryLogEntries({ ...query, limit: PAGE_SIZE });
+      if (generation !== generationRef.current) return;
+      if (!response.success || !response.result) {
+        throw new Error(response.error || 'Failed to load history log');
+      }
+      setEntries(response.result.entries);
+      setNextCursor(response.result.nextCursor);
+      setTotals(response.result);
     } catch (err) {
       console.error('Failed to load log entries:', err);
-      setError(err instanceof Error ? err.message : 'Failed to load history log');
+      if (generation === generationRef.current) {
+        setError(err instanceof Error ? err.message : 'Failed to load history log');
+      }
     } finally {
-      setIsLoading(false);
+      if (generation === generationRef.current) {
+        setIsLoading(false);
+      }
     }
-  };
+  }, [query]);
 
-  const applyFilters = () => {
-    let filtered = [...entries];
+  // Reload from the first page whenever the query changes
+  useEffect(() => {
+    loadFirstPage();
+  }, [loadFirstPage]);
 
-    // Filter by action type
-    if (actionFilter !== 'all') {
-      filtered = filtered.filter(entry => entry.action === actionFilter);
-    }
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoadingMore || isLoading) return;
+    const generation = generationRef.current;
+    setIsLoadingMore(true);
 
-    // Filter by date range
-    if (startDate) {
-      const start = new Date(startDate);
-      filtered = filtered.filter(entry => new Date(entry.timestamp) >= start);
+    try {
+      const response = await window.electronAPI.queryLogEntries({ ...query, cursor: nextCursor, limit: PAGE_SIZE });
+      if (generation !== generationRef.current) return;
+      if (!response.success || !response.result) {
+        throw new Error(response.error || 'Failed to load more history');
+      }
+      const page = response.result;
+      setEntries(prev => [...prev, ...page.entries]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Failed to load more log entries:', err);
+      if (generation === generationRef.current) {
+        setError(err instanceof Error ? err.message : 'Failed to load more history');
+      }
+    } finally {
+      setIsLoadingMore(false);
     }
+  }, [query, nextCursor, isLoadingMore, isLoading]);
 
-    if (endDate) {
-      const end = new Date(endDate);
-      end.setHours(23, 59, 59, 999); // Include the entire end date
-      filtered = filtered.filter(entry => new Date(entry.timestamp) <= end);
-    }
+  // Infinite scroll: fetch the next page as the end of the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor || typeof IntersectionObserver === 'undefined') return;
 
-    setFilteredEntries(filtered);
-  };
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        loadMore();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore]);
 
   const clearFilters = () => {
     setActionFilter('all');
     setStartDate('');
     setEndDate('');
+    setSearch('');
+    setClassificationFilter('all');
+    setMinSizeMB('');
+    setMaxSizeMB('');
+  };
+
+  const handleVerifyChain = async () => {
+    setIsCheckingIntegrity(true);
+    setIntegrityMessage(null);
+    try {
+      const response = await window.electronAPI.verifyLogChain();
+      if (!response.success || !response.verification) {
+        throw new Error(response.error || 'Failed to verify the log');
+      }
+      setVerification(response.verification);
+    } catch (err) {
+      setIntegrityMessage(err instanceof Error ? err.message : 'Failed to verify the log');
+    } finally {
+      setIsCheckingIntegrity(false);
+    }
+  };
+
+  const handleExportSigned = async () => {
+    setIsCheckingIntegrity(true);
+    setIntegrityMessage(null);
+    try {
+      const result = await window.electronAPI.exportSignedLog();
+      if (result.verification) {
+        setVerification(result.verification);
+      }
+      if (result.success) {
+        setIntegrityMessage(`Exported ${result.entryCount} entries to ${result.filePath}, signed with key ${result.keyFingerprint?.slice(0, 16)}…`);
+      } else if (result.error) {
+        setIntegrityMessage(result.error);
+      }
+    } finally {
+      setIsCheckingIntegrity(false);
+    }
+  };
+
+  const describeVerification = (result: LogChainVerification): string => {
+    switch (result.status) {
+      case 'verified':
+        return `Hash chain verified: ${result.chainedCount} of ${result.entryCount} entries chained`;
+      case 'unchained':
+        return 'No entries are hash-chained yet; turn on the hash chain in settings';
+      default:
+        return `Hash chain broken at entry ${(result.firstBreak?.index ?? 0) + 1} (${result.firstBreak?.filePath}): ${result.firstBreak?.detail}`;
+    }
   };
 
   const formatTimestamp = (timestamp: string): string => {
@@ -129,7 +303,95 @@ export function HistoryLog() {
     }
   };
 
-  if (isLoading) {
+  const toggleSession = (key: string) => {
+    setExpandedSessions(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const renderEntry = (entry: LogEntry, index: number): JSX.Element => (
+    <motion.div
+      key={`${entry.timestamp}-${index}`}
+      initial={{ opacity: 0, y: 20, scale: 0.95 }}
+      animate={{ opacity: 1, y: 0, scale: 1 }}
+      exit={{ opacity: 0, x: -100, scale: 0.9 }}
+      transition={{ 
+        duration: 0.3, 
+        delay: index * 0.02,
+        ease: "easeOut"
+      }}
+      layout
+      className="bg-graveyard-800 border border-graveyard-600 rounded-lg p-4
+               hover:border-spectral-purple hover:shadow-lg hover:shadow-spectral-purple/10 transition-all"
+    >
+      <div className="flex items-start gap-4">
+        {/* Action Icon */}
+        <div className="flex-shrink-0">
+          {getActionIcon(entry.action)}
+        </div>
+
+        {/* Entry Details */}
+        <div className="flex-1 min-w-0">
+          {/* Header: Action and Timestamp */}
+          <div className="flex items-center justify-between gap-4 mb-2">
+            <span className={`font-tech font-semibold capitalize ${getActionColor(entry.action)}`}>
+              {entry.action}
+            </span>
+            <span className="text-xs text-graveyard-500 font-tech font-mono">
+              {formatTimestamp(entry.timestamp)}
+            </span>
+          </div>
+
+          {/* File Path */}
+          <div className="mb-2">
+            <p className="text-sm text-graveyard-400 font-tech mb-1">File Path:</p>
+            <p className="text-gray-100 font-tech font-mono text-sm break-all">
+              {entry.filePath}
+            </p>
+          </div>
+
+          {/* Additional Details */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs font-tech">
+            {entry.originalPath && (
+              <div>
+                <span className="text-graveyard-500">Original: </span>
+                <span className="text-graveyard-300 font-mono">{entry.originalPath}</span>
+              </div>
+            )}
+            {entry.graveyardPath && (
+              <div>
+                <span className="text-graveyard-500">Graveyard: </span>
+                <span className="text-graveyard-300 font-mono">{entry.graveyardPath}</span>
+              </div>
+            )}
+            {entry.fileSize && (
+              <div>
+                <span className="text-graveyard-500">Size: </span>
+                <span className="text-graveyard-300">{formatFileSize(entry.fileSize)}</span>
+              </div>
+            )}
+            {entry.classifications && entry.classifications.length > 0 && (
+              <div>
+                <span className="text-graveyard-500">Classifications: </span>
+                <span className="text-graveyard-300 capitalize">
+                  {entry.classifications.join(', ')}
+                </span>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </motion.div>
+  );
+
+  // Only the first load replaces the view; later reloads keep the filters on screen
+  if (isLoading && !totals) {
     return (
       <div className="bg-graveyard-900 rounded-lg border border-graveyard-700 p-8">
         <div className="flex items-center justify-center gap-3">
@@ -140,7 +402,7 @@ export function HistoryLog() {
     );
   }
 
-  if (error) {
+  if (error && !totals) {
     return (
       <div className="bg-graveyard-900 rounded-lg border border-red-900 p-6">
         <div className="flex items-center gap-3 text-red-400">
@@ -163,13 +425,50 @@ export function HistoryLog() {
           History Log
         </h2>
         <p className="text-graveyard-400 font-tech text-sm">
-          {entries.length} total {entries.length === 1 ? 'entry' : 'entries'}
-          {filteredEntries.length !== entries.length && (
-            <span className="text-spectral-purple">
-              {' '}• {filteredEntries.length} filtered
+          {totals?.totalCount ?? 0} {hasFilters ? 'matching' : 'total'} {totals?.totalCount === 1 ? 'entry' : 'entries'}
+          {totals && totals.totalSize > 0 && ` • ${formatFileSize(totals.totalSize)}`}
+          {totals && Object.entries(totals.actionCounts).map(([action, count]) => (
+            <span key={action} className={getActionColor(action as ActionType)}>
+              {' '}• {count} {action}
             </span>
-          )}
+          ))}
+          {isLoading && <span className="text-spectral-purple"> • Updating...</span>}
         </p>
+
+        {/* Log Integrity */}
+        <div className="mt-3 flex flex-wrap items-center gap-3">
+          <button
+            onClick={handleVerifyChain}
+            disabled={isCheckingIntegrity}
+            data-testid="history-verify-chain"
+            className="px-3 py-1.5 bg-graveyard-800 hover:bg-graveyard-700 active:bg-graveyard-600 text-graveyard-300 hover:text-white
+                     rounded-lg transition-all text-xs font-tech font-medium shadow-md disabled:opacity-50"
+          >
+            Verify Log
+          </button>
+          <button
+            onClick={handleExportSigned}
+            disabled={isCheckingIntegrity}
+            className="px-3 py-1.5 bg-graveyard-800 hover:bg-graveyard-700 active:bg-graveyard-600 text-graveyard-300 hover:text-white
+                     rounded-lg transition-all text-xs font-tech font-medium shadow-md disabled:opacity-50"
+          >
+            Export Signed Log
+          </button>
+          {verification && (
+            <span
+              data-testid="history-chain-status"
+              className={`text-xs font-tech ${
+                verification.status === 'verified' ? 'text-spectral-green' :
+                verification.status === 'broken' ? 'text-red-400' : 'text-graveyard-400'
+              }`}
+            >
+              {describeVerification(verification)}
+            </span>
+          )}
+          {integrityMessage && (
+            <span className="text-xs font-tech text-graveyard-400 break-all">{integrityMessage}</span>
+          )}
+        </div>
       </div>
 
       {/* Filters */}
@@ -192,6 +491,9 @@ export function HistoryLog() {
               <option value={ActionType.Banish}>Banish</option>
               <option value={ActionType.Resurrect}>Resurrect</option>
               <option value={ActionType.Restore}>Restore</option>
+              <option value={ActionType.Purge}>Purge</option>
+              <option value={ActionType.Missing}>Missing</option>
+              <option value={ActionType.Compact}>Compact</option>
             </select>
           </div>
 
@@ -228,8 +530,98 @@ export function HistoryLog() {
           </div>
         </div>
 
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          {/* Path Search */}
+          <div className="md:col-span-2">
+            <label className="block text-sm font-tech font-medium text-graveyard-300 mb-2">
+              Search Paths
+            </label>
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="e.g. downloads/setup"
+              data-testid="history-search"
+              className="w-full px-4 py-2 bg-graveyard-800 border border-graveyard-600 rounded-lg 
+                       text-gray-100 font-tech hover:border-graveyard-500
+                       focus:outline-none focus:ring-2 focus:ring-spectral-purple 
+                       focus:border-transparent transition-all"
+            />
+          </div>
+
+          {/* Classification Filter */}
+          <div>
+            <label className="block text-sm font-tech font-medium text-graveyard-300 mb-2">
+              Classification
+            </label>
+            <select
+              value={classificationFilter}
+              onChange={(e) => setClassificationFilter(e.target.value as MonsterType | 'all')}
+              className="w-full px-4 py-2 bg-graveyard-800 border border-graveyard-600 rounded-lg 
+                       text-gray-100 font-tech hover:border-graveyard-500
+                       focus:outline-none focus:ring-2 focus:ring-spectral-purple 
+                       focus:border-transparent transition-all cursor-pointer capitalize"
+            >
+              <option value="all">All Classifications</option>
+              {Object.values(MonsterType).map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+          </div>
+
+          {/* Size Range Filter */}
+          <div>
+            <label className="block text-sm font-tech font-medium text-graveyard-300 mb-2">
+              Size (MB)
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min="0"
+                value={minSizeMB}
+                onChange={(e) => setMinSizeMB(e.target.value)}
+                placeholder="Min"
+                className="w-full px-3 py-2 bg-graveyard-800 border border-graveyard-600 rounded-lg 
+                         text-gray-100 font-tech hover:border-graveyard-500
+                         focus:outline-none focus:ring-2 focus:ring-spectral-purple 
+                         focus:border-transparent transition-all"
+              />
+              <input
+                type="number"
+                min="0"
+                value={maxSizeMB}
+                onChange={(e) => setMaxSizeMB(e.target.value)}
+                placeholder="Max"
+                className="w-full px-3 py-2 bg-graveyard-800 border border-graveyard-600 rounded-lg 
+                         text-gray-100 font-tech hover:border-graveyard-500
+                         focus:outline-none focus:ring-2 focus:ring-spectral-purple 
+                         focus:border-transparent transition-all"
+              />
+            </div>
+          </div>
+
+          {/* Sort Order */}
+          <div>
+            <label className="block text-sm font-tech font-medium text-graveyard-300 mb-2">
+              Sort
+            </label>
+            <select
+              value={sortOption}
+              onChange={(e) => setSortOption(e.target.value)}
+              className="w-full px-4 py-2 bg-graveyard-800 border border-graveyard-600 rounded-lg 
+                       text-gray-100 font-tech hover:border-graveyard-500
+                       focus:outline-none focus:ring-2 focus:ring-spectral-purple 
+                       focus:border-transparent transition-all cursor-pointer"
+            >
+              {SORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
         {/* Clear Filters Button */}
-        {(actionFilter !== 'all' || startDate || endDate) && (
+        {hasFilters && (
           <button
             onClick={clearFilters}
             className="px-4 py-2 bg-graveyard-800 hover:bg-graveyard-700 active:bg-graveyard-600 text-graveyard-300 hover:text-white
@@ -240,10 +632,14 @@ export function HistoryLog() {
         )}
       </div>
 
+      {error && (
+        <p className="mb-4 text-sm text-red-300 font-tech">{error}</p>
+      )}
+
       {/* Log Entries */}
-      {filteredEntries.length === 0 ? (
+      {entries.length === 0 ? (
         <div className="text-center py-12 text-graveyard-500 font-tech">
-          {entries.length === 0 ? (
+          {!hasFilters ? (
             <>
               <p className="text-lg mb-2">No history yet</p>
               <p className="text-sm">File operations will appear here</p>
@@ -257,82 +653,55 @@ export function HistoryLog() {
         </div>
       ) : (
         <div className="space-y-3">
-          <AnimatePresence mode="popLayout">
-            {filteredEntries.map((entry, index) => (
-              <motion.div
-                key={`${entry.timestamp}-${index}`}
-                initial={{ opacity: 0, y: 20, scale: 0.95 }}
-                animate={{ opacity: 1, y: 0, scale: 1 }}
-                exit={{ opacity: 0, x: -100, scale: 0.9 }}
-                transition={{ 
-                  duration: 0.3, 
-                  delay: index * 0.02,
-                  ease: "easeOut"
-                }}
-                layout
-                className="bg-graveyard-800 border border-graveyard-600 rounded-lg p-4
-                         hover:border-spectral-purple hover:shadow-lg hover:shadow-spectral-purple/10 transition-all"
-              >
-                <div className="flex items-start gap-4">
-                  {/* Action Icon */}
-                  <div className="flex-shrink-0">
-                    {getActionIcon(entry.action)}
-                  </div>
-
-                  {/* Entry Details */}
-                  <div className="flex-1 min-w-0">
-                    {/* Header: Action and Timestamp */}
-                    <div className="flex items-center justify-between gap-4 mb-2">
-                      <span className={`font-tech font-semibold capitalize ${getActionColor(entry.action)}`}>
-                        {entry.action}
-                      </span>
-                      <span className="text-xs text-graveyard-500 font-tech font-mono">
-                        {formatTimestamp(entry.timestamp)}
-                      </span>
-                    </div>
-
-                    {/* File Path */}
-                    <div className="mb-2">
-                      <p className="text-sm text-graveyard-400 font-tech mb-1">File Path:</p>
-                      <p className="text-gray-100 font-tech font-mono text-sm break-all">
-                        {entry.filePath}
+          {groupBySession(entries).map(group => {
+            const key = group.sessionId ?? 'no-session';
+            const session = group.sessionId ? sessionsById.get(group.sessionId) : undefined;
+            const isExpanded = expandedSessions.has(key);
+            return (
+              <div key={key} className="space-y-3">
+                <button
+                  onClick={() => toggleSession(key)}
+                  data-testid="history-session"
+                  className="w-full text-left bg-graveyard-800/60 border border-graveyard-600 rounded-lg p-4
+                           hover:border-spectral-purple transition-all"
+                >
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="font-tech font-semibold text-spectral-purple">
+                        {isExpanded ? '▾' : '▸'}{' '}
+                        {session?.mode ? MODE_LABELS[session.mode] : group.sessionId ? 'Session' : 'Earlier activity'}
+                        <span className="text-graveyard-400 font-normal">
+                          {' '}• {group.entries.length} {group.entries.length === 1 ? 'entry' : 'entries'}
+                        </span>
                       </p>
-                    </div>
-
-                    {/* Additional Details */}
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-xs font-tech">
-                      {entry.originalPath && (
-                        <div>
-                          <span className="text-graveyard-500">Original: </span>
-                          <span className="text-graveyard-300 font-mono">{entry.originalPath}</span>
-                        </div>
-                      )}
-                      {entry.graveyardPath && (
-                        <div>
-                          <span className="text-graveyard-500">Graveyard: </span>
-                          <span className="text-graveyard-300 font-mono">{entry.graveyardPath}</span>
-                        </div>
-                      )}
-                      {entry.fileSize && (
-                        <div>
-                          <span className="text-graveyard-500">Size: </span>
-                          <span className="text-graveyard-300">{formatFileSize(entry.fileSize)}</span>
-                        </div>
-                      )}
-                      {entry.classifications && entry.classifications.length > 0 && (
-                        <div>
-                          <span className="text-graveyard-500">Classifications: </span>
-                          <span className="text-graveyard-300 capitalize">
-                            {entry.classifications.join(', ')}
-                          </span>
-                        </div>
+                      {session?.scanRoot && (
+                        <p className="text-xs text-graveyard-400 font-mono truncate">{session.scanRoot}</p>
                       )}
                     </div>
+                    <span className="text-xs text-graveyard-500 font-tech font-mono flex-shrink-0">
+                      {formatTimestamp(group.entries[group.entries.length - 1].timestamp)}
+                    </span>
+                  </div>
+                  {session && (
+                    <p className="mt-2 text-xs font-tech text-graveyard-300">
+                      <span className="text-red-400">{session.banishedCount} banished</span>
+                      {session.banishedSize > 0 && ` (${formatFileSize(session.banishedSize)})`}
+                      {' '}• <span className="text-spectral-blue">{session.restoredCount} restored</span>
+                      {' '}• <span className="text-spectral-green">{session.resurrectedCount} resurrected</span>
+                    </p>
+                  )}
+                </button>
+
+                {isExpanded && (
+                  <div className="space-y-3 pl-4 border-l border-graveyard-700">
+                    <AnimatePresence mode="popLayout">
+                      {group.entries.map(renderEntry)}
+                    </AnimatePresence>
                   </div>
-                </div>
-              </motion.div>
-            ))}
-          </AnimatePresence>
+                )}
+              </div>
+            );
+          })}
         </div>
       )}
     </div>
@@ -6,6 +6,7 @@ import type { ClassifiedFile, MonsterType } from '../../shared/types';
 import ghostImage from '../../assets/images/ghost.png';
 import demonImage from '../../assets/images/demon.png';
 import zombieImage from '../../assets/images/zombie.png';
+import { getCustomMonsterStyle, colorWithAlpha } from '../utils/entityUtils';
 
 interface MonsterCardProps {
   file: ClassifiedFile;
@@ -17,7 +18,9 @@ interface MonsterCardProps {
 const monsterImages: Record<MonsterType, string> = {
   ghost: ghostImage,
   demon: demonImage,
-  zombie: zombieImage
+  zombie: zombieImage,
+  wraith: ghostImage,
+  phantom: ghostImage
 };
 
 // Map monster types to colors and glow effects
@@ -39,6 +42,18 @@ const monsterColors: Record<MonsterType, { bg: string; border: string; text: str
     border: 'border-purple-400',
     text: 'text-purple-400',
     glow: 'shadow-purple-400/50'
+  },
+  wraith: {
+    bg: 'bg-slate-800/40',
+    border: 'border-slate-400',
+    text: 'text-slate-300',
+    glow: 'shadow-slate-400/50'
+  },
+  phantom: {
+    bg: 'bg-indigo-900/30',
+    border: 'border-indigo-400',
+    text: 'text-indigo-300',
+    glow: 'shadow-indigo-400/50'
   }
 };
 
@@ -81,7 +96,12 @@ export const MonsterCard = forwardRef<HTMLDivElement, MonsterCardProps>(({ file,
   };
 
   // Get primary monster type for image display
-  const primaryMonster = file.classifications[0];
+  const primaryMonster = file.primaryClassification ?? file.classifications[0];
+  const customClassifications = file.customClassifications ?? [];
+  // Files matched only by custom monster rules show the first custom type's icon
+  const customStyle = primaryMonster || customClassifications.length === 0
+    ? null
+    : getCustomMonsterStyle(customClassifications[0]);
 
   // Extract filename from path
   const fileName = file.path.split(/[\\/]/).pop() || file.path;
@@ -158,14 +178,27 @@ export const MonsterCard = forwardRef<HTMLDivElement, MonsterCardProps>(({ file,
           }}
           className="relative"
         >
-          <motion.img
-            src={monsterImages[primaryMonster]}
-            alt={`${primaryMonster} icon`}
-            className="w-48 h-48 object-contain drop-shadow-[0_0_30px_rgba(139,92,246,0.8)]"
-            style={{
-              filter: 'drop-shadow(0 0 30px rgba(139, 92, 246, 0.8)) drop-shadow(0 0 60px rgba(139, 92, 246, 0.4))'
-            }}
-          />
+          {customStyle ? (
+            <div
+              className="w-48 h-48 flex items-center justify-center text-9xl"
+              style={{
+                filter: `drop-shadow(0 0 30px ${colorWithAlpha(customStyle.color, 0.8)}) drop-shadow(0 0 60px ${colorWithAlpha(customStyle.color, 0.4)})`
+              }}
+              role="img"
+              aria-label={`${customClassifications[0].label} icon`}
+            >
+              {customStyle.icon}
+            </div>
+          ) : (
+            <motion.img
+              src={monsterImages[primaryMonster]}
+              alt={`${primaryMonster} icon`}
+              className="w-48 h-48 object-contain drop-shadow-[0_0_30px_rgba(139,92,246,0.8)]"
+              style={{
+                filter: 'drop-shadow(0 0 30px rgba(139, 92, 246, 0.8)) drop-shadow(0 0 60px rgba(139, 92, 246, 0.4))'
+              }}
+            />
+          )}
           {/* Glow ring behind monster */}
           <div className="absolute inset-0 -z-10 bg-gradient-radial from-spectral-purple/40 via-spectral-purple/20 to-transparent blur-2xl scale-150" />
         </motion.div>
@@ -197,6 +230,27 @@ export const MonsterCard = forwardRef<HTMLDivElement, MonsterCardProps>(({ file,
               </motion.span>
             );
           })}
+          {customClassifications.map((monster) => {
+            const { color } = getCustomMonsterStyle(monster);
+            return (
+              <motion.span
+                key={monster.type}
+                initial={{ scale: 0, rotate: -180 }}
+                animate={{ scale: 1, rotate: 0 }}
+                transition={{ type: "spring", stiffness: 200, damping: 15, delay: 0.1 }}
+                className="px-3 py-1 text-xs font-tech font-bold border-2 uppercase tracking-wider shadow-lg"
+                style={{
+                  color,
+                  borderColor: color,
+                  backgroundColor: colorWithAlpha(color, 0.3),
+                  clipPath: 'polygon(8px 0, 100% 0, 100% calc(100% - 8px), calc(100% - 8px) 100%, 0 100%, 0 8px)'
+                }}
+                title={monster.description}
+              >
+                {monster.label}
+              </motion.span>
+            );
+          })}
         </div>
 
         {/* File Metadata - Compact */}
@@ -0,0 +1,117 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import type { RestoreConflict, RestoreConflictStrategy } from '../../shared/types';
+import { formatFileSize } from '../utils/entityUtils';
+
+/**
+ * RestoreConflictDialog - Previews restores whose original location is taken
+ *
+ * Lists what is there now next to what the graveyard would put back, and
+ * lets the user pick one strategy for all of them. Overwriting moves the
+ * existing file into the graveyard rather than deleting it.
+ */
+
+interface RestoreConflictDialogProps {
+  /** Conflicts to preview; the dialog is closed when empty */
+  conflicts: RestoreConflict[];
+  onResolve: (strategy: RestoreConflictStrategy) => void;
+  onCancel: () => void;
+}
+
+const STRATEGY_BUTTONS: Array<{ strategy: RestoreConflictStrategy; label: string; hint: string }> = [
+  { strategy: 'skip', label: 'Skip', hint: 'Leave the existing file; the entry stays in the graveyard' },
+  { strategy: 'rename', label: 'Keep Both', hint: 'Restore next to it as "name (restored)"' },
+  { strategy: 'keep-newer', label: 'Keep Newer', hint: 'Overwrite only where the graveyard copy is newer' },
+  { strategy: 'overwrite', label: 'Overwrite', hint: 'Move the existing file into the graveyard, then restore' }
+];
+
+const formatTime = (mtimeMs?: number) =>
+  mtimeMs === undefined ? 'unknown' : new Date(mtimeMs).toLocaleString();
+
+export const RestoreConflictDialog: React.FC<RestoreConflictDialogProps> = ({
+  conflicts,
+  onResolve,
+  onCancel
+}) => {
+  return (
+    <AnimatePresence>
+      {conflicts.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/80"
+          onClick={onCancel}
+          data-testid="restore-conflict-dialog"
+        >
+          <motion.div
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+            onClick={e => e.stopPropagation()}
+            className="bg-black border-2 border-orange-500/50 rounded-xl p-6 max-w-2xl w-full mx-4 shadow-2xl"
+          >
+            <h3 className="text-orange-400 font-bold text-xl mb-2 text-center">
+              {conflicts.length === 1 ? 'Something is already there' : `${conflicts.length} restores are blocked`}
+            </h3>
+            <p className="text-gray-400 text-xs mb-4 text-center font-tech">
+              Choose what to do where the original location is taken.
+            </p>
+
+            <div className="max-h-72 overflow-y-auto space-y-3 mb-4">
+              {conflicts.map(conflict => {
+                const incomingIsNewer = conflict.incoming.mtimeMs !== undefined &&
+                  conflict.incoming.mtimeMs > conflict.existing.mtimeMs;
+                return (
+                  <div
+                    key={conflict.graveyardPath}
+                    className="bg-graveyard-800 border border-graveyard-600 rounded-lg p-3 font-tech text-xs"
+                    data-testid="restore-conflict"
+                  >
+                    <p className="text-gray-100 font-mono break-all mb-2">{conflict.originalPath}</p>
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className={incomingIsNewer ? 'text-graveyard-400' : 'text-green-400'}>
+                        <p className="uppercase tracking-wider mb-1">Existing{conflict.existing.isDirectory ? ' folder' : ''}</p>
+                        <p>{formatFileSize(conflict.existing.size)}</p>
+                        <p>Modified {formatTime(conflict.existing.mtimeMs)}</p>
+                      </div>
+                      <div className={incomingIsNewer ? 'text-green-400' : 'text-graveyard-400'}>
+                        <p className="uppercase tracking-wider mb-1">From graveyard</p>
+                        <p>{formatFileSize(conflict.incoming.size)}</p>
+                        <p>Modified {formatTime(conflict.incoming.mtimeMs)}</p>
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {STRATEGY_BUTTONS.map(({ strategy, label, hint }) => (
+                <button
+                  key={strategy}
+                  onClick={() => onResolve(strategy)}
+                  title={hint}
+                  className="py-2 bg-purple-500/20 border border-purple-500/50 text-purple-300 rounded-lg
+                           hover:bg-purple-500/30 transition-colors font-tech text-sm"
+                  data-testid={`restore-strategy-${strategy}`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={onCancel}
+              className="w-full mt-3 py-2 bg-gray-500/20 border border-gray-500/50 text-gray-400 rounded-lg
+                       hover:bg-gray-500/30 transition-colors font-tech text-sm"
+            >
+              Cancel
+            </button>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
+
+export default RestoreConflictDialog;
@@ -92,6 +92,11 @@ export function ScanProgress({ isScanning, onCancel }: ScanProgressProps) {
         >
           {progress.filesScanned.toLocaleString()}
         </motion.p>
+        {progress.cacheHits !== undefined && (
+          <p className="text-graveyard-400 font-tech text-xs mt-1">
+            {progress.cacheHits.toLocaleString()} from index · {(progress.cacheMisses ?? 0).toLocaleString()} hashed
+          </p>
+        )}
       </div>
 
       {/* Current Path */}
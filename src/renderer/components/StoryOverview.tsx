@@ -100,6 +100,20 @@ const typeColors = {
     bg: 'bg-green-500/10',
     hoverGlow: '0 0 40px rgba(34,197,94,0.6), 0 0 80px rgba(34,197,94,0.3)',
   },
+  wraith: {
+    border: 'border-slate-400/50',
+    glow: 'rgba(148,163,184,0.4)',
+    text: 'text-slate-300',
+    bg: 'bg-slate-500/10',
+    hoverGlow: '0 0 40px rgba(148,163,184,0.6), 0 0 80px rgba(148,163,184,0.3)',
+  },
+  phantom: {
+    border: 'border-indigo-400/50',
+    glow: 'rgba(129,140,248,0.4)',
+    text: 'text-indigo-300',
+    bg: 'bg-indigo-500/10',
+    hoverGlow: '0 0 40px rgba(129,140,248,0.6), 0 0 80px rgba(129,140,248,0.3)',
+  },
 };
 
 const outcomeStyles = {
@@ -140,7 +154,7 @@ function formatFileSize(bytes: number): string {
 /**
  * Create hover sound for each monster type
  */
-const createHoverSound = (type: 'ghost' | 'demon' | 'zombie'): (() => void) => {
+const createHoverSound = (type: StoryEntity['type']): (() => void) => {
   let audioContext: AudioContext | null = null;
   
   return () => {
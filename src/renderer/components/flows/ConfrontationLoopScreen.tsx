@@ -48,7 +48,8 @@ export const ConfrontationLoopScreen: React.FC = () => {
       await window.electronAPI.banishFile(
         currentEntity.path,
         currentEntity.classifications as MonsterType[],
-        currentEntity.size
+        currentEntity.size,
+        'confrontation'
       );
       purgeEntity(currentEntity);
     } catch (error) {
@@ -2,6 +2,7 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { useAppStore, AppState } from '../../store/appStore';
 import { countEntities, formatFileSize } from '../../utils/entityUtils';
+import { useGraveyardLocation } from '../../hooks/useGraveyardLocation';
 import bgTexture from '../../../assets/images/bg_texture.png';
 
 /**
@@ -12,6 +13,7 @@ import bgTexture from '../../../assets/images/bg_texture.png';
 
 export const ConfrontationSummaryScreen: React.FC = () => {
   const { context, transition, resetFlow, getSpaceRecovered } = useAppStore();
+  const graveyardLocation = useGraveyardLocation();
 
   const flowContext = context.flowContext;
   const purgedEntities = flowContext?.purgedEntities || [];
@@ -36,7 +38,7 @@ export const ConfrontationSummaryScreen: React.FC = () => {
   };
 
   const handleViewGraveyard = () => {
-    alert('Graveyard location: ./graveyard_trash/');
+    alert(`Graveyard location: ${graveyardLocation}`);
   };
 
   // Determine dramatic message based on results
@@ -70,7 +70,8 @@ export const InteractiveExecutingScreen: React.FC = () => {
           const result = await window.electronAPI.banishFile(
             file.path,
             [file.classification as MonsterType],
-            file.size
+            file.size,
+            'interactive'
           );
 
           if (result.success) {
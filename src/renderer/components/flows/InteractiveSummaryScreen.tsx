@@ -2,6 +2,7 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { useAppStore, AppState } from '../../store/appStore';
 import { formatFileSize } from '../../utils/entityUtils';
+import { useGraveyardLocation } from '../../hooks/useGraveyardLocation';
 import bgTexture from '../../../assets/images/bg_texture.png';
 
 /**
@@ -60,8 +61,8 @@ export const InteractiveSummaryScreen: React.FC = () => {
     transition(AppState.INTERACTIVE_TARGET);
   }, [transition]);
 
-  // Graveyard path (simplified - in production, get from config)
-  const graveyardPath = './graveyard_trash';
+  // Graveyard folder inside the configured data root
+  const graveyardPath = useGraveyardLocation();
 
   return (
     <div className="h-screen w-screen overflow-hidden flex flex-col items-center justify-center bg-black relative">
@@ -1,5 +1,6 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useGraveyardLocation } from '../../hooks/useGraveyardLocation';
 
 /**
  * SafetyInfoPanel - Modal explaining safe purge and undo functionality
@@ -16,6 +17,8 @@ interface SafetyInfoPanelProps {
 }
 
 export const SafetyInfoPanel: React.FC<SafetyInfoPanelProps> = ({ isOpen, onClose }) => {
+  const graveyardLocation = useGraveyardLocation();
+
   return (
     <AnimatePresence>
       {isOpen && (
@@ -90,7 +93,7 @@ export const SafetyInfoPanel: React.FC<SafetyInfoPanelProps> = ({ isOpen, onClos
                     Purged files are stored in:
                   </p>
                   <code className="block mt-2 text-xs bg-black/50 text-green-400 p-2 rounded font-mono">
-                    ./graveyard_trash/
+                    {graveyardLocation}
                   </code>
                 </div>
 
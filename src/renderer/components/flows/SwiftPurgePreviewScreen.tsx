@@ -176,7 +176,12 @@ export const SwiftPurgePreviewScreen: React.FC = () => {
             <p className="text-gray-600 text-xs font-mono">
               {scanProgress?.filesScanned || 0} files processed
             </p>
-            
+            {scanProgress?.cacheHits !== undefined && (
+              <p className="text-gray-700 text-[10px] font-mono mt-1">
+                {scanProgress.cacheHits} cached · {scanProgress.cacheMisses ?? 0} hashed
+              </p>
+            )}
+
             {/* Target path */}
             <div className="mt-8 pt-6 border-t border-gray-800">
               <p className="text-gray-600 text-xs font-mono truncate px-8">
@@ -221,7 +226,7 @@ export const SwiftPurgePreviewScreen: React.FC = () => {
           >
             {/* Classification Summary */}
             <div className="border border-gray-800 bg-black mb-6">
-              <div className="grid grid-cols-3 divide-x divide-gray-800">
+              <div className="grid grid-cols-5 divide-x divide-gray-800">
                 <div className="p-6 text-center">
                   <div className="flex items-center justify-center gap-2 mb-2">
                     <div className="w-2 h-2 bg-blue-500/70" />
@@ -243,6 +248,20 @@ export const SwiftPurgePreviewScreen: React.FC = () => {
                   </div>
                   <p className="text-2xl font-light text-gray-300">{scanResult.counts.demons}</p>
                 </div>
+                <div className="p-6 text-center">
+                  <div className="flex items-center justify-center gap-2 mb-2">
+                    <div className="w-2 h-2 bg-slate-400/70" />
+                    <span className="text-gray-500 text-[10px] tracking-[0.2em] uppercase">WRAITHS</span>
+                  </div>
+                  <p className="text-2xl font-light text-gray-300">{scanResult.counts.wraiths}</p>
+                </div>
+                <div className="p-6 text-center">
+                  <div className="flex items-center justify-center gap-2 mb-2">
+                    <div className="w-2 h-2 bg-indigo-400/70" />
+                    <span className="text-gray-500 text-[10px] tracking-[0.2em] uppercase">PHANTOMS</span>
+                  </div>
+                  <p className="text-2xl font-light text-gray-300">{scanResult.counts.phantoms}</p>
+                </div>
               </div>
               
               {/* Space recovery */}
@@ -268,6 +287,16 @@ export const SwiftPurgePreviewScreen: React.FC = () => {
               </div>
             )}
 
+            {/* Ignore rules note */}
+            {scanResult.prunedCount > 0 && (
+              <div className="flex items-start gap-3 mb-6 px-1">
+                <div className="w-1.5 h-1.5 bg-gray-600 mt-1.5 flex-shrink-0" />
+                <p className="text-gray-500 text-xs">
+                  {scanResult.prunedCount.toLocaleString()} paths skipped by ignore rules.
+                </p>
+              </div>
+            )}
+
             {/* No entities */}
             {scanResult.files.length === 0 && (
               <div className="border border-gray-800 bg-black p-8 mb-6 text-center">
@@ -72,7 +72,8 @@ export const SwiftPurgeTargetScreen: React.FC = () => {
       const result = await window.electronAPI.banishFile(
         selectedFile.path,
         ['ghost'], // Default classification for single file
-        selectedFile.size
+        selectedFile.size,
+        'single'
       );
       if (result.success) {
         // Store result for the result screen
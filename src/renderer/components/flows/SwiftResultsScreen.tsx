@@ -155,7 +155,8 @@ export const SwiftResultsScreen: React.FC = () => {
         await window.electronAPI.banishFile(
           entity.path,
           entity.classifications,
-          entity.size
+          entity.size,
+          'swift'
         );
       } catch (error) {
         console.error('Purge failed for:', entity.path, error);
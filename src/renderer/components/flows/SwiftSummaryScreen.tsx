@@ -2,6 +2,7 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { useAppStore, AppState } from '../../store/appStore';
 import { formatFileSize, calculateSpaceRecovered, countEntities } from '../../utils/entityUtils';
+import { useGraveyardLocation } from '../../hooks/useGraveyardLocation';
 import bgTexture from '../../../assets/images/bg_texture.png';
 
 /**
@@ -12,6 +13,7 @@ import bgTexture from '../../../assets/images/bg_texture.png';
 
 export const SwiftSummaryScreen: React.FC = () => {
   const { context, transition, resetFlow } = useAppStore();
+  const graveyardLocation = useGraveyardLocation();
 
   const flowContext = context.flowContext;
   const purgedEntities = flowContext?.purgedEntities || [];
@@ -28,7 +30,7 @@ export const SwiftSummaryScreen: React.FC = () => {
 
   const handleViewGraveyard = () => {
     // Navigate to graveyard view or show location
-    alert('Graveyard location: ./graveyard_trash/\nFiles can be restored from the Graveyard view.');
+    alert(`Graveyard location: ${graveyardLocation}\nFiles can be restored from the Graveyard view.`);
   };
 
   return (
@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * Shown until the data root is known, or when the API is unavailable
+ */
+const FALLBACK_GRAVEYARD_LOCATION = 'graveyard_trash/';
+
+/**
+ * Shown when banished files go to the desktop Trash instead of graveyard_trash
+ */
+const TRASH_GRAVEYARD_LOCATION = 'the desktop Trash';
+
+/**
+ * Where banished files are kept: the graveyard folder inside the app's data
+ * root, or the desktop Trash when that backend is configured
+ * @returns Display location of the graveyard
+ */
+export function useGraveyardLocation(): string {
+  const [location, setLocation] = useState(FALLBACK_GRAVEYARD_LOCATION);
+
+  useEffect(() => {
+    let cancelled = false;
+    window.electronAPI?.getSettings?.()
+      .then(settings => {
+        if (settings?.graveyardBackend === 'freedesktop-trash') {
+          return TRASH_GRAVEYARD_LOCATION;
+        }
+        return window.electronAPI?.getDataRoot?.().then(info => {
+          if (!info?.activeRoot) return undefined;
+          const separator = info.activeRoot.includes('\\') ? '\\' : '/';
+          return `${info.activeRoot.replace(/[\\/]+$/, '')}${separator}graveyard_trash${separator}`;
+        });
+      })
+      .then(resolved => {
+        if (!cancelled && resolved) {
+          setLocation(resolved);
+        }
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return location;
+}
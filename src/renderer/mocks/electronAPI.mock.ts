@@ -10,9 +10,17 @@ import type {
   MonsterType,
   SwiftPurgeScanResult,
   SwiftPurgeExecuteResult,
-  SwiftPurgeScanProgress
+  SwiftPurgeScanProgress,
+  BulkRestoreRequest,
+  BulkRestoreProgress,
+  BulkRestoreResult,
+  GraveyardRepairAction,
+  AppSettings,
+  ClassificationProfile,
+  ClassificationProfiles,
+  DataRootInfo
 } from '../../shared/types';
-import { MonsterType as MT } from '../../shared/types';
+import { MonsterType as MT, ActionType, DEFAULT_CLASSIFICATION_CONFIG } from '../../shared/types';
 
 // Mock file data for demo
 const MOCK_SCAN_FILES: ClassifiedFile[] = [
@@ -67,10 +75,35 @@ const MOCK_SCAN_FILES: ClassifiedFile[] = [
 let banishedFiles: string[] = [];
 let graveyardFiles: Array<{ path: string; originalPath: string }> = [];
 let undoCounter = 0;
+let mockSettings: AppSettings = {
+  ignorePatterns: ['.git/', 'node_modules/', '.cache/', '.digital-exorcist/', 'graveyard_trash/', 'graveyard_archive/', 'graveyard_store/'],
+  scanConcurrency: 4,
+  followSymlinks: false,
+  retention: { maxAgeDays: null, maxTotalBytes: null, reapOnStartup: false },
+  graveyardBackend: 'folder',
+  hashChainLog: false
+};
+
+let mockDataRoot: DataRootInfo = {
+  activeRoot: '/mock/userData',
+  nextRoot: '/mock/userData',
+  source: 'default',
+  defaultRoot: '/mock/userData'
+};
+
+let mockProfiles: ClassificationProfiles = {
+  profiles: [
+    { name: 'Default', config: { ...DEFAULT_CLASSIFICATION_CONFIG } },
+    { name: 'Downloads', config: { ...DEFAULT_CLASSIFICATION_CONFIG, ghostAgeMonths: 1, demonSizeBytes: 100 * 1024 * 1024 } }
+  ],
+  defaultProfile: 'Default',
+  targetProfiles: { 'C:/Users/Demo/Downloads': 'Downloads' }
+};
 
 // Progress callback storage
 let scanProgressCallback: ((progress: { filesScanned: number; currentPath: string }) => void) | null = null;
 let swiftPurgeProgressCallback: ((progress: SwiftPurgeScanProgress) => void) | null = null;
+let bulkRestoreProgressCallback: ((progress: BulkRestoreProgress) => void) | null = null;
 
 /**
  * Simulate async delay for realistic feel
@@ -150,7 +183,8 @@ export const mockElectronAPI = {
         size: f.size,
         lastModified: f.lastModified
       })),
-      count: MOCK_SCAN_FILES.length
+      count: MOCK_SCAN_FILES.length,
+      prunedCount: 0
     };
   },
 
@@ -172,7 +206,8 @@ export const mockElectronAPI = {
     return {
       success: true,
       files: MOCK_SCAN_FILES.filter(f => !banishedFiles.includes(f.path)),
-      count: MOCK_SCAN_FILES.length - banishedFiles.length
+      count: MOCK_SCAN_FILES.length - banishedFiles.length,
+      bytesRead: 0
     };
   },
 
@@ -211,6 +246,35 @@ export const mockElectronAPI = {
     };
   },
 
+  // Nothing in the web demo is ever in the way of a restore
+  previewRestoreConflicts: async () => ({ success: true, conflicts: [] }),
+
+  // Only explicit selections are supported here; the demo graveyard has no sessions or dates
+  bulkRestore: async (request: BulkRestoreRequest): Promise<BulkRestoreResult> => {
+    const wanted = new Set(request.selection.graveyardPaths ?? []);
+    const selected = graveyardFiles.filter(f => wanted.has(f.path));
+    const restored: BulkRestoreResult['restored'] = [];
+
+    for (let i = 0; i < selected.length; i++) {
+      const file = selected[i];
+      const restoredPath = request.targetDir
+        ? `${request.targetDir}/${file.originalPath.split(/[\\/]/).pop()}`
+        : file.originalPath;
+      bulkRestoreProgressCallback?.({ current: i + 1, total: selected.length, currentPath: restoredPath });
+      await delay(100);
+      banishedFiles = banishedFiles.filter(f => f !== file.originalPath);
+      restored.push({ graveyardPath: file.path, restoredPath });
+    }
+
+    graveyardFiles = graveyardFiles.filter(f => !wanted.has(f.path));
+    return { success: true, restoredCount: restored.length, skippedCount: 0, restored, errors: [] };
+  },
+
+  onBulkRestoreProgress: (callback: (progress: BulkRestoreProgress) => void) => {
+    bulkRestoreProgressCallback = callback;
+    return () => { bulkRestoreProgressCallback = null; };
+  },
+
   // Data queries
   getLogEntries: async () => {
     return [
@@ -221,7 +285,57 @@ export const mockElectronAPI = {
         filePath: 'C:/Users/Demo/Downloads/old_file.exe',
         fileSize: 45000000,
         classifications: ['ghost'],
-        success: true
+        success: true,
+        sessionId: 'demo-session'
+      }
+    ];
+  },
+
+  queryLogEntries: async () => {
+    return {
+      success: true,
+      result: {
+        entries: [
+          {
+            timestamp: new Date().toISOString(),
+            action: ActionType.Banish,
+            filePath: 'C:/Users/Demo/Downloads/old_file.exe',
+            fileSize: 45000000,
+            classifications: [MT.Ghost],
+            sessionId: 'demo-session'
+          }
+        ],
+        totalCount: 1,
+        actionCounts: { [ActionType.Banish]: 1 },
+        totalSize: 45000000
+      }
+    };
+  },
+
+  verifyLogChain: async () => {
+    return {
+      success: true,
+      verification: { status: 'unchained' as const, entryCount: 1, chainedCount: 0 }
+    };
+  },
+
+  exportSignedLog: async () => {
+    return { success: false, entryCount: 0, error: 'Signed export is disabled in demo mode' };
+  },
+
+  getLogSessions: async () => {
+    return [
+      {
+        sessionId: 'demo-session',
+        scanRoot: 'C:/Users/Demo/Downloads',
+        mode: 'single',
+        startedAt: new Date().toISOString(),
+        endedAt: new Date().toISOString(),
+        banishedCount: 1,
+        restoredCount: 0,
+        resurrectedCount: 0,
+        banishedSize: 45000000,
+        restoredSize: 0
       }
     ];
   },
@@ -241,6 +355,92 @@ export const mockElectronAPI = {
     return graveyardFiles;
   },
 
+  // The web demo never deletes anything permanently
+  previewGraveyardReap: async () => ({
+    success: true,
+    plan: { candidates: [], totalBytes: 0, graveyardBytes: 0 }
+  }),
+
+  // The web demo graveyard never drifts from its log
+  auditGraveyard: async () => ({
+    success: true,
+    report: { checkedAt: new Date().toISOString(), heldCount: graveyardFiles.length, issues: [] }
+  }),
+
+  repairGraveyard: async (action: GraveyardRepairAction) => ({
+    success: true,
+    action,
+    repairedCount: 0,
+    errors: []
+  }),
+
+  reapGraveyard: async () => ({
+    success: false,
+    purgedCount: 0,
+    bytesFreed: 0,
+    errors: [],
+    error: 'Permanent deletion is disabled in demo mode'
+  }),
+
+  // Settings
+  getSettings: async () => mockSettings,
+
+  updateSettings: async (updates: Partial<AppSettings>) => {
+    mockSettings = { ...mockSettings, ...updates };
+    return { success: true, settings: mockSettings };
+  },
+
+  // Classification profiles - kept in memory for the demo
+  getClassificationProfiles: async () => mockProfiles,
+
+  saveClassificationProfile: async (profile: ClassificationProfile) => {
+    const profiles = mockProfiles.profiles.filter(p => p.name !== profile.name);
+    mockProfiles = { ...mockProfiles, profiles: [...profiles, profile] };
+    return { success: true, profiles: mockProfiles };
+  },
+
+  deleteClassificationProfile: async (name: string) => {
+    if (name === 'Default') {
+      return { success: false, profiles: mockProfiles, error: 'The Default profile cannot be deleted' };
+    }
+    const targetProfiles = Object.fromEntries(
+      Object.entries(mockProfiles.targetProfiles).filter(([, profileName]) => profileName !== name)
+    );
+    mockProfiles = {
+      profiles: mockProfiles.profiles.filter(p => p.name !== name),
+      defaultProfile: mockProfiles.defaultProfile === name ? 'Default' : mockProfiles.defaultProfile,
+      targetProfiles
+    };
+    return { success: true, profiles: mockProfiles };
+  },
+
+  setDefaultClassificationProfile: async (name: string) => {
+    mockProfiles = { ...mockProfiles, defaultProfile: name };
+    return { success: true, profiles: mockProfiles };
+  },
+
+  assignTargetProfile: async (targetPath: string, name: string | null) => {
+    const targetProfiles = { ...mockProfiles.targetProfiles };
+    if (name === null) {
+      delete targetProfiles[targetPath];
+    } else {
+      targetProfiles[targetPath] = name;
+    }
+    mockProfiles = { ...mockProfiles, targetProfiles };
+    return { success: true, profiles: mockProfiles };
+  },
+
+  getDataRoot: async () => mockDataRoot,
+
+  setDataRoot: async (dataRoot: string | null) => {
+    mockDataRoot = {
+      ...mockDataRoot,
+      nextRoot: dataRoot ?? mockDataRoot.defaultRoot,
+      source: dataRoot ? 'configured' : 'default'
+    };
+    return { success: true, info: mockDataRoot };
+  },
+
   // AI file inspection - mock response
   inspectFileAgent: async (request: any) => {
     await delay(800);
@@ -356,14 +556,18 @@ export const mockElectronAPI = {
     const result: SwiftPurgeScanResult = {
       sessionId: `session-${Date.now()}`,
       targetPath,
-      files: mockFiles,
+      files: mockFiles.map(f => ({ ...f, classifications: [f.classification] })),
       totalFilesScanned: 347,
       totalBytes: mockFiles.reduce((sum, f) => sum + f.size, 0),
       limitReached: false,
+      prunedCount: 0,
+      bytesRead: 0,
       counts: {
         ghosts: ghosts.length,
         zombies: zombies.length,
-        demons: demons.length
+        demons: demons.length,
+        wraiths: 0,
+        phantoms: 0
       }
     };
 
@@ -402,6 +606,7 @@ export const mockElectronAPI = {
     return {
       success: true,
       restoredCount: 7,
+      skippedCount: 0,
       errors: []
     };
   },
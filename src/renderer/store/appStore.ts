@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { ClassifiedFile, MonsterType } from '../../shared/types';
+import { reclaimableBytes } from '../../shared/hardLinks';
 
 /**
  * Application State Machine
@@ -60,6 +61,8 @@ export interface EntityCounts {
   ghosts: number;
   zombies: number;
   demons: number;
+  wraiths: number;
+  phantoms: number;
   unknown: number;
 }
 
@@ -344,6 +347,7 @@ export interface AppStore {
   
   /**
    * Calculate total space that could be recovered from remaining entities
+   * Hard links are counted once, and only when every link is among the entities
    */
   getPotentialSpaceRecovery: () => number;
   
@@ -622,7 +626,7 @@ export const useAppStore = create<AppStore>((set, get) => ({
   getRemainingCounts: () => {
     const { context } = get();
     const flowContext = context.flowContext;
-    if (!flowContext) return { ghosts: 0, zombies: 0, demons: 0, unknown: 0 };
+    if (!flowContext) return { ghosts: 0, zombies: 0, demons: 0, wraiths: 0, phantoms: 0, unknown: 0 };
 
     // For confrontation mode, remaining = entities from currentIndex onwards
     if (flowContext.flowType === 'confrontation') {
@@ -637,13 +641,13 @@ export const useAppStore = create<AppStore>((set, get) => ({
   getPotentialSpaceRecovery: () => {
     const { context } = get();
     const entities = context.flowContext?.entities || [];
-    return entities.reduce((total, entity) => total + entity.size, 0);
+    return reclaimableBytes(entities);
   },
 
   getSpaceRecovered: () => {
     const { context } = get();
     const purged = context.flowContext?.purgedEntities || [];
-    return purged.reduce((total, entity) => total + entity.size, 0);
+    return reclaimableBytes(purged);
   }
 }));
 
@@ -657,10 +661,12 @@ function countEntitiesByType(entities: ClassifiedFile[]): EntityCounts {
       if (types.includes('ghost')) counts.ghosts++;
       else if (types.includes('zombie')) counts.zombies++;
       else if (types.includes('demon')) counts.demons++;
+      else if (types.includes('wraith')) counts.wraiths++;
+      else if (types.includes('phantom')) counts.phantoms++;
       else counts.unknown++;
       return counts;
     },
-    { ghosts: 0, zombies: 0, demons: 0, unknown: 0 }
+    { ghosts: 0, zombies: 0, demons: 0, wraiths: 0, phantoms: 0, unknown: 0 }
   );
 }
 
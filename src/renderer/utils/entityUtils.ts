@@ -1,4 +1,5 @@
-import type { ClassifiedFile, MonsterType } from '../../shared/types';
+import type { ClassifiedFile, CustomMonsterDefinition, MonsterType } from '../../shared/types';
+import { reclaimableBytes } from '../../shared/hardLinks';
 
 /**
  * Entity utility functions for counting, space calculation, and formatting
@@ -11,6 +12,8 @@ export interface EntityCounts {
   ghosts: number;
   zombies: number;
   demons: number;
+  wraiths: number;
+  phantoms: number;
   unknown: number;
 }
 
@@ -21,7 +24,7 @@ export interface EntityCounts {
  */
 export function countEntities(entities: ClassifiedFile[]): EntityCounts {
   if (!Array.isArray(entities)) {
-    return { ghosts: 0, zombies: 0, demons: 0, unknown: 0 };
+    return { ghosts: 0, zombies: 0, demons: 0, wraiths: 0, phantoms: 0, unknown: 0 };
   }
   return entities.reduce(
     (counts, entity) => {
@@ -29,21 +32,24 @@ export function countEntities(entities: ClassifiedFile[]): EntityCounts {
       if (types.includes('ghost')) counts.ghosts++;
       else if (types.includes('zombie')) counts.zombies++;
       else if (types.includes('demon')) counts.demons++;
+      else if (types.includes('wraith')) counts.wraiths++;
+      else if (types.includes('phantom')) counts.phantoms++;
       else counts.unknown++;
       return counts;
     },
-    { ghosts: 0, zombies: 0, demons: 0, unknown: 0 }
+    { ghosts: 0, zombies: 0, demons: 0, wraiths: 0, phantoms: 0, unknown: 0 }
   );
 }
 
 /**
  * Calculate total space that could be recovered from entities
+ * Hard-linked files only count once, and only when all of their links are included.
  * @param entities Array of classified files
  * @returns Total size in bytes
  */
 export function calculateSpaceRecovered(entities: ClassifiedFile[]): number {
   if (!Array.isArray(entities)) return 0;
-  return entities.reduce((total, entity) => total + (entity.size || 0), 0);
+  return reclaimableBytes(entities);
 }
 
 /**
@@ -67,14 +73,18 @@ export function formatFileSize(bytes: number): string {
 
 /**
  * Get the primary classification type for an entity
+ * Uses the classification engine's primary type, falling back to DEMON > ZOMBIE > WRAITH > PHANTOM > GHOST
  * @param entity Classified file
  * @returns Primary monster type or 'unknown'
  */
 export function getPrimaryType(entity: ClassifiedFile): MonsterType | 'unknown' {
+  if (entity.primaryClassification) return entity.primaryClassification;
   const types = entity.classifications || [];
-  if (types.includes('ghost')) return 'ghost';
-  if (types.includes('zombie')) return 'zombie';
   if (types.includes('demon')) return 'demon';
+  if (types.includes('zombie')) return 'zombie';
+  if (types.includes('wraith')) return 'wraith';
+  if (types.includes('phantom')) return 'phantom';
+  if (types.includes('ghost')) return 'ghost';
   return 'unknown';
 }
 
@@ -97,6 +107,18 @@ export function getEntityFlavorText(type: MonsterType | 'unknown'): string {
       'Multiple instances detected...',
       'A clone that refuses to die...'
     ],
+    wraith: [
+      'An empty husk left behind...',
+      'Nothing remains but the shape of something...',
+      'A hollow shell haunting your folders...',
+      'Zero bytes, yet it lingers...'
+    ],
+    phantom: [
+      'A link to something long gone...',
+      'It points into the void...',
+      'A signpost to a vanished place...',
+      'The trail ends where nothing remains...'
+    ],
     demon: [
       'A massive entity devouring your storage...',
       'A behemoth lurking in the depths...',
@@ -124,12 +146,42 @@ export function getEntityIcon(type: MonsterType | 'unknown'): string {
   const icons: Record<MonsterType | 'unknown', string> = {
     ghost: '👻',
     zombie: '🧟',
+    wraith: '🕸️',
+    phantom: '🔗',
     demon: '👹',
     unknown: '❓'
   };
   return icons[type];
 }
 
+/**
+ * Neutral look for custom monsters that don't declare a color or icon
+ */
+export const FALLBACK_MONSTER_COLOR = '#9ca3af';
+export const FALLBACK_MONSTER_ICON = '👾';
+
+/**
+ * Get display color and icon for a custom monster type
+ * @param monster Custom monster definition from monster rules
+ * @returns Color and icon, with the fallback look filled in
+ */
+export function getCustomMonsterStyle(monster: CustomMonsterDefinition): { color: string; icon: string } {
+  return {
+    color: monster.color || FALLBACK_MONSTER_COLOR,
+    icon: monster.icon || FALLBACK_MONSTER_ICON
+  };
+}
+
+/**
+ * Mix a CSS color with transparency
+ * @param color Any CSS color
+ * @param alpha Opacity from 0 to 1
+ * @returns CSS color expression
+ */
+export function colorWithAlpha(color: string, alpha: number): string {
+  return `color-mix(in srgb, ${color} ${Math.round(alpha * 100)}%, transparent)`;
+}
+
 /**
  * Calculate file age in days
  * @param lastModified Last modified date
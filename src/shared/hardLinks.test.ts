@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { inodeKey, reclaimableBytes } from './hardLinks';
+
+describe('hardLinks', () => {
+  it('keys files by device and inode, falling back to the path', () => {
+    expect(inodeKey({ path: '/a', size: 1, dev: 2, ino: 3 })).toBe('2:3');
+    expect(inodeKey({ path: '/a', size: 1, ino: 3 })).toBe('/a');
+  });
+
+  it('counts plain files at their full size', () => {
+    expect(reclaimableBytes([
+      { path: '/a', size: 10 },
+      { path: '/b', size: 20, dev: 1, ino: 2, nlink: 1 }
+    ])).toBe(30);
+  });
+
+  it('counts hard-linked data once, and only when every link is removed', () => {
+    const first = { path: '/a', size: 100, dev: 1, ino: 7, nlink: 2 };
+    const second = { path: '/b', size: 100, dev: 1, ino: 7, nlink: 2 };
+
+    expect(reclaimableBytes([first])).toBe(0);
+    expect(reclaimableBytes([first, second])).toBe(100);
+    expect(reclaimableBytes([first, first])).toBe(0);
+  });
+});
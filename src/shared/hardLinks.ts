@@ -0,0 +1,49 @@
+// Hard-link helpers shared between main and renderer processes
+
+/**
+ * Fields needed to tell hard links apart
+ */
+export interface LinkedFile {
+  path: string;
+  size: number;
+  /** Device and inode; files that share both are hard links to the same data */
+  dev?: number;
+  ino?: number;
+  /** Number of hard links to the inode */
+  nlink?: number;
+}
+
+/**
+ * Identity of the data behind a path
+ * @param file - File with optional device and inode
+ * @returns "dev:ino", or the path itself when the inode is unknown
+ */
+export function inodeKey(file: LinkedFile): string {
+  return file.dev !== undefined && file.ino !== undefined ? `${file.dev}:${file.ino}` : file.path;
+}
+
+/**
+ * Bytes actually freed by removing a set of files
+ * Hard-linked data is only freed once every link to it is gone, so each inode
+ * counts once, and only when all of its links are in the set.
+ * @param files - Files that would be removed
+ * @returns Reclaimable bytes
+ */
+export function reclaimableBytes(files: LinkedFile[]): number {
+  const inodes = new Map<string, { size: number; nlink: number; paths: Set<string> }>();
+
+  for (const file of files) {
+    const key = inodeKey(file);
+    const inode = inodes.get(key) ?? { size: file.size || 0, nlink: file.nlink ?? 1, paths: new Set<string>() };
+    inode.paths.add(file.path);
+    inodes.set(key, inode);
+  }
+
+  let total = 0;
+  for (const inode of inodes.values()) {
+    if (inode.paths.size >= inode.nlink) {
+      total += inode.size;
+    }
+  }
+  return total;
+}
@@ -1,13 +1,15 @@
 // Shared types between main and renderer processes
 
 // Using string literal union for easier comparison with string values
-export type MonsterType = 'ghost' | 'demon' | 'zombie';
+export type MonsterType = 'ghost' | 'demon' | 'zombie' | 'wraith' | 'phantom';
 
 // Constants for use as values (backwards compatible with enum usage)
 export const MonsterType = {
   Ghost: 'ghost' as const,
   Demon: 'demon' as const,
-  Zombie: 'zombie' as const
+  Zombie: 'zombie' as const,
+  Wraith: 'wraith' as const,
+  Phantom: 'phantom' as const
 };
 
 export interface FileScanResult {
@@ -15,19 +17,54 @@ export interface FileScanResult {
   size: number;
   lastModified: Date;
   hash?: string;
+  /** Inode number, used to key the persistent scan index */
+  ino?: number;
+  /** Device number; files with the same dev and ino are hard links to the same data */
+  dev?: number;
+  /** Number of hard links; the data is only freed when every link is removed */
+  nlink?: number;
+  /** Set for empty directories, which are reported as a single entry */
+  isDirectory?: boolean;
+  /** Set for broken symbolic links: the target path stored in the link */
+  linkTarget?: string;
 }
 
 export interface ClassifiedFile extends FileScanResult {
+  /** Every classification that applies, highest priority first */
   classifications: MonsterType[];
+  /** Highest-priority classification (DEMON > ZOMBIE > WRAITH > PHANTOM > GHOST) */
+  primaryClassification?: MonsterType;
   duplicateGroup?: string;
+  /** For zombies, the path of the duplicate copy that is kept */
+  duplicateOf?: string;
+  /** Custom monster types matched by rules in monster-rules.json */
+  customClassifications?: CustomMonsterDefinition[];
 }
 
 export enum ActionType {
   Banish = 'banish',
   Resurrect = 'resurrect',
-  Restore = 'restore'
+  Restore = 'restore',
+  /** Permanently deleted from the graveyard by the retention reaper */
+  Purge = 'purge',
+  /** Found gone from the graveyard by an audit */
+  Missing = 'missing',
+  /** The log itself was compacted; logged while the hash chain is on */
+  Compact = 'compact'
 }
 
+/**
+ * How the files of a session were picked: a Swift Purge, the guided
+ * interactive flow, the one-by-one confrontation loop, or a single file
+ */
+export type SessionMode = 'swift' | 'interactive' | 'confrontation' | 'single';
+
+/**
+ * What started a logged action: the user directly, an undo, an overwriting
+ * restore moving the existing file aside, or a graveyard audit repair
+ */
+export type LogInitiator = 'user' | 'undo' | 'restore-conflict' | 'audit';
+
 export interface LogEntry {
   timestamp: string;
   action: ActionType;
@@ -36,11 +73,156 @@ export interface LogEntry {
   graveyardPath?: string;
   classifications?: MonsterType[];
   fileSize?: number;
+  /** Set when the banished entry is an (empty) directory */
+  isDirectory?: boolean;
+  /** Set when the banished entry is a symbolic link: the target stored in the link */
+  linkTarget?: string;
+  /** Bytes the entry takes in the graveyard, when stored compressed */
+  storedSize?: number;
+  /** Scan or purge session the action belongs to; unset on entries from older versions */
+  sessionId?: string;
+  /** Scan root of the session */
+  scanRoot?: string;
+  mode?: SessionMode;
+  initiator?: LogInitiator;
+  /** For compact entries: positions (from 0) of the dropped entries in the log as it was */
+  droppedSequences?: number[];
+  /** For compact entries: hash of the last entry before the log was compacted */
+  previousHeadHash?: string;
+  /** Hash of the entry logged before this one; set while the hash chain is on */
+  prevHash?: string;
+  /** SHA-256 of this entry, prevHash included, without the hash itself */
+  hash?: string;
+}
+
+/** Fields the log can be sorted by */
+export type LogSortField = 'timestamp' | 'fileSize' | 'filePath';
+
+/**
+ * One page request against the graveyard log
+ * Every filter is optional; unset filters match everything.
+ */
+export interface LogQuery {
+  actionType?: ActionType;
+  /** ISO dates bounding the entry timestamp, both inclusive */
+  startDate?: string;
+  endDate?: string;
+  /** Case-insensitive text looked for in the file, original and graveyard paths */
+  search?: string;
+  classification?: MonsterType;
+  /** Bounds on the logged file size in bytes, both inclusive */
+  minSize?: number;
+  maxSize?: number;
+  sessionId?: string;
+  /** Defaults to newest first */
+  sortBy?: LogSortField;
+  sortOrder?: 'asc' | 'desc';
+  /** nextCursor of the previous page; unset for the first page */
+  cursor?: string;
+  /** Page size (defaults to LOG_QUERY_DEFAULT_LIMIT, capped at LOG_QUERY_MAX_LIMIT) */
+  limit?: number;
+}
+
+export const LOG_QUERY_DEFAULT_LIMIT = 50;
+export const LOG_QUERY_MAX_LIMIT = 500;
+
+/**
+ * One page of log entries with totals over everything the filters match
+ */
+export interface LogQueryResult {
+  entries: LogEntry[];
+  /** Cursor for the next page; unset on the last page */
+  nextCursor?: string;
+  /** Entries matching the filters, across all pages */
+  totalCount: number;
+  /** Matching entries per action */
+  actionCounts: Partial<Record<ActionType, number>>;
+  /** Sum of the logged file sizes of matching entries */
+  totalSize: number;
+}
+
+/**
+ * Where the hash chain of the log first fails to check out
+ */
+export interface LogChainBreak {
+  /** Position of the entry in logged order, from 0 */
+  index: number;
+  timestamp: string;
+  filePath: string;
+  /** The entry was changed, does not link to the entry before it, or lost its hashes */
+  reason: 'hash-mismatch' | 'link-mismatch' | 'unchained';
+  detail: string;
+}
+
+/**
+ * Outcome of checking the hash chain of the log
+ * 'unchained' means no entry has been logged with the chain on.
+ */
+export interface LogChainVerification {
+  status: 'verified' | 'broken' | 'unchained';
+  /** Entries in the log */
+  entryCount: number;
+  /** Chained entries checked before the first break, or all of them */
+  chainedCount: number;
+  /** Hash of the last chained entry that checked out */
+  headHash?: string;
+  firstBreak?: LogChainBreak;
+}
+
+/**
+ * Log export signed with the app's Ed25519 key
+ * The signature covers every other field, serialized as canonical JSON.
+ */
+export interface SignedLogExport {
+  format: 'digital-exorcist-log';
+  version: 1;
+  exportedAt: string;
+  entries: LogEntry[];
+  verification: LogChainVerification;
+  algorithm: 'ed25519';
+  /** SPKI PEM of the signing key */
+  publicKey: string;
+  /** Base64 signature */
+  signature: string;
+}
+
+// Outcome of writing a signed log export
+export interface LogExportResult {
+  success: boolean;
+  filePath?: string;
+  entryCount: number;
+  verification?: LogChainVerification;
+  /** SHA-256 of the public key, for comparing against the app's key */
+  keyFingerprint?: string;
+  error?: string;
+}
+
+/**
+ * Totals for one session in the log
+ */
+export interface LogSession {
+  sessionId: string;
+  scanRoot?: string;
+  /** Mode of the session's first entry that has one */
+  mode?: SessionMode;
+  /** Timestamps of the session's first and last entries */
+  startedAt: string;
+  endedAt: string;
+  banishedCount: number;
+  restoredCount: number;
+  resurrectedCount: number;
+  /** Bytes banished and restored in the session */
+  banishedSize: number;
+  restoredSize: number;
 }
 
 export interface ScanProgress {
   filesScanned: number;
   currentPath: string;
+  /** Hashes served from the persistent scan index (hashing phase only) */
+  cacheHits?: number;
+  /** Hashes that had to be computed from disk (hashing phase only) */
+  cacheMisses?: number;
 }
 
 export interface BanishResult {
@@ -57,6 +239,115 @@ export interface RestoreResult {
   success: boolean;
   restoredPath: string;
   error?: string;
+  /** The restore was skipped because of a conflict */
+  skipped?: boolean;
+  /** Graveyard path the file that was in the way was moved to, when overwriting */
+  displacedTo?: string;
+}
+
+/**
+ * What to do when something already exists where a file is being restored
+ * - fail: refuse the restore (the default)
+ * - skip: leave both where they are
+ * - rename: restore next to it as "name (restored).ext"
+ * - overwrite: move the existing file into the graveyard, then restore
+ * - keep-newer: overwrite only when the restored file is newer, otherwise skip
+ */
+export type RestoreConflictStrategy = 'fail' | 'skip' | 'rename' | 'overwrite' | 'keep-newer';
+
+/**
+ * Which graveyard entries a bulk restore covers; all given criteria must match
+ */
+export interface BulkRestoreSelection {
+  /** Specific entries, by graveyard path */
+  graveyardPaths?: string[];
+  /** Every entry from one banish session */
+  sessionId?: string;
+  /** Banished at or after this time (ISO string) */
+  startDate?: string;
+  /** Banished at or before this time (ISO string) */
+  endDate?: string;
+  /** Entries banished with this classification */
+  classification?: MonsterType;
+}
+
+export interface BulkRestoreRequest {
+  selection: BulkRestoreSelection;
+  /** Folder to restore into, keeping each entry's layout below its scan root; original paths when unset */
+  targetDir?: string;
+  /** What to do where something already exists (default: fail that entry) */
+  strategy?: RestoreConflictStrategy;
+}
+
+export interface BulkRestoreProgress {
+  current: number;
+  total: number;
+  /** Path the entry being restored is going to */
+  currentPath: string;
+}
+
+export interface BulkRestoreResult {
+  success: boolean;
+  restoredCount: number;
+  skippedCount: number;
+  /** Where each restored entry went */
+  restored: Array<{ graveyardPath: string; restoredPath: string }>;
+  errors: Array<{ path: string; error: string }>;
+}
+
+/**
+ * What a graveyard audit can find
+ * - orphan: stored in the graveyard with no live record in the log or manifest
+ * - missing: recorded as in the graveyard, but gone from it
+ * - double-restore: restored more than once according to the log
+ */
+export type GraveyardAuditIssueKind = 'orphan' | 'missing' | 'double-restore';
+
+export interface GraveyardAuditIssue {
+  kind: GraveyardAuditIssueKind;
+  graveyardPath: string;
+  /** Where the entry came from, when any record says so */
+  originalPath?: string;
+  /** Bytes stored, for orphans */
+  size?: number;
+  /** Backend storing an orphan */
+  backend?: GraveyardBackendId;
+  detail: string;
+}
+
+export interface GraveyardAuditReport {
+  checkedAt: string;
+  /** Entries the log and manifest say are in the graveyard */
+  heldCount: number;
+  issues: GraveyardAuditIssue[];
+}
+
+/**
+ * Repairs offered after an audit
+ * - reindex-orphans: record orphans so they show up and can be restored
+ * - mark-missing: log missing entries as gone and drop their records
+ * - compact-log: drop duplicate entries and restores of entries that were not in the graveyard
+ */
+export type GraveyardRepairAction = 'reindex-orphans' | 'mark-missing' | 'compact-log';
+
+export interface GraveyardRepairResult {
+  success: boolean;
+  action: GraveyardRepairAction;
+  /** Orphans re-indexed, entries marked missing, or log entries removed */
+  repairedCount: number;
+  errors: Array<{ path: string; error: string }>;
+}
+
+/**
+ * A restore whose original location is taken, as previewed before restoring
+ */
+export interface RestoreConflict {
+  graveyardPath: string;
+  originalPath: string;
+  /** What is at the original location now */
+  existing: { size: number; mtimeMs: number; isDirectory: boolean };
+  /** The graveyard entry; mtime is unknown for entries banished before metadata was recorded */
+  incoming: { size: number; mtimeMs?: number };
 }
 
 // File inspection types for Gemini AI integration
@@ -95,6 +386,10 @@ export interface UndoResult {
   success: boolean;
   restoredPath?: string;
   error?: string;
+  /** The undo was skipped because of a conflict */
+  skipped?: boolean;
+  /** Graveyard path the file that was in the way was moved to */
+  displacedTo?: string;
 }
 
 // Swift Purge Types - Tool Mode
@@ -104,8 +399,21 @@ export interface SwiftPurgeFileEntry {
   size: number;
   lastModified: Date;
   hash?: string;
-  classification: 'ghost' | 'zombie' | 'demon';
+  /** Primary classification (DEMON > ZOMBIE > WRAITH > PHANTOM > GHOST) */
+  classification: MonsterType;
+  /** Every classification that applies, highest priority first */
+  classifications: MonsterType[];
   duplicateOf?: string; // For zombies, the path of the "primary" file
+  /** Device, inode and hard-link count, used to count only space that is actually freed */
+  dev?: number;
+  ino?: number;
+  nlink?: number;
+  /** Set for empty-directory wraiths */
+  isDirectory?: boolean;
+  /** Set for phantoms (broken symbolic links): the target stored in the link */
+  linkTarget?: string;
+  /** Custom monster types matched by rules in monster-rules.json */
+  customClassifications?: CustomMonsterDefinition[];
 }
 
 export interface SwiftPurgeScanResult {
@@ -115,10 +423,16 @@ export interface SwiftPurgeScanResult {
   totalFilesScanned: number;
   totalBytes: number;
   limitReached: boolean;
+  /** Number of files and directories skipped by ignore rules */
+  prunedCount: number;
+  /** Bytes actually read from disk for duplicate detection */
+  bytesRead: number;
   counts: {
     ghosts: number;
     zombies: number;
     demons: number;
+    wraiths: number;
+    phantoms: number;
   };
 }
 
@@ -136,6 +450,173 @@ export interface SwiftPurgeScanProgress {
   filesScanned: number;
   currentPath: string;
   phase: 'scanning' | 'hashing' | 'classifying' | 'executing';
+  /** Hashes served from the persistent scan index */
+  cacheHits?: number;
+  /** Hashes that had to be computed from disk */
+  cacheMisses?: number;
+}
+
+// Application settings persisted in .digital-exorcist/settings.json
+export interface AppSettings {
+  /** Global gitignore-style patterns excluded from every scan */
+  ignorePatterns: string[];
+  /** Maximum number of worker threads used for walking and hashing */
+  scanConcurrency: number;
+  /** Whether scans descend into symlinked directories */
+  followSymlinks: boolean;
+  /** When graveyard entries are permanently deleted */
+  retention: RetentionPolicy;
+  /** Where banished files go */
+  graveyardBackend: GraveyardBackendId;
+  /** Chain every new log entry to the one before it; turning it off later breaks verification */
+  hashChainLog: boolean;
+}
+
+// Storage for banished files: the app's own graveyard_trash folder, the
+// desktop Trash as specified by freedesktop.org (Linux), compressed chunked
+// archives that actually free disk space, or a content-addressed store that
+// keeps identical files once
+export type GraveyardBackendId = 'folder' | 'freedesktop-trash' | 'archive' | 'content-store';
+
+// Graveyard retention; a null limit is not enforced
+export interface RetentionPolicy {
+  /** Entries banished longer ago than this are reaped */
+  maxAgeDays: number | null;
+  /** Oldest entries are reaped until the graveyard fits in this many bytes */
+  maxTotalBytes: number | null;
+  /** Reap automatically when the app starts, without asking */
+  reapOnStartup: boolean;
+}
+
+// A graveyard entry the reaper would permanently delete
+export interface ReapCandidate {
+  graveyardPath: string;
+  originalPath: string;
+  banishedAt: string;
+  /**
+   * Bytes deleting the entry frees, after the candidates before it; a blob
+   * shared in the content store counts only with its last reference
+   */
+  size: number;
+  /** Which limit selected the entry */
+  reason: 'age' | 'size';
+}
+
+// What a reap would delete, oldest first
+export interface ReapPlan {
+  candidates: ReapCandidate[];
+  /** Exact bytes freed by deleting every candidate */
+  totalBytes: number;
+  /** Bytes held by the whole graveyard */
+  graveyardBytes: number;
+}
+
+// Outcome of a reap
+export interface ReapResult {
+  success: boolean;
+  purgedCount: number;
+  bytesFreed: number;
+  errors: Array<{ path: string; error: string }>;
+  error?: string;
+}
+
+// Where the data root comes from: environment override, user choice or Electron's userData
+export type DataRootSource = 'env' | 'configured' | 'default';
+
+// Location of logs, whitelist, settings and the graveyard
+export interface DataRootInfo {
+  /** Data root used by the running app */
+  activeRoot: string;
+  /** Data root the next launch will use */
+  nextRoot: string;
+  /** Where nextRoot comes from */
+  source: DataRootSource;
+  /** Electron's userData directory, used when nothing else is configured */
+  defaultRoot: string;
+  /** Why the running app fell back to the default root at startup */
+  startupError?: string;
+}
+
+// Classification thresholds shared by FileClassifier and SwiftPurgeScanner
+export interface ClassificationConfig {
+  /** Files not modified for this many months are Ghosts */
+  ghostAgeMonths: number;
+  /** Files larger than this are Demons */
+  demonSizeBytes: number;
+  /** Extensions (with leading dot) that become Demons once they are old enough */
+  demonExtensions: string[];
+  /** Age in months after which a file with a demon extension is a Demon */
+  demonExtAgeMonths: number;
+}
+
+export const DEFAULT_CLASSIFICATION_CONFIG: ClassificationConfig = {
+  ghostAgeMonths: 6,
+  demonSizeBytes: 500 * 1024 * 1024, // 500MB
+  demonExtensions: ['.iso', '.zip', '.rar', '.7z', '.mp4', '.mkv', '.avi', '.mov', '.dmg', '.tar', '.gz'],
+  demonExtAgeMonths: 3
+};
+
+export interface ClassificationProfile {
+  name: string;
+  config: ClassificationConfig;
+}
+
+// Classification profiles persisted in .digital-exorcist/classification-profiles.json
+export interface ClassificationProfiles {
+  profiles: ClassificationProfile[];
+  /** Profile used for scan targets without an assignment */
+  defaultProfile: string;
+  /** Scan target path → profile name; applies to the target and everything below it */
+  targetProfiles: Record<string, string>;
+}
+
+export interface ClassificationProfilesResult {
+  success: boolean;
+  profiles: ClassificationProfiles;
+  error?: string;
+}
+
+// Custom monster types declared in .digital-exorcist/monster-rules.json
+export interface CustomMonsterDefinition {
+  /** Unique identifier referenced by rules, e.g. "screenshot-swarm" */
+  type: string;
+  /** Display name shown on cards */
+  label: string;
+  /** CSS color for badges and glow */
+  color?: string;
+  /** Emoji or short text shown instead of a monster image */
+  icon?: string;
+  description?: string;
+}
+
+/**
+ * Conditions of a monster rule; every condition that is set must match
+ */
+export interface MonsterRuleMatch {
+  /** Glob tested against the path relative to the scan root; a glob without "/" matches the file name */
+  pathGlob?: string;
+  /** Extensions with leading dot, case-insensitive */
+  extensions?: string[];
+  minSizeBytes?: number;
+  maxSizeBytes?: number;
+  /** Days since last modification */
+  minAgeDays?: number;
+  maxAgeDays?: number;
+  /** MIME types derived from the extension; "image/*" style wildcards allowed */
+  mimeTypes?: string[];
+  /** true matches duplicate copies (zombies), false matches files that are not */
+  duplicate?: boolean;
+}
+
+export interface MonsterRule {
+  /** Type of the custom monster this rule produces */
+  monster: string;
+  match: MonsterRuleMatch;
+}
+
+export interface MonsterRuleSet {
+  monsters: CustomMonsterDefinition[];
+  rules: MonsterRule[];
 }
 
 // IPC Channel names
@@ -149,7 +630,17 @@ export const IPC_CHANNELS = {
   BANISH_FILE: 'banish-file',
   RESURRECT_FILE: 'resurrect-file',
   RESTORE_FILE: 'restore-file',
+  PREVIEW_RESTORE_CONFLICTS: 'preview-restore-conflicts',
+  BULK_RESTORE: 'bulk-restore',
+  BULK_RESTORE_PROGRESS: 'bulk-restore-progress',
+  // Graveyard audit channels
+  AUDIT_GRAVEYARD: 'audit-graveyard',
+  REPAIR_GRAVEYARD: 'repair-graveyard',
   GET_LOG_ENTRIES: 'get-log-entries',
+  GET_LOG_SESSIONS: 'get-log-sessions',
+  QUERY_LOG_ENTRIES: 'query-log-entries',
+  VERIFY_LOG_CHAIN: 'verify-log-chain',
+  EXPORT_SIGNED_LOG: 'export-signed-log',
   GET_WHITELIST: 'get-whitelist',
   REMOVE_FROM_WHITELIST: 'remove-from-whitelist',
   GET_GRAVEYARD_FILES: 'get-graveyard-files',
@@ -160,5 +651,19 @@ export const IPC_CHANNELS = {
   SWIFT_PURGE_EXECUTE: 'swift-purge-execute',
   SWIFT_PURGE_PROGRESS: 'swift-purge-progress',
   SWIFT_PURGE_UNDO: 'swift-purge-undo',
+  // Settings channels
+  GET_SETTINGS: 'get-settings',
+  UPDATE_SETTINGS: 'update-settings',
+  GET_CLASSIFICATION_PROFILES: 'get-classification-profiles',
+  SAVE_CLASSIFICATION_PROFILE: 'save-classification-profile',
+  DELETE_CLASSIFICATION_PROFILE: 'delete-classification-profile',
+  SET_DEFAULT_CLASSIFICATION_PROFILE: 'set-default-classification-profile',
+  ASSIGN_TARGET_PROFILE: 'assign-target-profile',
+  // Graveyard retention channels
+  PREVIEW_GRAVEYARD_REAP: 'preview-graveyard-reap',
+  REAP_GRAVEYARD: 'reap-graveyard',
+  // Data root channels
+  GET_DATA_ROOT: 'get-data-root',
+  SET_DATA_ROOT: 'set-data-root',
   ERROR: 'error'
 } as const;
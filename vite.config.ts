@@ -22,6 +22,18 @@ export default defineConfig({
           }
         }
       },
+      {
+        // Worker thread entry for ScanWorkerPool, emitted next to main.js
+        entry: 'src/main/scanWorker.ts',
+        vite: {
+          build: {
+            outDir: 'dist-electron',
+            rollupOptions: {
+              external: ['electron']
+            }
+          }
+        }
+      },
       {
         entry: 'src/preload/preload.ts',
         onstart(options) {